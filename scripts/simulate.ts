@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Runs the game headlessly for quick balance checks:
+//   npm run simulate -- [EASY|NORMAL|HARD|ENDLESS] [levels] [seed]
+// The pilot holds fire and sweeps left and right across the screen. ENDLESS plays an
+// endless run until the pilot goes down; `levels` is ignored.
+
+import { poolUsage } from '../src/game/pool';
+import { createWorld, startNextLevel, step } from '../src/game/simulation';
+import type { Difficulty, GameMode, PlayerInput } from '../src/game/types';
+
+const mode: GameMode = process.argv[2] === 'ENDLESS' ? 'endless' : 'campaign';
+const difficulty = (mode === 'endless' ? 'NORMAL' : process.argv[2] ?? 'NORMAL') as Difficulty;
+const levels = Number(process.argv[3] ?? 3);
+const seed = process.argv[4] === undefined ? undefined : Number(process.argv[4]);
+
+const world = createWorld({ width: 800, height: 600, difficulty, mode, seed });
+const kills: Record<string, number> = {};
+let hits = 0;
+let milestones = 0;
+
+while (world.status !== 'GAMEOVER') {
+  const sweepRight = Math.floor(world.tick / 120) % 2 === 0;
+  const input: PlayerInput = { left: !sweepRight, right: sweepRight, up: false, down: false, fire: true, bomb: false, special: false, charge: false, pointer: null, move: null };
+  for (const event of step(world, [input])) {
+    if (event.type === 'enemyKilled') kills[event.enemy] = (kills[event.enemy] ?? 0) + 1;
+    if (event.type === 'playerHit') hits += 1;
+    if (event.type === 'milestone') milestones += 1;
+  }
+  if (world.status === 'LEVEL_COMPLETE') {
+    if (world.level >= levels) break;
+    startNextLevel(world);
+  }
+}
+
+console.log(JSON.stringify({
+  mode,
+  difficulty,
+  seed: world.seed,
+  status: world.status,
+  level: world.level,
+  score: world.score,
+  stardust: world.stardust,
+  ticks: world.tick,
+  hits,
+  milestones,
+  kills,
+  pools: poolUsage(world),
+}, null, 2));
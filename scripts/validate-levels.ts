@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Checks a level pack against the schema and prints every problem found:
+//   npm run validate-levels -- [path/to/levels.json]
+
+import { readFileSync } from 'fs';
+import { LevelValidationError, validateLevelPack } from '../src/game/levels';
+
+const path = process.argv[2] ?? 'src/data/levels.json';
+
+try {
+  const pack = validateLevelPack(JSON.parse(readFileSync(path, 'utf8')));
+  console.log(`${path}: ${pack.levels.length} levels OK`);
+} catch (err) {
+  if (err instanceof LevelValidationError || err instanceof SyntaxError) {
+    console.error(`${path}: ${err.message}`);
+    process.exit(1);
+  }
+  throw err;
+}
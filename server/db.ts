@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+// --- Database ---
+// Schema changes are numbered SQL steps applied in order; `schema_migrations` records
+// which ones a database already has, so an existing file is upgraded in place on start.
+// Never edit a step that has shipped; add a new one.
+
+const MIGRATIONS: string[] = [
+  `CREATE TABLE scores (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    name_key TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    level INTEGER NOT NULL,
+    difficulty TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX scores_board ON scores (difficulty, score DESC, id);
+  CREATE INDEX scores_player ON scores (difficulty, name_key);`,
+  // Runs are verified by replaying them; keep the replay with accepted scores for audits
+  // and log refused submissions with the reason.
+  `ALTER TABLE scores ADD COLUMN replay TEXT;
+  CREATE TABLE rejected_scores (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    level INTEGER NOT NULL,
+    difficulty TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    detail TEXT NOT NULL,
+    replay TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );`,
+  // Boards can be filtered by ship; everything before ships flew the pioneer.
+  `ALTER TABLE scores ADD COLUMN ship TEXT NOT NULL DEFAULT 'pioneer';
+  ALTER TABLE rejected_scores ADD COLUMN ship TEXT NOT NULL DEFAULT 'pioneer';
+  CREATE INDEX scores_ship_board ON scores (difficulty, ship, score DESC, id);`,
+];
+
+const migrate = (db: Database.Database) => {
+  db.exec('CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, applied_at TEXT NOT NULL)');
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+  const current = row.version ?? 0;
+  if (current > MIGRATIONS.length) {
+    throw new Error(`Database schema v${current} is newer than this server (v${MIGRATIONS.length})`);
+  }
+
+  const record = db.prepare('INSERT INTO schema_migrations (version, applied_at) VALUES (?, ?)');
+  MIGRATIONS.slice(current).forEach((sql, i) => {
+    const version = current + i + 1;
+    db.transaction(() => {
+      db.exec(sql);
+      record.run(version, new Date().toISOString());
+    })();
+    console.log(`Applied database migration ${version}`);
+  });
+};
+
+/** Opens (creating if needed) the database at `file` and brings its schema up to date. */
+export const openDatabase = (file: string) => {
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  migrate(db);
+  return db;
+};
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Leaderboard server: serves the built game from dist/, the score API under /api and the
+// online co-op relay (rooms.ts) on /relay.
+//   npm run build && npm run server
+// PORT (default 3001) and LEADERBOARD_DB (default data/leaderboard.db) can be set in .env.
+
+import 'dotenv/config';
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import { normalizeName, parseQuery, parseSubmission } from '../src/game/leaderboard';
+import { openDatabase } from './db';
+import { attachRelay } from './rooms';
+import { createScoreStore, type ScoreStore } from './scores';
+import { createVerifier, type Verifier } from './verifier';
+
+const PORT = Number(process.env.PORT) || 3001;
+const DB_FILE = process.env.LEADERBOARD_DB ?? path.resolve('data', 'leaderboard.db');
+const DIST_DIR = path.resolve('dist');
+
+/** Runs `handler`, answering 400 with its message when it throws on bad input. */
+const badRequest = (res: express.Response, handler: () => void) => {
+  try {
+    handler();
+  } catch (err) {
+    res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+  }
+};
+
+const createApp = (store: ScoreStore, verifier: Verifier) => {
+  const app = express();
+  // Submissions carry the run's whole input log; long mouse-driven runs get large.
+  app.use(express.json({ limit: '8mb' }));
+
+  app.get('/api/health', (_req, res) => {
+    res.json({ ok: true });
+  });
+
+  app.get('/api/scores', (req, res) => badRequest(res, () => {
+    res.json(store.list(parseQuery(req.query)));
+  }));
+
+  app.post('/api/scores', (req, res) => badRequest(res, () => {
+    const receivedAt = Date.now();
+    const submission = parseSubmission(req.body);
+    if (verifier.busy()) {
+      res.status(503).json({ error: 'Too many runs waiting to be verified; try again shortly' });
+      return;
+    }
+    verifier.verify(submission, receivedAt).then(failure => {
+      if (!failure) {
+        res.status(201).json(store.submit(submission));
+      } else {
+        store.reject(submission, failure.reason, failure.detail);
+        console.warn(`Rejected score from ${submission.name}: ${failure.reason} (${failure.detail})`);
+        res.status(422).json({ error: failure.detail, reason: failure.reason });
+      }
+    }).catch(err => {
+      console.error(`Could not verify the run from ${submission.name}:`, err);
+      if (!res.headersSent) res.status(500).json({ error: 'Verification failed on the server' });
+    });
+  }));
+
+  app.get('/api/scores/rejected', (req, res) => badRequest(res, () => {
+    const { limit, offset } = parseQuery(req.query);
+    res.json(store.rejections(limit, offset));
+  }));
+
+  app.get('/api/scores/rank', (req, res) => badRequest(res, () => {
+    const name = typeof req.query.name === 'string' ? normalizeName(req.query.name) : '';
+    if (!name) throw new Error('name is required');
+    const rank = store.rank(name, parseQuery(req.query));
+    if (rank) res.json(rank);
+    else res.status(404).json({ error: `No scores for ${name}` });
+  }));
+
+  if (fs.existsSync(DIST_DIR)) {
+    app.use(express.static(DIST_DIR));
+    app.get(/^(?!\/api\/).*/, (_req, res) => res.sendFile(path.join(DIST_DIR, 'index.html')));
+  } else {
+    console.warn('dist/ not found; run `npm run build` to serve the game. Only the API is available.');
+  }
+  return app;
+};
+
+const store = createScoreStore(openDatabase(DB_FILE));
+const server = createApp(store, createVerifier()).listen(PORT, () => {
+  console.log(`Leaderboard server on http://localhost:${PORT} (database: ${DB_FILE})`);
+});
+attachRelay(server);
@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Standalone online co-op relay, to run next to the Vite dev server, which proxies /relay to it.
+//   npm run relay
+// RELAY_PORT (default 3002) can be set in .env. The leaderboard server (npm run server)
+// carries the same relay, so a built game served from it needs nothing else.
+
+import 'dotenv/config';
+import http from 'http';
+import { RELAY_PATH } from '../src/game/relay';
+import { attachRelay } from './rooms';
+
+const PORT = Number(process.env.RELAY_PORT) || 3002;
+
+const server = http.createServer((_req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end(`WebSocket connections only, on ${RELAY_PATH}\n`);
+});
+attachRelay(server);
+server.listen(PORT, () => {
+  console.log(`Co-op relay on ws://localhost:${PORT}${RELAY_PATH}`);
+});
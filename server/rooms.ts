@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomBytes, randomInt } from 'crypto';
+import type { Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { MAX_PLAYERS } from '../src/game/constants';
+import {
+  createRoomCode,
+  isRoomCode,
+  MAX_MESSAGE_BYTES,
+  parseClientMessage,
+  REJOIN_GRACE_MS,
+  RELAY_PATH,
+  type ClientMessage,
+  type RelayMessage,
+  type RoomError,
+} from '../src/game/relay';
+
+// --- Rooms ---
+// The relay behind online co-op. A client creates a room and gets a join code to pass on;
+// a second client joins with it. From then on the relay forwards `peer` messages between
+// the two without reading them. A dropped seat is held for REJOIN_GRACE_MS, so a client
+// whose connection blips can take it back with its token and the run carries on.
+
+/** How often connections are pinged; one that hasn't answered since the last ping is dropped. */
+const HEARTBEAT_MS = 10_000;
+
+interface Seat {
+  token: string;
+  socket: WebSocket | null;
+  /** Closes the room if the seat isn't taken back in time; set while it is empty. */
+  expiry: NodeJS.Timeout | null;
+}
+
+interface Room {
+  code: string;
+  seats: Seat[];
+}
+
+interface Client {
+  socket: WebSocket;
+  alive: boolean;
+  room: Room | null;
+  slot: number;
+}
+
+/** Join codes come from the crypto source, so they can't be predicted from earlier ones. */
+const cryptoRandom = () => randomInt(2 ** 30) / 2 ** 30;
+
+const send = (socket: WebSocket | null, message: RelayMessage) => {
+  if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+export const attachRelay = (server: Server) => {
+  const rooms = new Map<string, Room>();
+  const clients = new Set<Client>();
+  const wss = new WebSocketServer({ server, path: RELAY_PATH, maxPayload: MAX_MESSAGE_BYTES });
+
+  const newCode = () => {
+    let code = createRoomCode(cryptoRandom);
+    while (rooms.has(code)) code = createRoomCode(cryptoRandom);
+    return code;
+  };
+
+  const closeRoom = (room: Room) => {
+    room.seats.forEach(seat => {
+      if (seat.expiry) clearTimeout(seat.expiry);
+    });
+    rooms.delete(room.code);
+  };
+
+  /** Tells everyone else in the room. */
+  const broadcast = (room: Room, slot: number, message: RelayMessage) => {
+    room.seats.forEach((seat, s) => {
+      if (s !== slot) send(seat.socket, message);
+    });
+  };
+
+  const seat = (client: Client, room: Room, slot: number) => {
+    client.room = room;
+    client.slot = slot;
+    room.seats[slot].socket = client.socket;
+    const peer = room.seats.some((s, i) => i !== slot && s.socket !== null);
+    send(client.socket, { type: 'room', code: room.code, slot, token: room.seats[slot].token, peer });
+  };
+
+  const refuse = (client: Client, error: RoomError) => send(client.socket, { type: 'error', error });
+
+  const leave = (client: Client) => {
+    const room = client.room;
+    if (!room) return;
+    client.room = null;
+    broadcast(room, client.slot, { type: 'peerLeft' });
+    closeRoom(room);
+  };
+
+  /** The client's connection went away without leaving: hold the seat for a while. */
+  const drop = (client: Client) => {
+    const room = client.room;
+    if (!room) return;
+    client.room = null;
+    const held = room.seats[client.slot];
+    held.socket = null;
+    if (room.seats.every(s => s.socket === null)) {
+      closeRoom(room);
+      return;
+    }
+    broadcast(room, client.slot, { type: 'peerLost' });
+    held.expiry = setTimeout(() => {
+      broadcast(room, client.slot, { type: 'peerLeft' });
+      closeRoom(room);
+    }, REJOIN_GRACE_MS);
+  };
+
+  const handle = (client: Client, message: ClientMessage) => {
+    switch (message.type) {
+      case 'create': {
+        leave(client);
+        const room: Room = { code: newCode(), seats: [] };
+        room.seats.push({ token: randomBytes(16).toString('hex'), socket: null, expiry: null });
+        rooms.set(room.code, room);
+        seat(client, room, 0);
+        break;
+      }
+      case 'join': {
+        leave(client);
+        const room = isRoomCode(message.code) ? rooms.get(message.code) : undefined;
+        if (!room) return refuse(client, 'notFound');
+        if (room.seats.length >= MAX_PLAYERS) return refuse(client, 'full');
+        room.seats.push({ token: randomBytes(16).toString('hex'), socket: null, expiry: null });
+        seat(client, room, room.seats.length - 1);
+        broadcast(room, client.slot, { type: 'peerJoined' });
+        break;
+      }
+      case 'rejoin': {
+        // Any seat but the one being taken back is given up first, so its partner hears of it.
+        const current = client.room;
+        if (current && (current.code !== message.code || current.seats[client.slot].token !== message.token)) leave(client);
+        const room = rooms.get(message.code);
+        const slot = room ? room.seats.findIndex(s => s.token === message.token) : -1;
+        if (!room || slot === -1) return refuse(client, 'expired');
+        const held = room.seats[slot];
+        if (held.socket && held.socket !== client.socket) held.socket.close();
+        if (held.expiry) clearTimeout(held.expiry);
+        held.expiry = null;
+        seat(client, room, slot);
+        broadcast(room, slot, { type: 'peerReturned' });
+        break;
+      }
+      case 'leave':
+        leave(client);
+        break;
+      case 'peer':
+        if (client.room) broadcast(client.room, client.slot, { type: 'peer', data: message.data });
+        break;
+    }
+  };
+
+  wss.on('connection', socket => {
+    const client: Client = { socket, alive: true, room: null, slot: 0 };
+    clients.add(client);
+    socket.on('pong', () => {
+      client.alive = true;
+    });
+    socket.on('message', raw => {
+      try {
+        handle(client, parseClientMessage(JSON.parse(raw.toString())));
+      } catch {
+        refuse(client, 'malformed');
+      }
+    });
+    socket.on('close', () => {
+      clients.delete(client);
+      // A socket replaced by a rejoin no longer owns its seat.
+      if (client.room?.seats[client.slot].socket === socket) drop(client);
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    clients.forEach(client => {
+      if (!client.alive) return client.socket.terminate();
+      client.alive = false;
+      client.socket.ping();
+    });
+  }, HEARTBEAT_MS);
+  wss.on('close', () => clearInterval(heartbeat));
+  return wss;
+};
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { ScoreSubmission } from '../src/game/leaderboard';
+import type { Replay } from '../src/game/replay';
+import type { Difficulty, ShipId } from '../src/game/types';
+import { openDatabase } from './db';
+import { createScoreStore } from './scores';
+
+/** Only what the store reads from a replay; verification is not its concern. */
+const submission = (name: string, score: number, difficulty: Difficulty = 'NORMAL', ship: ShipId = 'pioneer'): ScoreSubmission => ({
+  name,
+  replay: { score, level: 2, difficulty, ships: [ship] } as Replay,
+});
+
+const query = { difficulty: 'NORMAL' as const, window: 'all' as const, limit: 10, offset: 0 };
+
+describe('score store', () => {
+  const store = () => createScoreStore(openDatabase(':memory:'));
+
+  it('ranks scores highest first, earlier entries first on ties', () => {
+    const scores = store();
+    scores.submit(submission('Ada', 500));
+    scores.submit(submission('Bo', 900));
+    scores.submit(submission('Cy', 500));
+    const page = scores.list(query);
+    expect(page.entries.map(e => [e.name, e.rank])).toEqual([['Bo', 1], ['Ada', 2], ['Cy', 3]]);
+    expect(page.total).toBe(3);
+  });
+
+  it('returns each new score with its rank on its board', () => {
+    const scores = store();
+    scores.submit(submission('Ada', 500));
+    expect(scores.submit(submission('Bo', 300)).rank).toBe(2);
+    expect(scores.submit(submission('Cy', 300, 'HARD')).rank).toBe(1);
+  });
+
+  it('pages through a board, keeping ranks absolute', () => {
+    const scores = store();
+    [100, 200, 300, 400, 500].forEach((score, i) => scores.submit(submission(`P${i}`, score)));
+    const page = scores.list({ ...query, limit: 2, offset: 2 });
+    expect(page.entries.map(e => [e.score, e.rank])).toEqual([[300, 3], [200, 4]]);
+    expect(page.total).toBe(5);
+  });
+
+  it('filters boards by difficulty and ship', () => {
+    const scores = store();
+    scores.submit(submission('Ada', 500, 'NORMAL', 'phantom'));
+    scores.submit(submission('Bo', 900, 'NORMAL', 'pioneer'));
+    scores.submit(submission('Cy', 700, 'HARD', 'phantom'));
+    expect(scores.list({ ...query, ship: 'phantom' }).entries.map(e => e.name)).toEqual(['Ada']);
+    expect(scores.list({ ...query, difficulty: 'HARD' }).entries.map(e => e.name)).toEqual(['Cy']);
+  });
+
+  it("finds a player's best rank whatever case they type their name in", () => {
+    const scores = store();
+    scores.submit(submission('Tina', 300));
+    scores.submit(submission('Bo', 900));
+    scores.submit(submission('tina', 600));
+    expect(scores.rank('TINA', query)).toEqual({ name: 'tina', score: 600, rank: 2, total: 3 });
+    expect(scores.rank('Nobody', query)).toBeNull();
+  });
+
+  it('keeps rejected runs off the boards', () => {
+    const scores = store();
+    scores.reject(submission('Cheat', 99999), 'desync', 'Claimed score 99999');
+    expect(scores.list(query).total).toBe(0);
+    expect(scores.rejections(10, 0)).toEqual([expect.objectContaining({ name: 'Cheat', reason: 'desync', detail: 'Claimed score 99999' })]);
+  });
+});
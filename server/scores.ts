@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type Database from 'better-sqlite3';
+import { claimedRecord, windowStart, type LeaderboardPage, type PlayerRank, type ScoreEntry, type ScoreQuery, type ScoreRecord, type ScoreSubmission } from '../src/game/leaderboard';
+import type { RejectionReason } from './verify';
+
+// --- Score Queries ---
+// Ranks follow board order (score descending, then earliest id), so a rank lookup always
+// agrees with the position the entry has in the paged list.
+
+interface ScoreRow {
+  id: number;
+  name: string;
+  score: number;
+  level: number;
+  difficulty: ScoreEntry['difficulty'];
+  ship: ScoreEntry['ship'];
+  created_at: string;
+}
+
+type BoardFilter = Pick<ScoreQuery, 'difficulty' | 'level' | 'ship' | 'window'>;
+
+/** A submission whose replay failed verification, as listed for review. */
+export interface Rejection extends ScoreRecord {
+  id: number;
+  reason: RejectionReason;
+  detail: string;
+  createdAt: string;
+}
+
+/** Board columns; replays stay in the table for audits but are never listed. */
+const COLUMNS = 'id, name, score, level, difficulty, ship, created_at';
+
+/** Names are matched case- and width-insensitively so "Tina" and "tina" are one player. */
+const nameKey = (name: string) => name.normalize('NFKC').toLowerCase();
+
+/** WHERE clause and parameters shared by every query over a board. */
+const filterFor = (query: BoardFilter) => {
+  const clauses = ['difficulty = @difficulty'];
+  const params: Record<string, unknown> = { difficulty: query.difficulty };
+  if (query.level !== undefined) {
+    clauses.push('level = @level');
+    params.level = query.level;
+  }
+  if (query.ship !== undefined) {
+    clauses.push('ship = @ship');
+    params.ship = query.ship;
+  }
+  const since = windowStart(query.window);
+  if (since) {
+    clauses.push('created_at >= @since');
+    params.since = since.toISOString();
+  }
+  return { where: clauses.join(' AND '), params };
+};
+
+export const createScoreStore = (db: Database.Database) => {
+  const insert = db.prepare(
+    'INSERT INTO scores (name, name_key, score, level, difficulty, ship, replay, created_at) VALUES (@name, @nameKey, @score, @level, @difficulty, @ship, @replay, @createdAt)',
+  );
+  const insertRejection = db.prepare(
+    'INSERT INTO rejected_scores (name, score, level, difficulty, ship, reason, detail, replay, created_at) VALUES (@name, @score, @level, @difficulty, @ship, @reason, @detail, @replay, @createdAt)',
+  );
+
+  /** Number of entries placed above the given score/id within a board. */
+  const entriesAbove = (query: BoardFilter, score: number, id: number) => {
+    const { where, params } = filterFor(query);
+    const row = db.prepare(`SELECT COUNT(*) AS n FROM scores WHERE ${where} AND (score > @score OR (score = @score AND id < @id))`)
+      .get({ ...params, score, id }) as { n: number };
+    return row.n;
+  };
+
+  const count = (query: BoardFilter) => {
+    const { where, params } = filterFor(query);
+    return (db.prepare(`SELECT COUNT(*) AS n FROM scores WHERE ${where}`).get(params) as { n: number }).n;
+  };
+
+  return {
+    /** Stores a verified score and returns it with its all-time rank on its difficulty's board, all ships included. */
+    submit: (submission: ScoreSubmission): ScoreEntry => {
+      const record = claimedRecord(submission);
+      const createdAt = new Date().toISOString();
+      const { lastInsertRowid } = insert.run({ ...record, nameKey: nameKey(record.name), replay: JSON.stringify(submission.replay), createdAt });
+      const id = Number(lastInsertRowid);
+      const rank = entriesAbove({ difficulty: record.difficulty, window: 'all' }, record.score, id) + 1;
+      return { ...record, id, rank, createdAt };
+    },
+
+    /** Logs a submission that failed verification; it never appears on a board. */
+    reject: (submission: ScoreSubmission, reason: RejectionReason, detail: string) => {
+      insertRejection.run({
+        ...claimedRecord(submission),
+        reason,
+        detail,
+        replay: JSON.stringify(submission.replay),
+        createdAt: new Date().toISOString(),
+      });
+    },
+
+    /** Most recent rejections first, without their replays. */
+    rejections: (limit: number, offset: number): Rejection[] =>
+      (db.prepare('SELECT id, name, score, level, difficulty, ship, reason, detail, created_at FROM rejected_scores ORDER BY id DESC LIMIT ? OFFSET ?')
+        .all(limit, offset) as (Omit<Rejection, 'createdAt'> & { created_at: string })[])
+        .map(({ created_at, ...row }) => ({ ...row, createdAt: created_at })),
+
+    list: (query: ScoreQuery): LeaderboardPage => {
+      const { where, params } = filterFor(query);
+      const rows = db.prepare(`SELECT ${COLUMNS} FROM scores WHERE ${where} ORDER BY score DESC, id ASC LIMIT @limit OFFSET @offset`)
+        .all({ ...params, limit: query.limit, offset: query.offset }) as ScoreRow[];
+      return {
+        entries: rows.map((row, i) => ({
+          id: row.id,
+          name: row.name,
+          score: row.score,
+          level: row.level,
+          difficulty: row.difficulty,
+          ship: row.ship,
+          createdAt: row.created_at,
+          rank: query.offset + i + 1,
+        })),
+        total: count(query),
+      };
+    },
+
+    /** Where a player's best entry stands on a board. */
+    rank: (name: string, query: BoardFilter): PlayerRank | null => {
+      const { where, params } = filterFor(query);
+      const best = db.prepare(`SELECT ${COLUMNS} FROM scores WHERE ${where} AND name_key = @nameKey ORDER BY score DESC, id ASC LIMIT 1`)
+        .get({ ...params, nameKey: nameKey(name) }) as ScoreRow | undefined;
+      if (!best) return null;
+      return { name: best.name, score: best.score, rank: entriesAbove(query, best.score, best.id) + 1, total: count(query) };
+    },
+  };
+};
+
+export type ScoreStore = ReturnType<typeof createScoreStore>;
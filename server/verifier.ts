@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Worker } from 'worker_threads';
+import type { ScoreSubmission } from '../src/game/leaderboard';
+import type { VerificationFailure } from './verify';
+import type { VerifyJob, VerifyResult } from './verifyWorker';
+
+// --- Verification Queue ---
+// Replaying a long run takes seconds of CPU, and the API and the co-op relay share one
+// event loop, so submissions are verified on a worker thread (verifyWorker.ts) in the order
+// they arrive. A worker that dies fails the runs it held and is replaced.
+
+/** Submissions waiting or being verified; more than this are turned away until the queue drains. */
+const MAX_PENDING = 16;
+
+const WORKER_URL = new URL('./verifyWorker.ts', import.meta.url);
+/** The server runs under tsx, which a worker thread has to register again before it can load TypeScript. */
+const WORKER_BOOT = `import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(WORKER_URL.href)}); });`;
+
+interface PendingJob {
+  resolve: (failure: VerificationFailure | null) => void;
+  reject: (err: Error) => void;
+}
+
+export interface Verifier {
+  /** Whether the queue is full, so a new submission should be refused for now. */
+  busy: () => boolean;
+  /** Verifies a submission the server received at `receivedAt` (its own clock, in ms). */
+  verify: (submission: ScoreSubmission, receivedAt: number) => Promise<VerificationFailure | null>;
+}
+
+export const createVerifier = (): Verifier => {
+  const pending = new Map<number, PendingJob>();
+  let nextId = 0;
+
+  const failAll = (err: Error) => {
+    pending.forEach(job => job.reject(err));
+    pending.clear();
+  };
+
+  const spawn = (): Worker => {
+    const w = new Worker(WORKER_BOOT, { eval: true });
+    w.on('message', ({ id, failure, error }: VerifyResult) => {
+      const job = pending.get(id);
+      if (!job) return;
+      pending.delete(id);
+      if (error) job.reject(new Error(error));
+      else job.resolve(failure);
+    });
+    w.on('error', err => failAll(err));
+    // The next submission starts a fresh worker.
+    w.on('exit', code => {
+      failAll(new Error(`Verification worker exited with code ${code}`));
+      worker = null;
+    });
+    return w;
+  };
+  let worker: Worker | null = null;
+
+  return {
+    busy: () => pending.size >= MAX_PENDING,
+    verify: (submission, receivedAt) => new Promise((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject });
+      const job: VerifyJob = { id, submission, receivedAt };
+      worker ??= spawn();
+      worker.postMessage(job);
+    }),
+  };
+};
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { TICK_MS } from '../src/game/constants';
+import { createRecorder, finishRecording, recordInput, type Replay } from '../src/game/replay';
+import { createWorld, NO_INPUT, step } from '../src/game/simulation';
+import type { PlayerInput } from '../src/game/types';
+import { verifySubmission } from './verify';
+
+/** Records a solo EASY run until it is over, or stops recording after `maxTicks`. */
+const recordRun = (inputAt: (tick: number) => Partial<PlayerInput>, maxTicks = 20000): Replay => {
+  const world = createWorld({ width: 800, height: 600, difficulty: 'EASY', seed: 7 });
+  const recorder = createRecorder(world);
+  while (world.status === 'PLAYING' && world.tick < maxTicks) {
+    const frame = [{ ...NO_INPUT, ...inputAt(world.tick) }];
+    recordInput(recorder, frame);
+    step(world, frame);
+  }
+  return finishRecording(recorder, world);
+};
+
+/** Sweeps side to side firing; loses on level 1 on this seed. */
+const sweeping = (tick: number) => ({ fire: true, left: tick % 240 < 120, right: tick % 240 >= 120 });
+
+/** Received a minute after the run could have ended. */
+const receivedAfter = (replay: Replay) => Date.parse(replay.recordedAt) + replay.ticks * TICK_MS + 60_000;
+
+const verify = (replay: Replay, receivedAt = receivedAfter(replay)) => verifySubmission({ name: 'Tina', replay }, receivedAt);
+
+describe('verifySubmission', () => {
+  const honest = recordRun(sweeping);
+
+  it('accepts a run whose replay ends on the claimed score and level', () => {
+    expect(honest.ticks).toBeGreaterThan(0);
+    expect(verify(honest)).toBeNull();
+  });
+
+  it('rejects a claimed score the replay does not reach', () => {
+    expect(verify({ ...honest, score: honest.score + 100 })?.reason).toBe('desync');
+    expect(verify({ ...honest, level: honest.level + 1 })?.reason).toBe('desync');
+  });
+
+  it('rejects a run cut short of its game over', () => {
+    const cut = recordRun(sweeping, 600);
+    expect(verify({ ...cut, score: honest.score, level: honest.level })?.reason).toBe('desync');
+  });
+
+  it('times the run by when the server received it, not by any client clock', () => {
+    const sentEarly = Date.parse(honest.recordedAt) + honest.ticks * TICK_MS / 2;
+    expect(verify(honest, sentEarly)?.reason).toBe('timer');
+    expect(verify({ ...honest, recordedAt: 'yesterday' })?.reason).toBe('timer');
+  });
+
+  it('rejects turbo fire', () => {
+    expect(verify(recordRun(tick => ({ fire: tick % 2 === 0 })))?.reason).toBe('input-rate');
+  });
+
+  it('counts the charge and special buttons', () => {
+    expect(verify(recordRun(tick => ({ fire: true, charge: tick % 2 === 0 })))?.reason).toBe('input-rate');
+    expect(verify(recordRun(tick => ({ fire: true, special: tick % 2 === 0 })))?.reason).toBe('input-rate');
+  });
+
+  it('counts a stick flicked back and forth', () => {
+    const flicked = recordRun(tick => ({ fire: true, move: { x: tick % 4 < 2 ? 100 : -100, y: 0 } }));
+    expect(verify(flicked)?.reason).toBe('input-rate');
+  });
+
+  it('counts a pointer jittering back and forth, but not a smooth sweep or a shaky hand', () => {
+    const jitter = recordRun(tick => ({ fire: true, pointer: { x: 400 + (tick % 2) * 10, y: 500 } }));
+    expect(verify(jitter)?.reason).toBe('input-rate');
+    const smooth = recordRun(tick => ({ fire: true, pointer: { x: 400 + Math.round(250 * Math.sin(tick / 30)), y: 500 + (tick % 2) } }));
+    expect(verify(smooth)?.reason).not.toBe('input-rate');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TICK_MS, TICK_RATE } from '../src/game/constants';
+import type { ScoreSubmission } from '../src/game/leaderboard';
+import { createPlayback, isPlaybackFinished, stepPlayback } from '../src/game/replay';
+import type { PlayerInput } from '../src/game/types';
+
+// --- Run Verification ---
+// The simulation is deterministic given a seed, the screen size and the per-tick input,
+// so a submitted replay can be played back here exactly as it was played in the browser.
+// A score is only accepted if playing its replay ends the run with that score and level.
+// Cheaper sanity checks run first so obviously forged logs don't cost a full simulation.
+
+export type RejectionReason = 'desync' | 'input-rate' | 'timer';
+
+export interface VerificationFailure {
+  reason: RejectionReason;
+  detail: string;
+}
+
+/** Input changes a human can manage in one second of play, across all of one pilot's controls. */
+const MAX_INPUT_CHANGES_PER_SECOND = 30;
+/** Slack for timestamps taken a little before or after the ticks they bracket. */
+const TIMER_TOLERANCE_MS = 2000;
+/** Stick deflection (in hundredths) past which a direction counts as held, like its key. */
+const STICK_HELD = 50;
+/** Pixels the pointer has to come back before it counts as turning round; smaller wobbles are a shaky hand. */
+const POINTER_TURN = 4;
+
+const keyBits = (input: PlayerInput) =>
+  (input.left ? 1 : 0) | (input.right ? 2 : 0) | (input.up ? 4 : 0) | (input.down ? 8 : 0) |
+  (input.fire ? 16 : 0) | (input.bomb ? 32 : 0) | (input.special ? 64 : 0) | (input.charge ? 128 : 0);
+
+const stickBits = (move: PlayerInput['move']) =>
+  !move ? 0 : (move.x <= -STICK_HELD ? 256 : 0) | (move.x >= STICK_HELD ? 512 : 0) | (move.y <= -STICK_HELD ? 1024 : 0) | (move.y >= STICK_HELD ? 2048 : 0);
+
+/** Which way the pointer is heading on one axis, and the furthest it got that way. */
+interface PointerAxis {
+  heading: 1 | -1;
+  extreme: number;
+}
+
+/** Follows one axis of the pointer; it turns round once it comes back POINTER_TURN from its extreme. */
+const trackAxis = (axis: PointerAxis, value: number) => {
+  if ((value - axis.extreme) * axis.heading >= 0) {
+    axis.extreme = value;
+  } else if (Math.abs(value - axis.extreme) >= POINTER_TURN) {
+    axis.heading = axis.heading === 1 ? -1 : 1;
+    axis.extreme = value;
+  }
+};
+
+/**
+ * One pilot's input as a bit set per tick, where each flipped bit is one change a human had to
+ * make: a key or button pressed or let go, the stick pushed past halfway or let back, or the
+ * pointer turning round on an axis.
+ */
+const inputSignals = (frames: PlayerInput[]) => {
+  let axes: [PointerAxis, PointerAxis] | null = null;
+  return frames.map(input => {
+    const { pointer } = input;
+    if (pointer && !axes) axes = [{ heading: 1, extreme: pointer.x }, { heading: 1, extreme: pointer.y }];
+    else if (pointer && axes) {
+      trackAxis(axes[0], pointer.x);
+      trackAxis(axes[1], pointer.y);
+    }
+    const pointerBits = axes ? (axes[0].heading === 1 ? 4096 : 0) | (axes[1].heading === 1 ? 8192 : 0) : 0;
+    return keyBits(input) | stickBits(input.move) | pointerBits;
+  });
+};
+
+/** Most input changes within any one-second window of one pilot's ticks. */
+const peakInputChangeRate = (frames: PlayerInput[]) => {
+  const signals = inputSignals(frames);
+  const changes: number[] = [];
+  for (let t = 1; t < signals.length; t++) {
+    const diff = signals[t] ^ signals[t - 1];
+    // Count every input that changed, not just whether anything did.
+    for (let bit = diff; bit; bit &= bit - 1) changes.push(t);
+  }
+  let peak = 0;
+  for (let start = 0, end = 0; end < changes.length; end++) {
+    while (changes[end] - changes[start] >= TICK_RATE) start++;
+    peak = Math.max(peak, end - start + 1);
+  }
+  return peak;
+};
+
+/**
+ * Replays a submission and decides whether its claimed score stands. Returns null if it does.
+ * `receivedAt` is the server's own clock when the submission arrived, so the client can't move it.
+ */
+export const verifySubmission = ({ replay }: ScoreSubmission, receivedAt: number): VerificationFailure | null => {
+  const playedMs = replay.ticks * TICK_MS;
+  const elapsedMs = receivedAt - Date.parse(replay.recordedAt);
+  if (Number.isNaN(elapsedMs)) {
+    return { reason: 'timer', detail: 'Unreadable recordedAt timestamp' };
+  }
+  if (elapsedMs + TIMER_TOLERANCE_MS < playedMs) {
+    return { reason: 'timer', detail: `${replay.ticks} ticks (${Math.round(playedMs / 1000)}s) played in ${Math.round(elapsedMs / 1000)}s of wall-clock time` };
+  }
+
+  const playback = createPlayback(replay, false);
+  // Co-op pilots are separate people, so each gets the whole allowance.
+  const peak = Math.max(...Array.from({ length: replay.players }, (_, slot) => peakInputChangeRate(playback.frames.map(frame => frame[slot]))));
+  if (peak > MAX_INPUT_CHANGES_PER_SECOND) {
+    return { reason: 'input-rate', detail: `${peak} input changes within one second (limit ${MAX_INPUT_CHANGES_PER_SECOND})` };
+  }
+
+  while (!isPlaybackFinished(playback)) stepPlayback(playback);
+
+  const { world } = playback;
+  if (world.status !== 'GAMEOVER') {
+    return { reason: 'desync', detail: `Run still ${world.status} after its last input (tick ${world.tick})` };
+  }
+  if (world.score !== replay.score || world.level !== replay.level) {
+    return {
+      reason: 'desync',
+      detail: `Claimed score ${replay.score} on level ${replay.level}, simulation ended with ${world.score} on level ${world.level} at tick ${world.tick}`,
+    };
+  }
+  return null;
+};
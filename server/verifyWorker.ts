@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { parentPort } from 'worker_threads';
+import type { ScoreSubmission } from '../src/game/leaderboard';
+import { verifySubmission, type VerificationFailure } from './verify';
+
+// Worker thread behind verifier.ts: replays one submission at a time, off the thread that
+// serves the API and the co-op relay.
+
+export interface VerifyJob {
+  id: number;
+  submission: ScoreSubmission;
+  receivedAt: number;
+}
+
+export interface VerifyResult {
+  id: number;
+  failure: VerificationFailure | null;
+  /** Set when verification itself threw, rather than the run failing it. */
+  error?: string;
+}
+
+parentPort?.on('message', ({ id, submission, receivedAt }: VerifyJob) => {
+  let result: VerifyResult;
+  try {
+    result = { id, failure: verifySubmission(submission, receivedAt) };
+  } catch (err) {
+    result = { id, failure: null, error: err instanceof Error ? err.message : String(err) };
+  }
+  parentPort?.postMessage(result);
+});
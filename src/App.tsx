@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { 
   Play, 
   Pause, 
@@ -13,189 +13,148 @@ import {
   Trophy, 
   Info, 
   Gamepad2, 
-  Skull, 
   Star,
   ChevronRight,
   Heart,
-  Target
+  Film,
+  Upload,
+  Download,
+  BarChart3,
+  Keyboard,
+  Volume2,
+  VolumeX,
+  SlidersHorizontal,
+  Users,
+  Globe,
+  Rocket,
+  ChevronsUp,
+  Infinity as InfinityIcon
 } from 'lucide-react';
-import { motion, AnimatePresence } from 'motion/react';
-
-// --- Sound Manager (Procedural) ---
-
-class SoundManager {
-  private ctx: AudioContext | null = null;
-
-  init() {
-    if (!this.ctx) {
-      this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    }
-  }
-
-  private playTone(freq: number, type: OscillatorType, duration: number, volume: number, slide = 0) {
-    if (!this.ctx) return;
-    const osc = this.ctx.createOscillator();
-    const gain = this.ctx.createGain();
-
-    osc.type = type;
-    osc.frequency.setValueAtTime(freq, this.ctx.currentTime);
-    if (slide !== 0) {
-      osc.frequency.exponentialRampToValueAtTime(freq + slide, this.ctx.currentTime + duration);
-    }
-
-    gain.gain.setValueAtTime(volume, this.ctx.currentTime);
-    gain.gain.exponentialRampToValueAtTime(0.01, this.ctx.currentTime + duration);
-
-    osc.connect(gain);
-    gain.connect(this.ctx.destination);
-
-    osc.start();
-    osc.stop(this.ctx.currentTime + duration);
-  }
-
-  playShoot() {
-    this.playTone(440, 'triangle', 0.1, 0.05, -200);
-  }
-
-  playExplosion(isHeavy = false) {
-    this.playTone(isHeavy ? 100 : 200, 'sawtooth', isHeavy ? 0.5 : 0.3, 0.15, -80);
-    if (!this.ctx) return;
-    const bufferSize = this.ctx.sampleRate * (isHeavy ? 0.5 : 0.2);
-    const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
-    const data = buffer.getChannelData(0);
-    for (let i = 0; i < bufferSize; i++) {
-      data[i] = Math.random() * 2 - 1;
-    }
-    const noise = this.ctx.createBufferSource();
-    noise.buffer = buffer;
-    const noiseGain = this.ctx.createGain();
-    noiseGain.gain.setValueAtTime(0.1, this.ctx.currentTime);
-    noiseGain.gain.exponentialRampToValueAtTime(0.01, this.ctx.currentTime + (isHeavy ? 0.5 : 0.2));
-    noise.connect(noiseGain);
-    noiseGain.connect(this.ctx.destination);
-    noise.start();
-  }
-
-  playPowerUp() {
-    this.playTone(523.25, 'sine', 0.1, 0.1, 500);
-    setTimeout(() => this.playTone(659.25, 'sine', 0.1, 0.1, 500), 50);
-    setTimeout(() => this.playTone(783.99, 'sine', 0.2, 0.1, 500), 100);
-  }
-
-  playLevelUp() {
-    this.playTone(200, 'square', 0.5, 0.1, 1000);
-  }
-}
-
-const sounds = new SoundManager();
+import { motion, AnimatePresence, MotionConfig } from 'motion/react';
+import { sounds, type Bus } from './audio/SoundManager';
+import { advanceClock, createClock, pauseClock, resetClock, type FixedStepClock } from './game/clock';
+import { BOSSES } from './game/bosses';
+import { ESCAPE_PENALTY, MAX_PLAYERS } from './game/constants';
+import { poolUsage, type PoolUsage } from './game/pool';
+import { parseProfile, pilotEvents, recordRunStart, recordStep, type Profile } from './game/profile';
+import { createLockstep, HASH_INTERVAL, hashWorld, nextFrame, peerInputCount, queueInput, receiveHash, receiveInputs, recordHash, resendFrom, takeOutgoing, wantsInput, type Lockstep } from './game/lockstep';
+import { ACHIEVEMENT_IDS, ACHIEVEMENTS, createAchievementTracker, startAchievementLevel, updateAchievements, type AchievementTracker } from './game/achievements';
+import { createPlayback, createRecorder, finishRecording, isPlaybackFinished, parseReplay, recordInput, recordPurchase, recordResize, seekPlayback, stepPlayback, type Playback, type Replay, type ReplayRecorder } from './game/replay';
+import { randomSeed } from './game/random';
+import type { PeerMessage, RelayMessage } from './game/relay';
+import { DEFAULT_SHIP, isShipUnlocked } from './game/ships';
+import { buyUpgrade, isUnlocked, noUpgrades } from './game/shop';
+import { createWorld, resizeWorld, startNextLevel, step } from './game/simulation';
+import type { Difficulty, GameEvent, GameMode, GameState, PlayerInput, ShipId, UpgradeId, World } from './game/types';
+import { I18nContext } from './i18n/context';
+import { achievementTitle, bossName, createI18n, detectLocale, shipName } from './i18n/i18n';
+import { keyLabel, pilotBindings, type Action, type Bindings } from './input/bindings';
+import { createInputController, pollGamepad, pressAction, pressKey, readInput, releaseAll, releaseKey, rumble, type InputController } from './input/controller';
+import { createBackground, createRenderer, drawWorld, IMAGE_SOURCES, updateBackground, type Background, type Images, type Renderer } from './render/draw';
+import AchievementList, { AchievementGlyph, TIER_STYLES } from './components/AchievementList';
+import AbilityMeter from './components/AbilityMeter';
+import ActiveEffects from './components/ActiveEffects';
+import ControlsPanel from './components/ControlsPanel';
+import HangarPanel from './components/HangarPanel';
+import Leaderboard from './components/Leaderboard';
+import OnlinePanel, { type OnlineView } from './components/OnlinePanel';
+import PilotHud, { type PilotView } from './components/PilotHud';
+import PoolStats from './components/PoolStats';
+import ReplayControls from './components/ReplayControls';
+import SettingsPanel from './components/SettingsPanel';
+import ShopPanel from './components/ShopPanel';
+import StatsPanel from './components/StatsPanel';
+import WeaponMeter from './components/WeaponMeter';
+import { loadBindings, saveBindings } from './utils/bindingsStorage';
+import { downloadJson, readJsonFile } from './utils/files';
+import { loadProfile, saveProfile } from './utils/profileStorage';
+import { closeRelay, openRelay, sendToPeer, type RelayConnection, type RelayStatus } from './utils/relayClient';
+import type { Settings } from './utils/settings';
+import { loadSettings, saveSettings } from './utils/settingsStorage';
 
 // --- Types & Constants ---
 
-type GameState = 'START' | 'PLAYING' | 'PAUSED' | 'GAMEOVER' | 'LEVEL_COMPLETE';
-type Difficulty = 'EASY' | 'NORMAL' | 'HARD';
-
-interface Achievement {
-  id: string;
-  title: string;
-  description: string;
-  unlocked: boolean;
-  icon: React.ReactNode;
-}
-
-interface Particle {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  life: number;
-  color: string;
-  size: number;
-  glow: boolean;
-}
+/** Sprites go through WebGL2 when available; add ?renderer=canvas2d to the URL to force Canvas2D. */
+const PREFER_WEBGL = new URLSearchParams(window.location.search).get('renderer') !== 'canvas2d';
 
-interface Bullet {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  power: number;
-  color: string;
-  isEnemy?: boolean;
-}
+/** How long an online run may wait on the partner's input before the screen says so. */
+const STALL_NOTICE_MS = 500;
 
-interface Enemy {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
+interface BossHud {
+  id: string;
   hp: number;
   maxHp: number;
-  speed: number;
-  type: 'basic' | 'fast' | 'heavy';
-  color: string;
-  scoreValue: number;
-  lastShot: number;
-}
-
-interface PowerUp {
-  x: number;
-  y: number;
-  type: 'triple' | 'shield';
-  color: string;
-  size: number;
+  /** HP fractions at which later phases begin; drawn as segment breaks. */
+  thresholds: number[];
 }
 
-const COLORS = {
-  PLAYER: '#00f2ff',
-  BASIC: '#ff3e3e',
-  FAST: '#ffea00',
-  HEAVY: '#ff00ff',
-  TRIPLE: '#00ff00',
-  SHIELD: '#0088ff',
-  BULLET: '#ffffff',
-  STAR: '#ffffff',
-  NEBULA: ['#1a0b2e', '#0b1a2e', '#2e0b1a'],
+/** Music layers to bring in: boss layers during a fight, all of them in its last phase. */
+const musicIntensity = (world: World) => {
+  const boss = world.boss;
+  if (!boss) return 0;
+  return boss.phase >= BOSSES[boss.id].phases.length - 1 ? 2 : 1;
 };
 
-// --- Asset Paths (Change these to your local PNG paths) ---
-const ASSETS = {
-  PLAYER: '/assets/player.png',
-  ENEMY_BASIC: '/assets/enemy_basic.png',
-  ENEMY_FAST: '/assets/enemy_fast.png',
-  ENEMY_HEAVY: '/assets/enemy_heavy.png',
-  POWERUP_TRIPLE: '/assets/powerup_triple.png',
-  POWERUP_SHIELD: '/assets/powerup_shield.png',
+/** Time survived in an endless run, as m:ss. */
+const formatSurvival = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
 };
 
-// --- Helper Functions ---
-
-const randomRange = (min: number, max: number) => Math.random() * (max - min) + min;
-
 // --- Main Component ---
 
 export default function App() {
   const [gameState, setGameState] = useState<GameState>('START');
   const [difficulty, setDifficulty] = useState<Difficulty>('NORMAL');
+  const [mode, setMode] = useState<GameMode>('campaign');
+  /** Pilots in the next run: 1, or 2 for local co-op. */
+  const [playerCount, setPlayerCount] = useState(1);
   const [score, setScore] = useState(0);
   const [level, setLevel] = useState(1);
-  const [health, setHealth] = useState(3);
-  const [timeLeft, setTimeLeft] = useState(45);
+  const [pilots, setPilots] = useState<PilotView[]>([]);
+  const [stardust, setStardust] = useState(0);
+  const [upgrades, setUpgrades] = useState(noUpgrades);
+  /** Null on levels that are cleared by waves rather than a timer. */
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
+  /** Milliseconds survived in an endless run; null in the campaign. */
+  const [elapsed, setElapsed] = useState<number | null>(null);
   const [imagesLoaded, setImagesLoaded] = useState(false);
   
-  const imagesRef = useRef<Record<string, HTMLImageElement>>({});
+  const imagesRef = useRef<Images>({});
+  const rendererRef = useRef<Renderer | null>(null);
+
+  // Lifetime progress, loaded once. It is updated in place every tick and saved at checkpoints.
+  const [initialProfile] = useState(loadProfile);
+  const profileRef = useRef<Profile>(initialProfile);
+
+  // Views of the profile's achievement data for the sidebar; the profile itself stays the source of truth.
+  const [unlocks, setUnlocks] = useState(initialProfile.achievements);
+  const [achievementProgress, setAchievementProgress] = useState(initialProfile.progress);
+
+  // The ship each local pilot launches in. The first pilot's pick is kept in the profile.
+  const [ships, setShips] = useState<ShipId[]>(() => Array.from({ length: MAX_PLAYERS }, () => initialProfile.ship));
+  const [hangarOpen, setHangarOpen] = useState(false);
+
+  // Controls, read every tick through the ref; the state copy is for the screens that show them.
+  const [bindings, setBindings] = useState(loadBindings);
+  const bindingsRef = useRef<Bindings>(bindings);
+  const [controlsOpen, setControlsOpen] = useState(false);
 
-  const [achievements, setAchievements] = useState<Achievement[]>([
-    { id: 'first_blood', title: '第一滴血', description: '击毁第一架敌机', unlocked: false, icon: <Skull className="w-5 h-5" /> },
-    { id: 'survivor', title: '生存者', description: '达到第3关', unlocked: false, icon: <Heart className="w-5 h-5" /> },
-    { id: 'power_hungry', title: '火力全开', description: '拾取三向子弹道具', unlocked: false, icon: <Zap className="w-5 h-5" /> },
-    { id: 'shield_master', title: '铜墙铁壁', description: '使用能量护盾抵挡攻击', unlocked: false, icon: <Shield className="w-5 h-5" /> },
-    { id: 'ace_pilot', title: '王牌飞行员', description: '分数超过5000', unlocked: false, icon: <Target className="w-5 h-5" /> },
-  ]);
+  // Display and audio options, likewise read by the render loop through the ref.
+  const [settings, setSettings] = useState(loadSettings);
+  const settingsRef = useRef<Settings>(settings);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  // Following the browser's language means following it when it changes, too.
+  const [browserLocale, setBrowserLocale] = useState(detectLocale);
+  const locale = settings.language ?? browserLocale;
+  const i18n = useMemo(() => createI18n(locale), [locale]);
+  const { t } = i18n;
 
   // --- Image Preloading ---
   useEffect(() => {
     const loadImages = async () => {
-      const promises = Object.entries(ASSETS).map(([key, src]) => {
+      const promises = IMAGE_SOURCES.map(([key, src]) => {
         return new Promise((resolve) => {
           const img = new Image();
           img.src = src;
@@ -215,948 +174,1641 @@ export default function App() {
     loadImages();
   }, []);
 
-  const [lastAchievement, setLastAchievement] = useState<Achievement | null>(null);
+  /** Achievement ids waiting to be toasted; the first one is on screen. */
+  const [achievementToasts, setAchievementToasts] = useState<string[]>([]);
   const [showWarning, setShowWarning] = useState(false);
+  const [showBossWarning, setShowBossWarning] = useState(false);
+  /** Minutes of the endless milestone being announced. */
+  const [milestone, setMilestone] = useState<number | null>(null);
+  const [bossHud, setBossHud] = useState<BossHud | null>(null);
+  const [poolStats, setPoolStats] = useState<PoolUsage[] | null>(null);
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [replayPaused, setReplayPaused] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayTick, setReplayTick] = useState(0);
+  /** Snapshot of the profile shown on the stats page; null while it is closed. */
+  const [stats, setStats] = useState<Profile | null>(null);
+  const [profileError, setProfileError] = useState<string | null>(null);
+
+  // Online co-op: the room as shown on screen, and what the overlays need to know about it.
+  const [online, setOnline] = useState<OnlineView | null>(null);
+  const [onlineOpen, setOnlineOpen] = useState(false);
+  /** Slot of the pilot who paused, when it was the partner; null for a local pause. */
+  const [pausedBy, setPausedBy] = useState<number | null>(null);
+  /** Whether the run is held up waiting for the partner's input. */
+  const [waitingForPeer, setWaitingForPeer] = useState(false);
+  /** Tick at which the two clients' worlds were found to differ, ending the run. */
+  const [desyncTick, setDesyncTick] = useState<number | null>(null);
+  /** The guest asked for another run and is waiting on the host. */
+  const [retryRequested, setRetryRequested] = useState(false);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const requestRef = useRef<number>(null);
   
-  // Game Entities Refs
-  const playerRef = useRef({ x: 0, y: 0, w: 60, h: 60, invul: 0, shield: false, triple: 0 });
-  const bulletsRef = useRef<Bullet[]>([]);
-  const enemiesRef = useRef<Enemy[]>([]);
-  const particlesRef = useRef<Particle[]>([]);
-  const powerUpsRef = useRef<PowerUp[]>([]);
-  const starsRef = useRef<{x: number, y: number, s: number, alpha: number}[]>([]);
-  const nebulaeRef = useRef<{x: number, y: number, r: number, color: string}[]>([]);
-  const keysRef = useRef<Record<string, boolean>>({});
-  const lastShotRef = useRef(0);
-  const shakeRef = useRef(0);
+  // Simulation state lives outside React; the component only renders it.
+  const worldRef = useRef<World>(createWorld({ width: 0, height: 0, difficulty: 'NORMAL' }));
+  const backgroundRef = useRef<Background>(createBackground(0, 0, worldRef.current.levelDef.palette));
+  // One controller per pilot; the first also takes the mouse and touch.
+  const inputsRef = useRef<InputController[]>(Array.from({ length: MAX_PLAYERS }, createInputController));
+  const clockRef = useRef<FixedStepClock>(createClock());
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  const playbackRef = useRef<Playback | null>(null);
+  const achievementsRef = useRef<AchievementTracker>(createAchievementTracker());
+  // Online co-op, outside React like the world: the relay link, the lockstep input exchange
+  // (null outside an online run), the run's start message (resent if the guest may have
+  // missed it), the furthest level either pilot has moved on to, the host's purchases the
+  // guest hasn't made yet, the ship the guest picked (for the host) and when stepping stalled.
+  const relayRef = useRef<RelayConnection | null>(null);
+  const lockstepRef = useRef<Lockstep | null>(null);
+  const startRef = useRef<Extract<PeerMessage, { type: 'start' }> | null>(null);
+  const nextLevelRef = useRef(0);
+  const peerPurchasesRef = useRef<Extract<PeerMessage, { type: 'buy' }>[]>([]);
+  const peerShipRef = useRef<ShipId>(DEFAULT_SHIP);
+  const stalledSinceRef = useRef<number | null>(null);
 
   // --- Achievement Logic ---
 
-  const unlockAchievement = useCallback((id: string) => {
-    setAchievements(prev => {
-      const index = prev.findIndex(a => a.id === id);
-      if (index !== -1 && !prev[index].unlocked) {
-        const newArr = [...prev];
-        newArr[index] = { ...newArr[index], unlocked: true };
-        setLastAchievement(newArr[index]);
-        setTimeout(() => setLastAchievement(null), 3000);
-        return newArr;
-      }
-      return prev;
-    });
-  }, []);
+  const syncAchievements = (profile: Profile) => {
+    setUnlocks({ ...profile.achievements });
+    setAchievementProgress({ ...profile.progress });
+  };
+
+  /** Feeds a step to the achievement engine and queues a toast for each unlock. */
+  const checkAchievements = (world: World, events: GameEvent[]) => {
+    const unlocked = updateAchievements(achievementsRef.current, profileRef.current, world, events);
+    if (unlocked.length === 0) return;
+    saveProfile(profileRef.current);
+    setUnlocks({ ...profileRef.current.achievements });
+    setAchievementToasts(queue => [...queue, ...unlocked]);
+  };
+
+  // Each toast stays up for 3 seconds, then the next queued one takes its place.
+  const currentToast = achievementToasts[0];
+  useEffect(() => {
+    if (!currentToast) return;
+    const timer = setTimeout(() => setAchievementToasts(queue => queue.slice(1)), 3000);
+    return () => clearTimeout(timer);
+  }, [currentToast]);
 
   // --- Game Initialization ---
 
-  const initGame = (diff?: Difficulty) => {
+  const syncHud = (world: World) => {
+    setScore(world.score);
+    setLevel(world.level);
+    setStardust(world.stardust);
+    setUpgrades({ ...world.upgrades });
+    setPilots(world.players.map(p => ({
+      slot: p.slot,
+      ship: p.ship,
+      health: p.health,
+      maxHealth: p.maxHealth,
+      score: p.score,
+      kills: p.kills,
+      downs: p.downs,
+      respawn: p.respawn,
+      abilityCooldown: p.abilityCooldown,
+      weaponLevel: p.weaponLevel,
+      secondary: p.secondary,
+      charge: p.charge,
+      effects: p.effects.map(e => ({ ...e })),
+    })));
+    if (poolStats) setPoolStats(poolUsage(world));
+    setTimeLeft(world.mode === 'campaign' && world.levelDef.clear.type === 'timer' && !world.boss ? world.timeLeft : null);
+    setElapsed(world.mode === 'endless' ? world.time : null);
+    const boss = world.boss;
+    setBossHud(boss && !boss.entering ? {
+      id: boss.id,
+      hp: boss.hp,
+      maxHp: boss.maxHp,
+      thresholds: BOSSES[boss.id].phases.slice(1).map(p => p.threshold),
+    } : null);
+    // The level's song, once it is under way; stingers take over when it ends.
+    if (world.status === 'PLAYING') {
+      sounds.playMusic(world.levelDef.music);
+      sounds.setMusicIntensity(musicIntensity(world));
+    }
+  };
+
+  /** Rebuilds the star field when the canvas or the level's palette changes. */
+  const syncBackground = (world: World) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const bg = backgroundRef.current;
+    if (bg.width !== canvas.width || bg.height !== canvas.height || bg.palette !== world.levelDef.palette) {
+      backgroundRef.current = createBackground(canvas.width, canvas.height, world.levelDef.palette);
+    }
+  };
+
+  /**
+   * Sizes the canvas to its box and the world to the canvas. An online run keeps the host's
+   * screen size on both clients instead, and the canvas is stretched over the box.
+   */
+  const fitCanvas = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const world = worldRef.current;
+    if (lockstepRef.current) {
+      canvas.width = world.width;
+      canvas.height = world.height;
+    } else {
+      // Assigning the size clears the canvas even when it is unchanged, and this runs on every HUD update.
+      const rect = canvas.getBoundingClientRect();
+      if (canvas.width !== Math.floor(rect.width)) canvas.width = rect.width;
+      if (canvas.height !== Math.floor(rect.height)) canvas.height = rect.height;
+      if (world.width !== canvas.width || world.height !== canvas.height) {
+        resizeWorld(world, canvas.width, canvas.height);
+        if (recorderRef.current) recordResize(recorderRef.current, world);
+      }
+    }
+    syncBackground(world);
+  };
+
+  /** Resets everything that tracks a run around a freshly created world. */
+  const beginRun = (world: World) => {
+    worldRef.current = world;
+    recorderRef.current = createRecorder(world);
+    recordRunStart(profileRef.current);
+    achievementsRef.current = createAchievementTracker();
+    resetClock(clockRef.current);
+    syncHud(world);
+  };
+
+  /** Starts a run; without arguments, another one like the last. */
+  const initGame = (diff?: Difficulty, nextMode?: GameMode) => {
     sounds.init();
-    if (diff) setDifficulty(diff);
-    setScore(0);
-    setLevel(1);
-    setHealth(3);
-    setTimeLeft(45);
+    const nextDifficulty = diff ?? difficulty;
+    const runMode = nextMode ?? mode;
+    setDifficulty(nextDifficulty);
+    setMode(runMode);
     setGameState('PLAYING');
-    
+
     const canvas = canvasRef.current;
-    if (canvas) {
-      playerRef.current = { 
-        x: canvas.width / 2, 
-        y: canvas.height - 80, 
-        w: 60, 
-        h: 60, 
-        invul: 0, 
-        shield: false, 
-        triple: 0 
-      };
+    beginRun(createWorld({
+      width: canvas?.width ?? 0,
+      height: canvas?.height ?? 0,
+      difficulty: nextDifficulty,
+      mode: runMode,
+      players: playerCount,
+      // An imported save may not have unlocked a ship picked before it.
+      ships: ships.slice(0, playerCount).map(ship => isShipUnlocked(profileRef.current, ship) ? ship : DEFAULT_SHIP),
+    }));
+  };
+
+  /** Stops recording the current run and keeps it around for viewing or saving. */
+  const endRecording = () => {
+    if (recorderRef.current) {
+      setLastReplay(finishRecording(recorderRef.current, worldRef.current));
+      recorderRef.current = null;
     }
-    bulletsRef.current = [];
-    enemiesRef.current = [];
-    particlesRef.current = [];
-    powerUpsRef.current = [];
   };
 
-  const nextLevel = () => {
-    setLevel(l => l + 1);
-    setHealth(3); // Restore health
-    setTimeLeft(45); // Reset timer
+  const quitToMenu = () => {
+    endRecording();
+    leaveRoom();
+    sounds.stopMusic();
+    saveProfile(profileRef.current);
+    setGameState('START');
+  };
+
+  const advanceLevel = () => {
+    const world = worldRef.current;
+    startNextLevel(world);
+    startAchievementLevel(achievementsRef.current);
+    syncHud(world);
     setGameState('PLAYING');
-    enemiesRef.current = [];
-    bulletsRef.current = [];
-    powerUpsRef.current = [];
   };
 
-  // --- Vast Star Background ---
+  /** Buys an upgrade for the run and records it for the replay. */
+  const purchase = (world: World, id: UpgradeId) => {
+    if (!buyUpgrade(world, id)) return false;
+    if (recorderRef.current) recordPurchase(recorderRef.current, world, id);
+    return true;
+  };
 
-  const initStars = (width: number, height: number) => {
-    starsRef.current = Array.from({ length: 200 }, () => ({
-      x: Math.random() * width,
-      y: Math.random() * height,
-      s: Math.random() * 1.5 + 0.5,
-      alpha: Math.random()
-    }));
+  /** Online, only the host shops and the partner buys the same. */
+  const buy = (id: UpgradeId) => {
+    const relay = relayRef.current;
+    const world = worldRef.current;
+    if (!isUnlocked(id, profileRef.current.totals.stardust) || !purchase(world, id)) return;
+    if (relay && startRef.current) sendToPeer(relay, { type: 'buy', run: startRef.current.seed, level: world.level, upgrade: id });
+    sounds.playPowerUp();
+    syncHud(world);
+  };
 
-    nebulaeRef.current = Array.from({ length: 5 }, () => ({
-      x: Math.random() * width,
-      y: Math.random() * height,
-      r: randomRange(200, 500),
-      color: COLORS.NEBULA[Math.floor(Math.random() * COLORS.NEBULA.length)]
-    }));
+  /** Online, moving on takes the partner along. */
+  const nextLevel = () => {
+    const relay = relayRef.current;
+    const world = worldRef.current;
+    if (relay && startRef.current) {
+      nextLevelRef.current = world.level + 1;
+      sendToPeer(relay, { type: 'nextLevel', run: startRef.current.seed, level: world.level + 1 });
+    }
+    advanceLevel();
   };
 
-  // --- Game Loop Logic ---
+  // --- Replay Playback ---
 
-  const spawnEnemy = (width: number) => {
-    const now = Date.now();
-    const diffMod = difficulty === 'EASY' ? 0.7 : difficulty === 'HARD' ? 1.5 : 1;
-    
-    // Weighted selection for enemy types
-    let type: Enemy['type'] = 'basic';
-    const roll = Math.random();
-    
-    if (level === 1) {
-      // Level 1: 70% basic, 30% fast
-      type = roll < 0.7 ? 'basic' : 'fast';
-    } else if (level === 2) {
-      // Level 2: 40% basic, 40% fast, 20% heavy
-      if (roll < 0.4) type = 'basic';
-      else if (roll < 0.8) type = 'fast';
-      else type = 'heavy';
-    } else {
-      // Level 3+: 30% basic, 40% fast, 30% heavy
-      if (roll < 0.3) type = 'basic';
-      else if (roll < 0.7) type = 'fast';
-      else type = 'heavy';
-    }
-    
-    let enemy: Enemy;
-    switch(type) {
-      case 'fast':
-        enemy = { x: randomRange(40, width - 40), y: -50, width: 60, height: 60, hp: 1, maxHp: 1, speed: (4 + level * 0.5) * diffMod, type, color: COLORS.FAST, scoreValue: 150, lastShot: now };
-        break;
-      case 'heavy':
-        enemy = { x: randomRange(50, width - 50), y: -50, width: 80, height: 80, hp: Math.ceil(3 * diffMod), maxHp: Math.ceil(3 * diffMod), speed: (1.5 + level * 0.1) * diffMod, type, color: COLORS.HEAVY, scoreValue: 500, lastShot: now };
-        break;
-      default:
-        enemy = { x: randomRange(40, width - 40), y: -50, width: 60, height: 60, hp: 1, maxHp: 1, speed: (2 + level * 0.2) * diffMod, type: 'basic', color: COLORS.BASIC, scoreValue: 100, lastShot: now };
-    }
-    enemiesRef.current.push(enemy);
+  const startReplay = (replay: Replay) => {
+    sounds.init();
+    playbackRef.current = createPlayback(replay);
+    resetClock(clockRef.current);
+    setReplayPaused(false);
+    setReplaySpeed(1);
+    setReplayTick(0);
+    setGameState('REPLAY');
   };
 
-  const createExplosion = (x: number, y: number, color: string, count = 30, isHeavy = false) => {
-    shakeRef.current = isHeavy ? 15 : 8;
-    sounds.playExplosion(isHeavy);
-    
-    particlesRef.current.push({
-      x, y, vx: 0, vy: 0, life: 1.0, color: '#ffffff', size: isHeavy ? 40 : 20, glow: true
-    });
+  const exitReplay = () => {
+    sounds.stopMusic();
+    setGameState('START');
+  };
 
-    for (let i = 0; i < count; i++) {
-      const angle = Math.random() * Math.PI * 2;
-      const speed = Math.random() * (isHeavy ? 12 : 8) + 2;
-      particlesRef.current.push({
-        x, y,
-        vx: Math.cos(angle) * speed,
-        vy: Math.sin(angle) * speed,
-        life: 1.0,
-        color,
-        size: Math.random() * (isHeavy ? 6 : 4) + 2,
-        glow: true
-      });
+  const seekReplay = (tick: number) => {
+    const playback = playbackRef.current;
+    if (!playback) return;
+    seekPlayback(playback, tick);
+    setReplayTick(playback.world.tick);
+  };
+
+  const loadReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const replay = parseReplay(await readJsonFile(file));
+      setReplayError(null);
+      startReplay(replay);
+    } catch (err) {
+      setReplayError(err instanceof Error ? err.message : String(err));
     }
   };
 
-  const update = (canvas: HTMLCanvasElement, delta: number) => {
-    if (gameState !== 'PLAYING') return;
+  const saveReplay = (replay: Replay) => {
+    downloadJson(`tina-star-pioneer-${replay.recordedAt.replace(/[:.]/g, '-')}.replay.json`, replay);
+  };
 
-    const player = playerRef.current;
-    const speed = 6;
-
-    if (keysRef.current['ArrowLeft'] || keysRef.current['a']) player.x -= speed;
-    if (keysRef.current['ArrowRight'] || keysRef.current['d']) player.x += speed;
-    if (keysRef.current['ArrowUp'] || keysRef.current['w']) player.y -= speed;
-    if (keysRef.current['ArrowDown'] || keysRef.current['s']) player.y += speed;
-
-    player.x = Math.max(player.w/2, Math.min(canvas.width - player.w/2, player.x));
-    player.y = Math.max(player.h/2, Math.min(canvas.height - player.h/2, player.y));
-
-    const now = Date.now();
-    if (keysRef.current[' '] && now - lastShotRef.current > 150) {
-      sounds.playShoot();
-      const bSpeed = 10;
-      const spawnY = player.y - player.h / 2 - 10;
-      if (player.triple > 0) {
-        bulletsRef.current.push({ x: player.x, y: spawnY, vx: 0, vy: -bSpeed, power: 1, color: COLORS.BULLET });
-        bulletsRef.current.push({ x: player.x, y: spawnY, vx: -2, vy: -bSpeed, power: 1, color: COLORS.BULLET });
-        bulletsRef.current.push({ x: player.x, y: spawnY, vx: 2, vy: -bSpeed, power: 1, color: COLORS.BULLET });
-        player.triple -= 1;
-      } else {
-        bulletsRef.current.push({ x: player.x, y: spawnY, vx: 0, vy: -bSpeed, power: 1, color: COLORS.BULLET });
-      }
-      lastShotRef.current = now;
-    }
+  // --- Profile & Stats ---
 
-    bulletsRef.current = bulletsRef.current.filter(b => {
-      b.x += b.vx;
-      b.y += b.vy;
-
-      // Enemy bullet collision with player
-      if (b.isEnemy && player.invul <= 0) {
-        if (Math.abs(b.x - player.x) < player.w / 2 && Math.abs(b.y - player.y) < player.h / 2) {
-          if (player.shield) {
-            player.shield = false;
-            unlockAchievement('shield_master');
-            sounds.playPowerUp();
-          } else {
-            setHealth(h => {
-              const newH = h - 1;
-              if (newH <= 0) setGameState('GAMEOVER');
-              return newH;
-            });
-          }
-          player.invul = 120;
-          return false;
-        }
-      }
+  /** The first pilot's pick is remembered for next time, and flown online. */
+  const pickShip = (slot: number, ship: ShipId) => {
+    setShips(prev => prev.map((current, i) => i === slot ? ship : current));
+    if (slot !== 0) return;
+    profileRef.current.ship = ship;
+    saveProfile(profileRef.current);
+  };
 
-      return b.y > -50 && b.y < canvas.height + 50 && b.x > -50 && b.x < canvas.width + 50;
-    });
+  const openStats = () => {
+    setProfileError(null);
+    setStats(structuredClone(profileRef.current));
+  };
+
+  const exportProfile = () => {
+    downloadJson(`tina-star-pioneer-profile-${new Date().toISOString().slice(0, 10)}.json`, profileRef.current);
+  };
 
-    const spawnRate = (0.01 + level * 0.002) * (difficulty === 'EASY' ? 0.5 : difficulty === 'HARD' ? 2 : 1);
-    if (Math.random() < spawnRate) {
-      spawnEnemy(canvas.width);
+  const importProfile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const profile = parseProfile(await readJsonFile(file));
+      if (!window.confirm(t('start.importConfirm'))) return;
+      profileRef.current = profile;
+      saveProfile(profile);
+      syncAchievements(profile);
+      setShips(prev => [profile.ship, ...prev.slice(1)]);
+      setProfileError(null);
+      setStats(structuredClone(profile));
+    } catch (err) {
+      setProfileError(err instanceof Error ? err.message : String(err));
     }
+  };
 
-    enemiesRef.current = enemiesRef.current.filter(e => {
-      e.y += e.speed;
-      
-      // Enemy firing logic
-      const now = Date.now();
-      const fireInterval = difficulty === 'HARD' ? 1500 : 2500;
-      if (now - e.lastShot > fireInterval && e.y > 0 && e.y < canvas.height * 0.6) {
-        bulletsRef.current.push({
-          x: e.x,
-          y: e.y + e.height / 2,
-          vx: 0,
-          vy: 5,
-          power: 1,
-          color: '#ff4400', // Bright orange for enemy missiles
-          isEnemy: true
-        });
-        e.lastShot = now;
-      }
+  // --- Controls ---
 
-      bulletsRef.current.forEach((b, bi) => {
-        if (!b.isEnemy && b.x > e.x - e.width/2 && b.x < e.x + e.width/2 && b.y > e.y - e.height/2 && b.y < e.y + e.height/2) {
-          e.hp -= b.power;
-          bulletsRef.current.splice(bi, 1);
-          createExplosion(b.x, b.y, e.color, 5);
-        }
-      });
+  const changeBindings = (next: Bindings) => {
+    bindingsRef.current = next;
+    setBindings(next);
+    saveBindings(next);
+  };
 
-      if (player.invul <= 0 && 
-          Math.abs(player.x - e.x) < (player.w + e.width) / 2.5 && 
-          Math.abs(player.y - e.y) < (player.h + e.height) / 2.5) {
-        
-        if (player.shield) {
-          player.shield = false;
-          unlockAchievement('shield_master');
-          sounds.playPowerUp();
-        } else {
-          setHealth(h => {
-            const newH = h - 1;
-            if (newH <= 0) setGameState('GAMEOVER');
-            return newH;
-          });
-        }
-        
-        player.invul = 120;
-        e.hp = 0;
-      }
+  // --- Settings ---
 
-      if (e.y > canvas.height + 50) {
-        setScore(s => Math.max(0, s - 50));
-        setShowWarning(true);
-        setTimeout(() => setShowWarning(false), 1000);
-        return false;
-      }
+  const applyAudioSettings = (next: Settings) => {
+    (Object.keys(next.volume) as Bus[]).forEach(bus => sounds.setVolume(bus, next.volume[bus]));
+    sounds.setMuted(next.muted);
+  };
 
-      if (e.hp <= 0) {
-        setScore(s => {
-          const newScore = s + e.scoreValue;
-          if (newScore >= 5000) unlockAchievement('ace_pilot');
-          return newScore;
-        });
-        unlockAchievement('first_blood');
-        createExplosion(e.x, e.y, e.color, e.type === 'heavy' ? 50 : 25, e.type === 'heavy');
-        
-        if (Math.random() < 0.1) {
-          powerUpsRef.current.push({
-            x: e.x, y: e.y,
-            type: Math.random() > 0.5 ? 'triple' : 'shield',
-            color: Math.random() > 0.5 ? COLORS.TRIPLE : COLORS.SHIELD,
-            size: 20
-          });
-        }
-        return false;
-      }
-      return true;
-    });
+  const changeSettings = (next: Settings) => {
+    settingsRef.current = next;
+    setSettings(next);
+    saveSettings(next);
+    applyAudioSettings(next);
+  };
 
-    powerUpsRef.current = powerUpsRef.current.filter(p => {
-      p.y += 2;
-      if (Math.abs(player.x - p.x) < 30 && Math.abs(player.y - p.y) < 30) {
-        sounds.playPowerUp();
-        if (p.type === 'triple') {
-          player.triple = 50;
-          unlockAchievement('power_hungry');
-        } else {
-          player.shield = true;
-        }
-        return false;
-      }
-      return p.y < canvas.height + 50;
-    });
+  useEffect(() => applyAudioSettings(settingsRef.current), []);
 
-    particlesRef.current = particlesRef.current.filter(p => {
-      p.x += p.vx;
-      p.y += p.vy;
-      p.life -= 0.02;
-      return p.life > 0;
-    });
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
 
-    starsRef.current.forEach(s => {
-      s.y += s.s * 0.5;
-      if (s.y > canvas.height) s.y = 0;
-      s.alpha = 0.5 + Math.sin(Date.now() * 0.001 * s.s) * 0.5;
-    });
+  useEffect(() => {
+    const handleLanguageChange = () => setBrowserLocale(detectLocale());
+    window.addEventListener('languagechange', handleLanguageChange);
+    return () => window.removeEventListener('languagechange', handleLanguageChange);
+  }, []);
 
-    if (player.invul > 0) player.invul--;
-    if (shakeRef.current > 0) shakeRef.current *= 0.9;
-
-    // Timer logic
-    setTimeLeft(prev => {
-      const next = prev - 1/60; // Assuming 60fps
-      if (next <= 0) {
-        sounds.playLevelUp();
-        setGameState('LEVEL_COMPLETE');
-        if (level === 3) unlockAchievement('survivor');
-        return 0;
-      }
-      return next;
-    });
+  const toggleMute = () => changeSettings({ ...settingsRef.current, muted: !settingsRef.current.muted });
+
+  /** Pilots flown from this machine: everyone in the run, or just ours online. */
+  const localPilots = () => lockstepRef.current ? 1 : worldRef.current.players.length;
+
+  /** The pilot the profile belongs to: online the one flown from here, locally the first. */
+  const profilePilot = () => lockstepRef.current?.slot ?? 0;
+
+  /** The controllers of the pilots flown from this machine; online, ours is the first. */
+  const activeInputs = () => inputsRef.current.slice(0, localPilots());
+
+  /** The controller flying a pilot, or null for the partner's pilot online. */
+  const controllerOf = (slot: number) => {
+    const lockstep = lockstepRef.current;
+    if (!lockstep) return inputsRef.current[slot];
+    return slot === lockstep.slot ? inputsRef.current[0] : null;
   };
 
-  const draw = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement) => {
-    ctx.save();
-    if (shakeRef.current > 0.5) {
-      ctx.translate((Math.random() - 0.5) * shakeRef.current, (Math.random() - 0.5) * shakeRef.current);
+  const togglePause = () => {
+    // Keys pressed on the controls or settings screens are for them, not for the game behind.
+    if (controlsOpen || settingsOpen) return;
+    if (gameState === 'PLAYING' || gameState === 'PAUSED') sendPause(gameState === 'PLAYING');
+    setGameState(prev => prev === 'PLAYING' ? 'PAUSED' : prev === 'PAUSED' ? 'PLAYING' : prev);
+  };
+
+  // --- Online Co-op ---
+  // The relay pairs this client with one other; both then simulate the run in lockstep.
+  // The host (slot 0) picks the seed and screen size and starts every run, the guest follows.
+  // Handlers here are called from socket events, so they read the refs, not render state.
+
+  /** Both clients start the same run from the host's start message. */
+  const startOnlineRun = (start: Extract<PeerMessage, { type: 'start' }>, slot: number) => {
+    startRef.current = start;
+    nextLevelRef.current = 0;
+    peerPurchasesRef.current = [];
+    stalledSinceRef.current = null;
+    lockstepRef.current = createLockstep(slot, MAX_PLAYERS);
+    setPausedBy(null);
+    setWaitingForPeer(false);
+    setDesyncTick(null);
+    setRetryRequested(false);
+    setDifficulty(start.difficulty);
+    setMode(start.mode);
+    setGameState('PLAYING');
+    beginRun(createWorld({ width: start.width, height: start.height, difficulty: start.difficulty, mode: start.mode, seed: start.seed, players: MAX_PLAYERS, ships: start.ships }));
+    fitCanvas();
+  };
+
+  const hostOnlineRun = (diff: Difficulty, runMode: GameMode) => {
+    const relay = relayRef.current;
+    const canvas = canvasRef.current;
+    if (!relay?.room || !canvas) return;
+    const rect = canvas.getBoundingClientRect();
+    const ships = [profileRef.current.ship, peerShipRef.current];
+    const start = { type: 'start', seed: randomSeed(), difficulty: diff, mode: runMode, ships, width: Math.floor(rect.width), height: Math.floor(rect.height) } as const;
+    sendToPeer(relay, start);
+    startOnlineRun(start, relay.room.slot);
+  };
+
+  const retryOnline = () => {
+    const relay = relayRef.current;
+    if (!relay?.room) return;
+    if (relay.room.slot === 0) {
+      hostOnlineRun(worldRef.current.difficulty, worldRef.current.mode);
+    } else {
+      sendToPeer(relay, { type: 'retry' });
+      setRetryRequested(true);
     }
-    
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    nebulaeRef.current.forEach(n => {
-      const grad = ctx.createRadialGradient(n.x, n.y, 0, n.x, n.y, n.r);
-      grad.addColorStop(0, n.color + '33');
-      grad.addColorStop(1, 'transparent');
-      ctx.fillStyle = grad;
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-    });
+  };
 
-    starsRef.current.forEach(s => {
-      ctx.globalAlpha = s.alpha * (s.s / 1.5);
-      ctx.fillStyle = COLORS.STAR;
-      ctx.beginPath();
-      ctx.arc(s.x, s.y, s.s, 0, Math.PI * 2);
-      ctx.fill();
-    });
-    ctx.globalAlpha = 1.0;
+  /** Ends an online run that can't go on (partner gone, link lost, desync), keeping its results on screen. */
+  const endOnlineRun = () => {
+    if (!lockstepRef.current) return;
+    endRecording();
+    setWaitingForPeer(false);
+    setGameState(prev => prev === 'PLAYING' || prev === 'PAUSED' || prev === 'LEVEL_COMPLETE' ? 'GAMEOVER' : prev);
+  };
 
-    particlesRef.current.forEach(p => {
-      ctx.globalAlpha = p.life;
-      if (p.glow) {
-        ctx.shadowBlur = p.size * 2;
-        ctx.shadowColor = p.color;
-      }
-      ctx.fillStyle = p.color;
-      ctx.beginPath();
-      ctx.arc(p.x, p.y, p.size * p.life, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.shadowBlur = 0;
-    });
-    ctx.globalAlpha = 1.0;
-
-    // Draw Powerups
-    powerUpsRef.current.forEach(p => {
-      const img = p.type === 'triple' ? imagesRef.current.POWERUP_TRIPLE : imagesRef.current.POWERUP_SHIELD;
-      if (img) {
-        ctx.drawImage(img, p.x - 15, p.y - 15, 30, 30);
-      } else {
-        ctx.shadowBlur = 15;
-        ctx.shadowColor = p.color;
-        ctx.fillStyle = p.color;
-        ctx.beginPath();
-        ctx.arc(p.x, p.y, 10, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.strokeStyle = '#fff';
-        ctx.lineWidth = 2;
-        ctx.stroke();
-        ctx.shadowBlur = 0;
-      }
+  const checkDesync = () => {
+    const tick = lockstepRef.current?.desyncTick ?? null;
+    if (tick === null) return;
+    console.warn(`Online run desynced at tick ${tick}.`);
+    setDesyncTick(tick);
+    endOnlineRun();
+  };
+
+  /** After the link to the partner comes back: ask for inputs we may have missed, and repeat the start they may have. */
+  const restoreLink = (relay: RelayConnection) => {
+    const lockstep = lockstepRef.current;
+    const start = startRef.current;
+    if (!lockstep || !start) return;
+    sendToPeer(relay, { type: 'resend', run: start.seed, from: peerInputCount(lockstep) });
+    if (relay.room?.slot === 0) sendToPeer(relay, start);
+  };
+
+  /** Makes the host's purchases for the level this client has cleared, once it has cleared it. */
+  const applyPeerPurchases = () => {
+    const world = worldRef.current;
+    if (world.status !== 'LEVEL_COMPLETE') return;
+    peerPurchasesRef.current = peerPurchasesRef.current.filter(p => {
+      if (p.level === world.level) purchase(world, p.upgrade);
+      return p.level > world.level;
     });
+    syncHud(world);
+  };
 
-    // Draw Enemies
-    enemiesRef.current.forEach(e => {
-      let img: HTMLImageElement | undefined;
-      if (e.type === 'fast') img = imagesRef.current.ENEMY_FAST;
-      else if (e.type === 'heavy') img = imagesRef.current.ENEMY_HEAVY;
-      else img = imagesRef.current.ENEMY_BASIC;
-
-      if (img) {
-        ctx.save();
-        ctx.translate(e.x, e.y);
-        ctx.rotate(Math.PI); // Enemies usually face down
-        ctx.drawImage(img, -e.width / 2, -e.height / 2, e.width, e.height);
-        ctx.restore();
-        
-        if (e.type === 'heavy') {
-          ctx.fillStyle = '#333';
-          ctx.fillRect(e.x - 20, e.y - 45, 40, 5);
-          ctx.fillStyle = '#ff00ff';
-          ctx.fillRect(e.x - 20, e.y - 45, (e.hp / e.maxHp) * 40, 5);
+  const handlePeerMessage = (relay: RelayConnection, message: PeerMessage) => {
+    const lockstep = lockstepRef.current;
+    const world = worldRef.current;
+    const run = startRef.current?.seed;
+    const slot = relay.room?.slot ?? 0;
+    switch (message.type) {
+      case 'start':
+        // Sent again after a reconnect; only a new seed is a new run.
+        if (message.seed === run || slot === 0) break;
+        startOnlineRun(message, slot);
+        sendToPeer(relay, { type: 'resend', run: message.seed, from: peerInputCount(lockstepRef.current!) });
+        break;
+      case 'ship':
+        if (slot === 0) peerShipRef.current = message.ship;
+        break;
+      case 'inputs':
+        if (lockstep && message.run === run) receiveInputs(lockstep, message.from, message.inputs);
+        break;
+      case 'resend':
+        if (lockstep && message.run === run) sendToPeer(relay, { type: 'inputs', run, ...resendFrom(lockstep, message.from) });
+        break;
+      case 'hash':
+        if (lockstep && message.run === run) {
+          receiveHash(lockstep, message.tick, message.hash);
+          checkDesync();
         }
-      } else {
-        ctx.shadowBlur = 15;
-        ctx.shadowColor = e.color;
-        ctx.fillStyle = e.color;
-        ctx.save();
-        ctx.translate(e.x, e.y);
-        if (e.type === 'fast') {
-          ctx.beginPath();
-          ctx.moveTo(0, 15);
-          ctx.lineTo(-10, -15);
-          ctx.lineTo(10, -15);
-          ctx.closePath();
-          ctx.fill();
-        } else if (e.type === 'heavy') {
-          ctx.fillRect(-e.width/2, -e.height/2, e.width, e.height);
-          ctx.fillStyle = '#333';
-          ctx.fillRect(-20, -45, 40, 5);
-          ctx.fillStyle = '#ff00ff';
-          ctx.fillRect(-20, -45, (e.hp / e.maxHp) * 40, 5);
-        } else {
-          ctx.beginPath();
-          ctx.moveTo(0, 20);
-          ctx.lineTo(-20, -10);
-          ctx.lineTo(20, -10);
-          ctx.closePath();
-          ctx.fill();
+        break;
+      case 'pause':
+        setPausedBy(message.paused ? 1 - slot : null);
+        setGameState(prev => message.paused ? (prev === 'PLAYING' ? 'PAUSED' : prev) : (prev === 'PAUSED' ? 'PLAYING' : prev));
+        break;
+      case 'buy':
+        if (message.run !== run || slot === 0) break;
+        peerPurchasesRef.current.push(message);
+        applyPeerPurchases();
+        break;
+      case 'nextLevel':
+        if (message.run !== run) break;
+        nextLevelRef.current = Math.max(nextLevelRef.current, message.level);
+        // Otherwise the level is moved on from when this client reaches its end too.
+        if (world.status === 'LEVEL_COMPLETE' && world.level < message.level) advanceLevel();
+        break;
+      case 'retry':
+        if (slot === 0 && lockstep && (world.status === 'GAMEOVER' || lockstep.desyncTick !== null)) hostOnlineRun(world.difficulty, world.mode);
+        break;
+    }
+  };
+
+  const handleRelayMessage = (relay: RelayConnection, message: RelayMessage) => {
+    if (relay !== relayRef.current) return;
+    switch (message.type) {
+      case 'room':
+        setOnline({ status: relay.status, code: message.code, slot: message.slot, peer: message.peer ? 'connected' : 'waiting', error: null });
+        if (message.peer) restoreLink(relay);
+        // The host flies the guest's pick in every run it starts.
+        if (message.slot !== 0) sendToPeer(relay, { type: 'ship', ship: profileRef.current.ship });
+        break;
+      case 'peerJoined':
+      case 'peerReturned':
+        setOnline(prev => prev && { ...prev, peer: 'connected' });
+        if (message.type === 'peerReturned') restoreLink(relay);
+        break;
+      case 'peerLost':
+        setOnline(prev => prev && { ...prev, peer: 'lost' });
+        break;
+      case 'peerLeft':
+        setOnline(prev => prev && { ...prev, peer: 'left' });
+        closeRelay(relay);
+        break;
+      case 'peer':
+        try {
+          handlePeerMessage(relay, message.data);
+        } catch (err) {
+          console.warn('Ignoring bad message from partner.', err);
         }
-        ctx.restore();
-        ctx.shadowBlur = 0;
-      }
+        break;
+      case 'error':
+        setOnline(prev => prev && { ...prev, error: message.error });
+        break;
+    }
+  };
+
+  const handleRelayStatus = (relay: RelayConnection, status: RelayStatus) => {
+    if (relay !== relayRef.current) return;
+    setOnline(prev => prev && { ...prev, status });
+    if (status === 'closed') endOnlineRun();
+  };
+
+  /** Connects to the relay to create (`code` omitted) or join a room. */
+  const enterRoom = (code?: string) => {
+    // The partner's start arrives without a click here, so audio is unlocked now.
+    sounds.init();
+    leaveRoom();
+    setOnline({ status: 'connecting', code: null, slot: 0, peer: 'waiting', error: null });
+    const relay = openRelay(code ? { type: 'join', code } : { type: 'create' }, {
+      onMessage: message => handleRelayMessage(relay, message),
+      onStatus: status => handleRelayStatus(relay, status),
     });
+    relayRef.current = relay;
+  };
+
+  /** Leaves the room, if in one; the partner is told and their run ends. */
+  const leaveRoom = () => {
+    const relay = relayRef.current;
+    relayRef.current = null;
+    if (relay) closeRelay(relay);
+    const wasOnline = lockstepRef.current !== null;
+    lockstepRef.current = null;
+    startRef.current = null;
+    peerShipRef.current = DEFAULT_SHIP;
+    setOnline(null);
+    setPausedBy(null);
+    setWaitingForPeer(false);
+    setDesyncTick(null);
+    setRetryRequested(false);
+    if (wasOnline) fitCanvas();
+  };
 
-    ctx.fillStyle = COLORS.BULLET;
-    bulletsRef.current.forEach(b => {
-      if (b.isEnemy) {
-        ctx.shadowBlur = 20;
-        ctx.shadowColor = '#ff4400';
-        ctx.fillStyle = '#ff4400';
-        // Draw a larger, glowing missile
-        ctx.beginPath();
-        ctx.ellipse(b.x, b.y, 6, 10, 0, 0, Math.PI * 2);
-        ctx.fill();
-        // Add a white core for better visibility
-        ctx.fillStyle = '#ffffff';
-        ctx.beginPath();
-        ctx.ellipse(b.x, b.y, 2, 5, 0, 0, Math.PI * 2);
-        ctx.fill();
-      } else {
-        ctx.shadowBlur = 10;
-        ctx.shadowColor = b.color;
-        ctx.fillStyle = b.color;
-        ctx.beginPath();
-        ctx.arc(b.x, b.y, 3, 0, Math.PI * 2);
-        ctx.fill();
+  /** Pausing an online run pauses it for both pilots. */
+  const sendPause = (paused: boolean) => {
+    if (relayRef.current) sendToPeer(relayRef.current, { type: 'pause', paused });
+    setPausedBy(null);
+  };
+
+  const resume = () => {
+    sendPause(false);
+    setGameState('PLAYING');
+  };
+
+  // --- Game Loop Logic ---
+
+  const playEventSounds = (events: GameEvent[]) => {
+    events.forEach(event => {
+      switch (event.type) {
+        case 'shot':
+          sounds.playShoot(event.weapon);
+          break;
+        case 'explosion':
+          sounds.playExplosion(event.heavy);
+          break;
+        case 'bombDetonated':
+          sounds.playExplosion(true);
+          break;
+        case 'shieldBlocked':
+        case 'powerUpCollected':
+        case 'abilityUsed':
+          sounds.playPowerUp();
+          break;
+        case 'levelComplete':
+          sounds.playStinger('levelComplete');
+          break;
+        case 'milestone':
+          sounds.playStinger('milestone');
+          break;
+        case 'gameOver':
+          sounds.playStinger('gameOver');
+          break;
+        case 'bossSpawned':
+          sounds.playBossWarning();
+          break;
+        case 'bossPhase':
+          sounds.playBossPhase();
+          break;
+        case 'bossDefeated':
+          sounds.playBossDefeated();
+          break;
       }
-      ctx.shadowBlur = 0;
     });
+  };
 
-    const player = playerRef.current;
-    if (player.invul % 10 < 5) {
-      ctx.save();
-      ctx.translate(player.x, player.y);
-      if (player.shield) {
-        ctx.strokeStyle = COLORS.SHIELD;
-        ctx.lineWidth = 3;
-        ctx.shadowBlur = 20;
-        ctx.shadowColor = COLORS.SHIELD;
-        ctx.beginPath();
-        ctx.arc(0, 0, 35, 0, Math.PI * 2);
-        ctx.stroke();
+  const rumblePilot = (slot: number, strength: number, durationMs: number) => {
+    const controller = controllerOf(slot);
+    if (controller) rumble(controller, bindingsRef.current, strength, durationMs);
+  };
+
+  const handleEvents = (events: GameEvent[], world: World) => {
+    playEventSounds(events);
+    events.forEach(event => {
+      switch (event.type) {
+        case 'playerHit':
+          rumblePilot(event.player, 0.6, 200);
+          break;
+        case 'bombDetonated':
+          rumblePilot(event.player, 1, 400);
+          break;
+        case 'abilityUsed':
+          rumblePilot(event.player, 0.4, 150);
+          break;
+        case 'bossDefeated':
+          activeInputs().forEach(controller => rumble(controller, bindingsRef.current, 0.8, 600));
+          break;
+        case 'enemyEscaped':
+          setShowWarning(true);
+          setTimeout(() => setShowWarning(false), 1000);
+          break;
+        case 'bossSpawned':
+          setShowBossWarning(true);
+          setTimeout(() => setShowBossWarning(false), 3000);
+          break;
+        case 'milestone':
+          setMilestone(event.minutes);
+          setTimeout(() => setMilestone(null), 3000);
+          saveProfile(profileRef.current);
+          break;
+        case 'levelComplete':
+          setGameState('LEVEL_COMPLETE');
+          saveProfile(profileRef.current);
+          // The partner already shopped and moved on from this level; follow at the same tick they did.
+          applyPeerPurchases();
+          if (lockstepRef.current && nextLevelRef.current > world.level) advanceLevel();
+          break;
+        case 'gameOver':
+          endRecording();
+          setGameState('GAMEOVER');
+          saveProfile(profileRef.current);
+          break;
       }
+    });
+  };
 
-      const playerImg = imagesRef.current.PLAYER;
-      if (playerImg) {
-        ctx.drawImage(playerImg, -player.w / 2, -player.h / 2, player.w, player.h);
-      } else {
-        ctx.shadowBlur = 25;
-        ctx.shadowColor = COLORS.PLAYER;
-        ctx.fillStyle = COLORS.PLAYER;
-        ctx.beginPath();
-        ctx.moveTo(0, -25);
-        ctx.lineTo(-20, 15);
-        ctx.lineTo(0, 5);
-        ctx.lineTo(20, 15);
-        ctx.closePath();
-        ctx.fill();
-        ctx.fillStyle = '#fff';
-        ctx.beginPath();
-        ctx.arc(0, 10, 5 + Math.random() * 5, 0, Math.PI * 2);
-        ctx.fill();
+  const updateReplay = (canvas: HTMLCanvasElement, frameTime: number) => {
+    const clock = clockRef.current;
+    const playback = playbackRef.current;
+    if (!playback || replayPaused || isPlaybackFinished(playback)) {
+      pauseClock(clock);
+      return 1;
+    }
+
+    const { ticks, alpha } = advanceClock(clock, frameTime, replaySpeed);
+    for (let i = 0; i < ticks && !isPlaybackFinished(playback); i++) {
+      const events = stepPlayback(playback);
+      if (replaySpeed <= 1) playEventSounds(events);
+      updateBackground(backgroundRef.current, canvas.height, playback.world.time);
+    }
+    if (ticks > 0) {
+      setReplayTick(playback.world.tick);
+      syncHud(playback.world);
+    }
+    return isPlaybackFinished(playback) ? 1 : alpha;
+  };
+
+  /** Runs as many fixed ticks as the real frame time calls for. Returns the interpolation alpha. */
+  const update = (canvas: HTMLCanvasElement, frameTime: number) => {
+    const clock = clockRef.current;
+    if (gameState === 'REPLAY') return updateReplay(canvas, frameTime);
+    if (gameState !== 'PLAYING') {
+      pauseClock(clock);
+      // A bomb pressed in a menu shouldn't go off when play resumes.
+      inputsRef.current.forEach(controller => controller.pressed.clear());
+      return 1;
+    }
+
+    const world = worldRef.current;
+    const { ticks, alpha } = advanceClock(clock, frameTime);
+    const lockstep = lockstepRef.current;
+    if (lockstep) return updateOnline(canvas, lockstep, ticks, alpha);
+    for (let i = 0; i < ticks && world.status === 'PLAYING'; i++) {
+      const count = world.players.length;
+      const inputs = activeInputs().map((controller, slot) => readInput(controller, pilotBindings(bindingsRef.current, slot, count)));
+      simulate(canvas, world, inputs);
+    }
+    if (ticks > 0) {
+      syncHud(world);
+      setAchievementProgress({ ...profileRef.current.progress });
+    }
+    return world.status === 'PLAYING' ? alpha : 1;
+  };
+
+  /** One tick of a run, local or online, with everything that reacts to it. */
+  const simulate = (canvas: HTMLCanvasElement, world: World, inputs: PlayerInput[]) => {
+    if (recorderRef.current) recordInput(recorderRef.current, inputs);
+    const events = step(world, inputs);
+    // A partner's kills and pickups are theirs, not this profile's.
+    recordStep(profileRef.current, world, events, profilePilot());
+    checkAchievements(world, pilotEvents(events, profilePilot()));
+    handleEvents(events, world);
+    updateBackground(backgroundRef.current, canvas.height, world.time);
+  };
+
+  /**
+   * Online, a tick runs only once the partner's input for it has arrived. Ticks the clock
+   * owes while waiting are dropped rather than caught up in a burst.
+   */
+  const updateOnline = (canvas: HTMLCanvasElement, lockstep: Lockstep, ticks: number, alpha: number) => {
+    const world = worldRef.current;
+    const relay = relayRef.current;
+    const run = startRef.current?.seed ?? 0;
+    let stepped = 0;
+    let stalled = false;
+    for (let i = 0; i < ticks && world.status === 'PLAYING'; i++) {
+      if (wantsInput(lockstep, world.tick)) {
+        queueInput(lockstep, readInput(inputsRef.current[0], pilotBindings(bindingsRef.current, 0, 1)));
+      }
+      const inputs = nextFrame(lockstep, world.tick);
+      if (!inputs) {
+        stalled = true;
+        break;
       }
-      ctx.restore();
-      ctx.shadowBlur = 0;
+      simulate(canvas, world, inputs);
+      stepped += 1;
+      if (world.tick % HASH_INTERVAL === 0) {
+        const hash = hashWorld(world);
+        recordHash(lockstep, world.tick, hash);
+        if (relay) sendToPeer(relay, { type: 'hash', run, tick: world.tick, hash });
+        checkDesync();
+      }
+    }
+    const outgoing = takeOutgoing(lockstep);
+    if (relay && outgoing) sendToPeer(relay, { type: 'inputs', run, ...outgoing });
+
+    // A short wait is normal jitter; a long one is worth telling the player about.
+    const now = performance.now();
+    if (stalled) stalledSinceRef.current ??= now;
+    else if (stepped > 0) stalledSinceRef.current = null;
+    const stalledSince = stalledSinceRef.current;
+    setWaitingForPeer(stalledSince !== null && now - stalledSince > STALL_NOTICE_MS);
+
+    if (stepped > 0) {
+      syncHud(world);
+      setAchievementProgress({ ...profileRef.current.progress });
     }
-    ctx.restore();
+    return world.status === 'PLAYING' && !stalled ? alpha : 1;
   };
 
-  const gameLoop = useCallback(() => {
+  const gameLoop = useCallback((frameTime: number) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    update(canvas, 1);
-    draw(ctx, canvas);
+    if (rendererRef.current?.canvas !== canvas) rendererRef.current = createRenderer(canvas, { webgl: PREFER_WEBGL });
+    // Each pilot after the first takes the next gamepad nobody else has.
+    let taken: number | null = null;
+    activeInputs().forEach(controller => {
+      const pressed = pollGamepad(controller, bindingsRef.current, taken);
+      taken = controller.gamepad;
+      if (pressed.includes('pause')) togglePause();
+      if (pressed.includes('mute')) toggleMute();
+    });
+    const alpha = update(canvas, frameTime);
+    const world = gameState === 'REPLAY' && playbackRef.current ? playbackRef.current.world : worldRef.current;
+    syncBackground(world);
+    drawWorld(rendererRef.current, world, backgroundRef.current, imagesRef.current, alpha, settingsRef.current);
     requestRef.current = requestAnimationFrame(gameLoop);
-  }, [gameState, score, level, health]);
+  }, [gameState, score, level, replayPaused, replaySpeed, poolStats, controlsOpen, settingsOpen]);
 
   useEffect(() => {
-    const handleResize = () => {
-      const canvas = canvasRef.current;
-      if (canvas) {
-        const rect = canvas.getBoundingClientRect();
-        canvas.width = rect.width;
-        canvas.height = rect.height;
-        initStars(canvas.width, canvas.height);
-      }
-    };
+    const handleResize = () => fitCanvas();
     window.addEventListener('resize', handleResize);
     handleResize();
     const handleKeyDown = (e: KeyboardEvent) => {
-      keysRef.current[e.key] = true;
-      if (e.key === 'p' || e.key === 'P' || e.key === 'Escape') {
-        setGameState(prev => prev === 'PLAYING' ? 'PAUSED' : prev === 'PAUSED' ? 'PLAYING' : prev);
+      const count = localPilots();
+      activeInputs().forEach((controller, slot) => {
+        const action = pressKey(controller, pilotBindings(bindingsRef.current, slot, count), e.code);
+        if (action === 'pause') togglePause();
+        if (action === 'mute') toggleMute();
+      });
+      if (e.code === 'Backquote') {
+        setPoolStats(prev => prev ? null : poolUsage(worldRef.current));
       }
     };
-    const handleKeyUp = (e: KeyboardEvent) => keysRef.current[e.key] = false;
+    const handleKeyUp = (e: KeyboardEvent) => inputsRef.current.forEach(controller => releaseKey(controller, e.code));
+    // Key-ups that happen while the window is unfocused never arrive.
+    const handleBlur = () => inputsRef.current.forEach(controller => releaseAll(controller));
     window.addEventListener('keydown', handleKeyDown);
     window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
     requestRef.current = requestAnimationFrame(gameLoop);
     return () => {
       window.removeEventListener('resize', handleResize);
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
     };
   }, [gameLoop]);
 
+  // The music carries on under the pause menu, muffled.
+  useEffect(() => {
+    sounds.setPaused(gameState === 'PAUSED' || (gameState === 'REPLAY' && replayPaused));
+  }, [gameState, replayPaused]);
+
+  // Closing or hiding the tab mid-run would otherwise lose everything since the last checkpoint.
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') saveProfile(profileRef.current);
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
+
+  /** Where a point on screen falls on the canvas; online runs stretch the host's screen size over it. */
+  const canvasPoint = (canvas: HTMLCanvasElement, clientX: number, clientY: number) => {
+    const rect = canvas.getBoundingClientRect();
+    const x = clientX - rect.left;
+    const y = clientY - rect.top;
+    if (!lockstepRef.current || rect.width === 0 || rect.height === 0) return { x, y };
+    return { x: x * canvas.width / rect.width, y: y * canvas.height / rect.height };
+  };
+
   const handleTouch = (e: React.TouchEvent) => {
     if (gameState !== 'PLAYING') return;
     const touch = e.touches[0];
     const canvas = canvasRef.current;
     if (canvas) {
-      const rect = canvas.getBoundingClientRect();
-      playerRef.current.x = touch.clientX - rect.left;
-      playerRef.current.y = touch.clientY - rect.top - 50;
-      keysRef.current[' '] = true;
+      const point = canvasPoint(canvas, touch.clientX, touch.clientY);
+      inputsRef.current[0].pointer = { x: point.x, y: point.y - 50 };
+      inputsRef.current[0].pointerFire = true;
     }
   };
 
+  const handleTouchStart = (e: React.TouchEvent) => {
+    // A second finger set down drops a bomb.
+    if (gameState === 'PLAYING' && e.touches.length >= 2) pressAction(inputsRef.current[0], 'bomb');
+    handleTouch(e);
+  };
+
   const handleTouchEnd = () => {
-    keysRef.current[' '] = false;
+    inputsRef.current[0].pointerFire = false;
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
     if (gameState !== 'PLAYING') return;
     const canvas = canvasRef.current;
-    if (canvas) {
-      const rect = canvas.getBoundingClientRect();
-      playerRef.current.x = e.clientX - rect.left;
-      playerRef.current.y = e.clientY - rect.top;
-    }
+    if (canvas) inputsRef.current[0].pointer = canvasPoint(canvas, e.clientX, e.clientY);
   };
 
   const handleMouseDown = (e: React.MouseEvent) => {
     if (gameState !== 'PLAYING') return;
     if (e.button === 0) { // Left click
-      keysRef.current[' '] = true;
+      inputsRef.current[0].pointerFire = true;
+    } else if (e.button === 1) { // Middle click
+      e.preventDefault();
+      pressAction(inputsRef.current[0], 'special');
+    } else if (e.button === 2) { // Right click
+      pressAction(inputsRef.current[0], 'bomb');
     }
   };
 
   const handleMouseUp = (e: React.MouseEvent) => {
     if (e.button === 0) {
-      keysRef.current[' '] = false;
+      inputsRef.current[0].pointerFire = false;
     }
   };
 
+  const moveKeysOf = (keys: Bindings['keys']) => (['up', 'left', 'down', 'right'] as Action[])
+    .map(action => keys[action][0] ? keyLabel(keys[action][0]) : '?').join('');
+  const firstKeyOf = (keys: Bindings['keys'], action: Action) => keys[action][0] ? keyLabel(keys[action][0]) : t('common.unbound');
+  const moveKeys = moveKeysOf(bindings.keys);
+  const firstKey = (action: Action) => firstKeyOf(bindings.keys, action);
+  /** The only pilot's HUD view in a solo run; co-op shows a panel per pilot instead. */
+  const solo: PilotView | undefined = pilots.length === 1 ? pilots[0] : undefined;
+  // The guest of an online run follows the host through the shop and on to the next level.
+  const onlineGuest = lockstepRef.current !== null && online !== null && online.slot !== 0;
+  /** Why an online run ended early, for the game over screen. */
+  const onlineNotice = desyncTick !== null ? t('online.desync', { tick: desyncTick })
+    : online?.peer === 'left' ? t('online.peerLeft')
+    : online?.status === 'closed' ? t('online.disconnected')
+    : null;
+  /** Tailwind's pulse, unless the player asked for less flashing or motion. */
+  const pulse = settings.reducedMotion || settings.reducedFlash ? '' : 'animate-pulse';
+
   return (
-    <div className="min-h-screen bg-[#020205] text-white font-sans overflow-hidden selection:bg-cyan-500/30">
-      <div className="fixed inset-0 pointer-events-none opacity-30">
-        <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-blue-900/20 via-transparent to-transparent" />
-      </div>
-
-      <div ref={containerRef} className="relative w-full h-screen flex flex-col md:flex-row">
-        <aside className="hidden lg:flex w-80 border-r border-white/10 bg-black/60 backdrop-blur-2xl p-8 flex-col gap-8 z-20">
-          <div className="space-y-2">
-            <h1 className="text-3xl font-black tracking-tighter text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-600">
-              TINA STAR PIONEER
-            </h1>
-            <p className="text-xs uppercase tracking-widest text-white/40 font-bold">浩瀚星空 · 极致战斗</p>
+    <I18nContext.Provider value={i18n}>
+      <MotionConfig reducedMotion={settings.reducedMotion ? 'always' : 'never'}>
+        <div className="min-h-screen bg-[#020205] text-white font-sans overflow-hidden selection:bg-cyan-500/30">
+          <div className="fixed inset-0 pointer-events-none opacity-30">
+            <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-blue-900/20 via-transparent to-transparent" />
           </div>
 
-          <div className="space-y-6">
-            <section>
-              <h3 className="text-xs font-bold uppercase text-cyan-400 mb-4 flex items-center gap-2">
-                <Gamepad2 className="w-4 h-4" /> 操作指南
-              </h3>
-              <ul className="space-y-3 text-sm text-white/60">
-                <li className="flex justify-between"><span>移动</span> <span className="text-white font-mono">WASD / 鼠标移动</span></li>
-                <li className="flex justify-between"><span>射击</span> <span className="text-white font-mono">空格 / 鼠标左键</span></li>
-                <li className="flex justify-between"><span>暂停</span> <span className="text-white font-mono">P 键</span></li>
-                <li className="flex justify-between"><span>触屏</span> <span className="text-white font-mono">滑动移动+自动射击</span></li>
-              </ul>
-            </section>
-
-            <section>
-              <h3 className="text-xs font-bold uppercase text-purple-400 mb-4 flex items-center gap-2">
-                <Zap className="w-4 h-4" /> 道具说明
-              </h3>
-              <div className="space-y-4">
-                <div className="flex gap-3 items-start">
-                  <div className="p-2 rounded-lg bg-green-500/20 border border-green-500/30">
-                    <Zap className="w-4 h-4 text-green-400" />
-                  </div>
-                  <div>
-                    <p className="text-sm font-bold">三向子弹</p>
-                    <p className="text-xs text-white/40">大幅增强火力范围</p>
-                  </div>
-                </div>
-                <div className="flex gap-3 items-start">
-                  <div className="p-2 rounded-lg bg-blue-500/20 border border-blue-500/30">
-                    <Shield className="w-4 h-4 text-blue-400" />
-                  </div>
-                  <div>
-                    <p className="text-sm font-bold">能量护盾</p>
-                    <p className="text-xs text-white/40">抵挡一次致命伤害</p>
-                  </div>
-                </div>
+          <div ref={containerRef} className="relative w-full h-screen flex flex-col md:flex-row">
+            <aside className="hidden lg:flex w-80 border-r border-white/10 bg-black/60 backdrop-blur-2xl p-8 flex-col gap-8 z-20">
+              <div className="space-y-2">
+                <h1 className="text-3xl font-black tracking-tighter text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-600">
+                  TINA STAR PIONEER
+                </h1>
+                <p className="text-xs uppercase tracking-widest text-white/40 font-bold">{t('sidebar.tagline')}</p>
               </div>
-            </section>
 
-            <section className="flex-1 overflow-y-auto pr-2 custom-scrollbar">
-              <h3 className="text-xs font-bold uppercase text-yellow-400 mb-4 flex items-center gap-2">
-                <Trophy className="w-4 h-4" /> 成就系统
-              </h3>
-              <div className="space-y-2">
-                {achievements.map(a => (
-                  <div key={a.id} className={`p-3 rounded-xl border transition-all ${a.unlocked ? 'bg-yellow-500/10 border-yellow-500/30' : 'bg-white/5 border-white/10 opacity-40'}`}>
-                    <div className="flex items-center gap-3">
-                      <div className={a.unlocked ? 'text-yellow-400' : 'text-white/40'}>{a.icon}</div>
+              <div className="space-y-6">
+                <section>
+                  <h3 className="text-xs font-bold uppercase text-cyan-400 mb-4 flex items-center gap-2">
+                    <Gamepad2 className="w-4 h-4" /> {t('sidebar.guide')}
+                  </h3>
+                  <ul className="space-y-3 text-sm text-white/60">
+                    <li className="flex justify-between"><span>{t('common.move')}</span> <span className="text-white font-mono">{t('sidebar.move', { keys: moveKeys })}</span></li>
+                    <li className="flex justify-between"><span>{t('action.fire')}</span> <span className="text-white font-mono">{t('sidebar.fire', { key: firstKey('fire') })}</span></li>
+                    <li className="flex justify-between"><span>{t('action.charge')}</span> <span className="text-white font-mono">{t('sidebar.charge', { key: firstKey('charge') })}</span></li>
+                    <li className="flex justify-between"><span>{t('action.bomb')}</span> <span className="text-white font-mono">{t('sidebar.bomb', { key: firstKey('bomb') })}</span></li>
+                    <li className="flex justify-between"><span>{t('action.special')}</span> <span className="text-white font-mono">{t('sidebar.special', { key: firstKey('special') })}</span></li>
+                    <li className="flex justify-between"><span>{t('action.pause')}</span> <span className="text-white font-mono">{firstKey('pause')}</span></li>
+                    <li className="flex justify-between"><span>{t('sidebar.gamepad')}</span> <span className="text-white font-mono">{t('sidebar.gamepadKeys')}</span></li>
+                    <li className="flex justify-between"><span>{t('sidebar.touch')}</span> <span className="text-white font-mono">{t('sidebar.touchKeys')}</span></li>
+                  </ul>
+                </section>
+
+                <section>
+                  <h3 className="text-xs font-bold uppercase text-purple-400 mb-4 flex items-center gap-2">
+                    <Zap className="w-4 h-4" /> {t('sidebar.powerUps')}
+                  </h3>
+                  <div className="space-y-4">
+                    <div className="flex gap-3 items-start">
+                      <div className="p-2 rounded-lg bg-green-500/20 border border-green-500/30">
+                        <Zap className="w-4 h-4 text-green-400" />
+                      </div>
                       <div>
-                        <p className="text-xs font-bold">{a.title}</p>
-                        <p className="text-[10px] text-white/40 leading-tight">{a.description}</p>
+                        <p className="text-sm font-bold">{t('powerUp.triple')}</p>
+                        <p className="text-xs text-white/40">{t('sidebar.tripleHint')}</p>
+                      </div>
+                    </div>
+                    <div className="flex gap-3 items-start">
+                      <div className="p-2 rounded-lg bg-blue-500/20 border border-blue-500/30">
+                        <Shield className="w-4 h-4 text-blue-400" />
+                      </div>
+                      <div>
+                        <p className="text-sm font-bold">{t('powerUp.shield')}</p>
+                        <p className="text-xs text-white/40">{t('sidebar.shieldHint')}</p>
+                      </div>
+                    </div>
+                    <div className="flex gap-3 items-start">
+                      <div className="p-2 rounded-lg bg-lime-500/20 border border-lime-500/30">
+                        <ChevronsUp className="w-4 h-4 text-lime-300" />
+                      </div>
+                      <div>
+                        <p className="text-sm font-bold">{t('powerUp.weapon')}</p>
+                        <p className="text-xs text-white/40">{t('sidebar.weaponHint')}</p>
                       </div>
                     </div>
                   </div>
-                ))}
+                </section>
+
+                <section className="flex-1 overflow-y-auto pr-2 custom-scrollbar">
+                  <h3 className="text-xs font-bold uppercase text-yellow-400 mb-4 flex items-center gap-2">
+                    <Trophy className="w-4 h-4" /> {t('sidebar.achievements')}
+                  </h3>
+                  <AchievementList unlocks={unlocks} progress={achievementProgress} />
+                </section>
               </div>
-            </section>
-          </div>
-        </aside>
-
-        <main className="flex-1 relative overflow-hidden flex flex-col">
-          <div className="absolute top-0 left-0 right-0 p-6 flex justify-between items-start z-10 pointer-events-none">
-            <div className="flex gap-4">
-              <div className="bg-black/60 backdrop-blur-xl border border-white/10 p-3 rounded-2xl flex items-center gap-4 shadow-2xl">
-                <div className="flex flex-col">
-                  <span className="text-[10px] uppercase tracking-widest text-white/40 font-bold">Score</span>
-                  <span className="text-2xl font-mono font-bold text-cyan-400">{score.toLocaleString()}</span>
-                </div>
-                <div className="w-px h-8 bg-white/10" />
-                <div className="flex flex-col">
-                  <span className="text-[10px] uppercase tracking-widest text-white/40 font-bold">Level</span>
-                  <span className="text-2xl font-mono font-bold text-purple-400">{level}</span>
+            </aside>
+
+            <main className="flex-1 relative overflow-hidden flex flex-col">
+              <div className="absolute top-0 left-0 right-0 p-6 flex justify-between items-start z-10 pointer-events-none">
+                <div className="flex gap-4">
+                  <div className="bg-black/60 backdrop-blur-xl border border-white/10 p-3 rounded-2xl flex items-center gap-4 shadow-2xl">
+                    <div className="flex flex-col">
+                      <span className="text-[10px] uppercase tracking-widest text-white/40 font-bold">{t('hud.score')}</span>
+                      <span className="text-2xl font-mono font-bold text-cyan-400">{score.toLocaleString()}</span>
+                    </div>
+                    <div className="w-px h-8 bg-white/10" />
+                    <div className="flex flex-col">
+                      <span className="text-[10px] uppercase tracking-widest text-white/40 font-bold">{t('hud.level')}</span>
+                      <span className="text-2xl font-mono font-bold text-purple-400">{elapsed === null ? level : '∞'}</span>
+                    </div>
+                    <div className="w-px h-8 bg-white/10" />
+                    <div className="flex flex-col">
+                      <span className="text-[10px] uppercase tracking-widest text-white/40 font-bold">{t(elapsed === null ? 'hud.time' : 'hud.survived')}</span>
+                      <span className={`text-2xl font-mono font-bold ${timeLeft !== null && timeLeft < 10 ? `text-red-500 ${pulse}` : 'text-yellow-400'}`}>
+                        {elapsed !== null ? formatSurvival(elapsed) : timeLeft === null ? '--' : t('hud.seconds', { seconds: Math.ceil(timeLeft) })}
+                      </span>
+                    </div>
+                    {elapsed === null && <div className="w-px h-8 bg-white/10" />}
+                    {elapsed === null && (
+                      <div className="flex flex-col">
+                        <span className="text-[10px] uppercase tracking-widest text-white/40 font-bold">{t('hud.stardust')}</span>
+                        <span className="text-2xl font-mono font-bold text-amber-300">{stardust.toLocaleString()}</span>
+                      </div>
+                    )}
+                  </div>
                 </div>
-                <div className="w-px h-8 bg-white/10" />
-                <div className="flex flex-col">
-                  <span className="text-[10px] uppercase tracking-widest text-white/40 font-bold">Time</span>
-                  <span className={`text-2xl font-mono font-bold ${timeLeft < 10 ? 'text-red-500 animate-pulse' : 'text-yellow-400'}`}>
-                    {Math.ceil(timeLeft)}s
-                  </span>
+
+                <div className="flex flex-col items-end gap-3">
+                  <div className="flex gap-2">
+                    <button
+                      onClick={toggleMute}
+                      title={t(settings.muted ? 'hud.unmute' : 'hud.mute', { key: firstKey('mute') })}
+                      className="p-2 rounded-xl border shadow-lg bg-black/60 border-white/10 text-white/60 hover:text-white pointer-events-auto"
+                    >
+                      {settings.muted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+                    </button>
+                    {solo && Array.from({ length: solo.maxHealth }).map((_, i) => (
+                      <motion.div 
+                        key={i}
+                        animate={{ scale: i < solo.health ? 1 : 0.8, opacity: i < solo.health ? 1 : 0.2 }}
+                        className={`p-2 rounded-xl border shadow-lg ${i < solo.health ? 'bg-red-500/20 border-red-500/40 text-red-400' : 'bg-white/5 border-white/10 text-white/20'}`}
+                      >
+                        <Heart className="w-5 h-5 fill-current" />
+                      </motion.div>
+                    ))}
+                  </div>
+                  {solo && <WeaponMeter ship={solo.ship} level={solo.weaponLevel} secondary={solo.secondary} charge={solo.charge} />}
+                  {solo && <AbilityMeter ship={solo.ship} cooldown={solo.abilityCooldown} />}
+                  {solo && <ActiveEffects effects={solo.effects} />}
                 </div>
               </div>
-            </div>
-
-            <div className="flex gap-2">
-              {Array.from({ length: 3 }).map((_, i) => (
-                <motion.div 
-                  key={i}
-                  animate={{ scale: i < health ? 1 : 0.8, opacity: i < health ? 1 : 0.2 }}
-                  className={`p-2 rounded-xl border shadow-lg ${i < health ? 'bg-red-500/20 border-red-500/40 text-red-400' : 'bg-white/5 border-white/10 text-white/20'}`}
-                >
-                  <Heart className="w-5 h-5 fill-current" />
-                </motion.div>
-              ))}
-            </div>
-          </div>
 
-          <AnimatePresence>
-            {showWarning && (
-              <motion.div 
-                initial={{ opacity: 0, y: -20 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0 }}
-                className="absolute top-24 left-1/2 -translate-x-1/2 bg-red-600/90 text-white px-6 py-2 rounded-full text-xs font-black uppercase tracking-widest z-20 shadow-2xl border border-red-400"
-              >
-                Enemy Escaped! -50
-              </motion.div>
-            )}
-          </AnimatePresence>
-
-          <AnimatePresence>
-            {lastAchievement && (
-              <motion.div 
-                initial={{ x: 100, opacity: 0 }}
-                animate={{ x: 0, opacity: 1 }}
-                exit={{ x: 100, opacity: 0 }}
-                className="absolute top-6 right-6 bg-yellow-400 text-black p-4 rounded-2xl shadow-2xl flex items-center gap-4 z-50 border-4 border-yellow-200"
-              >
-                <div className="p-2 bg-black/10 rounded-xl">
-                  {lastAchievement.icon}
-                </div>
-                <div>
-                  <p className="text-[10px] font-black uppercase tracking-widest opacity-60">成就解锁</p>
-                  <p className="font-bold text-lg leading-tight">{lastAchievement.title}</p>
+              {pilots.length > 1 && (
+                <div className="absolute bottom-0 left-0 right-0 p-6 flex justify-between items-end z-10 pointer-events-none">
+                  {pilots.map(pilot => (
+                    <PilotHud key={pilot.slot} pilot={pilot} align={pilot.slot === 0 ? 'left' : 'right'} />
+                  ))}
                 </div>
-              </motion.div>
-            )}
-          </AnimatePresence>
-
-          <canvas 
-            ref={canvasRef}
-            onTouchMove={handleTouch}
-            onTouchStart={handleTouch}
-            onTouchEnd={handleTouchEnd}
-            onMouseMove={handleMouseMove}
-            onMouseDown={handleMouseDown}
-            onMouseUp={handleMouseUp}
-            className="w-full h-full cursor-none"
-          />
-
-          <AnimatePresence>
-            {gameState === 'START' && (
-              <motion.div 
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                exit={{ opacity: 0 }}
-                className="absolute inset-0 bg-black/90 backdrop-blur-md flex items-center justify-center z-40 p-6 overflow-y-auto"
-              >
-                <div className="max-w-2xl w-full text-center space-y-12 py-12">
-                  <motion.div
-                    initial={{ y: -50, opacity: 0 }}
-                    animate={{ y: 0, opacity: 1 }}
-                    transition={{ type: 'spring', damping: 12 }}
+              )}
+
+              {poolStats && <PoolStats usage={poolStats} />}
+
+              <AnimatePresence>
+                {showWarning && (
+                  <motion.div 
+                    initial={{ opacity: 0, y: -20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute top-24 left-1/2 -translate-x-1/2 bg-red-600/90 text-white px-6 py-2 rounded-full text-xs font-black uppercase tracking-widest z-20 shadow-2xl border border-red-400"
                   >
-                    <h2 className="text-8xl font-black tracking-tighter mb-2 italic bg-clip-text text-transparent bg-gradient-to-b from-white via-cyan-400 to-blue-600">
-                      TINA <span className="text-white">STAR</span>
-                    </h2>
-                    <p className="text-2xl font-bold text-cyan-400/50 uppercase tracking-[1em] ml-[1em]">Pioneer</p>
+                    {t('hud.enemyEscaped', { penalty: ESCAPE_PENALTY })}
                   </motion.div>
-
-                  <div className="space-y-6">
-                    <p className="text-xs font-black uppercase tracking-[0.3em] text-white/40">选择难度等级</p>
-                    <div className="grid grid-cols-3 gap-4">
-                      {[
-                        { id: 'EASY', label: '简单', color: 'from-emerald-500 to-teal-600', desc: '敌机较少，速度慢' },
-                        { id: 'NORMAL', label: '普通', color: 'from-cyan-500 to-blue-600', desc: '标准挑战' },
-                        { id: 'HARD', label: '困难', color: 'from-rose-500 to-red-600', desc: '疯狂的弹幕与速度' }
-                      ].map((d) => (
+                )}
+              </AnimatePresence>
+
+              <AnimatePresence>
+                {showBossWarning && (
+                  <motion.div 
+                    initial={{ opacity: 0, scale: 1.2 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute top-1/3 left-1/2 -translate-x-1/2 text-center z-20 pointer-events-none"
+                  >
+                    <p className={`text-5xl font-black italic tracking-tighter text-red-500 ${pulse}`}>{t('hud.warning')}</p>
+                    <p className="text-xs font-black uppercase tracking-[0.5em] text-white/60 mt-2">{t('hud.bossIncoming')}</p>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
+              <AnimatePresence>
+                {milestone !== null && (
+                  <motion.div 
+                    initial={{ opacity: 0, scale: 1.2 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute top-1/3 left-1/2 -translate-x-1/2 text-center z-20 pointer-events-none"
+                  >
+                    <p className="text-5xl font-black italic tracking-tighter text-violet-400">{t('hud.milestone')}</p>
+                    <p className="text-xs font-black uppercase tracking-[0.5em] text-white/60 mt-2">{t('hud.minutesSurvived', { count: milestone })}</p>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
+              <AnimatePresence>
+                {bossHud && (
+                  <motion.div 
+                    initial={{ opacity: 0, y: -20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute top-28 left-1/2 -translate-x-1/2 w-[min(36rem,calc(100%-3rem))] z-10 pointer-events-none"
+                  >
+                    <div className="flex justify-between items-end mb-1">
+                      <span className="text-xs font-black uppercase tracking-[0.3em] text-red-400">{t(bossName(bossHud.id))}</span>
+                      <span className="text-[10px] font-mono text-white/40">{Math.ceil(bossHud.hp)} / {bossHud.maxHp}</span>
+                    </div>
+                    <div className="relative h-4 bg-black/60 border border-red-500/40 rounded-full overflow-hidden">
+                      <div
+                        className="absolute inset-y-0 left-0 bg-gradient-to-r from-red-600 to-rose-400 transition-[width] duration-150"
+                        style={{ width: `${(bossHud.hp / bossHud.maxHp) * 100}%` }}
+                      />
+                      {bossHud.thresholds.map(t => (
+                        <div key={t} className="absolute inset-y-0 w-0.5 bg-black/80" style={{ left: `${t * 100}%` }} />
+                      ))}
+                    </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
+              <AnimatePresence>
+                {currentToast && (
+                  <motion.div 
+                    key={currentToast}
+                    initial={{ x: 100, opacity: 0 }}
+                    animate={{ x: 0, opacity: 1 }}
+                    exit={{ x: 100, opacity: 0 }}
+                    className="absolute top-6 right-6 bg-yellow-400 text-black p-4 rounded-2xl shadow-2xl flex items-center gap-4 z-50 border-4 border-yellow-200"
+                  >
+                    <div className="p-2 bg-black/10 rounded-xl">
+                      <AchievementGlyph id={currentToast} />
+                    </div>
+                    <div>
+                      <p className="text-[10px] font-black uppercase tracking-widest opacity-60">
+                        {t('hud.achievementUnlocked', { tier: t(`tier.${ACHIEVEMENTS[currentToast].tier}`) })}
+                        {achievementToasts.length > 1 && t('hud.moreUnlocks', { count: achievementToasts.length - 1 })}
+                      </p>
+                      <p className="font-bold text-lg leading-tight">{t(achievementTitle(currentToast))}</p>
+                    </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
+              <canvas 
+                ref={canvasRef}
+                onTouchMove={handleTouch}
+                onTouchStart={handleTouchStart}
+                onTouchEnd={handleTouchEnd}
+                onMouseMove={handleMouseMove}
+                onMouseDown={handleMouseDown}
+                onMouseUp={handleMouseUp}
+                onContextMenu={e => e.preventDefault()}
+                className="w-full h-full cursor-none"
+              />
+
+              <AnimatePresence>
+                {gameState === 'START' && (
+                  <motion.div 
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute inset-0 bg-black/90 backdrop-blur-md flex items-center justify-center z-40 p-6 overflow-y-auto"
+                  >
+                    <div className="max-w-2xl w-full text-center space-y-12 py-12">
+                      <motion.div
+                        initial={{ y: -50, opacity: 0 }}
+                        animate={{ y: 0, opacity: 1 }}
+                        transition={{ type: 'spring', damping: 12 }}
+                      >
+                        <h2 className="text-8xl font-black tracking-tighter mb-2 italic bg-clip-text text-transparent bg-gradient-to-b from-white via-cyan-400 to-blue-600">
+                          TINA <span className="text-white">STAR</span>
+                        </h2>
+                        <p className="text-2xl font-bold text-cyan-400/50 uppercase tracking-[1em] ml-[1em]">Pioneer</p>
+                      </motion.div>
+
+                      <div className="space-y-6">
+                        <div className="flex justify-center gap-2">
+                          {[1, 2].map(count => (
+                            <button
+                              key={count}
+                              onClick={() => setPlayerCount(count)}
+                              className={`px-5 py-2 rounded-2xl text-sm font-bold border transition-all flex items-center gap-2 ${playerCount === count ? 'bg-cyan-500 text-black border-cyan-300' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+                            >
+                              {count > 1 && <Users className="w-4 h-4" />} {t(count > 1 ? 'start.coop' : 'start.solo')}
+                            </button>
+                          ))}
+                          <button
+                            onClick={() => setOnlineOpen(true)}
+                            className="px-5 py-2 rounded-2xl text-sm font-bold border transition-all flex items-center gap-2 bg-white/5 border-white/10 hover:bg-white/10"
+                          >
+                            <Globe className="w-4 h-4" /> {t('start.online')}
+                          </button>
+                          <button
+                            onClick={() => setHangarOpen(true)}
+                            className="px-5 py-2 rounded-2xl text-sm font-bold border transition-all flex items-center gap-2 bg-white/5 border-white/10 hover:bg-white/10"
+                          >
+                            <Rocket className="w-4 h-4" /> {t('start.hangar')} · {ships.slice(0, playerCount).map(ship => t(shipName(ship))).join(' / ')}
+                          </button>
+                        </div>
+                        {playerCount > 1 && (
+                          <p className="text-xs text-white/60 font-mono">
+                            {t('start.coopHint', { keys: moveKeysOf(bindings.keys2), fire: firstKeyOf(bindings.keys2, 'fire'), bomb: firstKeyOf(bindings.keys2, 'bomb'), special: firstKeyOf(bindings.keys2, 'special') })}
+                          </p>
+                        )}
+                        <p className="text-xs font-black uppercase tracking-[0.3em] text-white/40">{t('start.chooseDifficulty')}</p>
+                        <div className="grid grid-cols-3 gap-4">
+                          {([
+                            { id: 'EASY', color: 'from-emerald-500 to-teal-600' },
+                            { id: 'NORMAL', color: 'from-cyan-500 to-blue-600' },
+                            { id: 'HARD', color: 'from-rose-500 to-red-600' }
+                          ] as { id: Difficulty; color: string }[]).map((d) => (
+                            <button
+                              key={d.id}
+                              onClick={() => initGame(d.id)}
+                              title={t(`difficulty.${d.id}.hint`)}
+                              className={`group relative p-6 rounded-3xl bg-gradient-to-br ${d.color} transition-all transform hover:scale-105 active:scale-95 shadow-2xl overflow-hidden`}
+                            >
+                              <div className="relative z-10 space-y-1">
+                                <p className="text-2xl font-black text-white">{t(`difficulty.${d.id}`)}</p>
+                                <p className="text-[10px] text-white/60 font-bold uppercase">{d.id}</p>
+                              </div>
+                              <div className="absolute inset-0 bg-white/20 opacity-0 group-hover:opacity-100 transition-opacity" />
+                            </button>
+                          ))}
+                        </div>
                         <button
-                          key={d.id}
-                          onClick={() => initGame(d.id as Difficulty)}
-                          className={`group relative p-6 rounded-3xl bg-gradient-to-br ${d.color} transition-all transform hover:scale-105 active:scale-95 shadow-2xl overflow-hidden`}
+                          onClick={() => initGame('NORMAL', 'endless')}
+                          className="group relative w-full p-5 rounded-3xl bg-gradient-to-br from-violet-500 to-fuchsia-700 transition-all transform hover:scale-[1.02] active:scale-95 shadow-2xl overflow-hidden"
                         >
-                          <div className="relative z-10 space-y-1">
-                            <p className="text-2xl font-black text-white">{d.label}</p>
-                            <p className="text-[10px] text-white/60 font-bold uppercase">{d.id}</p>
+                          <div className="relative z-10 flex items-center justify-center gap-3">
+                            <InfinityIcon className="w-7 h-7" />
+                            <p className="text-2xl font-black text-white">{t('mode.endless')}</p>
+                            <p className="text-[10px] text-white/60 font-bold uppercase">{t('mode.endless.hint')}</p>
                           </div>
                           <div className="absolute inset-0 bg-white/20 opacity-0 group-hover:opacity-100 transition-opacity" />
                         </button>
-                      ))}
-                    </div>
-                  </div>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4 text-left">
+                        <div className="p-6 rounded-3xl bg-white/5 border border-white/10 backdrop-blur-sm">
+                          <p className="text-[10px] font-bold text-cyan-400 uppercase mb-3 tracking-widest">{t('start.desktopControls')}</p>
+                          <div className="space-y-2 text-xs text-white/60">
+                            <p className="flex justify-between"><span>{t('common.move')}</span> <span className="text-white font-mono">{t('start.move', { keys: moveKeys })}</span></p>
+                            <p className="flex justify-between"><span>{t('action.fire')}</span> <span className="text-white font-mono">{t('start.fire', { key: firstKey('fire') })}</span></p>
+                            <p className="flex justify-between"><span>{t('action.charge')}</span> <span className="text-white font-mono">{t('start.charge', { key: firstKey('charge') })}</span></p>
+                            <p className="flex justify-between"><span>{t('action.bomb')}</span> <span className="text-white font-mono">{t('start.bomb', { key: firstKey('bomb') })}</span></p>
+                            <p className="flex justify-between"><span>{t('action.special')}</span> <span className="text-white font-mono">{t('start.special', { key: firstKey('special') })}</span></p>
+                            <p className="flex justify-between"><span>{t('action.pause')}</span> <span className="text-white font-mono">{firstKey('pause')}</span></p>
+                          </div>
+                        </div>
+                        <div className="p-6 rounded-3xl bg-white/5 border border-white/10 backdrop-blur-sm">
+                          <p className="text-[10px] font-bold text-purple-400 uppercase mb-3 tracking-widest">{t('start.mobileControls')}</p>
+                          <div className="space-y-2 text-xs text-white/60">
+                            <p>{t('start.mobileMove')}</p>
+                            <p>{t('start.mobileFire')}</p>
+                            <p>{t('start.mobilePause')}</p>
+                          </div>
+                        </div>
+                      </div>
 
-                  <div className="grid grid-cols-2 gap-4 text-left">
-                    <div className="p-6 rounded-3xl bg-white/5 border border-white/10 backdrop-blur-sm">
-                      <p className="text-[10px] font-bold text-cyan-400 uppercase mb-3 tracking-widest">Desktop Controls</p>
-                      <div className="space-y-2 text-xs text-white/60">
-                        <p className="flex justify-between"><span>移动</span> <span className="text-white font-mono">WASD / 鼠标</span></p>
-                        <p className="flex justify-between"><span>射击</span> <span className="text-white font-mono">空格 / 左键</span></p>
-                        <p className="flex justify-between"><span>暂停</span> <span className="text-white font-mono">P / ESC</span></p>
+                      <div className="flex flex-wrap justify-center gap-3">
+                        <button
+                          onClick={openStats}
+                          className="px-5 py-3 bg-white/5 border border-white/10 rounded-2xl text-sm font-bold hover:bg-white/10 transition-all flex items-center gap-2"
+                        >
+                          <BarChart3 className="w-4 h-4" /> {t('stats.title')}
+                        </button>
+                        <button
+                          onClick={() => setControlsOpen(true)}
+                          className="px-5 py-3 bg-white/5 border border-white/10 rounded-2xl text-sm font-bold hover:bg-white/10 transition-all flex items-center gap-2"
+                        >
+                          <Keyboard className="w-4 h-4" /> {t('controls.title')}
+                        </button>
+                        <button
+                          onClick={() => setSettingsOpen(true)}
+                          className="px-5 py-3 bg-white/5 border border-white/10 rounded-2xl text-sm font-bold hover:bg-white/10 transition-all flex items-center gap-2"
+                        >
+                          <SlidersHorizontal className="w-4 h-4" /> {t('settings.title')}
+                        </button>
+                        {lastReplay && (
+                          <button
+                            onClick={() => startReplay(lastReplay)}
+                            className="px-5 py-3 bg-white/5 border border-white/10 rounded-2xl text-sm font-bold hover:bg-white/10 transition-all flex items-center gap-2"
+                          >
+                            <Film className="w-4 h-4" /> {t('start.watchLastReplay')}
+                          </button>
+                        )}
+                        <label className="px-5 py-3 bg-white/5 border border-white/10 rounded-2xl text-sm font-bold hover:bg-white/10 transition-all flex items-center gap-2 cursor-pointer">
+                          <Upload className="w-4 h-4" /> {t('start.loadReplay')}
+                          <input type="file" accept=".json,application/json" onChange={loadReplayFile} className="hidden" />
+                        </label>
                       </div>
+                      {replayError && (
+                        <p className="text-xs text-red-400">{t('start.invalidReplay', { error: replayError })}</p>
+                      )}
                     </div>
-                    <div className="p-6 rounded-3xl bg-white/5 border border-white/10 backdrop-blur-sm">
-                      <p className="text-[10px] font-bold text-purple-400 uppercase mb-3 tracking-widest">Mobile Controls</p>
-                      <div className="space-y-2 text-xs text-white/60">
-                        <p>滑动屏幕控制移动</p>
-                        <p>战机将自动进行射击</p>
-                        <p>点击右上角可暂停游戏</p>
-                      </div>
+                  </motion.div>
+                )}
+
+                {gameState === 'START' && stats && (
+                  <motion.div 
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute inset-0 bg-black/95 backdrop-blur-md flex items-center justify-center z-50 p-6 overflow-y-auto"
+                  >
+                    <div className="max-w-2xl w-full py-12">
+                      <StatsPanel
+                        profile={stats}
+                        importError={profileError}
+                        onExport={exportProfile}
+                        onImport={importProfile}
+                        onClose={() => setStats(null)}
+                      />
                     </div>
-                  </div>
-                </div>
-              </motion.div>
-            )}
-
-            {gameState === 'LEVEL_COMPLETE' && (
-              <motion.div 
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                exit={{ opacity: 0 }}
-                className="absolute inset-0 bg-cyan-950/90 backdrop-blur-xl flex items-center justify-center z-40 p-6"
-              >
-                <div className="max-w-md w-full text-center space-y-8">
-                  <div className="space-y-2">
-                    <h2 className="text-7xl font-black italic text-cyan-400 tracking-tighter">LEVEL CLEAR</h2>
-                    <p className="text-white/40 font-bold uppercase tracking-[0.3em]">关卡已完成</p>
-                  </div>
-                  <div className="bg-black/60 border border-cyan-500/30 p-10 rounded-[2.5rem] shadow-2xl">
-                    <p className="text-sm text-white/60 mb-8">准备好进入下一阶段了吗？</p>
-                    <div className="space-y-4">
-                      <button 
-                        onClick={nextLevel}
-                        className="w-full py-5 bg-cyan-500 text-black font-black text-xl rounded-2xl hover:scale-105 transition-transform flex items-center justify-center gap-2"
-                      >
-                        <ChevronRight className="w-6 h-6" /> 进入下一关
-                      </button>
-                      <button 
-                        onClick={() => setGameState('START')}
-                        className="w-full py-5 bg-white/5 border border-white/10 text-white font-bold rounded-2xl hover:bg-white/10 transition-all"
-                      >
-                        返回主菜单
-                      </button>
+                  </motion.div>
+                )}
+
+                {gameState === 'START' && hangarOpen && (
+                  <motion.div 
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute inset-0 bg-black/95 backdrop-blur-md flex items-center justify-center z-50 p-6 overflow-y-auto"
+                  >
+                    <div className="max-w-2xl w-full py-12">
+                      <HangarPanel
+                        profile={profileRef.current}
+                        ships={ships.slice(0, playerCount)}
+                        onPick={pickShip}
+                        onClose={() => setHangarOpen(false)}
+                      />
                     </div>
-                  </div>
-                </div>
-              </motion.div>
-            )}
-
-            {gameState === 'PAUSED' && (
-              <motion.div 
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                exit={{ opacity: 0 }}
-                className="absolute inset-0 bg-black/70 backdrop-blur-xl flex items-center justify-center z-40"
-              >
-                <div className="text-center space-y-8">
-                  <h2 className="text-6xl font-black italic tracking-tighter">游戏暂停</h2>
-                  <div className="flex gap-4">
-                    <button 
-                      onClick={() => setGameState('PLAYING')}
-                      className="px-10 py-5 bg-white text-black font-black rounded-2xl hover:scale-105 transition-transform flex items-center gap-2 shadow-2xl"
-                    >
-                      <Play className="w-6 h-6 fill-current" /> 继续
-                    </button>
-                    <button 
-                      onClick={() => setGameState('START')}
-                      className="px-10 py-5 bg-white/5 border border-white/20 font-black rounded-2xl hover:bg-white/10 transition-all"
-                    >
-                      退出
-                    </button>
-                  </div>
-                </div>
-              </motion.div>
-            )}
-
-            {gameState === 'GAMEOVER' && (
-              <motion.div 
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                exit={{ opacity: 0 }}
-                className="absolute inset-0 bg-red-950/95 backdrop-blur-2xl flex items-center justify-center z-40 p-6"
-              >
-                <div className="max-w-md w-full text-center space-y-8">
-                  <div className="space-y-2">
-                    <h2 className="text-7xl font-black italic text-red-500 tracking-tighter">MISSION FAILED</h2>
-                    <p className="text-white/40 font-bold uppercase tracking-[0.3em]">战机已被摧毁</p>
-                  </div>
-
-                  <div className="bg-black/60 border border-white/10 p-10 rounded-[2.5rem] space-y-8 shadow-2xl">
-                    <div className="flex justify-between items-center">
-                      <span className="text-white/40 uppercase font-black text-xs tracking-widest">最终得分</span>
-                      <span className="text-4xl font-mono font-black text-cyan-400">{score.toLocaleString()}</span>
+                  </motion.div>
+                )}
+
+                {gameState === 'START' && onlineOpen && (
+                  <motion.div 
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute inset-0 bg-black/95 backdrop-blur-md flex items-center justify-center z-50 p-6 overflow-y-auto"
+                  >
+                    <div className="max-w-md w-full py-12">
+                      <OnlinePanel
+                        online={online}
+                        onCreate={() => enterRoom()}
+                        onJoin={enterRoom}
+                        onStart={hostOnlineRun}
+                        onLeave={leaveRoom}
+                        onClose={() => {
+                          leaveRoom();
+                          setOnlineOpen(false);
+                        }}
+                      />
                     </div>
-                    <div className="flex justify-between items-center">
-                      <span className="text-white/40 uppercase font-black text-xs tracking-widest">最高关卡</span>
-                      <span className="text-4xl font-mono font-black text-purple-400">{level}</span>
+                  </motion.div>
+                )}
+
+                {gameState === 'PLAYING' && online && (waitingForPeer || online.peer === 'lost' || online.status === 'reconnecting') && (
+                  <motion.div 
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-black/80 border border-yellow-500/40 text-yellow-300 px-6 py-3 rounded-2xl text-sm font-bold z-30 pointer-events-none"
+                  >
+                    {t(online.status === 'reconnecting' ? 'online.reconnecting' : online.peer === 'lost' ? 'online.peerLost' : 'online.waitingPeer')}
+                  </motion.div>
+                )}
+
+                {(gameState === 'START' || gameState === 'PAUSED') && controlsOpen && (
+                  <motion.div 
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute inset-0 bg-black/95 backdrop-blur-md flex items-center justify-center z-50 p-6 overflow-y-auto"
+                  >
+                    <div className="max-w-2xl w-full py-12">
+                      <ControlsPanel bindings={bindings} onChange={changeBindings} onClose={() => setControlsOpen(false)} />
+                    </div>
+                  </motion.div>
+                )}
+
+                {(gameState === 'START' || gameState === 'PAUSED') && settingsOpen && (
+                  <motion.div 
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute inset-0 bg-black/95 backdrop-blur-md flex items-center justify-center z-50 p-6 overflow-y-auto"
+                  >
+                    <div className="max-w-2xl w-full py-12">
+                      <SettingsPanel settings={settings} onChange={changeSettings} onClose={() => setSettingsOpen(false)} />
                     </div>
-                    
-                    <div className="pt-6 border-t border-white/10">
-                      <p className="text-[10px] font-black text-white/40 uppercase mb-4 text-left tracking-widest">解锁成就</p>
-                      <div className="flex flex-wrap gap-3">
-                        {achievements.filter(a => a.unlocked).map(a => (
-                          <div key={a.id} className="p-3 bg-yellow-500/20 border border-yellow-500/40 rounded-2xl text-yellow-400 shadow-lg" title={a.title}>
-                            {a.icon}
+                  </motion.div>
+                )}
+
+                {gameState === 'REPLAY' && (
+                  <ReplayControls
+                    tick={replayTick}
+                    totalTicks={playbackRef.current?.frames.length ?? 0}
+                    paused={replayPaused}
+                    speed={replaySpeed}
+                    onTogglePause={() => setReplayPaused(p => !p)}
+                    onSpeedChange={setReplaySpeed}
+                    onSeek={seekReplay}
+                    onExit={exitReplay}
+                  />
+                )}
+
+                {gameState === 'LEVEL_COMPLETE' && (
+                  <motion.div 
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute inset-0 bg-cyan-950/90 backdrop-blur-xl flex items-center justify-center z-40 p-6"
+                  >
+                    <div className="max-w-md w-full max-h-full overflow-y-auto text-center space-y-8">
+                      <div className="space-y-2">
+                        <h2 className="text-7xl font-black italic text-cyan-400 tracking-tighter">{t('levelComplete.title')}</h2>
+                        <p className="text-white/40 font-bold uppercase tracking-[0.3em]">{t('levelComplete.subtitle')}</p>
+                      </div>
+                      <div className="bg-black/60 border border-cyan-500/30 p-10 rounded-[2.5rem] shadow-2xl space-y-8">
+                        <ShopPanel
+                          stardust={stardust}
+                          upgrades={upgrades}
+                          lifetimeStardust={profileRef.current.totals.stardust}
+                          readOnly={onlineGuest}
+                          onBuy={buy}
+                        />
+                        <p className="text-sm text-white/60">{t('levelComplete.prompt')}</p>
+                        <div className="space-y-4">
+                          {onlineGuest ? (
+                            <p className="text-xs text-white/40">{t('levelComplete.waitingHost')}</p>
+                          ) : (
+                            <button 
+                              onClick={nextLevel}
+                              className="w-full py-5 bg-cyan-500 text-black font-black text-xl rounded-2xl hover:scale-105 transition-transform flex items-center justify-center gap-2"
+                            >
+                              <ChevronRight className="w-6 h-6" /> {t('levelComplete.next')}
+                            </button>
+                          )}
+                          <button 
+                            onClick={quitToMenu}
+                            className="w-full py-5 bg-white/5 border border-white/10 text-white font-bold rounded-2xl hover:bg-white/10 transition-all"
+                          >
+                            {t('common.mainMenu')}
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  </motion.div>
+                )}
+
+                {gameState === 'PAUSED' && (
+                  <motion.div 
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute inset-0 bg-black/70 backdrop-blur-xl flex items-center justify-center z-40"
+                  >
+                    <div className="text-center space-y-8">
+                      <div className="space-y-2">
+                        <h2 className="text-6xl font-black italic tracking-tighter">{t('paused.title')}</h2>
+                        {pausedBy !== null && (
+                          <p className="text-white/40 font-bold uppercase tracking-[0.3em]">{t('paused.pausedBy', { number: pausedBy + 1 })}</p>
+                        )}
+                      </div>
+                      <div className="flex gap-4">
+                        <button 
+                          onClick={resume}
+                          className="px-10 py-5 bg-white text-black font-black rounded-2xl hover:scale-105 transition-transform flex items-center gap-2 shadow-2xl"
+                        >
+                          <Play className="w-6 h-6 fill-current" /> {t('paused.resume')}
+                        </button>
+                        <button 
+                          onClick={() => setControlsOpen(true)}
+                          className="px-10 py-5 bg-white/5 border border-white/20 font-black rounded-2xl hover:bg-white/10 transition-all flex items-center gap-2"
+                        >
+                          <Keyboard className="w-6 h-6" /> {t('paused.controls')}
+                        </button>
+                        <button 
+                          onClick={() => setSettingsOpen(true)}
+                          className="px-10 py-5 bg-white/5 border border-white/20 font-black rounded-2xl hover:bg-white/10 transition-all flex items-center gap-2"
+                        >
+                          <SlidersHorizontal className="w-6 h-6" /> {t('paused.settings')}
+                        </button>
+                        <button 
+                          onClick={quitToMenu}
+                          className="px-10 py-5 bg-white/5 border border-white/20 font-black rounded-2xl hover:bg-white/10 transition-all"
+                        >
+                          {t('paused.quit')}
+                        </button>
+                      </div>
+                    </div>
+                  </motion.div>
+                )}
+
+                {gameState === 'GAMEOVER' && (
+                  <motion.div 
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute inset-0 bg-red-950/95 backdrop-blur-2xl flex items-center justify-center z-40 p-6 overflow-y-auto"
+                  >
+                    <div className="max-w-md w-full text-center space-y-8 py-12">
+                      <div className="space-y-2">
+                        <h2 className="text-7xl font-black italic text-red-500 tracking-tighter">{t('gameOver.title')}</h2>
+                        <p className="text-white/40 font-bold uppercase tracking-[0.3em]">{t(pilots.length > 1 ? 'gameOver.subtitleCoop' : 'gameOver.subtitle')}</p>
+                        {onlineNotice && <p className="text-sm text-red-300">{onlineNotice}</p>}
+                      </div>
+
+                      <div className="bg-black/60 border border-white/10 p-10 rounded-[2.5rem] space-y-8 shadow-2xl">
+                        <div className="flex justify-between items-center">
+                          <span className="text-white/40 uppercase font-black text-xs tracking-widest">{t('gameOver.finalScore')}</span>
+                          <span className="text-4xl font-mono font-black text-cyan-400">{score.toLocaleString()}</span>
+                        </div>
+                        {mode === 'endless' ? (
+                          <div className="flex justify-between items-center">
+                            <span className="text-white/40 uppercase font-black text-xs tracking-widest">{t('gameOver.timeSurvived')}</span>
+                            <span className="text-4xl font-mono font-black text-violet-400">{formatSurvival(elapsed ?? 0)}</span>
+                          </div>
+                        ) : (
+                          <div className="flex justify-between items-center">
+                            <span className="text-white/40 uppercase font-black text-xs tracking-widest">{t('gameOver.highestLevel')}</span>
+                            <span className="text-4xl font-mono font-black text-purple-400">{level}</span>
+                          </div>
+                        )}
+                        {mode === 'endless' && pilots.length === 1 && (
+                          <div className="flex justify-between text-xs text-white/60">
+                            <span>{t('gameOver.endlessBest')}</span>
+                            <span className="font-mono text-white">{formatSurvival(profileRef.current.endless.time)} · {profileRef.current.endless.score.toLocaleString()}</span>
+                          </div>
+                        )}
+
+                        {pilots.length > 1 && (
+                          <div className="pt-6 border-t border-white/10">
+                            <p className="text-[10px] font-black text-white/40 uppercase mb-4 text-left tracking-widest">{t('gameOver.pilots')}</p>
+                            <div className="grid grid-cols-4 gap-y-2 text-sm text-left">
+                              <span />
+                              <span className="text-[10px] font-bold uppercase tracking-widest text-white/40">{t('hud.score')}</span>
+                              <span className="text-[10px] font-bold uppercase tracking-widest text-white/40">{t('gameOver.kills')}</span>
+                              <span className="text-[10px] font-bold uppercase tracking-widest text-white/40">{t('gameOver.downs')}</span>
+                              {pilots.map(pilot => [
+                                <span key={`label-${pilot.slot}`} className="font-mono font-black text-cyan-400">{t('hud.pilot', { number: pilot.slot + 1 })}</span>,
+                                <span key={`score-${pilot.slot}`} className="font-mono font-bold">{pilot.score.toLocaleString()}</span>,
+                                <span key={`kills-${pilot.slot}`} className="font-mono">{pilot.kills}</span>,
+                                <span key={`downs-${pilot.slot}`} className="font-mono">{pilot.downs}</span>,
+                              ])}
+                            </div>
                           </div>
-                        ))}
-                        {achievements.filter(a => a.unlocked).length === 0 && (
-                          <p className="text-sm text-white/20 italic">暂无成就</p>
                         )}
+                        
+                        <div className="pt-6 border-t border-white/10">
+                          <p className="text-[10px] font-black text-white/40 uppercase mb-4 text-left tracking-widest">{t('gameOver.achievements')}</p>
+                          <div className="flex flex-wrap gap-3">
+                            {ACHIEVEMENT_IDS.filter(id => unlocks[id]).map(id => (
+                              <div key={id} className={`p-3 border rounded-2xl shadow-lg ${TIER_STYLES[ACHIEVEMENTS[id].tier].card} ${TIER_STYLES[ACHIEVEMENTS[id].tier].text}`} title={t(achievementTitle(id))}>
+                                <AchievementGlyph id={id} />
+                              </div>
+                            ))}
+                            {ACHIEVEMENT_IDS.every(id => !unlocks[id]) && (
+                              <p className="text-sm text-white/20 italic">{t('gameOver.noAchievements')}</p>
+                            )}
+                          </div>
+                        </div>
+
+                        <div className="pt-6 border-t border-white/10">
+                          <p className="text-[10px] font-black text-white/40 uppercase mb-4 text-left tracking-widest">{t('gameOver.leaderboard')}</p>
+                          {pilots.length > 1 || mode === 'endless' ? (
+                            <p className="text-sm text-white/40 italic text-left">{t(pilots.length > 1 ? 'gameOver.coopUnranked' : 'gameOver.endlessUnranked')}</p>
+                          ) : (
+                            <Leaderboard replay={lastReplay} difficulty={difficulty} />
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="space-y-4">
+                        <button 
+                          onClick={online ? retryOnline : () => initGame()}
+                          disabled={online !== null && (online.status === 'closed' || retryRequested)}
+                          className="w-full py-6 bg-white text-black font-black text-2xl rounded-3xl hover:scale-105 active:scale-95 transition-all flex items-center justify-center gap-3 shadow-2xl disabled:opacity-40 disabled:hover:scale-100"
+                        >
+                          <RotateCcw className="w-8 h-8" /> {t('gameOver.retry')}
+                        </button>
+                        {retryRequested && <p className="text-xs text-white/60">{t('gameOver.waitingHost')}</p>}
+                        {lastReplay && (
+                          <div className="grid grid-cols-2 gap-4">
+                            <button 
+                              onClick={() => startReplay(lastReplay)}
+                              className="py-4 bg-white/5 border border-white/10 text-white font-bold rounded-2xl hover:bg-white/10 transition-all flex items-center justify-center gap-2"
+                            >
+                              <Film className="w-5 h-5" /> {t('gameOver.watchReplay')}
+                            </button>
+                            <button 
+                              onClick={() => saveReplay(lastReplay)}
+                              className="py-4 bg-white/5 border border-white/10 text-white font-bold rounded-2xl hover:bg-white/10 transition-all flex items-center justify-center gap-2"
+                            >
+                              <Download className="w-5 h-5" /> {t('gameOver.saveReplay')}
+                            </button>
+                          </div>
+                        )}
+                        <button 
+                          onClick={() => {
+                            leaveRoom();
+                            setGameState('START');
+                          }}
+                          className="w-full py-5 bg-white/5 border border-white/10 text-white font-bold rounded-2xl hover:bg-white/10 transition-all"
+                        >
+                          {t('common.mainMenu')}
+                        </button>
                       </div>
                     </div>
-                  </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            </main>
+          </div>
 
-                  <div className="space-y-4">
-                    <button 
-                      onClick={() => initGame()}
-                      className="w-full py-6 bg-white text-black font-black text-2xl rounded-3xl hover:scale-105 active:scale-95 transition-all flex items-center justify-center gap-3 shadow-2xl"
-                    >
-                      <RotateCcw className="w-8 h-8" /> 再次尝试
-                    </button>
-                    <button 
-                      onClick={() => setGameState('START')}
-                      className="w-full py-5 bg-white/5 border border-white/10 text-white font-bold rounded-2xl hover:bg-white/10 transition-all"
-                    >
-                      返回主菜单
-                    </button>
-                  </div>
-                </div>
-              </motion.div>
-            )}
-          </AnimatePresence>
-        </main>
-      </div>
-
-      <style dangerouslySetInnerHTML={{ __html: `
-        .custom-scrollbar::-webkit-scrollbar {
-          width: 4px;
-        }
-        .custom-scrollbar::-webkit-scrollbar-track {
-          background: transparent;
-        }
-        .custom-scrollbar::-webkit-scrollbar-thumb {
-          background: rgba(255, 255, 255, 0.1);
-          border-radius: 10px;
-        }
-        .custom-scrollbar::-webkit-scrollbar-thumb:hover {
-          background: rgba(255, 255, 255, 0.2);
-        }
-      `}} />
-    </div>
+          <style dangerouslySetInnerHTML={{ __html: `
+            .custom-scrollbar::-webkit-scrollbar {
+              width: 4px;
+            }
+            .custom-scrollbar::-webkit-scrollbar-track {
+              background: transparent;
+            }
+            .custom-scrollbar::-webkit-scrollbar-thumb {
+              background: rgba(255, 255, 255, 0.1);
+              border-radius: 10px;
+            }
+            .custom-scrollbar::-webkit-scrollbar-thumb:hover {
+              background: rgba(255, 255, 255, 0.2);
+            }
+          `}} />
+        </div>
+      </MotionConfig>
+    </I18nContext.Provider>
   );
 }
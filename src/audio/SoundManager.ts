@@ -0,0 +1,404 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ShotSource } from '../game/types';
+import {
+  DEFAULT_SONG, degreeToSemitones, MAX_INTENSITY, midiToFrequency, SONGS, STINGERS, stingerLength,
+  type Note, type Song, type Stinger, type Track,
+} from './music';
+
+// --- Sound Manager (Procedural) ---
+// Everything is synthesised with Web Audio; there are no samples. The mixer is:
+//   sfx ──────────────────────┐
+//   music ── pause low-pass ──┴── master ── limiter ── destination
+// Sound effects are capped per kind so a screen full of explosions doesn't pile up
+// dozens of voices and clip; the limiter catches whatever peaks are left.
+
+export type Bus = 'master' | 'music' | 'sfx';
+
+export const DEFAULT_VOLUMES: Record<Bus, number> = { master: 0.8, music: 0.5, sfx: 0.8 };
+
+type SfxKind = 'shoot' | 'explosion' | 'powerUp' | 'boss';
+
+/** Most voices of each kind that may ring at once; further triggers are dropped. */
+const VOICE_LIMITS: Record<SfxKind, number> = { shoot: 3, explosion: 4, powerUp: 2, boss: 3 };
+/** Cap across all kinds. */
+const MAX_SFX_VOICES = 12;
+
+interface ShotTone {
+  freq: number;
+  type: OscillatorType;
+  duration: number;
+  volume: number;
+  slide: number;
+}
+
+/** Each weapon's shot: the cannons share the classic blip, the rest get a voice of their own. */
+const SHOT_TONES: Record<ShotSource, ShotTone> = {
+  single: { freq: 440, type: 'triangle', duration: 0.1, volume: 0.05, slide: -200 },
+  twin: { freq: 440, type: 'triangle', duration: 0.1, volume: 0.05, slide: -200 },
+  spread: { freq: 392, type: 'triangle', duration: 0.1, volume: 0.05, slide: -180 },
+  needle: { freq: 880, type: 'square', duration: 0.08, volume: 0.025, slide: -400 },
+  missiles: { freq: 180, type: 'sawtooth', duration: 0.2, volume: 0.05, slide: 220 },
+  laser: { freq: 1200, type: 'sine', duration: 0.2, volume: 0.03, slide: -100 },
+  cluster: { freq: 150, type: 'square', duration: 0.15, volume: 0.06, slide: -60 },
+  charge: { freq: 300, type: 'sawtooth', duration: 0.35, volume: 0.08, slide: 700 },
+};
+
+/** Music bus cutoff while the game is paused, in Hz. */
+const PAUSED_CUTOFF = 600;
+const OPEN_CUTOFF = 20000;
+
+/** How far ahead the sequencer schedules notes, and how often it tops the schedule up. */
+const LOOKAHEAD_S = 0.12;
+const SCHEDULE_INTERVAL_MS = 25;
+
+/** Octave offsets from a song's root, per instrument. */
+const REGISTERS: Record<Track['instrument'], number> = { bass: 0, pad: 12, lead: 24, arp: 24, kick: 0, snare: 0, hat: 0 };
+
+interface SongPlayer {
+  cue: string;
+  song: Song;
+  /** Fades the whole song in and out. */
+  output: GainNode;
+  /** One gain per intensity level, so boss layers fade rather than cut in. */
+  layers: GainNode[];
+  step: number;
+  nextTime: number;
+}
+
+export class SoundManager {
+  private ctx: AudioContext | null = null;
+  private buses: Record<Bus, GainNode> | null = null;
+  private musicFilter: BiquadFilterNode | null = null;
+  private noise: AudioBuffer | null = null;
+  private volumes: Record<Bus, number> = { ...DEFAULT_VOLUMES };
+  private muted = false;
+  /** End times of ringing voices, per kind. */
+  private voices: Record<SfxKind, number[]> = { shoot: [], explosion: [], powerUp: [], boss: [] };
+  private music: SongPlayer | null = null;
+  private scheduler: ReturnType<typeof setInterval> | null = null;
+  private intensity = 0;
+  private paused = false;
+  /** Songs wait for a playing stinger to finish. */
+  private stingerEnd = 0;
+
+  init() {
+    if (!this.ctx) {
+      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)() as AudioContext;
+      this.ctx = ctx;
+
+      const limiter = ctx.createDynamicsCompressor();
+      limiter.threshold.value = -6;
+      limiter.knee.value = 6;
+      limiter.ratio.value = 12;
+      limiter.attack.value = 0.003;
+      limiter.release.value = 0.15;
+      limiter.connect(ctx.destination);
+
+      const master = ctx.createGain();
+      master.connect(limiter);
+      const sfx = ctx.createGain();
+      sfx.connect(master);
+      this.musicFilter = ctx.createBiquadFilter();
+      this.musicFilter.type = 'lowpass';
+      this.musicFilter.frequency.value = this.paused ? PAUSED_CUTOFF : OPEN_CUTOFF;
+      this.musicFilter.connect(master);
+      const music = ctx.createGain();
+      music.connect(this.musicFilter);
+      this.buses = { master, music, sfx };
+      this.applyVolumes(true);
+
+      this.noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+      const data = this.noise.getChannelData(0);
+      for (let i = 0; i < data.length; i++) {
+        data[i] = Math.random() * 2 - 1;
+      }
+    }
+    // Contexts created before a user gesture start suspended.
+    if (this.ctx.state === 'suspended') this.ctx.resume();
+  }
+
+  // --- Mixer ---
+
+  getVolume(bus: Bus) {
+    return this.volumes[bus];
+  }
+
+  /** Sets a bus level from 0 to 1. */
+  setVolume(bus: Bus, value: number) {
+    this.volumes[bus] = Math.max(0, Math.min(1, value));
+    this.applyVolumes();
+  }
+
+  get isMuted() {
+    return this.muted;
+  }
+
+  setMuted(muted: boolean) {
+    this.muted = muted;
+    this.applyVolumes();
+  }
+
+  private applyVolumes(immediate = false) {
+    if (!this.ctx || !this.buses) return;
+    (Object.keys(this.buses) as Bus[]).forEach(bus => {
+      const level = bus === 'master' && this.muted ? 0 : this.volumes[bus];
+      const gain = this.buses![bus].gain;
+      if (immediate) gain.value = level;
+      else gain.setTargetAtTime(level, this.ctx!.currentTime, 0.02);
+    });
+  }
+
+  /** Muffles the music while the game is paused. */
+  setPaused(paused: boolean) {
+    if (this.paused === paused) return;
+    this.paused = paused;
+    if (!this.ctx || !this.musicFilter) return;
+    this.musicFilter.frequency.setTargetAtTime(paused ? PAUSED_CUTOFF : OPEN_CUTOFF, this.ctx.currentTime, 0.08);
+  }
+
+  // --- Voices ---
+
+  /** Reserves a voice for a sound effect. Returns false if its kind, or the mix, is already full. */
+  private claimVoice(kind: SfxKind, duration: number) {
+    if (!this.ctx) return false;
+    const now = this.ctx.currentTime;
+    let total = 0;
+    (Object.keys(this.voices) as SfxKind[]).forEach(k => {
+      this.voices[k] = this.voices[k].filter(end => end > now);
+      total += this.voices[k].length;
+    });
+    if (this.voices[kind].length >= VOICE_LIMITS[kind] || total >= MAX_SFX_VOICES) return false;
+    this.voices[kind].push(now + duration);
+    return true;
+  }
+
+  /** One enveloped oscillator. `delay` is in seconds from now; `output` defaults to the SFX bus. */
+  private playTone(freq: number, type: OscillatorType, duration: number, volume: number, slide = 0, delay = 0, output?: AudioNode) {
+    if (!this.ctx || !this.buses) return;
+    const start = this.ctx.currentTime + delay;
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+
+    osc.type = type;
+    osc.frequency.setValueAtTime(freq, start);
+    if (slide !== 0) {
+      osc.frequency.exponentialRampToValueAtTime(freq + slide, start + duration);
+    }
+
+    gain.gain.setValueAtTime(volume, start);
+    gain.gain.exponentialRampToValueAtTime(0.01, start + duration);
+
+    osc.connect(gain);
+    gain.connect(output ?? this.buses.sfx);
+
+    osc.start(start);
+    osc.stop(start + duration);
+  }
+
+  /** Filtered white noise, for explosions and drums. */
+  private playNoise(start: number, duration: number, volume: number, filter: BiquadFilterType, cutoff: number, output: AudioNode) {
+    if (!this.ctx || !this.noise) return;
+    const source = this.ctx.createBufferSource();
+    source.buffer = this.noise;
+    const band = this.ctx.createBiquadFilter();
+    band.type = filter;
+    band.frequency.value = cutoff;
+    const gain = this.ctx.createGain();
+    gain.gain.setValueAtTime(volume, start);
+    gain.gain.exponentialRampToValueAtTime(0.01, start + duration);
+    source.connect(band);
+    band.connect(gain);
+    gain.connect(output);
+    source.start(start);
+    source.stop(start + duration);
+  }
+
+  // --- Sound Effects ---
+
+  playShoot(weapon: ShotSource = 'single') {
+    const tone = SHOT_TONES[weapon];
+    if (!this.claimVoice('shoot', tone.duration)) return;
+    this.playTone(tone.freq, tone.type, tone.duration, tone.volume, tone.slide);
+  }
+
+  playExplosion(isHeavy = false) {
+    const duration = isHeavy ? 0.5 : 0.3;
+    if (!this.ctx || !this.buses || !this.claimVoice('explosion', duration)) return;
+    this.playTone(isHeavy ? 100 : 200, 'sawtooth', duration, 0.15, -80);
+    this.playNoise(this.ctx.currentTime, isHeavy ? 0.5 : 0.2, 0.1, 'lowpass', isHeavy ? 2000 : 4000, this.buses.sfx);
+  }
+
+  playPowerUp() {
+    if (!this.claimVoice('powerUp', 0.3)) return;
+    this.playTone(523.25, 'sine', 0.1, 0.1, 500);
+    this.playTone(659.25, 'sine', 0.1, 0.1, 500, 0.05);
+    this.playTone(783.99, 'sine', 0.2, 0.1, 500, 0.1);
+  }
+
+  playBossWarning() {
+    if (!this.claimVoice('boss', 2)) return;
+    this.playTone(110, 'sawtooth', 0.6, 0.12, 60);
+    this.playTone(110, 'sawtooth', 0.6, 0.12, 60, 0.7);
+    this.playTone(110, 'sawtooth', 0.6, 0.12, 60, 1.4);
+  }
+
+  playBossPhase() {
+    if (!this.claimVoice('boss', 0.3)) return;
+    this.playTone(300, 'square', 0.3, 0.1, -200);
+  }
+
+  playBossDefeated() {
+    if (!this.ctx || !this.buses || !this.claimVoice('boss', 1.5)) return;
+    [0, 0.25, 0.5].forEach(delay => {
+      this.playTone(100, 'sawtooth', 0.5, 0.15, -80, delay);
+      this.playNoise(this.ctx!.currentTime + delay, 0.5, 0.1, 'lowpass', 2000, this.buses!.sfx);
+    });
+    this.playTone(261.63, 'triangle', 0.8, 0.12, 1000, 0.7);
+  }
+
+  // --- Music ---
+
+  /** Starts a level's song, unless it is already playing. Unknown cues fall back to DEFAULT_SONG. */
+  playMusic(cue: string) {
+    if (!this.ctx || !this.buses || this.music?.cue === cue) return;
+    const song = SONGS[cue] ?? SONGS[DEFAULT_SONG];
+    if (!SONGS[cue]) console.warn(`No song for music cue "${cue}"; playing "${DEFAULT_SONG}".`);
+    this.stopMusic();
+
+    const output = this.ctx.createGain();
+    output.connect(this.buses.music);
+    const layers = Array.from({ length: MAX_INTENSITY + 1 }, (_, level) => {
+      const gain = this.ctx!.createGain();
+      gain.gain.value = level <= this.intensity ? 1 : 0;
+      gain.connect(output);
+      return gain;
+    });
+    this.music = { cue, song, output, layers, step: 0, nextTime: Math.max(this.ctx.currentTime + 0.05, this.stingerEnd) };
+    this.scheduler = setInterval(() => this.scheduleMusic(), SCHEDULE_INTERVAL_MS);
+    this.scheduleMusic();
+  }
+
+  /** Fades the current song out. */
+  stopMusic(fade = 0.3) {
+    if (this.scheduler !== null) clearInterval(this.scheduler);
+    this.scheduler = null;
+    const music = this.music;
+    this.music = null;
+    if (!music || !this.ctx) return;
+    music.output.gain.setTargetAtTime(0, this.ctx.currentTime, fade / 3);
+    setTimeout(() => music.output.disconnect(), (fade + LOOKAHEAD_S) * 1000 + 100);
+  }
+
+  /** Brings boss layers in or out: 0 for none, up to MAX_INTENSITY. */
+  setMusicIntensity(level: number) {
+    if (this.intensity === level) return;
+    this.intensity = level;
+    if (!this.ctx || !this.music) return;
+    this.music.layers.forEach((gain, i) => gain.gain.setTargetAtTime(i <= level ? 1 : 0, this.ctx!.currentTime, 0.4));
+  }
+
+  /** Stops the music and plays a short phrase in its place. */
+  playStinger(stinger: Stinger) {
+    if (!this.ctx || !this.buses) return;
+    this.stopMusic(0.15);
+    const def = STINGERS[stinger];
+    def.notes.forEach((note, i) => {
+      const last = i === def.notes.length - 1;
+      this.playTone(midiToFrequency(note), def.wave, last ? def.hold : def.spacing * 2, def.volume, 0, i * def.spacing, this.buses!.music);
+    });
+    this.stingerEnd = this.ctx.currentTime + stingerLength(def);
+  }
+
+  /** Queues every note that starts within the lookahead window. */
+  private scheduleMusic() {
+    const music = this.music;
+    if (!this.ctx || !music) return;
+    const now = this.ctx.currentTime;
+    // A throttled background tab falls behind; skip ahead rather than play a burst of late notes.
+    if (music.nextTime < now - LOOKAHEAD_S) music.nextTime = now;
+    const stepLength = 60 / music.song.bpm / 4;
+    while (music.nextTime < now + LOOKAHEAD_S) {
+      music.song.tracks.forEach(track => {
+        const note = track.steps[music.step % track.steps.length];
+        if (note) this.playNote(music, track, note, music.nextTime, stepLength);
+      });
+      music.step += 1;
+      music.nextTime += stepLength;
+    }
+  }
+
+  private playNote(music: SongPlayer, track: Track, note: Note, start: number, stepLength: number) {
+    const ctx = this.ctx!;
+    const output = music.layers[Math.min(track.intensity, MAX_INTENSITY)];
+    const { song } = music;
+    const pitch = (degree: number) =>
+      midiToFrequency(song.root + REGISTERS[track.instrument] + degreeToSemitones(song.scale, degree));
+    const length = note.steps * stepLength;
+
+    switch (track.instrument) {
+      case 'kick': {
+        const osc = ctx.createOscillator();
+        const gain = ctx.createGain();
+        osc.frequency.setValueAtTime(150, start);
+        osc.frequency.exponentialRampToValueAtTime(40, start + 0.12);
+        gain.gain.setValueAtTime(0.5, start);
+        gain.gain.exponentialRampToValueAtTime(0.01, start + 0.15);
+        osc.connect(gain);
+        gain.connect(output);
+        osc.start(start);
+        osc.stop(start + 0.15);
+        break;
+      }
+      case 'snare':
+        this.playNoise(start, 0.12, 0.18, 'highpass', 1500, output);
+        break;
+      case 'hat':
+        this.playNoise(start, 0.04, 0.05, 'highpass', 7000, output);
+        break;
+      case 'pad':
+        // A triad on the degree, swelling in and out over the note.
+        [0, 2, 4].forEach(offset => this.playEnvelope(pitch(note.degree + offset), 'triangle', start, length, 0.035, length * 0.3, output));
+        break;
+      case 'bass':
+        this.playEnvelope(pitch(note.degree), 'sawtooth', start, length * 0.9, 0.09, 0.01, output, 500);
+        break;
+      case 'lead':
+        this.playEnvelope(pitch(note.degree), 'square', start, length * 0.95, 0.04, 0.02, output, 2500);
+        break;
+      case 'arp':
+        this.playEnvelope(pitch(note.degree), 'triangle', start, length * 0.8, 0.05, 0.005, output);
+        break;
+    }
+  }
+
+  /** A sustained note with attack and release, optionally through a low-pass filter. */
+  private playEnvelope(freq: number, type: OscillatorType, start: number, length: number, volume: number, attack: number, output: AudioNode, cutoff?: number) {
+    const ctx = this.ctx!;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = type;
+    osc.frequency.value = freq;
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.linearRampToValueAtTime(volume, start + attack);
+    gain.gain.setValueAtTime(volume, start + Math.max(attack, length - 0.05));
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + length + 0.05);
+    if (cutoff) {
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.frequency.value = cutoff;
+      osc.connect(filter);
+      filter.connect(gain);
+    } else {
+      osc.connect(gain);
+    }
+    gain.connect(output);
+    osc.start(start);
+    osc.stop(start + length + 0.06);
+  }
+}
+
+export const sounds = new SoundManager();
@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Music Data ---
+// Songs are looping step patterns played by the sequencer in SoundManager, one step per
+// sixteenth note. Levels name their song through the `music` cue in levels.json.
+// Pattern strings are space-separated steps: a scale degree (0 is the root; 7 is the root
+// an octave up in a seven-note scale), optionally `:n` to hold it for n steps, `x` for a
+// drum hit, or `.` for a rest. Each track loops on its own length.
+// Tracks carry an intensity: 0 always plays, 1 joins during boss fights, 2 in a boss's last phase.
+
+export type Instrument = 'bass' | 'pad' | 'lead' | 'arp' | 'kick' | 'snare' | 'hat';
+
+export interface Note {
+  degree: number;
+  /** Length in steps. */
+  steps: number;
+}
+
+export interface Track {
+  instrument: Instrument;
+  steps: (Note | null)[];
+  intensity: number;
+}
+
+export interface Song {
+  bpm: number;
+  /** MIDI note of degree 0 in the bass register. */
+  root: number;
+  /** Semitones above the root for each degree of the scale. */
+  scale: number[];
+  tracks: Track[];
+}
+
+export const MAX_INTENSITY = 2;
+
+const MINOR = [0, 2, 3, 5, 7, 8, 10];
+const DORIAN = [0, 2, 3, 5, 7, 9, 10];
+const PHRYGIAN = [0, 1, 3, 5, 7, 8, 10];
+
+const parsePattern = (pattern: string) =>
+  pattern.trim().split(/\s+/).flatMap((token): (Note | null)[] => {
+    const [value, length] = token.split(':');
+    const steps = length ? Number(length) : 1;
+    if (value === '.') return Array(steps).fill(null);
+    const note: Note = { degree: value === 'x' ? 0 : Number(value), steps };
+    return [note, ...Array(steps - 1).fill(null)];
+  });
+
+const track = (instrument: Instrument, pattern: string, intensity = 0): Track =>
+  ({ instrument, steps: parsePattern(pattern), intensity });
+
+/** One bar per chord, built from a bar pattern over the chord's root degree. */
+const bars = (chords: number[], bar: (root: number) => string) => chords.map(bar).join(' ');
+
+/** Drums and an arpeggio over the chords, shared by every song for boss fights. */
+const bossLayers = (chords: number[]): Track[] => [
+  track('kick', 'x . . . x . . . x . . . x . x .', 1),
+  track('snare', '. . . . x . . . . . . . x . . x', 1),
+  track('arp', bars(chords, c => `${c} ${c + 2} ${c + 4} ${c + 7} `.repeat(4)), 1),
+  track('hat', '. . x . . . x . . . x . . . x x', 2),
+  track('bass', bars(chords, c => `${c} ${c} ${c + 7} ${c} `.repeat(4)), 2),
+];
+
+const OUTER_RIM_CHORDS = [0, 5, 3, 4];
+const ASTEROID_BELT_CHORDS = [0, 0, 6, 4];
+const CRIMSON_FRONT_CHORDS = [0, 1, 0, 6];
+
+export const SONGS: Record<string, Song> = {
+  outer_rim: {
+    bpm: 100, root: 45, scale: MINOR,
+    tracks: [
+      track('pad', bars(OUTER_RIM_CHORDS, c => `${c}:16`)),
+      track('bass', bars(OUTER_RIM_CHORDS, c => `${c}:3 . ${c}:2 . . ${c}:2 ${c + 4}:2 .:4`)),
+      track('hat', 'x . x . x . x . x . x . x . x x'),
+      track('lead', '. . . . 4:4 . . 2:2 . . 0:4 . . . . . . 7:3 . 6:2 5:2 4:4 . . . . . . 2:6 .:16'),
+      ...bossLayers(OUTER_RIM_CHORDS),
+    ],
+  },
+  asteroid_belt: {
+    bpm: 120, root: 43, scale: DORIAN,
+    tracks: [
+      track('pad', bars(ASTEROID_BELT_CHORDS, c => `${c}:8 ${c + 2}:8`)),
+      track('bass', bars(ASTEROID_BELT_CHORDS, c => `${c} . ${c} ${c + 7} . ${c} . ${c} ${c} . ${c + 7} . ${c} . ${c + 4} ${c + 6}`)),
+      track('kick', 'x . . . . . . . x . . x . . . .'),
+      track('hat', '. . x . . . x . . . x . . . x .'),
+      track('lead', '7:2 . 9:2 . 11:4 . . 9:2 . 7:2 . 5:6 . . . . . 4:2 . 5:2 7:2 4:8 .:20'),
+      ...bossLayers(ASTEROID_BELT_CHORDS),
+    ],
+  },
+  crimson_front: {
+    bpm: 136, root: 40, scale: PHRYGIAN,
+    tracks: [
+      track('pad', bars(CRIMSON_FRONT_CHORDS, c => `${c}:16`)),
+      track('bass', bars(CRIMSON_FRONT_CHORDS, c => `${c} ${c} . ${c} ${c} . ${c + 1} . ${c} ${c} . ${c} ${c + 7} . ${c + 1} .`)),
+      track('kick', 'x . . x . . x . x . . x . . x .'),
+      track('snare', '. . . . x . . . . . . . x . . .'),
+      track('hat', 'x x x . x x x . x x x . x x x x'),
+      track('lead', '7:2 8:2 7:2 4:2 3:4 1:4 0:8 . . . . . . . . 7:2 8:2 10:2 8:2 7:4 4:4 .:16'),
+      ...bossLayers(CRIMSON_FRONT_CHORDS),
+    ],
+  },
+};
+
+/** Played for cues with no song of their own. */
+export const DEFAULT_SONG = 'outer_rim';
+
+// --- Stingers ---
+// Short phrases that replace the music at the end of a level or a run, or at an endless
+// milestone (where the next scenery's song follows).
+
+export type Stinger = 'levelComplete' | 'gameOver' | 'milestone';
+
+export interface StingerDefinition {
+  wave: OscillatorType;
+  /** MIDI notes, played one after another; the last one rings for `hold` seconds. */
+  notes: number[];
+  /** Seconds between notes. */
+  spacing: number;
+  hold: number;
+  volume: number;
+}
+
+export const STINGERS: Record<Stinger, StingerDefinition> = {
+  levelComplete: { wave: 'square', notes: [60, 64, 67, 72, 76, 79, 84], spacing: 0.08, hold: 1.2, volume: 0.08 },
+  gameOver: { wave: 'sawtooth', notes: [57, 56, 55, 54, 45], spacing: 0.32, hold: 1.6, volume: 0.07 },
+  milestone: { wave: 'triangle', notes: [67, 72, 74, 79], spacing: 0.12, hold: 0.9, volume: 0.09 },
+};
+
+export const stingerLength = (stinger: StingerDefinition) =>
+  (stinger.notes.length - 1) * stinger.spacing + stinger.hold;
+
+export const midiToFrequency = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+/** Semitones above the root for a scale degree; degrees outside the scale wrap to other octaves. */
+export const degreeToSemitones = (scale: number[], degree: number) => {
+  const octave = Math.floor(degree / scale.length);
+  return octave * 12 + scale[degree - octave * scale.length];
+};
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { ABILITIES } from '../game/abilities';
+import { TICK_RATE } from '../game/constants';
+import { SHIPS } from '../game/ships';
+import type { ShipId } from '../game/types';
+import { useI18n } from '../i18n/context';
+
+interface AbilityMeterProps {
+  ship: ShipId;
+  /** Ticks until the special is ready again. */
+  cooldown: number;
+}
+
+/** HUD bar for the ship's special, filling up as it recharges. */
+export default function AbilityMeter({ ship, cooldown }: AbilityMeterProps) {
+  const { t } = useI18n();
+  const ability = SHIPS[ship].ability;
+  const ready = cooldown <= 0;
+  const fraction = ready ? 1 : 1 - cooldown / ABILITIES[ability].cooldown;
+  return (
+    <div title={t(`ability.${ability}.hint`)} className="bg-black/60 backdrop-blur-xl border border-white/10 px-3 py-1.5 rounded-xl shadow-lg w-40">
+      <div className="flex justify-between text-[10px] font-black uppercase tracking-widest">
+        <span className="text-white/60">{t(`ability.${ability}`)}</span>
+        <span className={`font-mono ${ready ? 'text-emerald-400' : 'text-white/40'}`}>
+          {ready ? t('hud.specialReady') : t('hud.seconds', { seconds: Math.ceil(cooldown / TICK_RATE) })}
+        </span>
+      </div>
+      <div className="mt-1 h-1 bg-white/10 rounded-full overflow-hidden">
+        <div className={`h-full ${ready ? 'bg-emerald-400' : 'bg-cyan-400'}`} style={{ width: `${fraction * 100}%` }} />
+      </div>
+    </div>
+  );
+}
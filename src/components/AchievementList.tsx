@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Bomb, Clock, Crosshair, Crown, Ghost, Heart, Lock, Shield, ShieldCheck, Skull, Star, Target, Zap, type LucideIcon } from 'lucide-react';
+import { ACHIEVEMENT_IDS, ACHIEVEMENTS, type AchievementIcon, type AchievementTier } from '../game/achievements';
+import type { AchievementRecord } from '../game/profile';
+import { useI18n } from '../i18n/context';
+import { achievementDescription, achievementTitle } from '../i18n/i18n';
+
+export const ACHIEVEMENT_ICONS: Record<AchievementIcon, LucideIcon> = {
+  skull: Skull,
+  heart: Heart,
+  zap: Zap,
+  shield: Shield,
+  target: Target,
+  crown: Crown,
+  shieldCheck: ShieldCheck,
+  crosshair: Crosshair,
+  bomb: Bomb,
+  star: Star,
+  clock: Clock,
+  ghost: Ghost,
+};
+
+export const TIER_STYLES: Record<AchievementTier, { text: string; card: string; bar: string }> = {
+  bronze: { text: 'text-orange-400', card: 'bg-orange-500/10 border-orange-500/30', bar: 'bg-orange-400' },
+  silver: { text: 'text-slate-200', card: 'bg-slate-300/10 border-slate-300/30', bar: 'bg-slate-200' },
+  gold: { text: 'text-yellow-400', card: 'bg-yellow-500/10 border-yellow-500/30', bar: 'bg-yellow-400' },
+};
+
+export const AchievementGlyph = ({ id, className = 'w-5 h-5' }: { id: string; className?: string }) => {
+  const Icon = ACHIEVEMENT_ICONS[ACHIEVEMENTS[id].icon];
+  return <Icon className={className} />;
+};
+
+interface AchievementListProps {
+  unlocks: Record<string, AchievementRecord>;
+  /** Best progress per achievement, as saved in the profile. */
+  progress: Record<string, number>;
+}
+
+/** Sidebar list of every achievement: unlocked ones in their tier colour, locked ones with progress. */
+export default function AchievementList({ unlocks, progress }: AchievementListProps) {
+  const { t } = useI18n();
+  const unlockedCount = ACHIEVEMENT_IDS.filter(id => unlocks[id]).length;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-[10px] font-mono text-white/40">{t('achievements.unlockedCount', { count: unlockedCount, total: ACHIEVEMENT_IDS.length })}</p>
+      {ACHIEVEMENT_IDS.map(id => {
+        const def = ACHIEVEMENTS[id];
+        const tier = TIER_STYLES[def.tier];
+        const unlocked = !!unlocks[id];
+        const secret = def.hidden && !unlocked;
+        const { target } = def.goal;
+        const current = unlocked ? target : Math.min(target, progress[id] ?? 0);
+
+        return (
+          <div key={id} className={`p-3 rounded-xl border transition-all ${unlocked ? tier.card : 'bg-white/5 border-white/10'}`}>
+            <div className={`flex items-center gap-3 ${unlocked ? '' : 'opacity-50'}`}>
+              <div className={unlocked ? tier.text : 'text-white/40'}>
+                {secret ? <Lock className="w-5 h-5" /> : <AchievementGlyph id={id} />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-bold flex justify-between gap-2">
+                  <span>{secret ? t('common.hidden') : t(achievementTitle(id))}</span>
+                  <span className={`text-[10px] ${tier.text}`}>{t(`tier.${def.tier}`)}</span>
+                </p>
+                <p className="text-[10px] text-white/40 leading-tight">
+                  {secret ? t('achievements.hiddenDescription') : t(achievementDescription(id), { count: target })}
+                </p>
+              </div>
+            </div>
+            {!unlocked && !secret && target > 1 && (
+              <div className="mt-2 flex items-center gap-2">
+                <div className="flex-1 h-1 bg-white/10 rounded-full overflow-hidden">
+                  <div className={`h-full ${tier.bar}`} style={{ width: `${(current / target) * 100}%` }} />
+                </div>
+                <span className="text-[9px] font-mono text-white/40">{Math.floor(current).toLocaleString()}/{target.toLocaleString()}</span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
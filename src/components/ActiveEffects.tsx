@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { POWER_UPS } from '../game/powerups';
+import type { ActiveEffect } from '../game/types';
+import { useI18n } from '../i18n/context';
+
+const RADIUS = 16;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+/** HUD badges for the player's lasting power-ups, each with a ring that empties as it runs out. */
+export default function ActiveEffects({ effects }: { effects: ActiveEffect[] }) {
+  const { t } = useI18n();
+  if (effects.length === 0) return null;
+  return (
+    <div className="flex gap-2">
+      {effects.map(effect => {
+        const def = POWER_UPS[effect.type];
+        const fraction = effect.total > 0 ? effect.remaining / effect.total : 0;
+        return (
+          <div key={effect.type} title={t(`powerUp.${effect.type}`)} className="relative w-10 h-10 bg-black/60 backdrop-blur-xl rounded-full shadow-lg">
+            <svg viewBox="0 0 40 40" className="absolute inset-0 -rotate-90">
+              <circle cx="20" cy="20" r={RADIUS} fill="none" stroke="rgba(255,255,255,0.1)" strokeWidth="3" />
+              <circle
+                cx="20"
+                cy="20"
+                r={RADIUS}
+                fill="none"
+                stroke={def.color}
+                strokeWidth="3"
+                strokeLinecap="round"
+                strokeDasharray={CIRCUMFERENCE}
+                strokeDashoffset={CIRCUMFERENCE * (1 - fraction)}
+              />
+            </svg>
+            <span className="absolute inset-0 flex items-center justify-center text-[10px] font-mono font-black" style={{ color: def.color }}>
+              {def.glyph}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
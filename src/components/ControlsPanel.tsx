@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Gamepad2, Keyboard, RotateCcw, X } from 'lucide-react';
+import {
+  ACTION_IDS, buttonLabel, createDefaultBindings, keyLabel, MAX_BINDINGS, MAX_DEADZONE, PILOT_ACTIONS, rebind, unbind,
+  type Action, type BindingDevice, type Bindings,
+} from '../input/bindings';
+import { applyDeadzone, heldButtons } from '../input/controller';
+import { useI18n } from '../i18n/context';
+
+interface ControlsPanelProps {
+  bindings: Bindings;
+  onChange: (bindings: Bindings) => void;
+  onClose: () => void;
+}
+
+interface Slot {
+  device: BindingDevice;
+  action: Action;
+  index: number;
+}
+
+interface PadView {
+  name: string;
+  /** Raw left stick position, before the deadzone. */
+  x: number;
+  y: number;
+}
+
+const firstGamepad = () => (navigator.getGamepads?.() ?? []).find(pad => pad?.connected) ?? null;
+
+/** Controls screen: rebind keys (both co-op pilots') and gamepad buttons per action, tune the stick deadzone and rumble. */
+export default function ControlsPanel({ bindings, onChange, onClose }: ControlsPanelProps) {
+  const { t } = useI18n();
+  const [listening, setListening] = useState<Slot | null>(null);
+  const [pad, setPad] = useState<PadView | null>(null);
+
+  // Capture phase, so the key being bound doesn't also pause or unpause the game.
+  useEffect(() => {
+    if (!listening || listening.device === 'buttons') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      onChange(rebind(bindings, listening.device, listening.action, listening.index, e.code));
+      setListening(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [listening, bindings]);
+
+  // Gamepads have no button events; poll for the stick preview and for a button to bind.
+  // Buttons already down when listening starts are ignored until released.
+  useEffect(() => {
+    let frame = 0;
+    const start = firstGamepad();
+    let ignored = new Set(start && listening?.device === 'buttons' ? heldButtons(start) : []);
+    const poll = () => {
+      const current = firstGamepad();
+      setPad(prev => {
+        if (!current) return null;
+        const x = Math.round((current.axes[0] ?? 0) * 100) / 100;
+        const y = Math.round((current.axes[1] ?? 0) * 100) / 100;
+        return prev && prev.name === current.id && prev.x === x && prev.y === y ? prev : { name: current.id, x, y };
+      });
+      if (current && listening?.device === 'buttons') {
+        const held = heldButtons(current);
+        const button = held.find(index => !ignored.has(index));
+        if (button !== undefined) {
+          onChange(rebind(bindings, 'buttons', listening.action, listening.index, button));
+          setListening(null);
+          return;
+        }
+        ignored = new Set(held.filter(index => ignored.has(index)));
+      }
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [listening, bindings]);
+
+  const label = (device: BindingDevice, value: string | number) =>
+    device === 'buttons' ? buttonLabel(value as number) : keyLabel(value as string);
+
+  const slots = (device: BindingDevice, action: Action) => {
+    const bound = bindings[device][action] as (string | number)[];
+    // One empty slot to add to, while there is room.
+    const count = Math.min(MAX_BINDINGS, bound.length + 1);
+    return Array.from({ length: count }, (_, index) => {
+      const active = listening?.device === device && listening.action === action && listening.index === index;
+      const value = bound[index];
+      return (
+        <div key={index} className="relative flex-1">
+          <button
+            onClick={() => setListening(active ? null : { device, action, index })}
+            className={`w-full px-2 py-2 rounded-xl text-xs font-mono font-bold border transition-all ${active ? 'bg-cyan-500 text-black border-cyan-300 animate-pulse' : value === undefined ? 'bg-white/5 border-dashed border-white/10 text-white/20 hover:bg-white/10' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+          >
+            {active ? t(device === 'buttons' ? 'controls.pressButton' : 'controls.pressKey') : value === undefined ? '+' : label(device, value)}
+          </button>
+          {value !== undefined && !active && (
+            <button
+              onClick={() => onChange(unbind(bindings, device, action, index))}
+              className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-black border border-white/20 text-white/40 hover:text-white"
+              title={t('controls.clear')}
+            >
+              <X className="w-2.5 h-2.5" />
+            </button>
+          )}
+        </div>
+      );
+    });
+  };
+
+  const stick = pad && applyDeadzone(pad.x, pad.y, bindings.deadzone);
+
+  return (
+    <div className="text-left space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-black uppercase tracking-[0.3em] text-white/40">{t('controls.title')}</p>
+        <button onClick={onClose} className="p-2 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 transition-all" title={t('common.back')}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-5 rounded-3xl bg-white/5 border border-white/10 backdrop-blur-sm space-y-2">
+        <div className="grid grid-cols-[4rem_1fr_1fr_1fr] gap-3 text-[10px] font-bold uppercase tracking-widest">
+          <span />
+          <span className="text-cyan-400 flex items-center gap-1"><Keyboard className="w-3 h-3" /> {t('controls.keyboard')}</span>
+          <span className="text-emerald-400 flex items-center gap-1"><Keyboard className="w-3 h-3" /> {t('controls.keyboard2')}</span>
+          <span className="text-purple-400 flex items-center gap-1"><Gamepad2 className="w-3 h-3" /> {t('controls.gamepad')}</span>
+        </div>
+        {ACTION_IDS.map(action => (
+          <div key={action} className="grid grid-cols-[4rem_1fr_1fr_1fr] gap-3 items-center">
+            <span className="text-xs text-white/60">{t(`action.${action}`)}</span>
+            <div className="flex gap-2">{slots('keys', action)}</div>
+            <div className="flex gap-2">{PILOT_ACTIONS.includes(action) && slots('keys2', action)}</div>
+            <div className="flex gap-2">{slots('buttons', action)}</div>
+          </div>
+        ))}
+        <p className="text-[10px] text-white/30 pt-2">{t('controls.hint')}</p>
+        <p className="text-[10px] text-white/30">{t('controls.coopHint')}</p>
+      </div>
+
+      <div className="p-5 rounded-3xl bg-white/5 border border-white/10 backdrop-blur-sm flex gap-5 items-center">
+        <div className="relative w-20 h-20 shrink-0 rounded-full bg-black/40 border border-white/10">
+          <div
+            className="absolute rounded-full border border-dashed border-white/20"
+            style={{ inset: `${50 - bindings.deadzone * 50}%` }}
+          />
+          {pad && stick && (
+            <div
+              className={`absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full ${stick.x || stick.y ? 'bg-cyan-400' : 'bg-white/30'}`}
+              style={{ left: `${50 + pad.x * 50}%`, top: `${50 + pad.y * 50}%` }}
+            />
+          )}
+        </div>
+        <div className="flex-1 space-y-3 text-xs text-white/60">
+          <p className="truncate text-[10px]">{pad ? pad.name : t('controls.noGamepad')}</p>
+          <label className="flex items-center gap-3">
+            <span className="shrink-0">{t('controls.deadzone')}</span>
+            <input
+              type="range"
+              min={0}
+              max={MAX_DEADZONE}
+              step={0.05}
+              value={bindings.deadzone}
+              onChange={e => onChange({ ...bindings, deadzone: Number(e.target.value) })}
+              className="flex-1 accent-cyan-400"
+            />
+            <span className="w-10 text-right font-mono text-white">{Math.round(bindings.deadzone * 100)}%</span>
+          </label>
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={bindings.rumble}
+              onChange={e => onChange({ ...bindings, rumble: e.target.checked })}
+              className="accent-cyan-400"
+            />
+            <span>{t('controls.rumble')}</span>
+          </label>
+        </div>
+      </div>
+
+      <div className="flex justify-center">
+        <button
+          onClick={() => { setListening(null); onChange(createDefaultBindings()); }}
+          className="px-5 py-3 bg-white/5 border border-white/10 rounded-2xl text-sm font-bold hover:bg-white/10 transition-all flex items-center gap-2"
+        >
+          <RotateCcw className="w-4 h-4" /> {t('common.resetDefaults')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Check, Lock, X } from 'lucide-react';
+import { ABILITIES } from '../game/abilities';
+import { COLORS, TICK_RATE } from '../game/constants';
+import type { Profile } from '../game/profile';
+import { isShipUnlocked, SHIP_IDS, SHIPS } from '../game/ships';
+import type { ShipId } from '../game/types';
+import { useI18n } from '../i18n/context';
+import { achievementTitle } from '../i18n/i18n';
+
+interface HangarPanelProps {
+  profile: Profile;
+  /** The ship each local pilot will launch in, by slot. */
+  ships: ShipId[];
+  onPick: (slot: number, ship: ShipId) => void;
+  onClose: () => void;
+}
+
+/** The ship's vector outline, as drawn in game when it has no sprite. */
+const ShipPreview = ({ id }: { id: ShipId }) => {
+  const { outline, width, height } = SHIPS[id];
+  return (
+    <svg viewBox={`${-width / 2} ${-height / 2} ${width} ${height}`} className="w-12 h-12 shrink-0">
+      <polygon points={outline.map(([x, y]) => `${x},${y}`).join(' ')} fill={COLORS.PLAYER} />
+    </svg>
+  );
+};
+
+const Stat = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <span className="flex justify-between gap-2"><span>{label}</span> <span className="text-white font-mono">{value}</span></span>
+);
+
+/** Picks the ship for each local pilot before launch, on the start screen. */
+export default function HangarPanel({ profile, ships, onPick, onClose }: HangarPanelProps) {
+  const { t } = useI18n();
+  const [slot, setSlot] = useState(0);
+
+  const unlockHint = (id: ShipId) => {
+    const unlock = SHIPS[id].unlock;
+    if (unlock.type === 'achievement') return t('hangar.unlockAchievement', { title: t(achievementTitle(unlock.id)) });
+    if (unlock.type === 'score') return t('hangar.unlockScore', { score: unlock.score });
+    return '';
+  };
+
+  return (
+    <div className="text-left space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-black uppercase tracking-[0.3em] text-white/40">{t('hangar.title')}</p>
+        <button onClick={onClose} className="p-2 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 transition-all" title={t('common.back')}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {ships.length > 1 && (
+        <div className="flex gap-2">
+          {ships.map((_, i) => (
+            <button
+              key={i}
+              onClick={() => setSlot(i)}
+              className={`px-4 py-2 rounded-2xl text-xs font-bold border transition-all ${slot === i ? 'bg-cyan-500 text-black border-cyan-300' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+            >
+              {t('hangar.pilot', { number: i + 1 })}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {SHIP_IDS.map(id => {
+          const def = SHIPS[id];
+          const unlocked = isShipUnlocked(profile, id);
+          const selected = ships[slot] === id;
+          return (
+            <button
+              key={id}
+              onClick={() => onPick(slot, id)}
+              disabled={!unlocked}
+              className={`p-5 rounded-3xl border text-left transition-all space-y-3 disabled:opacity-50 ${selected ? 'bg-cyan-500/10 border-cyan-400' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+            >
+              <div className="flex items-center gap-3">
+                <ShipPreview id={id} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold">{t(`ship.${id}`)}</p>
+                  <p className="text-[10px] text-white/40">{unlocked ? t(`ship.${id}.hint`) : unlockHint(id)}</p>
+                </div>
+                {!unlocked ? <Lock className="w-4 h-4 text-white/40" /> : selected && <Check className="w-4 h-4 text-cyan-400" aria-label={t('hangar.selected')} />}
+              </div>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-[10px] text-white/60">
+                <Stat label={t('hangar.health')} value={def.maxHealth} />
+                <Stat label={t('hangar.speed')} value={def.speed} />
+                <Stat label={t('hangar.fireRate')} value={`${(1000 / def.fireCooldown).toFixed(1)}/s`} />
+                <Stat label={t('hangar.hitbox')} value={def.hitbox.shape === 'circle' ? def.hitbox.radius : `${def.hitbox.width}×${def.hitbox.height}`} />
+                <Stat label={t('hangar.weapon')} value={t(`weapon.${def.weapon}`)} />
+                <Stat label={t('hangar.ability')} value={t(`ability.${def.ability}`)} />
+              </div>
+              <p className="text-[10px] text-white/40">
+                {t(`ability.${def.ability}.hint`)} · {t('hangar.cooldown', { seconds: ABILITIES[def.ability].cooldown / TICK_RATE })}
+              </p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Send, WifiOff } from 'lucide-react';
+import { DEFAULT_PAGE_SIZE, MAX_NAME_LENGTH, normalizeName, TIME_WINDOWS, type LeaderboardPage, type PlayerRank, type TimeWindow } from '../game/leaderboard';
+import type { Replay } from '../game/replay';
+import { SHIP_IDS } from '../game/ships';
+import type { Difficulty, ShipId } from '../game/types';
+import { useI18n } from '../i18n/context';
+import { shipName } from '../i18n/i18n';
+import { fetchRank, fetchScores, loadPilotName, savePilotName, submitScore, type BoardSource, type SubmitResult } from '../utils/leaderboardClient';
+
+const DIFFICULTIES: Difficulty[] = ['EASY', 'NORMAL', 'HARD'];
+
+interface LeaderboardProps {
+  /** The finished run, offered for submission; null if it wasn't recorded. */
+  replay: Replay | null;
+  difficulty: Difficulty;
+}
+
+/** GAMEOVER leaderboard: name entry for the finished run, then a paged board with filters. */
+export default function Leaderboard({ replay, difficulty }: LeaderboardProps) {
+  const { t } = useI18n();
+  const [name, setName] = useState(loadPilotName);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState<SubmitResult | null>(null);
+  const [board, setBoard] = useState<Difficulty>(difficulty);
+  const [timeWindow, setTimeWindow] = useState<TimeWindow>('all');
+  /** Only entries flown in this ship; every ship when undefined. */
+  const [ship, setShip] = useState<ShipId | undefined>(undefined);
+  const [page, setPage] = useState(0);
+  const [data, setData] = useState<LeaderboardPage | null>(null);
+  const [source, setSource] = useState<BoardSource>('server');
+  const [playerRank, setPlayerRank] = useState<PlayerRank | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const query = { difficulty: board, ship, window: timeWindow, limit: DEFAULT_PAGE_SIZE, offset: page * DEFAULT_PAGE_SIZE };
+    fetchScores(query).then(async result => {
+      const rank = submitted ? await fetchRank(submitted.entry.name, query, result.source) : null;
+      if (cancelled) return;
+      setData(result.page);
+      setSource(result.source);
+      setPlayerRank(rank);
+    });
+    return () => { cancelled = true; };
+  }, [board, ship, timeWindow, page, submitted]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const pilot = normalizeName(name);
+    if (!pilot || !replay || submitting || submitted) return;
+    setSubmitting(true);
+    savePilotName(pilot);
+    const result = await submitScore(pilot, replay);
+    setSubmitting(false);
+    setSubmitted(result);
+    setBoard(difficulty);
+    setPage(0);
+  };
+
+  const pages = data ? Math.max(1, Math.ceil(data.total / DEFAULT_PAGE_SIZE)) : 1;
+  const tab = (active: boolean) =>
+    `px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${active ? 'bg-cyan-500 text-black' : 'bg-white/5 text-white/40 hover:bg-white/10'}`;
+
+  return (
+    <div className="space-y-4 text-left">
+      {!submitted ? (
+        <form onSubmit={submit} className="flex gap-2">
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            maxLength={MAX_NAME_LENGTH}
+            placeholder={t('leaderboard.namePlaceholder')}
+            className="flex-1 px-4 py-3 bg-black/40 border border-white/10 rounded-2xl text-sm font-bold outline-none focus:border-cyan-400"
+          />
+          <button
+            type="submit"
+            disabled={!normalizeName(name) || !replay || submitting}
+            className="px-5 py-3 bg-cyan-500 text-black font-black rounded-2xl disabled:opacity-30 flex items-center gap-2"
+          >
+            <Send className="w-4 h-4" /> {t('leaderboard.submit')}
+          </button>
+        </form>
+      ) : (
+        <p className="text-xs text-white/60">
+          {t(submitted.source === 'server' ? 'leaderboard.submitted' : 'leaderboard.savedLocally')}
+          {' · '}{t('leaderboard.boardRank', { difficulty: t(`difficulty.${difficulty}`) })} <span className="font-mono font-black text-cyan-400">#{submitted.entry.rank}</span>
+        </p>
+      )}
+      {submitted?.rejected && (
+        <p className="text-[10px] text-red-400">{t('leaderboard.rejected', { reason: submitted.rejected })}</p>
+      )}
+
+      <div className="flex flex-wrap gap-2 justify-between">
+        <div className="flex gap-1">
+          {DIFFICULTIES.map(d => (
+            <button key={d} onClick={() => { setBoard(d); setPage(0); }} className={tab(board === d)}>{t(`difficulty.${d}`)}</button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {TIME_WINDOWS.map(w => (
+            <button key={w} onClick={() => { setTimeWindow(w); setPage(0); }} className={tab(timeWindow === w)}>{t(`leaderboard.${w}`)}</button>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {[undefined, ...SHIP_IDS].map(id => (
+          <button key={id ?? 'all'} onClick={() => { setShip(id); setPage(0); }} className={tab(ship === id)}>
+            {t(id ? `ship.${id}` : 'leaderboard.allShips')}
+          </button>
+        ))}
+      </div>
+
+      {source === 'local' && (
+        <p className="text-[10px] text-yellow-400/80 flex items-center gap-2"><WifiOff className="w-3 h-3" /> {t('leaderboard.offline')}</p>
+      )}
+
+      <div className="space-y-1 font-mono text-xs">
+        {data?.entries.map(entry => (
+          <div
+            key={entry.id}
+            className={`flex gap-3 px-3 py-2 rounded-xl ${submitted && entry.id === submitted.entry.id && source === submitted.source ? 'bg-cyan-500/20 text-cyan-300' : 'bg-white/5 text-white/70'}`}
+          >
+            <span className="w-8 text-white/40">#{entry.rank}</span>
+            <span className="flex-1 truncate font-sans font-bold">{entry.name}</span>
+            <span className="text-white/40 font-sans">{t(shipName(entry.ship))}</span>
+            <span className="text-white/40">L{entry.level}</span>
+            <span className="w-20 text-right">{entry.score.toLocaleString()}</span>
+          </div>
+        ))}
+        {data && data.entries.length === 0 && <p className="text-sm text-white/20 italic font-sans">{t('common.noRecords')}</p>}
+      </div>
+
+      <div className="flex items-center justify-between text-[10px] text-white/40">
+        <span>{playerRank ? t('leaderboard.playerRank', { name: playerRank.name, rank: playerRank.rank, count: playerRank.total }) : ''}</span>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setPage(p => p - 1)} disabled={page === 0} className="p-1 rounded-lg bg-white/5 disabled:opacity-20">
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="font-mono">{page + 1} / {pages}</span>
+          <button onClick={() => setPage(p => p + 1)} disabled={page + 1 >= pages} className="p-1 rounded-lg bg-white/5 disabled:opacity-20">
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
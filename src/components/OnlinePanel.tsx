@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Globe, Infinity as InfinityIcon, LogIn, Plus, X } from 'lucide-react';
+import { isRoomCode, normalizeRoomCode, ROOM_CODE_LENGTH, type RoomError } from '../game/relay';
+import type { Difficulty, GameMode } from '../game/types';
+import { useI18n } from '../i18n/context';
+import type { RelayStatus } from '../utils/relayClient';
+
+const DIFFICULTIES: Difficulty[] = ['EASY', 'NORMAL', 'HARD'];
+
+/** The online co-op room as the screens show it. */
+export interface OnlineView {
+  status: RelayStatus;
+  /** Join code, once the relay has seated us. */
+  code: string | null;
+  /** Our pilot; the host (who created the room) is 0. */
+  slot: number;
+  peer: 'waiting' | 'connected' | 'lost' | 'left';
+  error: RoomError | null;
+}
+
+interface OnlinePanelProps {
+  /** Null before a room has been asked for. */
+  online: OnlineView | null;
+  onCreate: () => void;
+  onJoin: (code: string) => void;
+  /** Host only: starts a run for both pilots. */
+  onStart: (difficulty: Difficulty, mode: GameMode) => void;
+  onLeave: () => void;
+  onClose: () => void;
+}
+
+/** Online co-op lobby: create or join a room, share its code, and (as host) start the run. */
+export default function OnlinePanel({ online, onCreate, onJoin, onStart, onLeave, onClose }: OnlinePanelProps) {
+  const { t } = useI18n();
+  const [code, setCode] = useState('');
+  const typed = normalizeRoomCode(code);
+  const inRoom = online && online.code && online.status !== 'closed';
+
+  return (
+    <div className="text-left space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-black uppercase tracking-[0.3em] text-white/40 flex items-center gap-2">
+          <Globe className="w-4 h-4" /> {t('online.title')}
+        </p>
+        <button onClick={onClose} className="p-2 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 transition-all" title={t('common.back')}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {!inRoom && (
+        <div className="p-5 rounded-3xl bg-white/5 border border-white/10 backdrop-blur-sm space-y-4">
+          <button
+            onClick={onCreate}
+            disabled={online?.status === 'connecting'}
+            className="w-full py-4 bg-cyan-500 text-black font-black rounded-2xl hover:scale-[1.02] transition-transform flex items-center justify-center gap-2 disabled:opacity-40"
+          >
+            <Plus className="w-5 h-5" /> {t('online.create')}
+          </button>
+          <form
+            className="flex gap-2"
+            onSubmit={e => {
+              e.preventDefault();
+              if (isRoomCode(typed)) onJoin(typed);
+            }}
+          >
+            <input
+              value={code}
+              onChange={e => setCode(e.target.value)}
+              maxLength={ROOM_CODE_LENGTH + 1}
+              placeholder={t('online.codePlaceholder')}
+              className="flex-1 min-w-0 px-4 py-3 bg-black/40 border border-white/10 rounded-2xl text-lg font-mono uppercase tracking-[0.3em] focus:outline-none focus:border-cyan-400"
+            />
+            <button
+              type="submit"
+              disabled={!isRoomCode(typed) || online?.status === 'connecting'}
+              className="px-5 py-3 bg-white/5 border border-white/10 rounded-2xl text-sm font-bold hover:bg-white/10 transition-all flex items-center gap-2 disabled:opacity-40"
+            >
+              <LogIn className="w-4 h-4" /> {t('online.join')}
+            </button>
+          </form>
+          {online?.status === 'connecting' && <p className="text-xs text-white/60">{t('online.connecting')}</p>}
+          {online?.error && <p className="text-xs text-red-400">{t(`online.error.${online.error}`)}</p>}
+          {online && !online.error && online.status === 'closed' && (
+            <p className="text-xs text-red-400">{t(online.peer === 'left' ? 'online.peerLeft' : online.code ? 'online.disconnected' : 'online.unreachable')}</p>
+          )}
+          <p className="text-[10px] text-white/30">{t('online.hint')}</p>
+        </div>
+      )}
+
+      {inRoom && (
+        <div className="p-5 rounded-3xl bg-white/5 border border-white/10 backdrop-blur-sm space-y-4 text-center">
+          <p className="text-[10px] font-bold uppercase tracking-widest text-cyan-400">{t('online.roomCode')}</p>
+          <p className="text-5xl font-mono font-black tracking-[0.4em] ml-[0.4em] select-all">{online.code}</p>
+          {online.status === 'reconnecting' ? (
+            <p className="text-xs text-yellow-400">{t('online.reconnecting')}</p>
+          ) : online.peer === 'waiting' ? (
+            <p className="text-xs text-white/60">{t('online.shareCode')}</p>
+          ) : online.peer === 'lost' ? (
+            <p className="text-xs text-yellow-400">{t('online.peerLost')}</p>
+          ) : (
+            <p className="text-xs text-emerald-400">{t('online.peerConnected', { number: online.slot + 1 })}</p>
+          )}
+
+          {online.peer === 'connected' && online.slot === 0 && (
+            <div className="space-y-3">
+              <p className="text-xs font-black uppercase tracking-[0.3em] text-white/40">{t('start.chooseDifficulty')}</p>
+              <div className="grid grid-cols-3 gap-3">
+                {DIFFICULTIES.map(id => (
+                  <button
+                    key={id}
+                    onClick={() => onStart(id, 'campaign')}
+                    title={t(`difficulty.${id}.hint`)}
+                    className="py-4 rounded-2xl bg-white/10 border border-white/10 font-black hover:bg-cyan-500 hover:text-black transition-all"
+                  >
+                    {t(`difficulty.${id}`)}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => onStart('NORMAL', 'endless')}
+                title={t('mode.endless.hint')}
+                className="w-full py-4 rounded-2xl bg-white/10 border border-white/10 font-black hover:bg-violet-500 hover:text-black transition-all flex items-center justify-center gap-2"
+              >
+                <InfinityIcon className="w-5 h-5" /> {t('mode.endless')}
+              </button>
+            </div>
+          )}
+          {online.peer === 'connected' && online.slot !== 0 && (
+            <p className="text-xs text-white/40">{t('online.waitingHost')}</p>
+          )}
+
+          <button
+            onClick={onLeave}
+            className="w-full py-3 bg-white/5 border border-white/10 text-white font-bold rounded-2xl hover:bg-white/10 transition-all"
+          >
+            {t('online.leave')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
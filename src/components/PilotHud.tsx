@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Heart } from 'lucide-react';
+import { TICK_RATE } from '../game/constants';
+import type { ActiveEffect, SecondaryId, ShipId } from '../game/types';
+import { useI18n } from '../i18n/context';
+import AbilityMeter from './AbilityMeter';
+import ActiveEffects from './ActiveEffects';
+import WeaponMeter from './WeaponMeter';
+
+/** What the HUD and the game over screen show of one pilot, copied out of the world. */
+export interface PilotView {
+  slot: number;
+  ship: ShipId;
+  health: number;
+  maxHealth: number;
+  score: number;
+  kills: number;
+  downs: number;
+  /** Ticks until a downed pilot respawns; 0 while flying. */
+  respawn: number;
+  /** Ticks until the ship's special is ready. */
+  abilityCooldown: number;
+  weaponLevel: number;
+  secondary: SecondaryId | null;
+  /** Ticks the charge shot has been held for. */
+  charge: number;
+  effects: ActiveEffect[];
+}
+
+interface PilotHudProps {
+  pilot: PilotView;
+  /** Which bottom corner it sits in; the contents line up with that edge. */
+  align: 'left' | 'right';
+  key?: number;
+}
+
+/** One co-op pilot's corner of the split HUD: health, score, weapons, special and power-ups, or the respawn countdown. */
+export default function PilotHud({ pilot, align }: PilotHudProps) {
+  const { t } = useI18n();
+  // A pilot whose team is out keeps the empty hearts rather than a countdown.
+  const down = pilot.respawn > 0;
+  return (
+    <div className={`flex flex-col gap-2 ${align === 'left' ? 'items-start' : 'items-end'}`}>
+      <ActiveEffects effects={pilot.effects} />
+      {!down && <WeaponMeter ship={pilot.ship} level={pilot.weaponLevel} secondary={pilot.secondary} charge={pilot.charge} />}
+      {!down && <AbilityMeter ship={pilot.ship} cooldown={pilot.abilityCooldown} />}
+      <div className={`bg-black/60 backdrop-blur-xl border p-3 rounded-2xl flex items-center gap-3 shadow-2xl ${align === 'right' ? 'flex-row-reverse' : ''} ${down ? 'border-red-500/40' : 'border-white/10'}`}>
+        <span className="text-xs font-black font-mono text-cyan-400">{t('hud.pilot', { number: pilot.slot + 1 })}</span>
+        {down ? (
+          <div className={align === 'left' ? 'text-left' : 'text-right'}>
+            <p className="text-sm font-mono font-bold text-red-400">{t('hud.respawning', { seconds: Math.ceil(pilot.respawn / TICK_RATE) })}</p>
+            <p className="text-[10px] text-white/40">{t('hud.reviveHint')}</p>
+          </div>
+        ) : (
+          <div className={`flex items-center gap-3 ${align === 'right' ? 'flex-row-reverse' : ''}`}>
+            <div className="flex gap-1">
+              {Array.from({ length: pilot.maxHealth }).map((_, i) => (
+                <Heart key={i} className={`w-4 h-4 fill-current ${i < pilot.health ? 'text-red-400' : 'text-white/20'}`} />
+              ))}
+            </div>
+            <span className="text-lg font-mono font-bold text-white">{pilot.score.toLocaleString()}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
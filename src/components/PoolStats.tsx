@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import type { PoolUsage } from '../game/pool';
+
+/** Debug overlay (toggle with `) showing live entities against each pool's capacity. */
+export default function PoolStats({ usage }: { usage: PoolUsage[] }) {
+  return (
+    <div className="absolute bottom-6 left-6 bg-black/70 backdrop-blur-xl border border-white/10 p-3 rounded-xl z-30 pointer-events-none font-mono text-[10px] text-white/70">
+      <p className="font-black uppercase tracking-widest text-cyan-400 mb-1">Pools</p>
+      <table>
+        <thead className="text-white/40">
+          <tr>
+            <th className="text-left pr-3">pool</th>
+            <th className="text-right pr-3">live</th>
+            <th className="text-right pr-3">free</th>
+            <th className="text-right pr-3">peak</th>
+            <th className="text-right">dropped</th>
+          </tr>
+        </thead>
+        <tbody>
+          {usage.map(row => (
+            <tr key={row.name}>
+              <td className="pr-3">{row.name}</td>
+              <td className="text-right pr-3">{row.live}</td>
+              <td className="text-right pr-3">{row.free}</td>
+              <td className="text-right pr-3">{row.peak}</td>
+              <td className={`text-right ${row.dropped > 0 ? 'text-red-400' : ''}`}>{row.dropped}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
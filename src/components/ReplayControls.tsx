@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Pause, Play, X } from 'lucide-react';
+import { TICK_RATE } from '../game/constants';
+import { useI18n } from '../i18n/context';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+interface ReplayControlsProps {
+  tick: number;
+  totalTicks: number;
+  paused: boolean;
+  speed: number;
+  onTogglePause: () => void;
+  onSpeedChange: (speed: number) => void;
+  onSeek: (tick: number) => void;
+  onExit: () => void;
+}
+
+const formatTicks = (ticks: number) => {
+  const seconds = Math.floor(ticks / TICK_RATE);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export default function ReplayControls({ tick, totalTicks, paused, speed, onTogglePause, onSpeedChange, onSeek, onExit }: ReplayControlsProps) {
+  const { t } = useI18n();
+  return (
+    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 w-[min(42rem,calc(100%-3rem))] bg-black/70 backdrop-blur-xl border border-white/10 p-4 rounded-2xl shadow-2xl z-30 space-y-3">
+      <div className="flex items-center gap-3">
+        <span className="text-[10px] font-black uppercase tracking-widest text-cyan-400">{t('replay.label')}</span>
+        <input
+          type="range"
+          min={0}
+          max={totalTicks}
+          value={tick}
+          onChange={e => onSeek(Number(e.target.value))}
+          className="flex-1 accent-cyan-400"
+        />
+        <span className="text-xs font-mono text-white/60">{formatTicks(tick)} / {formatTicks(totalTicks)}</span>
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <button
+          onClick={onTogglePause}
+          className="p-2 rounded-xl bg-white text-black hover:scale-105 transition-transform"
+        >
+          {paused ? <Play className="w-5 h-5 fill-current" /> : <Pause className="w-5 h-5 fill-current" />}
+        </button>
+        <div className="flex gap-2">
+          {REPLAY_SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => onSpeedChange(s)}
+              className={`px-3 py-1 rounded-lg text-xs font-mono font-bold border transition-all ${s === speed ? 'bg-cyan-500 text-black border-cyan-400' : 'bg-white/5 border-white/10 text-white/60 hover:bg-white/10'}`}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={onExit}
+          className="p-2 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 transition-all"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { RotateCcw, X } from 'lucide-react';
+import type { Bus } from '../audio/SoundManager';
+import { useI18n } from '../i18n/context';
+import { LOCALE_IDS, LOCALES } from '../i18n/i18n';
+import { PALETTE_IDS, PALETTES } from '../render/palettes';
+import { createDefaultSettings, type Settings } from '../utils/settings';
+
+const BUSES: Bus[] = ['master', 'music', 'sfx'];
+
+interface SettingsPanelProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+  onClose: () => void;
+}
+
+const Card = ({ title, color, children }: { title: string; color: string; children: React.ReactNode }) => (
+  <div className="p-5 rounded-3xl bg-white/5 border border-white/10 backdrop-blur-sm">
+    <p className={`text-[10px] font-bold uppercase mb-3 tracking-widest ${color}`}>{title}</p>
+    <div className="space-y-3 text-xs text-white/60">{children}</div>
+  </div>
+);
+
+const Slider = ({ label, value, onChange }: { key?: string; label: string; value: number; onChange: (value: number) => void }) => (
+  <label className="flex items-center gap-3">
+    <span className="w-16 shrink-0">{label}</span>
+    <input
+      type="range"
+      min={0}
+      max={1}
+      step={0.05}
+      value={value}
+      onChange={e => onChange(Number(e.target.value))}
+      className="flex-1 accent-cyan-400"
+    />
+    <span className="w-10 text-right font-mono text-white">{Math.round(value * 100)}%</span>
+  </label>
+);
+
+const Toggle = ({ label, hint, checked, onChange }: { label: string; hint: string; checked: boolean; onChange: (checked: boolean) => void }) => (
+  <label className="flex items-start gap-3 cursor-pointer">
+    <input type="checkbox" checked={checked} onChange={e => onChange(e.target.checked)} className="mt-0.5 accent-cyan-400" />
+    <span>
+      <span className="text-white">{label}</span>
+      <span className="block text-[10px] text-white/30">{hint}</span>
+    </span>
+  </label>
+);
+
+/** Settings screen: volumes, screen effects, accessibility options and language. Every change applies and saves at once. */
+export default function SettingsPanel({ settings, onChange, onClose }: SettingsPanelProps) {
+  const { t } = useI18n();
+  const set = <K extends keyof Settings>(key: K, value: Settings[K]) => onChange({ ...settings, [key]: value });
+
+  return (
+    <div className="text-left space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-black uppercase tracking-[0.3em] text-white/40">{t('settings.title')}</p>
+        <button onClick={onClose} className="p-2 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 transition-all" title={t('common.back')}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <Card title={t('settings.audio')} color="text-cyan-400">
+          {BUSES.map(bus => (
+            <Slider
+              key={bus}
+              label={t(`settings.volume.${bus}`)}
+              value={settings.volume[bus]}
+              onChange={value => set('volume', { ...settings.volume, [bus]: value })}
+            />
+          ))}
+          <Toggle label={t('settings.muted')} hint={t('settings.mutedHint')} checked={settings.muted} onChange={value => set('muted', value)} />
+        </Card>
+
+        <Card title={t('settings.comfort')} color="text-purple-400">
+          <Slider label={t('settings.shake')} value={settings.shake} onChange={value => set('shake', value)} />
+          <Toggle
+            label={t('settings.reducedMotion')}
+            hint={t('settings.reducedMotionHint')}
+            checked={settings.reducedMotion}
+            onChange={value => set('reducedMotion', value)}
+          />
+          <Toggle
+            label={t('settings.reducedFlash')}
+            hint={t('settings.reducedFlashHint')}
+            checked={settings.reducedFlash}
+            onChange={value => set('reducedFlash', value)}
+          />
+        </Card>
+      </div>
+
+      <Card title={t('settings.accessibility')} color="text-yellow-400">
+        <div className="space-y-2">
+          <p>{t('settings.palette')}</p>
+          <div className="flex flex-wrap gap-2">
+            {PALETTE_IDS.map(id => (
+              <button
+                key={id}
+                onClick={() => set('palette', id)}
+                className={`px-3 py-2 rounded-xl border flex items-center gap-2 font-bold transition-all ${settings.palette === id ? 'bg-cyan-500/20 border-cyan-400 text-white' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+              >
+                {t(`palette.${id}`)}
+                <span className="flex gap-0.5">
+                  {(['PLAYER', 'BASIC', 'FAST', 'HEAVY', 'ENEMY_BULLET'] as const).map(key => (
+                    <span key={key} className="w-2 h-2 rounded-full" style={{ background: PALETTES[id].colors[key] }} />
+                  ))}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+        <Toggle
+          label={t('settings.highContrast')}
+          hint={t('settings.highContrastHint')}
+          checked={settings.highContrast}
+          onChange={value => set('highContrast', value)}
+        />
+        <Toggle
+          label={t('settings.showHitbox')}
+          hint={t('settings.showHitboxHint')}
+          checked={settings.showHitbox}
+          onChange={value => set('showHitbox', value)}
+        />
+      </Card>
+
+      <Card title={t('settings.language')} color="text-green-400">
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => set('language', null)}
+            className={`px-3 py-2 rounded-xl border font-bold transition-all ${settings.language === null ? 'bg-cyan-500/20 border-cyan-400 text-white' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+          >
+            {t('settings.languageAuto')}
+          </button>
+          {LOCALE_IDS.map(id => (
+            <button
+              key={id}
+              lang={id}
+              onClick={() => set('language', id)}
+              className={`px-3 py-2 rounded-xl border font-bold transition-all ${settings.language === id ? 'bg-cyan-500/20 border-cyan-400 text-white' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+            >
+              {LOCALES[id].label}
+            </button>
+          ))}
+        </div>
+      </Card>
+
+      <div className="flex justify-center">
+        <button
+          onClick={() => onChange({ ...createDefaultSettings(), language: settings.language })}
+          className="px-5 py-3 bg-white/5 border border-white/10 rounded-2xl text-sm font-bold hover:bg-white/10 transition-all flex items-center gap-2"
+        >
+          <RotateCcw className="w-4 h-4" /> {t('common.resetDefaults')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Lock, Sparkles } from 'lucide-react';
+import { isUnlocked, UPGRADE_IDS, UPGRADES } from '../game/shop';
+import type { UpgradeId } from '../game/types';
+import { useI18n } from '../i18n/context';
+
+interface ShopPanelProps {
+  /** The team's stardust to spend. */
+  stardust: number;
+  /** Level bought of each upgrade this run. */
+  upgrades: Record<UpgradeId, number>;
+  /** Stardust earned over all runs, which unlocks the later upgrades. */
+  lifetimeStardust: number;
+  /** Online, only the host spends; the guest watches. */
+  readOnly: boolean;
+  onBuy: (id: UpgradeId) => void;
+}
+
+/** The upgrade shop on the level clear screen. */
+export default function ShopPanel({ stardust, upgrades, lifetimeStardust, readOnly, onBuy }: ShopPanelProps) {
+  const { t } = useI18n();
+  return (
+    <div className="text-left space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-black uppercase tracking-[0.3em] text-white/40">{t('shop.title')}</p>
+        <p className="text-sm font-mono font-bold text-amber-300 flex items-center gap-1" title={t('shop.stardust')}>
+          <Sparkles className="w-4 h-4" /> {stardust.toLocaleString()}
+        </p>
+      </div>
+      <div className="space-y-2">
+        {UPGRADE_IDS.map(id => {
+          const def = UPGRADES[id];
+          const level = upgrades[id];
+          const price = def.prices[level] ?? null;
+          const unlocked = isUnlocked(id, lifetimeStardust);
+          return (
+            <div key={id} className={`p-3 rounded-2xl bg-white/5 border border-white/10 flex items-center gap-3 ${unlocked ? '' : 'opacity-50'}`}>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-bold">
+                  {t(`upgrade.${id}`)} <span className="text-[10px] font-mono text-white/40">{t('shop.level', { level, max: def.prices.length })}</span>
+                </p>
+                <p className="text-[10px] text-white/40">
+                  {unlocked ? t(`upgrade.${id}.hint`) : t('shop.locked', { stardust: (def.unlockAt ?? 0).toLocaleString() })}
+                </p>
+              </div>
+              {!unlocked ? (
+                <Lock className="w-4 h-4 text-white/40" />
+              ) : price === null ? (
+                <span className="text-xs font-black text-emerald-400">{t('shop.maxed')}</span>
+              ) : (
+                <button
+                  onClick={() => onBuy(id)}
+                  disabled={readOnly || stardust < price}
+                  title={t('shop.buy')}
+                  className="px-3 py-2 rounded-xl bg-amber-400 text-black text-xs font-black font-mono flex items-center gap-1 hover:scale-105 transition-transform disabled:opacity-40 disabled:hover:scale-100"
+                >
+                  <Sparkles className="w-3 h-3" /> {price.toLocaleString()}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {readOnly && <p className="text-[10px] text-white/30">{t('shop.hostOnly')}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Download, Upload, X } from 'lucide-react';
+import { ACHIEVEMENT_IDS, ACHIEVEMENTS } from '../game/achievements';
+import { ENEMY_TYPES } from '../game/levels';
+import { POWER_UP_TYPES } from '../game/powerups';
+import type { Profile } from '../game/profile';
+import type { Difficulty } from '../game/types';
+import { useI18n } from '../i18n/context';
+import { achievementTitle } from '../i18n/i18n';
+
+const DIFFICULTIES: Difficulty[] = ['EASY', 'NORMAL', 'HARD'];
+
+interface StatsPanelProps {
+  profile: Profile;
+  importError: string | null;
+  onExport: () => void;
+  onImport: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onClose: () => void;
+}
+
+const formatPlayTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor(seconds / 60) % 60;
+  return `${h}:${String(m).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const Row = ({ label, value }: { key?: string; label: string; value: React.ReactNode }) => (
+  <p className="flex justify-between"><span>{label}</span> <span className="text-white font-mono">{value}</span></p>
+);
+
+const Card = ({ title, color, children }: { title: string; color: string; children: React.ReactNode }) => (
+  <div className="p-5 rounded-3xl bg-white/5 border border-white/10 backdrop-blur-sm">
+    <p className={`text-[10px] font-bold uppercase mb-3 tracking-widest ${color}`}>{title}</p>
+    <div className="space-y-2 text-xs text-white/60">{children}</div>
+  </div>
+);
+
+/** Lifetime records on the start screen, with export/import of the saved profile. */
+export default function StatsPanel({ profile, importError, onExport, onImport, onClose }: StatsPanelProps) {
+  const { locale, t } = useI18n();
+  const { totals } = profile;
+  const kills = Object.values(totals.kills).reduce((sum, n) => sum + n, 0);
+
+  return (
+    <div className="text-left space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-black uppercase tracking-[0.3em] text-white/40">{t('stats.title')}</p>
+        <button onClick={onClose} className="p-2 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 transition-all" title={t('common.back')}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <Card title={t('stats.bestScores')} color="text-cyan-400">
+          {DIFFICULTIES.map(d => (
+            <Row key={d} label={t(`difficulty.${d}`)} value={profile.bestScores[d].toLocaleString()} />
+          ))}
+          <Row label={t('stats.highestLevel')} value={profile.highestLevel || '--'} />
+          <Row label={t('stats.endlessTime')} value={profile.endless.time ? formatPlayTime(profile.endless.time) : '--'} />
+          <Row label={t('stats.endlessScore')} value={profile.endless.score.toLocaleString()} />
+        </Card>
+
+        <Card title={t('stats.lifetime')} color="text-purple-400">
+          <Row label={t('stats.runs')} value={totals.runs} />
+          <Row label={t('stats.playTime')} value={formatPlayTime(totals.playTime)} />
+          <Row label={t('stats.stardust')} value={totals.stardust.toLocaleString()} />
+          <Row label={t('stats.shotsFired')} value={totals.shotsFired.toLocaleString()} />
+          <Row label={t('stats.enemiesDestroyed')} value={kills.toLocaleString()} />
+        </Card>
+
+        <Card title={t('stats.kills')} color="text-red-400">
+          {ENEMY_TYPES.map(type => (
+            <Row key={type} label={t(`enemy.${type}`)} value={totals.kills[type].toLocaleString()} />
+          ))}
+        </Card>
+
+        <Card title={t('stats.powerUps')} color="text-green-400">
+          {POWER_UP_TYPES.filter(type => totals.powerUps[type] > 0).map(type => (
+            <Row key={type} label={t(`powerUp.${type}`)} value={totals.powerUps[type]} />
+          ))}
+          {POWER_UP_TYPES.every(type => totals.powerUps[type] === 0) && <p className="italic text-white/20">{t('common.noRecords')}</p>}
+        </Card>
+      </div>
+
+      <Card title={t('stats.achievements')} color="text-yellow-400">
+        {ACHIEVEMENT_IDS.map(id => {
+          const def = ACHIEVEMENTS[id];
+          const record = profile.achievements[id];
+          return (
+            <Row
+              key={id}
+              label={def.hidden && !record ? t('common.hidden') : t(achievementTitle(id))}
+              value={record ? new Date(record.unlockedAt).toLocaleDateString(locale) : <span className="text-white/20">{t('stats.locked')}</span>}
+            />
+          );
+        })}
+      </Card>
+
+      <div className="flex flex-wrap justify-center gap-3">
+        <button
+          onClick={onExport}
+          className="px-5 py-3 bg-white/5 border border-white/10 rounded-2xl text-sm font-bold hover:bg-white/10 transition-all flex items-center gap-2"
+        >
+          <Download className="w-4 h-4" /> {t('stats.export')}
+        </button>
+        <label className="px-5 py-3 bg-white/5 border border-white/10 rounded-2xl text-sm font-bold hover:bg-white/10 transition-all flex items-center gap-2 cursor-pointer">
+          <Upload className="w-4 h-4" /> {t('stats.import')}
+          <input type="file" accept=".json,application/json" onChange={onImport} className="hidden" />
+        </label>
+      </div>
+      {importError && (
+        <p className="text-xs text-red-400 text-center">{t('stats.invalidProfile', { error: importError })}</p>
+      )}
+    </div>
+  );
+}
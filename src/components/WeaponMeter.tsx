@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { MAX_WEAPON_LEVEL } from '../game/constants';
+import { SHIPS } from '../game/ships';
+import type { SecondaryId, ShipId } from '../game/types';
+import { FULL_CHARGE, MIN_CHARGE } from '../game/weapons';
+import { useI18n } from '../i18n/context';
+
+interface WeaponMeterProps {
+  ship: ShipId;
+  level: number;
+  secondary: SecondaryId | null;
+  /** Ticks the charge shot has been held for. */
+  charge: number;
+}
+
+/** HUD panel for the pilot's weapons: primary level, the secondary and the charge while it builds. */
+export default function WeaponMeter({ ship, level, secondary, charge }: WeaponMeterProps) {
+  const { t } = useI18n();
+  const ready = charge >= MIN_CHARGE;
+  return (
+    <div className="bg-black/60 backdrop-blur-xl border border-white/10 px-3 py-1.5 rounded-xl shadow-lg w-40">
+      <div className="flex justify-between text-[10px] font-black uppercase tracking-widest">
+        <span className="text-white/60">{t(`weapon.${SHIPS[ship].weapon}`)}</span>
+        <span className="font-mono text-lime-300">{t('hud.weaponLevel', { level })}</span>
+      </div>
+      <div className="mt-1 flex gap-1">
+        {Array.from({ length: MAX_WEAPON_LEVEL }).map((_, i) => (
+          <div key={i} className={`h-1 flex-1 rounded-full ${i < level ? 'bg-lime-300' : 'bg-white/10'}`} />
+        ))}
+      </div>
+      {secondary && <p className="mt-1 text-[10px] font-bold text-sky-300">{t(`powerUp.${secondary}`)}</p>}
+      {charge > 0 && (
+        <div className="mt-1">
+          <p className={`text-[10px] font-black tracking-widest ${ready ? 'text-cyan-300' : 'text-white/40'}`}>{t('hud.charging')}</p>
+          <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+            <div className={`h-full ${ready ? 'bg-cyan-300' : 'bg-white/40'}`} style={{ width: `${(charge / FULL_CHARGE) * 100}%` }} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { ABILITIES, NOVA_RADIUS, triggerAbility } from './abilities';
+import { spawnBullet } from './pool';
+import { hasEffect } from './powerups';
+import { createWorld } from './simulation';
+import type { GameEvent, ShipId } from './types';
+
+const pilotIn = (ship: ShipId) => {
+  const world = createWorld({ width: 800, height: 600, difficulty: 'NORMAL', seed: 1, ships: [ship] });
+  return { world, player: world.players[0] };
+};
+
+describe('triggerAbility', () => {
+  it("fires the ship's special, then waits for it to recharge", () => {
+    const { world, player } = pilotIn('bulwark');
+    const events: GameEvent[] = [];
+    triggerAbility(world, player, events);
+    expect(events).toEqual([{ type: 'abilityUsed', ability: 'barrier', player: 0 }]);
+    expect(hasEffect(player, 'shield')).toBe(true);
+    expect(player.abilityCooldown).toBe(ABILITIES.barrier.cooldown);
+
+    triggerAbility(world, player, events);
+    expect(events).toHaveLength(1);
+  });
+
+  it("grants a power-up's effect without counting a pickup", () => {
+    const { world, player } = pilotIn('pioneer');
+    const events: GameEvent[] = [];
+    triggerAbility(world, player, events);
+    expect(hasEffect(player, 'rapid')).toBe(true);
+    expect(events.some(e => e.type === 'powerUpCollected')).toBe(false);
+  });
+
+  it("phases out of harm's way", () => {
+    const { world, player } = pilotIn('interceptor');
+    player.invul = 0;
+    triggerAbility(world, player, []);
+    expect(player.invul).toBeGreaterThan(0);
+  });
+
+  it('wipes out enemy fire near the ship with a nova', () => {
+    const { world, player } = pilotIn('phantom');
+    spawnBullet(world, player.x, player.y - NOVA_RADIUS / 2, 0, 3, '#fff', true);
+    spawnBullet(world, player.x, player.y - NOVA_RADIUS * 2, 0, 3, '#fff', true);
+    spawnBullet(world, player.x, player.y - 20, 0, -8, '#fff', false);
+    triggerAbility(world, player, []);
+    expect(world.bullets.map(b => b.isEnemy)).toEqual([true, false]);
+    expect(world.bullets[0].y).toBe(player.y - NOVA_RADIUS * 2);
+  });
+});
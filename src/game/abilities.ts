@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TICK_RATE } from './constants';
+import { sweep } from './pool';
+import { grantEffect } from './powerups';
+import { SHIPS } from './ships';
+import type { AbilityId, GameEvent, Player, World } from './types';
+
+// --- Ship Specials ---
+// Every ship carries one special (see SHIPS), triggered with the special action and then
+// recharging for its cooldown. Specials that mirror a power-up grant its effect, upgrades
+// included, without counting as a pickup.
+
+/** Names and descriptions are in the i18n catalogs, under the ability's id. */
+export interface AbilityDefinition {
+  /** Ticks before it can be used again. */
+  cooldown: number;
+  activate: (world: World, player: Player, events: GameEvent[]) => void;
+}
+
+/** Enemy bullets within this distance of the ship are wiped out by a nova. */
+export const NOVA_RADIUS = 180;
+const PHASE_TICKS = 1.5 * TICK_RATE;
+
+export const ABILITIES: Record<AbilityId, AbilityDefinition> = {
+  /** Rapid fire, as the power-up. */
+  overdrive: {
+    cooldown: 20 * TICK_RATE,
+    activate: (world, player, events) => grantEffect(world, player, 'rapid', events),
+  },
+  /** A short spell of invulnerability. */
+  phase: {
+    cooldown: 12 * TICK_RATE,
+    activate: (_, player) => { player.invul = Math.max(player.invul, PHASE_TICKS); },
+  },
+  /** A fresh shield. */
+  barrier: {
+    cooldown: 25 * TICK_RATE,
+    activate: (world, player, events) => grantEffect(world, player, 'shield', events),
+  },
+  /** Clears enemy fire around the ship. */
+  nova: {
+    cooldown: 15 * TICK_RATE,
+    activate: (world, player) => {
+      sweep(world.bullets, world.pools.bullets, b => !b.isEnemy || Math.hypot(b.x - player.x, b.y - player.y) > NOVA_RADIUS);
+      world.shake = Math.max(world.shake, 10);
+    },
+  },
+};
+
+export const abilityOf = (player: Player) => SHIPS[player.ship].ability;
+
+/** Triggers a pilot's special if it has recharged. */
+export const triggerAbility = (world: World, player: Player, events: GameEvent[]) => {
+  if (player.abilityCooldown > 0) return;
+  const ability = abilityOf(player);
+  ABILITIES[ability].activate(world, player, events);
+  player.abilityCooldown = ABILITIES[ability].cooldown;
+  events.push({ type: 'abilityUsed', ability, player: player.slot });
+};
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  ACHIEVEMENTS,
+  achievementProgress,
+  createAchievementTracker,
+  startAchievementLevel,
+  updateAchievements,
+} from './achievements';
+import { createProfile } from './profile';
+import { createWorld } from './simulation';
+import type { GameEvent } from './types';
+
+const setup = () => ({
+  tracker: createAchievementTracker(),
+  profile: createProfile(),
+  world: createWorld({ width: 800, height: 600, difficulty: 'NORMAL', seed: 1 }),
+});
+
+const kills = (n: number): GameEvent[] => Array.from({ length: n }, () => ({ type: 'enemyKilled', enemy: 'basic', player: 0 }));
+
+describe('updateAchievements', () => {
+  it('unlocks an achievement once, on the step that completes it', () => {
+    const { tracker, profile, world } = setup();
+    expect(updateAchievements(tracker, profile, world, [])).toEqual([]);
+    expect(updateAchievements(tracker, profile, world, kills(1))).toContain('first_blood');
+    expect(profile.achievements.first_blood).toBeDefined();
+    expect(updateAchievements(tracker, profile, world, kills(1))).not.toContain('first_blood');
+  });
+
+  it('filters counted events by the goal', () => {
+    const { tracker, profile, world } = setup();
+    updateAchievements(tracker, profile, world, [{ type: 'powerUpCollected', powerUp: 'shield', player: 0 }]);
+    expect(profile.achievements.power_hungry).toBeUndefined();
+    updateAchievements(tracker, profile, world, [{ type: 'powerUpCollected', powerUp: 'triple', player: 0 }]);
+    expect(profile.achievements.power_hungry).toBeDefined();
+  });
+
+  it('restarts level counts on a new level but keeps the best progress', () => {
+    const { tracker, profile, world } = setup();
+    updateAchievements(tracker, profile, world, kills(30));
+    startAchievementLevel(tracker);
+    updateAchievements(tracker, profile, world, kills(25));
+    expect(profile.achievements.rampage).toBeUndefined();
+    expect(profile.progress.rampage).toBe(30);
+    updateAchievements(tracker, profile, world, kills(25));
+    expect(profile.achievements.rampage).toBeDefined();
+  });
+
+  it('watches values that only grow', () => {
+    const { tracker, profile, world } = setup();
+    world.score = 4999;
+    updateAchievements(tracker, profile, world, []);
+    expect(profile.progress.ace_pilot).toBe(4999);
+    world.score = 5000;
+    expect(updateAchievements(tracker, profile, world, [])).toContain('ace_pilot');
+  });
+
+  it('can look at the rest of the level when a level completes', () => {
+    const complete: GameEvent = { type: 'levelComplete', level: 1 };
+    const quiet = setup();
+    expect(updateAchievements(quiet.tracker, quiet.profile, quiet.world, [complete])).toContain('pacifist');
+
+    const busy = setup();
+    updateAchievements(busy.tracker, busy.profile, busy.world, [{ type: 'shot', player: 0, weapon: 'single' }]);
+    expect(updateAchievements(busy.tracker, busy.profile, busy.world, [complete])).not.toContain('pacifist');
+  });
+});
+
+describe('achievementProgress', () => {
+  it('caps progress at the target and reports unlocked achievements as complete', () => {
+    const profile = createProfile();
+    profile.progress.hunter = 40;
+    expect(achievementProgress(profile, 'hunter')).toBe(40);
+    profile.achievements.collector = { unlockedAt: '2025-01-01T00:00:00.000Z' };
+    expect(achievementProgress(profile, 'collector')).toBe(ACHIEVEMENTS.collector.goal.target);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { recordAchievement, type Profile } from './profile';
+import type { GameEvent, World } from './types';
+
+// --- Achievement Registry ---
+// Each achievement declares a goal, and the engine below checks every goal against the
+// events of each step. A goal either counts matching events within a level or a run
+// (`count`), or watches a value that only grows, such as the score or a lifetime total
+// from the profile (`reach`). The best progress ever made is saved in the profile.
+
+export type AchievementTier = 'bronze' | 'silver' | 'gold';
+
+/** Icon names; the front end maps them to actual icons. */
+export type AchievementIcon = 'skull' | 'heart' | 'zap' | 'shield' | 'target' | 'crown' | 'shieldCheck' | 'crosshair' | 'bomb' | 'star' | 'clock' | 'ghost';
+
+/** Counters that reset at the start of each level or each run. */
+export type CounterScope = 'level' | 'run';
+
+type EventType = GameEvent['type'];
+type EventOf<T extends EventType> = Extract<GameEvent, { type: T }>;
+
+/** How many events of each type happened so far in the current level and run. */
+export interface EventCounts {
+  level: Partial<Record<EventType, number>>;
+  run: Partial<Record<EventType, number>>;
+}
+
+export interface GoalContext {
+  world: World;
+  profile: Profile;
+  /** Counts include the events of the step being checked. */
+  counts: EventCounts;
+}
+
+export type AchievementGoal =
+  | {
+      kind: 'count';
+      event: EventType;
+      scope: CounterScope;
+      target: number;
+      where?: (event: GameEvent, ctx: GoalContext) => boolean;
+    }
+  | { kind: 'reach'; target: number; read: (ctx: GoalContext) => number };
+
+/** Titles and descriptions are in the i18n catalogs, under the achievement's id. */
+export interface AchievementDefinition {
+  tier: AchievementTier;
+  icon: AchievementIcon;
+  /** Title and description stay secret until unlocked. */
+  hidden?: boolean;
+  goal: AchievementGoal;
+}
+
+/** `target` events of type `event` (optionally filtered by `where`) within one level or run. */
+const count = <T extends EventType>(
+  event: T,
+  target: number,
+  scope: CounterScope,
+  where?: (event: EventOf<T>, ctx: GoalContext) => boolean,
+): AchievementGoal => ({ kind: 'count', event, scope, target, where: where as (event: GameEvent, ctx: GoalContext) => boolean });
+
+const reach = (target: number, read: (ctx: GoalContext) => number): AchievementGoal => ({ kind: 'reach', target, read });
+
+const lifetimeKills = ({ profile }: GoalContext) =>
+  Object.values(profile.totals.kills).reduce((sum, n) => sum + n, 0);
+
+/** How long the current endless run has lasted; 0 in the campaign. */
+const endlessTime = ({ world }: GoalContext) => world.mode === 'endless' ? world.time : 0;
+
+/** Ids are saved in profiles; never rename one. */
+export const ACHIEVEMENTS: Record<string, AchievementDefinition> = {
+  first_blood: {
+    tier: 'bronze', icon: 'skull',
+    goal: count('enemyKilled', 1, 'run'),
+  },
+  power_hungry: {
+    tier: 'bronze', icon: 'zap',
+    goal: count('powerUpCollected', 1, 'run', e => e.powerUp === 'triple'),
+  },
+  shield_master: {
+    tier: 'bronze', icon: 'shield',
+    goal: count('shieldBlocked', 1, 'run'),
+  },
+  shield_hoarder: {
+    tier: 'bronze', icon: 'shield',
+    goal: count('powerUpCollected', 3, 'run', e => e.powerUp === 'shield'),
+  },
+  demolition: {
+    tier: 'bronze', icon: 'bomb',
+    goal: count('bombDetonated', 1, 'run'),
+  },
+  hunter: {
+    tier: 'bronze', icon: 'crosshair',
+    goal: reach(100, lifetimeKills),
+  },
+  survivor: {
+    tier: 'silver', icon: 'heart',
+    goal: count('levelComplete', 1, 'run', e => e.level >= 3),
+  },
+  ace_pilot: {
+    tier: 'silver', icon: 'target',
+    goal: reach(5000, ({ world }) => world.score),
+  },
+  boss_slayer: {
+    tier: 'silver', icon: 'crown',
+    goal: count('bossDefeated', 1, 'run'),
+  },
+  collector: {
+    tier: 'silver', icon: 'star',
+    goal: count('powerUpCollected', 20, 'run'),
+  },
+  rampage: {
+    tier: 'silver', icon: 'skull',
+    goal: count('enemyKilled', 50, 'level'),
+  },
+  wind_chaser: {
+    tier: 'silver', icon: 'zap',
+    goal: reach(200, ({ profile }) => profile.totals.kills.fast),
+  },
+  trigger_happy: {
+    tier: 'silver', icon: 'crosshair',
+    goal: reach(10000, ({ profile }) => profile.totals.shotsFired),
+  },
+  close_call: {
+    tier: 'silver', icon: 'heart', hidden: true,
+    goal: count('levelComplete', 1, 'run', (_, { world }) => world.players.some(p => p.health === 1)),
+  },
+  flawless_boss: {
+    tier: 'gold', icon: 'shieldCheck',
+    goal: count('bossDefeated', 1, 'run', e => e.flawless),
+  },
+  untouchable: {
+    tier: 'gold', icon: 'shieldCheck',
+    goal: count('levelComplete', 1, 'run', (_, { world, counts }) => world.difficulty === 'HARD' && !counts.level.playerHit),
+  },
+  armor_breaker: {
+    tier: 'gold', icon: 'target',
+    goal: reach(500, ({ profile }) => profile.totals.kills.heavy),
+  },
+  exterminator: {
+    tier: 'gold', icon: 'skull',
+    goal: reach(1000, lifetimeKills),
+  },
+  star_legend: {
+    tier: 'gold', icon: 'star',
+    goal: reach(20000, ({ world }) => world.score),
+  },
+  deep_space: {
+    tier: 'gold', icon: 'crown',
+    goal: reach(5, ({ world }) => world.level),
+  },
+  veteran: {
+    tier: 'gold', icon: 'clock',
+    goal: reach(60 * 60 * 1000, ({ profile }) => profile.totals.playTime),
+  },
+  pacifist: {
+    tier: 'gold', icon: 'ghost', hidden: true,
+    goal: count('levelComplete', 1, 'run', (_, { counts }) => !counts.level.shot),
+  },
+  long_haul: {
+    tier: 'bronze', icon: 'clock',
+    goal: count('milestone', 1, 'run'),
+  },
+  marathon: {
+    tier: 'silver', icon: 'clock',
+    goal: reach(10 * 60 * 1000, endlessTime),
+  },
+  iron_hull: {
+    tier: 'gold', icon: 'shieldCheck', hidden: true,
+    goal: count('milestone', 1, 'run', (e, { counts }) => e.minutes >= 6 && !counts.run.playerHit),
+  },
+  eternal: {
+    tier: 'gold', icon: 'crown',
+    goal: reach(20 * 60 * 1000, endlessTime),
+  },
+};
+
+export const ACHIEVEMENT_IDS = Object.keys(ACHIEVEMENTS);
+
+// --- Tracking ---
+
+/** Per-run state of the engine; the front end keeps one per run, replays have none. */
+export interface AchievementTracker {
+  counts: EventCounts;
+  /** Progress of `count` goals, by achievement id, for their current level or run. */
+  progress: { level: Record<string, number>; run: Record<string, number> };
+}
+
+export const createAchievementTracker = (): AchievementTracker => ({
+  counts: { level: {}, run: {} },
+  progress: { level: {}, run: {} },
+});
+
+/** Resets level-scoped counters; call when the next level starts. */
+export const startAchievementLevel = (tracker: AchievementTracker) => {
+  tracker.counts.level = {};
+  tracker.progress.level = {};
+};
+
+/** Where an achievement stands: unlocked achievements report their full target. */
+export const achievementProgress = (profile: Profile, id: string) => {
+  const { target } = ACHIEVEMENTS[id].goal;
+  return profile.achievements[id] ? target : Math.min(target, profile.progress[id] ?? 0);
+};
+
+/**
+ * Checks every locked achievement against one simulated step. Saves progress and unlocks
+ * into `profile` (call after the step's totals were recorded) and returns the newly
+ * unlocked ids.
+ */
+export const updateAchievements = (tracker: AchievementTracker, profile: Profile, world: World, events: GameEvent[]) => {
+  const { counts, progress } = tracker;
+  events.forEach(event => {
+    counts.level[event.type] = (counts.level[event.type] ?? 0) + 1;
+    counts.run[event.type] = (counts.run[event.type] ?? 0) + 1;
+  });
+
+  const ctx: GoalContext = { world, profile, counts };
+  const unlocked: string[] = [];
+  ACHIEVEMENT_IDS.forEach(id => {
+    if (profile.achievements[id]) return;
+    const { goal } = ACHIEVEMENTS[id];
+
+    let value: number;
+    if (goal.kind === 'reach') {
+      value = goal.read(ctx);
+    } else {
+      const scoped = progress[goal.scope];
+      const matches = events.filter(e => e.type === goal.event && (!goal.where || goal.where(e, ctx))).length;
+      if (matches === 0) return;
+      value = scoped[id] = (scoped[id] ?? 0) + matches;
+    }
+
+    if (value > (profile.progress[id] ?? 0)) profile.progress[id] = Math.min(value, goal.target);
+    if (value >= goal.target && recordAchievement(profile, id)) unlocked.push(id);
+  });
+  return unlocked;
+};
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { hasLeftScreen, initBehaviour, moveEnemy, type MovementBehaviour } from './behaviours';
+import { createWorld } from './simulation';
+import type { Enemy, World } from './types';
+
+const world = () => createWorld({ width: 800, height: 600, difficulty: 'NORMAL', seed: 1 });
+
+const spawn = (w: World, behaviour: MovementBehaviour, x = 200, y = -50, speed = 3): Enemy => {
+  const e: Enemy = {
+    x, y, px: x, py: y, id: 1, width: 60, height: 60, hp: 1, maxHp: 1, speed, type: 'basic', color: '',
+    scoreValue: 100, lastShot: 0, behaviour, age: 0, stage: 0, anchorX: 0, anchorY: 0, vx: 0, vy: 0,
+    telegraph: 0, burstLeft: 0, burstTimer: 0, lastHitBy: 0,
+  };
+  initBehaviour(e, w);
+  return e;
+};
+
+const run = (e: Enemy, w: World, ticks: number) => {
+  for (let i = 0; i < ticks; i++) moveEnemy(e, w);
+};
+
+describe('moveEnemy', () => {
+  it('flies straight down at its speed', () => {
+    const w = world();
+    const e = spawn(w, 'straight');
+    run(e, w, 10);
+    expect(e.x).toBe(200);
+    expect(e.y).toBe(-20);
+  });
+
+  it('weaves around the column it spawned in', () => {
+    const w = world();
+    const e = spawn(w, 'sine');
+    for (let i = 0; i < 200; i++) {
+      moveEnemy(e, w);
+      expect(Math.abs(e.x - 200)).toBeLessThanOrEqual(60);
+    }
+  });
+
+  it('dives at the pilot after pausing at the hold line', () => {
+    const w = world();
+    const e = spawn(w, 'dive');
+    while (e.stage === 0) moveEnemy(e, w);
+    const held = { x: e.x, y: e.y };
+    run(e, w, 10);
+    expect(e).toMatchObject(held);
+    while (e.stage === 1) moveEnemy(e, w);
+    const pilot = w.players[0];
+    expect(Math.sign(e.vx)).toBe(Math.sign(pilot.x - e.x));
+    expect(e.vy).toBeGreaterThan(0);
+  });
+
+  it('strafes between the screen edges, then moves on down', () => {
+    const w = world();
+    const e = spawn(w, 'strafe', 100);
+    while (e.stage === 0) moveEnemy(e, w);
+    const line = e.y;
+    let turned = false;
+    while (e.stage === 1) {
+      const vx = e.vx;
+      moveEnemy(e, w);
+      turned ||= vx !== e.vx;
+      expect(e.y).toBe(line);
+      expect(e.x).toBeGreaterThan(0);
+      expect(e.x).toBeLessThan(w.width);
+    }
+    expect(turned).toBe(true);
+    moveEnemy(e, w);
+    expect(e.y).toBeGreaterThan(line);
+  });
+
+  it('keeps a formation in shape while it holds', () => {
+    const w = world();
+    const left = spawn(w, 'formation', 300, -50);
+    const right = spawn(w, 'formation', 420, -100);
+    while (left.stage === 0 || right.stage === 0) {
+      if (left.stage === 0) moveEnemy(left, w);
+      if (right.stage === 0) moveEnemy(right, w);
+    }
+    const gap = { x: right.x - left.x, y: right.y - left.y };
+    for (let i = 0; i < 100; i++) {
+      moveEnemy(left, w);
+      moveEnemy(right, w);
+      expect(right.x - left.x).toBeCloseTo(gap.x);
+      expect(right.y - left.y).toBe(gap.y);
+    }
+  });
+
+  it('swoops in and climbs back off the top', () => {
+    const w = world();
+    const e = spawn(w, 'swoop', 100);
+    run(e, w, 75);
+    expect(e.y).toBeGreaterThan(w.height * 0.4);
+    expect(e.x).toBeGreaterThan(100);
+    let ticks = 0;
+    while (!hasLeftScreen(e, w) && ticks++ < 1000) moveEnemy(e, w);
+    expect(e.y).toBeLessThan(-100);
+  });
+});
+
+describe('hasLeftScreen', () => {
+  it('does not count an enemy that has only just spawned above the screen', () => {
+    const w = world();
+    const e = spawn(w, 'straight', 200, -150);
+    expect(hasLeftScreen(e, w)).toBe(false);
+    e.age = 31;
+    expect(hasLeftScreen(e, w)).toBe(true);
+  });
+});
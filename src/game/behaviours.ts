@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Enemy, EnemyType, World } from './types';
+import { targetPlayer } from './world';
+
+// --- Enemy Movement Behaviours ---
+// Each enemy follows one behaviour for its whole life. Types get a default below;
+// a wave in the level pack can override it with its own "behaviour".
+// Behaviours are small state machines driven by `age` (ticks alive) and `stage`.
+
+export const MOVEMENT_BEHAVIOURS = ['straight', 'sine', 'swoop', 'dive', 'strafe', 'formation'] as const;
+export type MovementBehaviour = typeof MOVEMENT_BEHAVIOURS[number];
+
+export const DEFAULT_BEHAVIOUR: Record<EnemyType, MovementBehaviour> = {
+  basic: 'sine',
+  fast: 'dive',
+  heavy: 'strafe',
+};
+
+const SINE_AMPLITUDE = 60;
+const SINE_FREQUENCY = 0.05;
+const SWOOP_TICKS = 150;
+const DIVE_PAUSE_TICKS = 30;
+const STRAFE_TICKS = 360;
+const FORMATION_HOLD_TICKS = 300;
+
+/** Height (fraction of screen) at which hovering behaviours stop descending. */
+const holdLine = (world: World) => world.height * 0.22;
+
+/** Sets up the anchor a behaviour moves around. `y` is where the enemy spawned. */
+export const initBehaviour = (enemy: Enemy, world: World) => {
+  enemy.anchorX = enemy.x;
+  // Formation members spawn offset above the line; holding the same offset keeps the shape.
+  enemy.anchorY = holdLine(world) + (enemy.y + 50);
+  enemy.vx = 0;
+  enemy.vy = enemy.speed;
+};
+
+/** Moves an enemy by one tick according to its behaviour. */
+export const moveEnemy = (e: Enemy, world: World) => {
+  e.age += 1;
+
+  switch (e.behaviour) {
+    case 'straight':
+      e.y += e.speed;
+      break;
+
+    case 'sine':
+      e.y += e.speed;
+      e.x = e.anchorX + Math.sin(e.age * SINE_FREQUENCY) * SINE_AMPLITUDE;
+      break;
+
+    case 'swoop': {
+      // Dip into the screen along an arc, drifting sideways, then climb back out the top.
+      const t = Math.min(e.age / SWOOP_TICKS, 1);
+      const side = e.anchorX < world.width / 2 ? 1 : -1;
+      e.y = -50 + Math.sin(t * Math.PI) * world.height * 0.55;
+      e.x = e.anchorX + side * t * world.width * 0.35;
+      if (t >= 1) e.y -= e.speed * (e.age - SWOOP_TICKS);
+      break;
+    }
+
+    case 'dive':
+      if (e.stage === 0) {
+        // Drift in slowly, then hesitate while "aiming".
+        e.y += Math.min(e.speed, 2);
+        if (e.y >= holdLine(world)) {
+          e.stage = 1;
+          e.age = 0;
+        }
+      } else if (e.stage === 1) {
+        if (e.age >= DIVE_PAUSE_TICKS) {
+          const target = targetPlayer(world, e.x, e.y);
+          const dx = target.x - e.x;
+          const dy = target.y - e.y;
+          const len = Math.hypot(dx, dy) || 1;
+          e.vx = (dx / len) * e.speed * 1.8;
+          e.vy = (dy / len) * e.speed * 1.8;
+          e.stage = 2;
+        }
+      } else {
+        e.x += e.vx;
+        e.y += e.vy;
+      }
+      break;
+
+    case 'strafe':
+      if (e.stage === 0) {
+        e.y += e.speed;
+        if (e.y >= holdLine(world)) {
+          e.stage = 1;
+          e.age = 0;
+          e.vx = e.anchorX < world.width / 2 ? e.speed : -e.speed;
+        }
+      } else if (e.stage === 1) {
+        e.x += e.vx;
+        const margin = e.width / 2 + 10;
+        if (e.x < margin || e.x > world.width - margin) e.vx = -e.vx;
+        if (e.age >= STRAFE_TICKS) e.stage = 2;
+      } else {
+        e.y += e.speed;
+      }
+      break;
+
+    case 'formation':
+      if (e.stage === 0) {
+        e.y += e.speed;
+        if (e.y >= e.anchorY) {
+          e.y = e.anchorY;
+          e.stage = 1;
+          e.age = 0;
+        }
+      } else if (e.stage === 1) {
+        // Every member started holding on the same tick, so they sway in step.
+        e.x = e.anchorX + Math.sin(e.age * 0.03) * 80;
+        if (e.age >= FORMATION_HOLD_TICKS) e.stage = 2;
+      } else {
+        e.y += e.speed * 1.5;
+      }
+      break;
+  }
+};
+
+/** True once an enemy has flown off the top or sides; it leaves without penalty. */
+export const hasLeftScreen = (e: Enemy, world: World) =>
+  e.x < -100 || e.x > world.width + 100 || (e.y < -100 && e.age > 30);
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { BOSSES, isPartExposed, spawnBoss, updateBoss } from './bosses';
+import { spawnBullet } from './pool';
+import { SHOP } from './shop';
+import { createWorld } from './simulation';
+import type { GameEvent, World } from './types';
+
+/** A world just wide enough for the boss, so it has no room to sway, with the boss already in place. */
+const bossWorld = (id: string, players = 1) => {
+  const world = createWorld({ width: BOSSES[id].width + 40, height: 600, difficulty: 'NORMAL', seed: 1, players });
+  spawnBoss(world, id, []);
+  world.boss.entering = false;
+  world.boss.y = 160;
+  return world;
+};
+
+/** Fires one player shot into the named part and runs a boss tick. */
+const hitPart = (world: World, partId: string, power: number, owner = 0) => {
+  const part = BOSSES[world.boss.id].parts.find(p => p.id === partId);
+  const b = spawnBullet(world, world.width / 2 + part.dx, world.boss.y + part.dy + part.height / 2 - 5, 0, 0, '#fff', false);
+  b.power = power;
+  b.owner = owner;
+  const events: GameEvent[] = [];
+  updateBoss(world, events);
+  return events;
+};
+
+describe('spawnBoss', () => {
+  it('enters from above with HP scaled by level', () => {
+    const world = createWorld({ width: 800, height: 600, difficulty: 'NORMAL', seed: 1 });
+    const events: GameEvent[] = [];
+    spawnBoss(world, 'sentinel', events);
+    expect(events).toEqual([{ type: 'bossSpawned', boss: 'sentinel' }]);
+    expect(world.boss.y).toBeLessThan(0);
+    expect(world.boss.entering).toBe(true);
+    expect(world.boss.hp).toBe(BOSSES.sentinel.baseHp);
+
+    world.level = 3;
+    spawnBoss(world, 'sentinel', []);
+    expect(world.boss.hp).toBe(Math.ceil(BOSSES.sentinel.baseHp * 1.5));
+  });
+});
+
+describe('updateBoss', () => {
+  it('multiplies damage by the part that was hit', () => {
+    const world = bossWorld('sentinel');
+    const full = world.boss.hp;
+    hitPart(world, 'core', 10);
+    expect(world.boss.hp).toBe(full - 20);
+    hitPart(world, 'hull', 10);
+    expect(world.boss.hp).toBe(full - 25);
+  });
+
+  it('switches phase once HP falls past the next threshold', () => {
+    const world = bossWorld('warden');
+    const events = hitPart(world, 'left_vent', world.boss.maxHp * 0.2);
+    expect(world.boss.phase).toBe(1);
+    expect(events).toContainEqual({ type: 'bossPhase', boss: 'warden', phase: 1 });
+  });
+
+  it('credits the kill to the pilot who fired, then clears itself after the death sequence', () => {
+    const world = bossWorld('sentinel', 2);
+    const events = hitPart(world, 'core', world.boss.hp, 1);
+    expect(events).toContainEqual({ type: 'bossDefeated', boss: 'sentinel', flawless: true, player: 1 });
+    expect(world.players[1].score).toBe(BOSSES.sentinel.scoreValue);
+    expect(world.players[0].score).toBe(0);
+    expect(world.stardust).toBe(SHOP.stardust.boss);
+
+    while (world.boss) updateBoss(world, []);
+    expect(world.bossDefeated).toBe(true);
+  });
+});
+
+describe('isPartExposed', () => {
+  it('exposes parts only in their listed phases', () => {
+    const core = BOSSES.warden.parts.find(p => p.id === 'core');
+    const hull = BOSSES.warden.parts.find(p => p.id === 'hull');
+    expect(isPartExposed(core, 0)).toBe(false);
+    expect(isPartExposed(core, 2)).toBe(true);
+    expect(isPartExposed(hull, 2)).toBe(true);
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { bulletHitbox, HITBOXES, overlaps, type Hitbox } from './collision';
+import { firePattern, type BulletPattern } from './patterns';
+import { sweep } from './pool';
+import { SHIPS } from './ships';
+import { SHOP } from './shop';
+import type { Boss, GameEvent, World } from './types';
+import { beamDamage, beamHitbox, resistance } from './weapons';
+import { createExplosion, diffModFor, hitPlayer, randomRange, spawnAt } from './world';
+
+// --- Bosses ---
+// A level with a `boss` in its definition only clears once that boss is destroyed.
+// Bosses have one HP pool, several hitboxes with different damage multipliers,
+// and phases that switch attack patterns as HP drops.
+
+/** Boss attacks are enemy bullet patterns fired on their own timers, without a wind-up. */
+export type BossAttack = Omit<BulletPattern, 'telegraph' | 'gap'>;
+
+export interface BossPhase {
+  /** Phase begins once HP falls to this fraction of max. The first phase uses 1. */
+  threshold: number;
+  /** Radians per tick of the side-to-side sway. */
+  sway: number;
+  attacks: BossAttack[];
+}
+
+export interface BossPart {
+  id: string;
+  /** Offset of the hitbox centre from the boss centre. */
+  dx: number;
+  dy: number;
+  width: number;
+  height: number;
+  /** Damage taken through this part is multiplied by this. */
+  multiplier: number;
+  /** Weak points are drawn highlighted. */
+  weakPoint: boolean;
+  /** Phases (indexes) in which the part is exposed; always exposed if omitted. */
+  phases?: number[];
+}
+
+/** Names are in the i18n catalogs, under the boss's id. */
+export interface BossDefinition {
+  color: string;
+  width: number;
+  height: number;
+  /** HP on NORMAL at level 1; scaled by difficulty and level. */
+  baseHp: number;
+  scoreValue: number;
+  parts: BossPart[];
+  phases: BossPhase[];
+}
+
+export const BOSSES: Record<string, BossDefinition> = {
+  sentinel: {
+    color: '#ff3e3e',
+    width: 180,
+    height: 110,
+    baseHp: 60,
+    scoreValue: 3000,
+    parts: [
+      { id: 'hull', dx: 0, dy: 0, width: 180, height: 60, multiplier: 0.5, weakPoint: false },
+      { id: 'core', dx: 0, dy: 35, width: 40, height: 40, multiplier: 2, weakPoint: true },
+    ],
+    phases: [
+      { threshold: 1, sway: 0.01, attacks: [{ kind: 'spread', interval: 1400, count: 5, speed: 4, arc: 1.0 }] },
+      { threshold: 0.5, sway: 0.018, attacks: [
+        { kind: 'spread', interval: 1100, count: 7, speed: 4.5, arc: 1.3 },
+        { kind: 'aimed', interval: 2000, count: 3, speed: 6, arc: 0.12 },
+      ] },
+    ],
+  },
+  warden: {
+    color: '#ffea00',
+    width: 220,
+    height: 120,
+    baseHp: 90,
+    scoreValue: 5000,
+    parts: [
+      { id: 'hull', dx: 0, dy: 0, width: 220, height: 60, multiplier: 0.5, weakPoint: false },
+      { id: 'left_vent', dx: -80, dy: 30, width: 36, height: 36, multiplier: 2, weakPoint: true, phases: [0, 1] },
+      { id: 'right_vent', dx: 80, dy: 30, width: 36, height: 36, multiplier: 2, weakPoint: true, phases: [0, 1] },
+      { id: 'core', dx: 0, dy: 40, width: 44, height: 44, multiplier: 3, weakPoint: true, phases: [2] },
+    ],
+    phases: [
+      { threshold: 1, sway: 0.012, attacks: [{ kind: 'aimed', interval: 1200, count: 3, speed: 5.5, arc: 0.15 }] },
+      { threshold: 0.66, sway: 0.016, attacks: [
+        { kind: 'ring', interval: 1800, count: 14, speed: 3.5, arc: 0 },
+        { kind: 'aimed', interval: 1500, count: 2, speed: 6, arc: 0.1 },
+      ] },
+      { threshold: 0.33, sway: 0.024, attacks: [
+        { kind: 'ring', interval: 1300, count: 18, speed: 3.5, arc: 0 },
+        { kind: 'spread', interval: 1000, count: 5, speed: 5, arc: 0.8 },
+      ] },
+    ],
+  },
+  dreadnought: {
+    color: '#ff00ff',
+    width: 260,
+    height: 140,
+    baseHp: 110,
+    scoreValue: 8000,
+    parts: [
+      { id: 'hull', dx: 0, dy: 0, width: 260, height: 70, multiplier: 0.4, weakPoint: false },
+      { id: 'bridge', dx: 0, dy: -40, width: 60, height: 30, multiplier: 1.5, weakPoint: true, phases: [0] },
+      { id: 'core', dx: 0, dy: 50, width: 50, height: 40, multiplier: 2.5, weakPoint: true, phases: [1, 2] },
+    ],
+    phases: [
+      { threshold: 1, sway: 0.008, attacks: [
+        { kind: 'spread', interval: 1200, count: 9, speed: 4, arc: 1.6 },
+        { kind: 'aimed', interval: 1800, count: 3, speed: 6.5, arc: 0.1 },
+      ] },
+      { threshold: 0.6, sway: 0.014, attacks: [
+        { kind: 'ring', interval: 1200, count: 20, speed: 3.2, arc: 0 },
+        { kind: 'aimed', interval: 1400, count: 4, speed: 7, arc: 0.08 },
+      ] },
+      { threshold: 0.25, sway: 0.022, attacks: [
+        { kind: 'ring', interval: 900, count: 24, speed: 3.8, arc: 0 },
+        { kind: 'spread', interval: 800, count: 7, speed: 5.5, arc: 1.2 },
+        { kind: 'aimed', interval: 1200, count: 5, speed: 7, arc: 0.08 },
+        { kind: 'homing', interval: 3000, count: 2, speed: 3, arc: 1.4, turn: 0.035 },
+      ] },
+    ],
+  },
+};
+
+export const BOSS_IDS = Object.keys(BOSSES);
+
+const ENTRY_SPEED = 1.5;
+const DEATH_TICKS = 90;
+
+export const isPartExposed = (part: BossPart, phase: number) => !part.phases || part.phases.includes(phase);
+
+const partHitbox = (part: BossPart): Hitbox => ({ shape: 'aabb', width: part.width, height: part.height });
+
+export const spawnBoss = (world: World, id: string, events: GameEvent[]) => {
+  const def = BOSSES[id];
+  const maxHp = Math.ceil(def.baseHp * diffModFor(world.difficulty) * (1 + (world.level - 1) * 0.25));
+  const boss: Boss = {
+    ...spawnAt(world.width / 2, -def.height),
+    id,
+    width: def.width,
+    height: def.height,
+    hp: maxHp,
+    maxHp,
+    phase: 0,
+    age: 0,
+    entering: true,
+    lastAttack: def.phases[0].attacks.map(() => world.time),
+    hitFlash: 0,
+    dying: 0,
+    playerHit: false,
+  };
+  world.boss = boss;
+  events.push({ type: 'bossSpawned', boss: id });
+};
+
+// Rotate each ring a little so the gaps move.
+const fireAttack = (world: World, boss: Boss, attack: BossAttack) =>
+  firePattern(world, boss.x, boss.y + boss.height / 2, attack, boss.age * 0.05);
+
+/**
+ * `slot` is the pilot whose shot it was; the kill's points go to them. Beams burn every tick,
+ * so they don't flash the boss.
+ */
+const damageBoss = (world: World, boss: Boss, amount: number, slot: number, events: GameEvent[], flash = true) => {
+  const def = BOSSES[boss.id];
+  boss.hp = Math.max(0, boss.hp - amount);
+  if (flash) boss.hitFlash = 4;
+
+  if (boss.hp <= 0) {
+    boss.dying = DEATH_TICKS;
+    const killer = world.players[slot] ?? world.players[0];
+    const points = def.scoreValue * killer.scoreMultiplier;
+    world.score += points;
+    killer.score += points;
+    world.stardust += SHOP.stardust.boss;
+    events.push({ type: 'bossDefeated', boss: boss.id, flawless: !boss.playerHit, player: killer.slot });
+    return;
+  }
+
+  const nextPhase = boss.phase + 1;
+  if (nextPhase < def.phases.length && boss.hp <= boss.maxHp * def.phases[nextPhase].threshold) {
+    boss.phase = nextPhase;
+    boss.lastAttack = def.phases[nextPhase].attacks.map(() => world.time);
+    world.shake = 15;
+    events.push({ type: 'bossPhase', boss: boss.id, phase: nextPhase });
+  }
+};
+
+/** Runs one tick of the boss: movement, attacks, incoming fire and the death sequence. */
+export const updateBoss = (world: World, events: GameEvent[]) => {
+  const boss = world.boss;
+  if (!boss) return;
+  const def = BOSSES[boss.id];
+  boss.age += 1;
+  if (boss.hitFlash > 0) boss.hitFlash--;
+
+  if (boss.dying > 0) {
+    boss.dying--;
+    if (boss.dying % 10 === 0) {
+      createExplosion(world, events, boss.x + randomRange(world, -boss.width / 2, boss.width / 2), boss.y + randomRange(world, -boss.height / 2, boss.height / 2), def.color, 30, true);
+    }
+    if (boss.dying === 0) {
+      createExplosion(world, events, boss.x, boss.y, '#ffffff', 80, true);
+      createExplosion(world, events, boss.x, boss.y, def.color, 60, true);
+      world.boss = null;
+      world.bossDefeated = true;
+    }
+    return;
+  }
+
+  const targetY = Math.min(160, world.height * 0.22);
+  if (boss.entering) {
+    boss.y += ENTRY_SPEED;
+    if (boss.y >= targetY) {
+      boss.y = targetY;
+      boss.entering = false;
+    }
+    return;
+  }
+
+  const phase = def.phases[boss.phase];
+  const swayRange = Math.max(0, world.width / 2 - boss.width / 2 - 20);
+  boss.x = world.width / 2 + Math.sin(boss.age * phase.sway) * swayRange;
+
+  phase.attacks.forEach((attack, i) => {
+    if (world.time - boss.lastAttack[i] > attack.interval) {
+      fireAttack(world, boss, attack);
+      boss.lastAttack[i] = world.time;
+    }
+  });
+
+  // Player bullets: the first exposed part a bullet overlaps takes the hit.
+  sweep(world.bullets, world.pools.bullets, b => {
+    if (b.isEnemy || boss.dying > 0) return true;
+    const part = def.parts.find(p =>
+      isPartExposed(p, boss.phase) && overlaps(b.x, b.y, bulletHitbox(b), boss.x + p.dx, boss.y + p.dy, partHitbox(p)));
+    if (!part) return true;
+    damageBoss(world, boss, b.power * part.multiplier * resistance('boss', b.damageType), b.owner ?? 0, events);
+    if (part.weakPoint) createExplosion(world, events, b.x, b.y, def.color, 5);
+    return false;
+  });
+
+  // Laser beams: the lowest exposed part in the column burns, unless an enemy nearer the pilot stopped the beam.
+  world.players.forEach(player => {
+    if (player.beamY === null || boss.dying > 0) return;
+    const column = beamHitbox(player);
+    const bottom = (p: BossPart) => boss.y + p.dy + p.height / 2;
+    const part = def.parts
+      .filter(p => isPartExposed(p, boss.phase) && overlaps(player.x, player.y / 2, column, boss.x + p.dx, boss.y + p.dy, partHitbox(p)))
+      .reduce<BossPart | null>((lowest, p) => !lowest || bottom(p) > bottom(lowest) ? p : lowest, null);
+    if (!part || bottom(part) < player.beamY) return;
+    damageBoss(world, boss, beamDamage(world) * part.multiplier * resistance('boss', 'energy'), player.slot, events, false);
+    player.beamY = bottom(part);
+  });
+
+  world.players.forEach(player => {
+    if (boss.dying === 0 && player.health > 0 && player.invul <= 0 &&
+        def.parts.some(p => overlaps(player.x, player.y, SHIPS[player.ship].hitbox, boss.x + p.dx, boss.y + p.dy, partHitbox(p)))) {
+      hitPlayer(world, player, events);
+    }
+  });
+};
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TICK_MS } from './constants';
+
+// --- Fixed-Step Clock ---
+// Converts real frame times into a whole number of simulation ticks. The leftover
+// fraction of a tick is returned as `alpha` so the renderer can interpolate between
+// the previous and current tick instead of stuttering on high refresh rates.
+
+/** Longest real frame we are willing to catch up on; anything longer (tab switch, breakpoint) is dropped. */
+const MAX_FRAME_MS = 250;
+
+export interface FixedStepClock {
+  accumulator: number;
+  lastTime: number | null;
+}
+
+export const createClock = (): FixedStepClock => ({ accumulator: 0, lastTime: null });
+
+/**
+ * Feeds the timestamp of the current animation frame and returns how many ticks to simulate.
+ * The first frame after creation or `pauseClock` only establishes a baseline.
+ * `speed` scales real time, e.g. 2 for double-speed replay playback.
+ */
+export const advanceClock = (clock: FixedStepClock, now: number, speed = 1): { ticks: number, alpha: number } => {
+  if (clock.lastTime === null) {
+    clock.lastTime = now;
+    return { ticks: 0, alpha: clock.accumulator / TICK_MS };
+  }
+
+  clock.accumulator += Math.min(now - clock.lastTime, MAX_FRAME_MS) * speed;
+  clock.lastTime = now;
+
+  const ticks = Math.floor(clock.accumulator / TICK_MS);
+  clock.accumulator -= ticks * TICK_MS;
+  return { ticks, alpha: clock.accumulator / TICK_MS };
+};
+
+/** Stops time from accumulating, so no catch-up happens when play resumes. */
+export const pauseClock = (clock: FixedStepClock) => {
+  clock.lastTime = null;
+};
+
+export const resetClock = (clock: FixedStepClock) => {
+  clock.accumulator = 0;
+  clock.lastTime = null;
+};
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createGrid, overlaps, queryGrid, type Hitbox } from './collision';
+import { createRng, nextRandom } from './random';
+
+const circle = (radius: number): Hitbox => ({ shape: 'circle', radius });
+const box = (width: number, height: number): Hitbox => ({ shape: 'aabb', width, height });
+
+describe('overlaps', () => {
+  it('tests circles by the distance between their centres', () => {
+    expect(overlaps(0, 0, circle(5), 9, 0, circle(5))).toBe(true);
+    expect(overlaps(0, 0, circle(5), 10, 0, circle(5))).toBe(false);
+  });
+
+  it('tests boxes on both axes', () => {
+    expect(overlaps(0, 0, box(10, 10), 9, 9, box(10, 10))).toBe(true);
+    expect(overlaps(0, 0, box(10, 10), 9, 10, box(10, 10))).toBe(false);
+  });
+
+  it('tests a circle against the nearest point of a box, whichever comes first', () => {
+    // Near a corner: inside both boxes' reach on each axis, but not within the radius.
+    expect(overlaps(0, 0, box(20, 20), 14, 14, circle(5))).toBe(false);
+    expect(overlaps(14, 14, circle(5), 0, 0, box(20, 20))).toBe(false);
+    expect(overlaps(0, 0, box(20, 20), 14, 0, circle(5))).toBe(true);
+    expect(overlaps(14, 0, circle(5), 0, 0, box(20, 20))).toBe(true);
+  });
+});
+
+describe('spatial grid', () => {
+  const rng = createRng(42);
+  const items = Array.from({ length: 300 }, () => ({
+    x: nextRandom(rng) * 2000 - 500,
+    y: nextRandom(rng) * 2000 - 500,
+    px: 0,
+    py: 0,
+    hitbox: nextRandom(rng) < 0.5 ? circle(2 + nextRandom(rng) * 40) : box(4 + nextRandom(rng) * 150, 4 + nextRandom(rng) * 150),
+  }));
+  const grid = createGrid(items, item => item.hitbox);
+
+  it('finds exactly what testing every item would, in list order', () => {
+    for (let q = 0; q < 200; q++) {
+      const x = nextRandom(rng) * 2000 - 500;
+      const y = nextRandom(rng) * 2000 - 500;
+      const probe = q % 2 ? circle(30) : box(200, 20);
+      const expected = items.filter(item => overlaps(x, y, probe, item.x, item.y, item.hitbox));
+      expect(queryGrid(grid, x, y, probe)).toEqual(expected);
+    }
+  });
+
+  it('returns an item spanning many cells once', () => {
+    const wide = { x: 0, y: 0, px: 0, py: 0, hitbox: box(1000, 1000) };
+    expect(queryGrid(createGrid([wide], item => item.hitbox), 0, 0, box(900, 900))).toEqual([wide]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Bullet, EnemyType, Movable } from './types';
+
+// --- Collision ---
+// Hitboxes are configured per entity type below, centred on the entity's position; a
+// pilot's comes with their ship (ships.ts).
+// Every collision pair goes through a uniform grid: one side is bucketed into cells,
+// the other queries only the cells its hitbox covers, then the shapes are tested exactly.
+
+export type Hitbox =
+  | { shape: 'circle', radius: number }
+  | { shape: 'aabb', width: number, height: number };
+
+export const HITBOXES: {
+  playerBullet: Hitbox;
+  chargeShot: Hitbox;
+  cluster: Hitbox;
+  enemyBullet: Hitbox;
+  missile: Hitbox;
+  powerUp: Hitbox;
+  enemies: Record<EnemyType, Hitbox>;
+} = {
+  playerBullet: { shape: 'circle', radius: 4 },
+  chargeShot: { shape: 'circle', radius: 12 },
+  cluster: { shape: 'circle', radius: 6 },
+  enemyBullet: { shape: 'circle', radius: 6 },
+  missile: { shape: 'circle', radius: 7 },
+  powerUp: { shape: 'circle', radius: 16 },
+  enemies: {
+    basic: { shape: 'aabb', width: 44, height: 36 },
+    fast: { shape: 'circle', radius: 20 },
+    heavy: { shape: 'aabb', width: 72, height: 72 },
+  },
+};
+
+/** Missiles share a hitbox whoever fired them. */
+export const bulletHitbox = (b: Bullet): Hitbox => {
+  if (b.homing) return HITBOXES.missile;
+  if (b.isEnemy) return HITBOXES.enemyBullet;
+  return b.kind === 'charge' ? HITBOXES.chargeShot : b.kind === 'cluster' ? HITBOXES.cluster : HITBOXES.playerBullet;
+};
+
+const halfExtent = (h: Hitbox) =>
+  h.shape === 'circle' ? { hw: h.radius, hh: h.radius } : { hw: h.width / 2, hh: h.height / 2 };
+
+/** Circle against box: distance from the circle centre to the closest point of the box. */
+const circleHitsBox = (cx: number, cy: number, radius: number, bx: number, by: number, width: number, height: number) => {
+  const nx = Math.max(bx - width / 2, Math.min(cx, bx + width / 2));
+  const ny = Math.max(by - height / 2, Math.min(cy, by + height / 2));
+  return (cx - nx) ** 2 + (cy - ny) ** 2 < radius * radius;
+};
+
+/** Exact shape test between two hitboxes centred at (ax, ay) and (bx, by). */
+export const overlaps = (ax: number, ay: number, a: Hitbox, bx: number, by: number, b: Hitbox): boolean => {
+  if (a.shape === 'circle') {
+    if (b.shape === 'aabb') return circleHitsBox(ax, ay, a.radius, bx, by, b.width, b.height);
+    const r = a.radius + b.radius;
+    return (ax - bx) ** 2 + (ay - by) ** 2 < r * r;
+  }
+  if (b.shape === 'circle') return circleHitsBox(bx, by, b.radius, ax, ay, a.width, a.height);
+  return Math.abs(ax - bx) < (a.width + b.width) / 2 && Math.abs(ay - by) < (a.height + b.height) / 2;
+};
+
+// --- Uniform Grid Broad Phase ---
+
+const CELL_SIZE = 64;
+/** Keeps cell coordinates positive so (cx, cy) packs into one number key. */
+const CELL_OFFSET = 32768;
+
+export interface SpatialGrid<T extends Movable> {
+  cells: Map<number, number[]>;
+  items: T[];
+  hitboxOf: (item: T) => Hitbox;
+}
+
+const cellKey = (cx: number, cy: number) => (cx + CELL_OFFSET) * 65536 + (cy + CELL_OFFSET);
+
+const forEachCell = (x: number, y: number, hitbox: Hitbox, fn: (key: number) => void) => {
+  const { hw, hh } = halfExtent(hitbox);
+  const x0 = Math.floor((x - hw) / CELL_SIZE), x1 = Math.floor((x + hw) / CELL_SIZE);
+  const y0 = Math.floor((y - hh) / CELL_SIZE), y1 = Math.floor((y + hh) / CELL_SIZE);
+  for (let cx = x0; cx <= x1; cx++) {
+    for (let cy = y0; cy <= y1; cy++) fn(cellKey(cx, cy));
+  }
+};
+
+/** Buckets `items` by the cells their hitboxes cover. Rebuild after things move. */
+export const createGrid = <T extends Movable>(items: T[], hitboxOf: (item: T) => Hitbox): SpatialGrid<T> => {
+  const cells = new Map<number, number[]>();
+  items.forEach((item, index) => {
+    forEachCell(item.x, item.y, hitboxOf(item), key => {
+      const cell = cells.get(key);
+      if (cell) cell.push(index);
+      else cells.set(key, [index]);
+    });
+  });
+  return { cells, items, hitboxOf };
+};
+
+/**
+ * Items in the grid whose hitboxes overlap the given one, in their original list order
+ * (so results never depend on cell layout, which keeps replays deterministic).
+ */
+export const queryGrid = <T extends Movable>(grid: SpatialGrid<T>, x: number, y: number, hitbox: Hitbox): T[] => {
+  const found = new Set<number>();
+  forEachCell(x, y, hitbox, key => {
+    grid.cells.get(key)?.forEach(index => found.add(index));
+  });
+  return [...found]
+    .sort((a, b) => a - b)
+    .map(index => grid.items[index])
+    .filter(item => overlaps(x, y, hitbox, item.x, item.y, grid.hitboxOf(item)));
+};
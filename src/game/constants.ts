@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const COLORS = {
+  PLAYER: '#00f2ff',
+  BASIC: '#ff3e3e',
+  FAST: '#ffea00',
+  HEAVY: '#ff00ff',
+  TRIPLE: '#00ff00',
+  SHIELD: '#0088ff',
+  LIFE: '#ff4d6d',
+  SPEED: '#7cff6b',
+  RAPID: '#ff9f1c',
+  PIERCE: '#b388ff',
+  BOMB: '#ffffff',
+  MAGNET: '#4dd0e1',
+  SCORE: '#ffd700',
+  WEAPON: '#c6ff00',
+  MISSILES: '#80d8ff',
+  LASER: '#ea80fc',
+  CLUSTER: '#a7ffeb',
+  BULLET: '#ffffff',
+  ENEMY_BULLET: '#ff4400',
+};
+
+export const TICK_RATE = 60;
+export const TICK_MS = 1000 / TICK_RATE;
+
+export const INVUL_TICKS = 120;
+/** Highest primary weapon level; every pilot starts at 1. */
+export const MAX_WEAPON_LEVEL = 5;
+/** Points lost for each enemy that gets past the bottom of the screen. */
+export const ESCAPE_PENALTY = 50;
+
+/** Pilots that can share the screen in co-op. */
+export const MAX_PLAYERS = 2;
+/** Ticks a downed co-op pilot waits before flying again. */
+export const RESPAWN_TICKS = 10 * TICK_RATE;
+/** A teammate flying within this distance of the wreck makes the wait run REVIVE_RATE times faster. */
+export const REVIVE_RANGE = 90;
+export const REVIVE_RATE = 4;
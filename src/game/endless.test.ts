@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { endlessThreat } from './endless';
+
+const minutes = (n: number) => n * 60_000;
+
+describe('endlessThreat', () => {
+  it('gets harder the longer the run lasts', () => {
+    const early = endlessThreat(0);
+    const late = endlessThreat(minutes(12));
+    expect(late.rate).toBeGreaterThan(early.rate);
+    expect(late.speed).toBeGreaterThan(early.speed);
+    expect(late.hp).toBeGreaterThan(early.hp);
+    expect(late.mix.heavy).toBeGreaterThan(early.mix.heavy);
+  });
+
+  it('starts with no heavies at the easy patterns', () => {
+    expect(endlessThreat(0)).toMatchObject({ rate: 0.012, hp: 1, speed: 1, patterns: 'EASY', fireInterval: 1 });
+    expect(endlessThreat(0).mix.heavy).toBe(0);
+  });
+
+  it('moves through the difficulties\' patterns, then fires them more often', () => {
+    expect(endlessThreat(minutes(3)).patterns).toBe('NORMAL');
+    expect(endlessThreat(minutes(7)).patterns).toBe('HARD');
+    expect(endlessThreat(minutes(7)).fireInterval).toBe(1);
+    expect(endlessThreat(minutes(12)).fireInterval).toBeCloseTo(0.75);
+    expect(endlessThreat(minutes(60)).fireInterval).toBe(0.5);
+  });
+
+  it('levels off everything but toughness', () => {
+    const hour = endlessThreat(minutes(60));
+    const later = endlessThreat(minutes(120));
+    expect(later.rate).toBe(hour.rate);
+    expect(later.speed).toBe(hour.speed);
+    expect(later.hp).toBeGreaterThan(hour.hp);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TICK_RATE } from './constants';
+import type { Difficulty, EnemyType } from './types';
+
+// --- Endless Mode ---
+// An endless run has no levels to clear: it is one stretch of play that gets harder the
+// longer it lasts. What a campaign level takes from its definition and the difficulty
+// (spawn rate, enemy mix, toughness, bullet patterns) follows the threat curve below
+// instead, by minutes survived. Health carries on throughout, so heals drop rarely.
+// Every MILESTONE_MINUTES the run announces a milestone and moves on to the next scenery.
+
+export const MILESTONE_MINUTES = 2;
+export const MILESTONE_TICKS = MILESTONE_MINUTES * 60 * TICK_RATE;
+
+/** How hard an endless run is at a given moment. */
+export interface Threat {
+  /** Chance per tick of an enemy spawning. */
+  rate: number;
+  /** Relative weights per enemy type. */
+  mix: Record<EnemyType, number>;
+  /** Multipliers on enemy hit points and speed. */
+  hp: number;
+  speed: number;
+  /** Which difficulty's bullet patterns enemies fire (see ENEMY_PATTERNS). */
+  patterns: Difficulty;
+  /** Multiplier on the time between volleys, once the hardest patterns are in. */
+  fireInterval: number;
+}
+
+/** Where each part of the curve starts and where it levels off, with the minute it gets there. */
+const RATE = { from: 0.012, to: 0.04, by: 10 };
+const MIX_FROM: Record<EnemyType, number> = { basic: 70, fast: 30, heavy: 0 };
+const MIX_TO: Record<EnemyType, number> = { basic: 25, fast: 40, heavy: 35 };
+const MIX_BY = 8;
+const SPEED = { from: 1, to: 1.6, by: 15 };
+/** Toughness never levels off, so every run ends eventually. */
+const HP_PER_MINUTE = 0.1;
+/** Minutes at which enemies move on to the NORMAL and then the HARD patterns. */
+const PATTERN_MINUTES = { NORMAL: 3, HARD: 7 };
+/** Counted from when the HARD patterns come in. */
+const FIRE_INTERVAL = { from: 1, to: 0.5, by: 10 };
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * Math.min(1, Math.max(0, t));
+
+const curve = ({ from, to, by }: { from: number; to: number; by: number }, minutes: number) => lerp(from, to, minutes / by);
+
+/** The threat `time` milliseconds into an endless run. */
+export const endlessThreat = (time: number): Threat => {
+  const minutes = time / 60_000;
+  const mix = (type: EnemyType) => lerp(MIX_FROM[type], MIX_TO[type], minutes / MIX_BY);
+  return {
+    rate: curve(RATE, minutes),
+    mix: { basic: mix('basic'), fast: mix('fast'), heavy: mix('heavy') },
+    hp: 1 + minutes * HP_PER_MINUTE,
+    speed: curve(SPEED, minutes),
+    patterns: minutes < PATTERN_MINUTES.NORMAL ? 'EASY' : minutes < PATTERN_MINUTES.HARD ? 'NORMAL' : 'HARD',
+    fireInterval: curve(FIRE_INTERVAL, minutes - PATTERN_MINUTES.HARD),
+  };
+};
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  compareEntries,
+  DEFAULT_PAGE_SIZE,
+  MAX_NAME_LENGTH,
+  MAX_PAGE_SIZE,
+  MAX_SUBMITTED_TICKS,
+  normalizeName,
+  parseQuery,
+  parseSubmission,
+  windowStart,
+} from './leaderboard';
+import { createRecorder, finishRecording, recordInput } from './replay';
+import { createWorld, NO_INPUT } from './simulation';
+import type { GameMode } from './types';
+
+describe('parseQuery', () => {
+  it('fills in defaults', () => {
+    expect(parseQuery({})).toEqual({ difficulty: 'NORMAL', level: undefined, ship: undefined, window: 'all', limit: DEFAULT_PAGE_SIZE, offset: 0 });
+  });
+
+  it('reads search parameters, capping the page size', () => {
+    expect(parseQuery({ difficulty: 'HARD', window: 'daily', level: '3', ship: 'phantom', limit: '500', offset: '20' }))
+      .toEqual({ difficulty: 'HARD', level: 3, ship: 'phantom', window: 'daily', limit: MAX_PAGE_SIZE, offset: 20 });
+  });
+
+  it('treats empty parameters as missing', () => {
+    expect(parseQuery({ ship: '', level: '' })).toMatchObject({ ship: undefined, level: undefined });
+  });
+
+  it('throws on values that are present but invalid', () => {
+    expect(() => parseQuery({ difficulty: 'INSANE' })).toThrow(/difficulty/);
+    expect(() => parseQuery({ window: 'monthly' })).toThrow(/time window/);
+    expect(() => parseQuery({ ship: 'ufo' })).toThrow(/ship/);
+    expect(() => parseQuery({ level: '0' })).toThrow(/level must be a whole number from 1/);
+    expect(() => parseQuery({ offset: '-1' })).toThrow(/offset/);
+    expect(() => parseQuery({ limit: '2.5' })).toThrow(/limit/);
+  });
+});
+
+describe('names and order', () => {
+  it('trims names, collapses their whitespace and caps their length', () => {
+    expect(normalizeName('  Tina   the\tPilot ')).toBe('Tina the Pilot');
+    expect(normalizeName('x'.repeat(40))).toHaveLength(MAX_NAME_LENGTH);
+  });
+
+  it('orders boards by score, then by who got there first', () => {
+    const entries = [{ score: 5, id: 3 }, { score: 9, id: 2 }, { score: 5, id: 1 }];
+    expect(entries.sort(compareEntries)).toEqual([{ score: 9, id: 2 }, { score: 5, id: 1 }, { score: 5, id: 3 }]);
+  });
+
+  it('opens daily and weekly windows back from now', () => {
+    const now = Date.UTC(2026, 0, 8);
+    expect(windowStart('daily', now)?.getTime()).toBe(Date.UTC(2026, 0, 7));
+    expect(windowStart('weekly', now)?.getTime()).toBe(Date.UTC(2026, 0, 1));
+    expect(windowStart('all', now)).toBeNull();
+  });
+});
+
+describe('parseSubmission', () => {
+  /** A replay of a few idle ticks, as JSON. */
+  const replayOf = (players = 1, mode: GameMode = 'campaign') => {
+    const world = createWorld({ width: 800, height: 600, difficulty: 'NORMAL', mode, seed: 1, players });
+    const recorder = createRecorder(world);
+    for (let i = 0; i < 10; i++) recordInput(recorder, world.players.map(() => NO_INPUT));
+    return JSON.parse(JSON.stringify(finishRecording(recorder, world)));
+  };
+
+  it('accepts a solo campaign run under a cleaned-up name', () => {
+    expect(parseSubmission({ name: '  Ace  ', replay: replayOf() }).name).toBe('Ace');
+  });
+
+  it('refuses runs longer than the server will verify before reading their inputs', () => {
+    expect(() => parseSubmission({ name: 'Ace', replay: { ...replayOf(), ticks: MAX_SUBMITTED_TICKS + 1 } })).toThrow(/too long/);
+  });
+
+  it('refuses unranked runs and replays that do not parse', () => {
+    expect(() => parseSubmission({ name: '', replay: replayOf() })).toThrow(/Name/);
+    expect(() => parseSubmission({ name: 'Ace', replay: replayOf(2) })).toThrow(/Co-op/);
+    expect(() => parseSubmission({ name: 'Ace', replay: replayOf(1, 'endless') })).toThrow(/Endless/);
+    expect(() => parseSubmission({ name: 'Ace', replay: { ...replayOf(), resizes: [null] } })).toThrow(/resizes/);
+  });
+});
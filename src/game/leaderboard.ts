@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TICK_RATE } from './constants';
+import { parseReplay, type Replay } from './replay';
+import { isShipId } from './ships';
+import type { Difficulty, ShipId } from './types';
+
+// --- Leaderboard Data ---
+// Shared by the leaderboard server (server/) and the game's client and local fallback,
+// so both sides agree on what a submission and a query look like.
+
+export type TimeWindow = 'daily' | 'weekly' | 'all';
+
+export const TIME_WINDOWS: TimeWindow[] = ['daily', 'weekly', 'all'];
+const DIFFICULTIES: Difficulty[] = ['EASY', 'NORMAL', 'HARD'];
+
+export const MAX_NAME_LENGTH = 16;
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 50;
+/** Longest run the server will verify (an hour of play, well past a full campaign). */
+export const MAX_SUBMITTED_TICKS = 60 * 60 * TICK_RATE;
+
+/** A finished run as shown on a board. */
+export interface ScoreRecord {
+  name: string;
+  score: number;
+  level: number;
+  difficulty: Difficulty;
+  ship: ShipId;
+}
+
+/**
+ * What the game sends: the run's replay, which carries the claimed score, level and
+ * difficulty. The server re-simulates it before accepting the score.
+ */
+export interface ScoreSubmission {
+  name: string;
+  replay: Replay;
+}
+
+export interface ScoreEntry extends ScoreRecord {
+  id: number;
+  /** Position within the query that returned it, starting at 1. */
+  rank: number;
+  createdAt: string;
+}
+
+export interface ScoreQuery {
+  difficulty: Difficulty;
+  /** Only runs that ended on this level. */
+  level?: number;
+  /** Only runs flown in this ship. */
+  ship?: ShipId;
+  window: TimeWindow;
+  limit: number;
+  offset: number;
+}
+
+export interface LeaderboardPage {
+  entries: ScoreEntry[];
+  /** Entries matching the query across all pages. */
+  total: number;
+}
+
+/** A player's best entry within a query, or null if they have none. */
+export interface PlayerRank {
+  name: string;
+  rank: number;
+  score: number;
+  total: number;
+}
+
+/** Earliest creation time a window includes, or null for all time. */
+export const windowStart = (window: TimeWindow, now = Date.now()): Date | null => {
+  if (window === 'daily') return new Date(now - 24 * 60 * 60 * 1000);
+  if (window === 'weekly') return new Date(now - 7 * 24 * 60 * 60 * 1000);
+  return null;
+};
+
+/** Trims and collapses whitespace; names are compared case-insensitively elsewhere. */
+export const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').slice(0, MAX_NAME_LENGTH);
+
+const isDifficulty = (value: unknown): value is Difficulty => DIFFICULTIES.includes(value as Difficulty);
+
+const isCount = (value: unknown, min: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min;
+
+/** The score a submission claims, taken from its replay. */
+export const claimedRecord = ({ name, replay }: ScoreSubmission): ScoreRecord =>
+  ({ name, score: replay.score, level: replay.level, difficulty: replay.difficulty, ship: replay.ships[0] });
+
+/** Validates an untrusted submission (a request body). Throws with a readable message. */
+export const parseSubmission = (data: unknown): ScoreSubmission => {
+  const s = data as Partial<ScoreSubmission> | null;
+  if (!s || typeof s !== 'object') throw new Error('Submission is not a JSON object');
+  const name = typeof s.name === 'string' ? normalizeName(s.name) : '';
+  if (!name) throw new Error('Name is required');
+  if (typeof s.replay?.ticks === 'number' && s.replay.ticks > MAX_SUBMITTED_TICKS) {
+    throw new Error(`Run is too long to verify (${s.replay.ticks} ticks, limit ${MAX_SUBMITTED_TICKS})`);
+  }
+  const replay = parseReplay(s.replay);
+  if (replay.players !== 1) throw new Error('Co-op runs are not ranked');
+  if (replay.mode !== 'campaign') throw new Error('Endless runs are not ranked');
+  if (!isCount(replay.score, 0)) throw new Error('Score must be a whole number');
+  if (!isCount(replay.level, 1)) throw new Error('Level must be a whole number from 1');
+  return { name, replay };
+};
+
+/**
+ * Builds a query from URL search parameters, filling in defaults. Throws with a readable
+ * message on values that are present but invalid.
+ */
+export const parseQuery = (params: Record<string, unknown>): ScoreQuery => {
+  const difficulty = params.difficulty ?? 'NORMAL';
+  if (!isDifficulty(difficulty)) throw new Error(`Unknown difficulty: ${String(difficulty)}`);
+  const ship = params.ship === '' ? undefined : params.ship;
+  if (ship !== undefined && !isShipId(ship)) throw new Error(`Unknown ship: ${String(ship)}`);
+  const window = params.window ?? 'all';
+  if (!TIME_WINDOWS.includes(window as TimeWindow)) throw new Error(`Unknown time window: ${String(window)}`);
+
+  const number = (key: string, fallback: number | undefined, min: number) => {
+    if (params[key] === undefined || params[key] === '') return fallback;
+    const value = Number(params[key]);
+    if (!isCount(value, min)) throw new Error(`${key} must be a whole number from ${min}`);
+    return value;
+  };
+  return {
+    difficulty,
+    level: number('level', undefined, 1),
+    ship: ship as ShipId | undefined,
+    window: window as TimeWindow,
+    limit: Math.min(MAX_PAGE_SIZE, number('limit', DEFAULT_PAGE_SIZE, 1)!),
+    offset: number('offset', 0, 0)!,
+  };
+};
+
+/** Board order: higher scores first, earlier entries first on ties. */
+export const compareEntries = (a: Pick<ScoreEntry, 'score' | 'id'>, b: Pick<ScoreEntry, 'score' | 'id'>) =>
+  b.score - a.score || a.id - b.id;
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import levelPackJson from '../data/levels.json';
+import { getLevelDefinition, LEVEL_PACK, LevelValidationError, scheduleWaves, validateLevelPack } from './levels';
+
+const pack = () => structuredClone(levelPackJson) as unknown as { version: number; levels: Record<string, unknown>[] };
+
+/** The issues validating `data` reports; none if it passes. */
+const issuesOf = (data: unknown) => {
+  try {
+    validateLevelPack(data);
+    return [];
+  } catch (err) {
+    if (!(err instanceof LevelValidationError)) throw err;
+    return err.issues;
+  }
+};
+
+describe('validateLevelPack', () => {
+  it('accepts the bundled pack', () => {
+    expect(issuesOf(pack())).toEqual([]);
+  });
+
+  it('refuses other pack versions before looking further', () => {
+    expect(issuesOf({ ...pack(), version: 99 })).toEqual(['version: expected 1, got 99']);
+  });
+
+  it('reports every problem at once, each with its path', () => {
+    const data = pack();
+    data.levels[0].clear = { type: 'timer', duration: 0 };
+    data.levels[1].music = '';
+    (data.levels[1].waves as Record<string, unknown>[])[0].enemy = 'dragon';
+    (data.levels[1].waves as Record<string, unknown>[])[1].x = 1.5;
+    const issues = issuesOf(data);
+    expect(issues).toHaveLength(4);
+    expect(issues).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^levels\[0\]\.clear\.duration:/),
+      expect.stringMatching(/^levels\[1\]\.music:/),
+      expect.stringMatching(/^levels\[1\]\.waves\[0\]\.enemy:/),
+      expect.stringMatching(/^levels\[1\]\.waves\[1\]\.x:/),
+    ]));
+  });
+
+  it('needs a wave for a level cleared by waves', () => {
+    const data = pack();
+    data.levels[0].clear = { type: 'waves' };
+    data.levels[0].waves = [];
+    expect(issuesOf(data)).toEqual(['levels[0].waves: a level cleared by waves needs at least one wave']);
+  });
+
+  it('rejects a boss that does not exist', () => {
+    const data = pack();
+    data.levels[0].boss = 'nobody';
+    expect(issuesOf(data)).toEqual([expect.stringMatching(/^levels\[0\]\.boss:/)]);
+  });
+});
+
+describe('getLevelDefinition', () => {
+  it('repeats the last level past the end of the pack', () => {
+    const last = LEVEL_PACK.levels[LEVEL_PACK.levels.length - 1];
+    expect(getLevelDefinition(1)).toBe(LEVEL_PACK.levels[0]);
+    expect(getLevelDefinition(LEVEL_PACK.levels.length + 5)).toBe(last);
+  });
+});
+
+describe('scheduleWaves', () => {
+  it('expands every wave into its members, in time order', () => {
+    const def = getLevelDefinition(1);
+    const spawns = scheduleWaves(def, () => 0.5);
+    expect(spawns).toHaveLength(def.waves.reduce((sum, wave) => sum + wave.count, 0));
+    expect(spawns.map(s => s.at)).toEqual([...spawns.map(s => s.at)].sort((a, b) => a - b));
+  });
+
+  it('rolls one entry point per formation, and one per member when scattered', () => {
+    const def = { ...getLevelDefinition(1), waves: [
+      { at: 0, enemy: 'basic' as const, count: 3, x: 'random' as const, formation: 'line' as const, delay: 0, spacing: 50 },
+      { at: 1, enemy: 'fast' as const, count: 3, x: 'random' as const, formation: 'scatter' as const, delay: 0, spacing: 0 },
+    ] };
+    let roll = 0;
+    const spawns = scheduleWaves(def, () => (roll += 0.1));
+    expect(new Set(spawns.slice(0, 3).map(s => s.x)).size).toBe(1);
+    expect(new Set(spawns.slice(3).map(s => s.x)).size).toBe(3);
+    expect(spawns.slice(0, 3).map(s => s.dx)).toEqual([-50, 0, 50]);
+  });
+});
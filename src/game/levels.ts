@@ -0,0 +1,222 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import levelPackJson from '../data/levels.json';
+import { MOVEMENT_BEHAVIOURS, type MovementBehaviour } from './behaviours';
+import { BOSS_IDS } from './bosses';
+import type { EnemyType } from './types';
+
+// --- Level Definitions ---
+// Levels are data (src/data/levels.json) so new ones can be added without touching code.
+// The pack is validated when this module loads; a bad file fails loudly with every problem listed.
+
+export const LEVEL_PACK_VERSION = 1;
+
+export const ENEMY_TYPES: readonly EnemyType[] = ['basic', 'fast', 'heavy'];
+export const FORMATIONS = ['single', 'line', 'v', 'column', 'scatter'] as const;
+export type Formation = typeof FORMATIONS[number];
+
+export interface WaveDefinition {
+  /** Seconds after the level starts. */
+  at: number;
+  enemy: EnemyType;
+  count: number;
+  /** Horizontal entry point as a fraction of screen width, or "random". */
+  x: number | 'random';
+  formation: Formation;
+  /** Seconds between consecutive members of the wave entering. */
+  delay: number;
+  /** Pixels between formation members. */
+  spacing: number;
+  /** Movement override for this wave; defaults to the enemy type's behaviour. */
+  behaviour?: MovementBehaviour;
+}
+
+export type ClearCondition =
+  | { type: 'timer', duration: number }
+  /** Cleared once every wave has spawned and no enemies remain. */
+  | { type: 'waves' };
+
+export interface LevelDefinition {
+  name: string;
+  clear: ClearCondition;
+  /** Random trickle of enemies between waves. Stops after the last wave on "waves" levels. */
+  ambient: {
+    /** Chance per tick of an enemy spawning. */
+    rate: number;
+    /** Relative weights per enemy type. */
+    mix: Partial<Record<EnemyType, number>>;
+  };
+  waves: WaveDefinition[];
+  palette: {
+    nebula: string[];
+    star: string;
+  };
+  /** Music cue name, resolved by the audio layer. */
+  music: string;
+  /** Key into BOSSES; the level only clears once this boss is destroyed. */
+  boss?: string;
+}
+
+export interface LevelPack {
+  version: typeof LEVEL_PACK_VERSION;
+  levels: LevelDefinition[];
+}
+
+export class LevelValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid level pack:\n  ${issues.join('\n  ')}`);
+    this.name = 'LevelValidationError';
+  }
+}
+
+// --- Validation ---
+
+const describe = (value: unknown) => JSON.stringify(value) ?? String(value);
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isColor = (value: unknown) => typeof value === 'string' && /^#[0-9a-fA-F]{6}$/.test(value);
+
+const validateWave = (wave: unknown, path: string, issues: string[]) => {
+  if (!isObject(wave)) {
+    issues.push(`${path}: expected an object, got ${describe(wave)}`);
+    return;
+  }
+  if (typeof wave.at !== 'number' || wave.at < 0) issues.push(`${path}.at: expected seconds >= 0, got ${describe(wave.at)}`);
+  if (!ENEMY_TYPES.includes(wave.enemy as EnemyType)) issues.push(`${path}.enemy: expected one of ${ENEMY_TYPES.join(', ')}, got ${describe(wave.enemy)}`);
+  if (!Number.isInteger(wave.count) || (wave.count as number) < 1) issues.push(`${path}.count: expected an integer >= 1, got ${describe(wave.count)}`);
+  if (wave.x !== 'random' && (typeof wave.x !== 'number' || wave.x < 0 || wave.x > 1)) {
+    issues.push(`${path}.x: expected a fraction of screen width (0-1) or "random", got ${describe(wave.x)}`);
+  }
+  if (!FORMATIONS.includes(wave.formation as Formation)) issues.push(`${path}.formation: expected one of ${FORMATIONS.join(', ')}, got ${describe(wave.formation)}`);
+  if (typeof wave.delay !== 'number' || wave.delay < 0) issues.push(`${path}.delay: expected seconds >= 0, got ${describe(wave.delay)}`);
+  if (typeof wave.spacing !== 'number' || wave.spacing < 0) issues.push(`${path}.spacing: expected pixels >= 0, got ${describe(wave.spacing)}`);
+  if (wave.behaviour !== undefined && !MOVEMENT_BEHAVIOURS.includes(wave.behaviour as MovementBehaviour)) {
+    issues.push(`${path}.behaviour: expected one of ${MOVEMENT_BEHAVIOURS.join(', ')}, got ${describe(wave.behaviour)}`);
+  }
+};
+
+const validateLevel = (level: unknown, path: string, issues: string[]) => {
+  if (!isObject(level)) {
+    issues.push(`${path}: expected an object, got ${describe(level)}`);
+    return;
+  }
+  if (typeof level.name !== 'string' || !level.name) issues.push(`${path}.name: expected a non-empty string`);
+
+  const clear = level.clear;
+  if (!isObject(clear) || (clear.type !== 'timer' && clear.type !== 'waves')) {
+    issues.push(`${path}.clear: expected { "type": "timer", "duration": seconds } or { "type": "waves" }, got ${describe(clear)}`);
+  } else if (clear.type === 'timer' && (typeof clear.duration !== 'number' || clear.duration <= 0)) {
+    issues.push(`${path}.clear.duration: expected seconds > 0, got ${describe(clear.duration)}`);
+  }
+
+  const ambient = level.ambient;
+  if (!isObject(ambient)) {
+    issues.push(`${path}.ambient: expected an object with "rate" and "mix"`);
+  } else {
+    if (typeof ambient.rate !== 'number' || ambient.rate < 0 || ambient.rate > 1) issues.push(`${path}.ambient.rate: expected a per-tick chance (0-1), got ${describe(ambient.rate)}`);
+    if (!isObject(ambient.mix)) {
+      issues.push(`${path}.ambient.mix: expected an object of enemy type weights`);
+    } else {
+      Object.entries(ambient.mix).forEach(([type, weight]) => {
+        if (!ENEMY_TYPES.includes(type as EnemyType)) issues.push(`${path}.ambient.mix.${type}: unknown enemy type`);
+        if (typeof weight !== 'number' || weight < 0) issues.push(`${path}.ambient.mix.${type}: expected a weight >= 0, got ${describe(weight)}`);
+      });
+    }
+  }
+
+  if (!Array.isArray(level.waves)) {
+    issues.push(`${path}.waves: expected an array`);
+  } else {
+    level.waves.forEach((wave, i) => validateWave(wave, `${path}.waves[${i}]`, issues));
+    if (isObject(clear) && clear.type === 'waves' && level.waves.length === 0) {
+      issues.push(`${path}.waves: a level cleared by waves needs at least one wave`);
+    }
+  }
+
+  const palette = level.palette;
+  if (!isObject(palette)) {
+    issues.push(`${path}.palette: expected an object with "nebula" and "star"`);
+  } else {
+    if (!Array.isArray(palette.nebula) || palette.nebula.length === 0 || !palette.nebula.every(isColor)) {
+      issues.push(`${path}.palette.nebula: expected a non-empty array of "#rrggbb" colors, got ${describe(palette.nebula)}`);
+    }
+    if (!isColor(palette.star)) issues.push(`${path}.palette.star: expected a "#rrggbb" color, got ${describe(palette.star)}`);
+  }
+
+  if (typeof level.music !== 'string' || !level.music) issues.push(`${path}.music: expected a cue name`);
+  if (level.boss !== undefined && !BOSS_IDS.includes(level.boss as string)) {
+    issues.push(`${path}.boss: expected one of ${BOSS_IDS.join(', ')}, got ${describe(level.boss)}`);
+  }
+};
+
+/** Checks untrusted JSON against the level pack format. Throws a LevelValidationError listing every problem. */
+export const validateLevelPack = (data: unknown): LevelPack => {
+  const issues: string[] = [];
+  if (!isObject(data)) throw new LevelValidationError([`root: expected an object, got ${describe(data)}`]);
+  if (data.version !== LEVEL_PACK_VERSION) {
+    throw new LevelValidationError([`version: expected ${LEVEL_PACK_VERSION}, got ${describe(data.version)}`]);
+  }
+  if (!Array.isArray(data.levels) || data.levels.length === 0) {
+    issues.push('levels: expected a non-empty array');
+  } else {
+    data.levels.forEach((level, i) => validateLevel(level, `levels[${i}]`, issues));
+  }
+  if (issues.length > 0) throw new LevelValidationError(issues);
+  return data as unknown as LevelPack;
+};
+
+export const LEVEL_PACK = validateLevelPack(levelPackJson);
+
+/** Levels past the end of the pack replay the last definition; enemy speed still scales with the level number. */
+export const getLevelDefinition = (level: number, pack: LevelPack = LEVEL_PACK) =>
+  pack.levels[Math.min(level, pack.levels.length) - 1];
+
+// --- Wave Scheduling ---
+
+export interface ScheduledSpawn {
+  /** Seconds after level start. */
+  at: number;
+  enemy: EnemyType;
+  /** Entry point as a fraction of screen width. */
+  x: number;
+  /** Pixel offset from the entry point. */
+  dx: number;
+  /** Pixels above the normal spawn line, so formations enter in shape. */
+  dy: number;
+  behaviour?: MovementBehaviour;
+}
+
+const formationOffset = (formation: Formation, index: number, count: number, spacing: number) => {
+  const fromCentre = index - (count - 1) / 2;
+  switch (formation) {
+    case 'line':
+      return { dx: fromCentre * spacing, dy: 0 };
+    case 'v':
+      return { dx: fromCentre * spacing, dy: Math.abs(fromCentre) * spacing * 0.6 };
+    case 'column':
+      return { dx: 0, dy: index * spacing };
+    default:
+      return { dx: 0, dy: 0 };
+  }
+};
+
+/**
+ * Expands a level's waves into individual spawns, sorted by time. Random entry points are
+ * rolled here, once per wave (or per member for "scatter"), so a formation stays together.
+ */
+export const scheduleWaves = (def: LevelDefinition, random: () => number): ScheduledSpawn[] =>
+  def.waves
+    .flatMap(wave => {
+      const entry = wave.x === 'random' ? random() : wave.x;
+      return Array.from({ length: wave.count }, (_, i) => ({
+        at: wave.at + i * wave.delay,
+        enemy: wave.enemy,
+        x: wave.formation === 'scatter' ? random() : entry,
+        behaviour: wave.behaviour,
+        ...formationOffset(wave.formation, i, wave.count, wave.spacing),
+      }));
+    })
+    .sort((a, b) => a.at - b.at);
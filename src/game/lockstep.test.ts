@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  createLockstep,
+  hashWorld,
+  INPUT_DELAY,
+  nextFrame,
+  queueInput,
+  receiveHash,
+  receiveInputs,
+  recordHash,
+  resendFrom,
+  takeOutgoing,
+} from './lockstep';
+import { createWorld, NO_INPUT, step } from './simulation';
+import type { PlayerInput } from './types';
+
+const input = (fields: Partial<PlayerInput>): PlayerInput => ({ ...NO_INPUT, ...fields });
+const coopWorld = () => createWorld({ width: 800, height: 600, difficulty: 'NORMAL', seed: 99, players: 2 });
+
+describe('hashWorld', () => {
+  it('agrees for two worlds stepped with the same inputs', () => {
+    const a = coopWorld();
+    const b = coopWorld();
+    for (let t = 0; t < 300; t++) {
+      const frame = [input({ fire: true, left: t % 60 < 30 }), input({ fire: t % 2 === 0, right: true })];
+      step(a, frame);
+      step(b, frame);
+      expect(hashWorld(a)).toBe(hashWorld(b));
+    }
+  });
+
+  it('tells worlds apart once one pilot does something different', () => {
+    const a = coopWorld();
+    const b = coopWorld();
+    step(a, [input({ left: true }), NO_INPUT]);
+    step(b, [input({ right: true }), NO_INPUT]);
+    expect(hashWorld(a)).not.toBe(hashWorld(b));
+  });
+
+  it('ignores cosmetic state', () => {
+    const world = coopWorld();
+    for (let t = 0; t < 120; t++) step(world, [input({ fire: true }), NO_INPUT]);
+    const before = hashWorld(world);
+    world.shake = 20;
+    world.particles = [];
+    expect(hashWorld(world)).toBe(before);
+  });
+});
+
+describe('lockstep', () => {
+  /** Two peers, as slot 0 and slot 1, that pass their inputs straight to each other. */
+  const pair = () => {
+    const peers = [createLockstep(0, 2), createLockstep(1, 2)];
+    const exchange = () => peers.forEach((from, slot) => {
+      const outgoing = takeOutgoing(from);
+      if (outgoing) receiveInputs(peers[1 - slot], outgoing.from, outgoing.inputs);
+    });
+    return { peers, exchange };
+  };
+
+  it('runs the first INPUT_DELAY ticks idle, then waits for the peer', () => {
+    const { peers } = pair();
+    for (let t = 0; t < INPUT_DELAY; t++) expect(nextFrame(peers[0], t)).toEqual([NO_INPUT, NO_INPUT]);
+    queueInput(peers[0], input({ fire: true }));
+    expect(nextFrame(peers[0], INPUT_DELAY)).toBeNull();
+  });
+
+  it('gives both peers the same frames once inputs are exchanged', () => {
+    const { peers, exchange } = pair();
+    queueInput(peers[0], input({ fire: true }));
+    queueInput(peers[1], input({ left: true, pointer: { x: 5, y: 6 } }));
+    exchange();
+    const frame = nextFrame(peers[0], INPUT_DELAY);
+    expect(frame).toEqual([input({ fire: true }), input({ left: true, pointer: { x: 5, y: 6 } })]);
+    expect(nextFrame(peers[1], INPUT_DELAY)).toEqual(frame);
+  });
+
+  it('skips inputs it already holds when a batch is resent', () => {
+    const { peers, exchange } = pair();
+    queueInput(peers[1], input({ up: true }));
+    exchange();
+    queueInput(peers[1], input({ down: true }));
+    const resent = resendFrom(peers[1], 0);
+    receiveInputs(peers[0], resent.from, resent.inputs);
+    expect(peers[0].inputs[1]).toHaveLength(INPUT_DELAY + 2);
+    expect(peers[0].inputs[1][INPUT_DELAY + 1]).toEqual(input({ down: true }));
+  });
+
+  it('refuses malformed or runaway peer inputs', () => {
+    const { peers } = pair();
+    expect(() => receiveInputs(peers[0], 0, [0, 0])).toThrow(/malformed/);
+    expect(() => receiveInputs(peers[0], 0, [100_000, 0])).toThrow(/too far ahead/);
+  });
+
+  it('flags the first tick whose hashes disagree', () => {
+    const { peers } = pair();
+    recordHash(peers[0], 60, 1);
+    receiveHash(peers[0], 60, 1);
+    expect(peers[0].desyncTick).toBeNull();
+    receiveHash(peers[0], 120, 2);
+    recordHash(peers[0], 120, 3);
+    receiveHash(peers[0], 180, 4);
+    recordHash(peers[0], 180, 5);
+    expect(peers[0].desyncTick).toBe(120);
+    expect(nextFrame(peers[0], 0)).toBeNull();
+  });
+});
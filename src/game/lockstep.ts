@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TICK_RATE } from './constants';
+import { countTicks, decodeStream, encodeStream } from './replay';
+import { NO_INPUT } from './simulation';
+import type { PlayerInput, World } from './types';
+
+// --- Lockstep ---
+// Online co-op runs the whole simulation on both clients and exchanges only inputs. A
+// tick is simulated once every pilot's input for it is known, so both worlds see the same
+// inputs in the same order and stay identical. Local input is scheduled INPUT_DELAY ticks
+// ahead, which gives it time to reach the peer before it is needed; when it hasn't, the
+// simulation waits rather than guessing. Every HASH_INTERVAL ticks both sides hash their
+// world and compare, so a divergence (a determinism bug) is caught instead of playing on.
+
+/** Ticks between reading local input and simulating it (50 ms). */
+export const INPUT_DELAY = 3;
+export const HASH_INTERVAL = TICK_RATE;
+/** How far beyond what we know a peer's input may reach; more is a broken or forged message. */
+const MAX_LEAD = 10 * TICK_RATE;
+
+export interface Lockstep {
+  /** The local pilot. */
+  slot: number;
+  /** Every pilot's input by tick, as far as it is known. */
+  inputs: PlayerInput[][];
+  /** How many of the local pilot's inputs have been sent. */
+  sent: number;
+  /** Hashes of our world and the peer's by tick, kept until the other side's arrives. */
+  localHashes: Map<number, number>;
+  peerHashes: Map<number, number>;
+  /** First tick whose hashes disagreed; once set, the run can't go on. */
+  desyncTick: number | null;
+}
+
+/** Both sides start with the same INPUT_DELAY idle ticks for every pilot. */
+export const createLockstep = (slot: number, players: number): Lockstep => ({
+  slot,
+  inputs: Array.from({ length: players }, () => Array.from({ length: INPUT_DELAY }, () => NO_INPUT)),
+  sent: INPUT_DELAY,
+  localHashes: new Map(),
+  peerHashes: new Map(),
+  desyncTick: null,
+});
+
+/** Whether the local input for simulating `tick` still has to be read. */
+export const wantsInput = (lockstep: Lockstep, tick: number) =>
+  lockstep.inputs[lockstep.slot].length <= tick + INPUT_DELAY;
+
+/** Schedules the local pilot's input for INPUT_DELAY ticks from now. */
+export const queueInput = (lockstep: Lockstep, input: PlayerInput) => {
+  lockstep.inputs[lockstep.slot].push(input);
+};
+
+/** Every pilot's input for `tick`, or null while some are still on their way. */
+export const nextFrame = (lockstep: Lockstep, tick: number): PlayerInput[] | null => {
+  if (lockstep.desyncTick !== null || lockstep.inputs.some(inputs => inputs.length <= tick)) return null;
+  return lockstep.inputs.map(inputs => inputs[tick]);
+};
+
+/** Local inputs not sent yet, encoded for an `inputs` message; null if there are none. */
+export const takeOutgoing = (lockstep: Lockstep) => {
+  const local = lockstep.inputs[lockstep.slot];
+  if (lockstep.sent >= local.length) return null;
+  const from = lockstep.sent;
+  lockstep.sent = local.length;
+  return { from, inputs: encodeStream(local.slice(from)) };
+};
+
+/** Local inputs from `from` on, for a peer that asked for them again. */
+export const resendFrom = (lockstep: Lockstep, from: number) => {
+  const local = lockstep.inputs[lockstep.slot];
+  return { from, inputs: encodeStream(local.slice(Math.min(from, local.length))) };
+};
+
+/** How many ticks of the peer's input we hold; a `resend` asks for everything after. */
+export const peerInputCount = (lockstep: Lockstep) =>
+  Math.min(...lockstep.inputs.filter((_, slot) => slot !== lockstep.slot).map(inputs => inputs.length));
+
+/**
+ * Stores a peer's inputs from tick `from`. Ticks we already hold are skipped, and a batch
+ * that would leave a gap is dropped; the `resend` after a reconnect fills it.
+ */
+export const receiveInputs = (lockstep: Lockstep, from: number, encoded: number[]) => {
+  const slot = lockstep.inputs.findIndex((_, s) => s !== lockstep.slot);
+  const inputs = lockstep.inputs[slot];
+  const count = countTicks(encoded);
+  if (Number.isNaN(count)) throw new Error('Peer inputs are malformed');
+  if (from + count > lockstep.inputs[lockstep.slot].length + MAX_LEAD) throw new Error('Peer inputs run too far ahead');
+  if (from > inputs.length) return;
+  inputs.push(...decodeStream(encoded).slice(inputs.length - from));
+};
+
+// --- Desync Detection ---
+
+const compareHashes = (lockstep: Lockstep, tick: number) => {
+  const local = lockstep.localHashes.get(tick);
+  const peer = lockstep.peerHashes.get(tick);
+  if (local === undefined || peer === undefined) return;
+  lockstep.localHashes.delete(tick);
+  lockstep.peerHashes.delete(tick);
+  if (local !== peer && lockstep.desyncTick === null) lockstep.desyncTick = tick;
+};
+
+/** Records our world's hash after `tick`. */
+export const recordHash = (lockstep: Lockstep, tick: number, hash: number) => {
+  lockstep.localHashes.set(tick, hash);
+  compareHashes(lockstep, tick);
+};
+
+export const receiveHash = (lockstep: Lockstep, tick: number, hash: number) => {
+  lockstep.peerHashes.set(tick, hash);
+  compareHashes(lockstep, tick);
+};
+
+/** Mixes one value into an FNV-1a style hash. Positions are rounded so the hash only sees what matters. */
+const mix = (hash: number, value: number) => Math.imul(hash ^ (Math.round(value * 100) | 0), 16777619) >>> 0;
+
+/** A digest of the gameplay state; cosmetic state (particles, shake) is left out. */
+export const hashWorld = (world: World) => {
+  let hash = mix(2166136261, world.tick);
+  hash = mix(hash, world.rng.state);
+  hash = mix(hash, world.score);
+  hash = mix(hash, world.level);
+  hash = mix(hash, world.stardust);
+  world.players.forEach(p => {
+    [p.x, p.y, p.health, p.score, p.respawn, p.abilityCooldown, p.weaponLevel, p.charge, p.effects.length].forEach(n => hash = mix(hash, n));
+  });
+  world.enemies.forEach(e => {
+    [e.x, e.y, e.hp].forEach(n => hash = mix(hash, n));
+  });
+  world.bullets.forEach(b => {
+    [b.x, b.y].forEach(n => hash = mix(hash, n));
+  });
+  world.powerUps.forEach(p => {
+    [p.x, p.y].forEach(n => hash = mix(hash, n));
+  });
+  if (world.boss) hash = mix(hash, world.boss.hp);
+  return hash;
+};
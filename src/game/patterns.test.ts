@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { TICK_MS } from './constants';
+import { aimAngle, ENEMY_PATTERNS, firePattern, patternDifficulty, steerBullet, updateEnemyFire } from './patterns';
+import { spawnBullet } from './pool';
+import { createWorld } from './simulation';
+import type { Difficulty, Enemy, EnemyType } from './types';
+
+const world = (difficulty: Difficulty = 'NORMAL') => createWorld({ width: 800, height: 600, difficulty, seed: 1 });
+
+const enemy = (type: EnemyType, x = 400, y = 100): Enemy => ({
+  x, y, px: x, py: y, id: 1, width: 60, height: 60, hp: 1, maxHp: 1, speed: 2, type, color: '',
+  scoreValue: 100, lastShot: -10_000, behaviour: 'straight', age: 0, stage: 0, anchorX: x, anchorY: y, vx: 0, vy: 0,
+  telegraph: 0, burstLeft: 0, burstTimer: 0, lastHitBy: 0,
+});
+
+const angleOf = (b: { vx: number; vy: number }) => Math.atan2(b.vy, b.vx);
+
+describe('firePattern', () => {
+  it('fans a spread evenly around straight down', () => {
+    const w = world();
+    firePattern(w, 400, 100, { kind: 'spread', count: 3, speed: 5, arc: 0.6 });
+    expect(w.bullets.map(angleOf)).toEqual([Math.PI / 2 - 0.3, Math.PI / 2, Math.PI / 2 + 0.3].map(a => expect.closeTo(a)));
+    expect(w.bullets.every(b => b.isEnemy)).toBe(true);
+  });
+
+  it('aims at the nearest pilot', () => {
+    const w = world();
+    const pilot = w.players[0];
+    firePattern(w, 100, 100, { kind: 'aimed', count: 1, speed: 5, arc: 0 });
+    expect(angleOf(w.bullets[0])).toBeCloseTo(Math.atan2(pilot.y - 100, pilot.x - 100));
+  });
+
+  it('leads a moving pilot', () => {
+    const w = world();
+    const pilot = w.players[0];
+    pilot.px = pilot.x - 5;
+    expect(aimAngle(w, 400, 100, 5, true)).toBeLessThan(aimAngle(w, 400, 100, 5));
+  });
+
+  it('spaces a ring all the way round, turned by the rotation', () => {
+    const w = world();
+    firePattern(w, 400, 100, { kind: 'ring', count: 4, speed: 3, arc: 0 }, 0.1);
+    expect(w.bullets.map(angleOf)).toEqual([0.1, 0.1 + Math.PI / 2, 0.1 + Math.PI - Math.PI * 2, 0.1 - Math.PI / 2].map(a => expect.closeTo(a)));
+  });
+
+  it('gives homing missiles their turn rate and guidance', () => {
+    const w = world();
+    firePattern(w, 400, 100, { kind: 'homing', count: 2, speed: 3, arc: 0.8, turn: 0.04 });
+    expect(w.bullets).toHaveLength(2);
+    expect(w.bullets.every(b => b.homing === 0.04 && b.life > 0)).toBe(true);
+  });
+});
+
+describe('updateEnemyFire', () => {
+  it('winds up for the telegraph before firing', () => {
+    const w = world('NORMAL');
+    const e = enemy('heavy');
+    const pattern = ENEMY_PATTERNS.heavy.NORMAL;
+    updateEnemyFire(e, w);
+    const windUp = Math.round(pattern.telegraph / TICK_MS);
+    expect(e.telegraph).toBe(windUp);
+    for (let i = 1; i < windUp; i++) updateEnemyFire(e, w);
+    expect(w.bullets).toHaveLength(0);
+    updateEnemyFire(e, w);
+    expect(w.bullets).toHaveLength(pattern.count);
+  });
+
+  it('fires a burst as separate shots a gap apart', () => {
+    const w = world('HARD');
+    const e = enemy('fast');
+    const pattern = ENEMY_PATTERNS.fast.HARD;
+    let ticks = 0;
+    const shots: number[] = [];
+    while (shots.length < pattern.count && ticks++ < 200) {
+      const before = w.bullets.length;
+      updateEnemyFire(e, w);
+      if (w.bullets.length > before) shots.push(ticks);
+    }
+    expect(shots).toHaveLength(pattern.count);
+    expect(shots[1] - shots[0]).toBe(pattern.gap);
+    expect(shots[2] - shots[1]).toBe(pattern.gap);
+  });
+
+  it('holds fire while the enemy is off screen', () => {
+    const w = world();
+    const high = enemy('basic', 400, -30);
+    updateEnemyFire(high, w);
+    expect(high.telegraph).toBe(0);
+    const low = enemy('basic', 400, w.height * 0.7);
+    updateEnemyFire(low, w);
+    expect(low.telegraph).toBe(0);
+  });
+});
+
+describe('patternDifficulty', () => {
+  it('follows the run in the campaign and the threat curve in endless runs', () => {
+    expect(patternDifficulty(world('HARD'))).toBe('HARD');
+    const endless = createWorld({ width: 800, height: 600, difficulty: 'NORMAL', mode: 'endless', seed: 1 });
+    expect(patternDifficulty(endless)).toBe('EASY');
+    endless.time = 8 * 60_000;
+    expect(patternDifficulty(endless)).toBe('HARD');
+  });
+
+  it('is what enemies in endless runs fire', () => {
+    const w = createWorld({ width: 800, height: 600, difficulty: 'NORMAL', mode: 'endless', seed: 1 });
+    w.time = 8 * 60_000;
+    const e = enemy('heavy');
+    e.lastShot = 0;
+    updateEnemyFire(e, w);
+    expect(e.telegraph).toBe(Math.round(ENEMY_PATTERNS.heavy.HARD.telegraph / TICK_MS));
+  });
+});
+
+describe('steerBullet', () => {
+  it('turns a homing missile towards the pilot by at most its turn rate', () => {
+    const w = world();
+    const pilot = w.players[0];
+    const b = spawnBullet(w, pilot.x - 300, pilot.y - 300, 3, 0, '#fff', true);
+    b.homing = 0.05;
+    b.life = 10;
+    steerBullet(b, w);
+    expect(angleOf(b)).toBeCloseTo(0.05);
+    expect(Math.hypot(b.vx, b.vy)).toBeCloseTo(3);
+    expect(b.life).toBe(9);
+  });
+});
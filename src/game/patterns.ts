@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { COLORS, TICK_MS } from './constants';
+import { endlessThreat } from './endless';
+import { spawnBullet } from './pool';
+import type { Difficulty, Enemy, EnemyType, World } from './types';
+import { targetEnemy, targetPlayer } from './world';
+
+// --- Enemy Bullet Patterns ---
+// A pattern describes one volley. Regular enemies wind up for `telegraph` ms before
+// each volley (the renderer draws a per-pattern warning) and harder difficulties
+// swap in smarter patterns rather than just firing more often. Endless runs move through
+// the difficulties' patterns as the threat rises, then fire them more often.
+
+export const BULLET_PATTERNS = ['single', 'aimed', 'lead', 'spread', 'ring', 'burst', 'homing'] as const;
+export type BulletPatternKind = typeof BULLET_PATTERNS[number];
+
+export interface BulletPattern {
+  kind: BulletPatternKind;
+  /** Milliseconds between volleys. */
+  interval: number;
+  /** Milliseconds of wind-up before a volley. */
+  telegraph: number;
+  count: number;
+  speed: number;
+  /** Fan width for "spread", spacing between shots for "aimed"/"lead"/"homing" (radians). */
+  arc: number;
+  /** Ticks between shots of a "burst". */
+  gap?: number;
+  /** Radians per tick a "homing" missile may turn. */
+  turn?: number;
+}
+
+export const ENEMY_PATTERNS: Record<EnemyType, Record<Difficulty, BulletPattern | null>> = {
+  basic: {
+    EASY: { kind: 'single', interval: 2500, telegraph: 400, count: 1, speed: 4, arc: 0 },
+    NORMAL: { kind: 'aimed', interval: 2500, telegraph: 450, count: 1, speed: 5, arc: 0 },
+    HARD: { kind: 'lead', interval: 1500, telegraph: 400, count: 1, speed: 5.5, arc: 0 },
+  },
+  fast: {
+    EASY: { kind: 'single', interval: 2500, telegraph: 300, count: 1, speed: 5, arc: 0 },
+    NORMAL: { kind: 'spread', interval: 2200, telegraph: 400, count: 3, speed: 5, arc: 0.5 },
+    HARD: { kind: 'burst', interval: 1500, telegraph: 400, count: 3, speed: 6, arc: 0, gap: 6 },
+  },
+  heavy: {
+    EASY: { kind: 'spread', interval: 3000, telegraph: 600, count: 3, speed: 4, arc: 0.6 },
+    NORMAL: { kind: 'ring', interval: 2800, telegraph: 700, count: 10, speed: 3.5, arc: 0 },
+    HARD: { kind: 'homing', interval: 2600, telegraph: 800, count: 2, speed: 3, arc: 0.8, turn: 0.04 },
+  },
+};
+
+/** Ticks a homing missile keeps steering before flying straight. */
+const HOMING_TICKS = 180;
+
+export const enemyPattern = (type: EnemyType, difficulty: Difficulty) => ENEMY_PATTERNS[type][difficulty];
+
+/** Which difficulty's patterns enemies fire: the run's, or in endless runs the threat curve's. */
+export const patternDifficulty = (world: World): Difficulty =>
+  world.mode === 'endless' ? endlessThreat(world.time).patterns : world.difficulty;
+
+/** Angle from (x, y) to the nearest pilot; with `lead`, to where they will be when the shot arrives. */
+export const aimAngle = (world: World, x: number, y: number, speed: number, lead = false) => {
+  const player = targetPlayer(world, x, y);
+  let tx = player.x;
+  let ty = player.y;
+  if (lead) {
+    const travel = Math.hypot(tx - x, ty - y) / speed;
+    tx += (player.x - player.px) * travel;
+    ty += (player.y - player.py) * travel;
+  }
+  return Math.atan2(ty - y, tx - x);
+};
+
+const fanAround = (centre: number, count: number, spacing: number) =>
+  Array.from({ length: count }, (_, i) => centre + (i - (count - 1) / 2) * spacing);
+
+/**
+ * Fires one volley of `pattern` from (x, y). `rotation` turns rings so their gaps move.
+ * A "burst" fires a single aimed shot here; the caller repeats it `count` times.
+ */
+export const firePattern = (world: World, x: number, y: number, pattern: Pick<BulletPattern, 'kind' | 'count' | 'speed' | 'arc' | 'turn'>, rotation = 0) => {
+  let angles: number[];
+  switch (pattern.kind) {
+    case 'single':
+      angles = [Math.PI / 2];
+      break;
+    case 'aimed':
+    case 'burst':
+      angles = fanAround(aimAngle(world, x, y, pattern.speed), pattern.kind === 'burst' ? 1 : pattern.count, pattern.arc);
+      break;
+    case 'lead':
+      angles = fanAround(aimAngle(world, x, y, pattern.speed, true), pattern.count, pattern.arc);
+      break;
+    case 'spread':
+      angles = pattern.count === 1 ? [Math.PI / 2] : fanAround(Math.PI / 2, pattern.count, pattern.arc / (pattern.count - 1));
+      break;
+    case 'ring':
+      angles = Array.from({ length: pattern.count }, (_, i) => rotation + (i / pattern.count) * Math.PI * 2);
+      break;
+    case 'homing':
+      angles = fanAround(Math.PI / 2, pattern.count, pattern.arc);
+      break;
+  }
+
+  angles.forEach(angle => {
+    const b = spawnBullet(world, x, y, Math.cos(angle) * pattern.speed, Math.sin(angle) * pattern.speed, COLORS.ENEMY_BULLET, true);
+    if (pattern.kind === 'homing') {
+      b.homing = pattern.turn ?? 0.03;
+      b.life = HOMING_TICKS;
+    }
+  });
+};
+
+/** Winds up, fires and repeats bursts for a regular enemy. Call once per tick. */
+export const updateEnemyFire = (e: Enemy, world: World) => {
+  const pattern = enemyPattern(e.type, patternDifficulty(world));
+  if (!pattern) return;
+  const originY = e.y + e.height / 2;
+
+  if (e.burstLeft > 0) {
+    e.burstTimer -= 1;
+    if (e.burstTimer <= 0) {
+      firePattern(world, e.x, originY, pattern);
+      e.burstLeft -= 1;
+      e.burstTimer = pattern.gap ?? 6;
+    }
+    return;
+  }
+
+  if (e.telegraph > 0) {
+    e.telegraph -= 1;
+    if (e.telegraph === 0) {
+      if (pattern.kind === 'burst') {
+        e.burstLeft = pattern.count;
+        e.burstTimer = 0;
+      } else {
+        firePattern(world, e.x, originY, pattern, world.tick * 0.05);
+      }
+    }
+    return;
+  }
+
+  const fireInterval = world.mode === 'endless' ? endlessThreat(world.time).fireInterval : 1;
+  if (world.time - e.lastShot > pattern.interval * fireInterval && e.y > 0 && e.y < world.height * 0.6) {
+    e.telegraph = Math.max(1, Math.round(pattern.telegraph / TICK_MS));
+    e.lastShot = world.time;
+  }
+};
+
+/** Steers homing missiles toward the nearest pilot (player missiles: the nearest enemy) until their guidance runs out. */
+export const steerBullet = (b: World['bullets'][number], world: World) => {
+  if (!b.homing || !b.life) return;
+  b.life -= 1;
+  const speed = Math.hypot(b.vx, b.vy);
+  const current = Math.atan2(b.vy, b.vx);
+  const chased = b.isEnemy ? targetPlayer(world, b.x, b.y) : targetEnemy(world, b.x, b.y);
+  if (!chased) return;
+  const target = Math.atan2(chased.y - b.y, chased.x - b.x);
+  let diff = target - current;
+  while (diff > Math.PI) diff -= Math.PI * 2;
+  while (diff < -Math.PI) diff += Math.PI * 2;
+  const angle = current + Math.max(-b.homing, Math.min(b.homing, diff));
+  b.vx = Math.cos(angle) * speed;
+  b.vy = Math.sin(angle) * speed;
+};
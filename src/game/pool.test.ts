@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createPools, poolUsage, releaseAll, spawnBullet, spawnEnemyFrom, spawnParticle, sweep } from './pool';
+import { createWorld } from './simulation';
+
+const world = (particleBudget?: number) => createWorld({ width: 800, height: 600, difficulty: 'NORMAL', seed: 1, particleBudget });
+
+describe('sweep', () => {
+  it('keeps survivors in order and parks the rest on the free list', () => {
+    const pool = createPools().enemies;
+    const items = [1, 2, 3, 4, 5].map(id => ({ ...pool.free.pop(), id }));
+    const free = pool.free.length;
+    sweep(items, pool, e => e.id % 2 === 1);
+    expect(items.map(e => e.id)).toEqual([1, 3, 5]);
+    expect(pool.free).toHaveLength(free + 2);
+  });
+});
+
+describe('spawning', () => {
+  it('reuses swept entities instead of allocating', () => {
+    const w = world();
+    const first = spawnBullet(w, 10, 10, 0, -8, '#fff', false);
+    releaseAll(w.bullets, w.pools.bullets);
+    expect(spawnBullet(w, 20, 20, 0, 4, '#f00', true)).toBe(first);
+  });
+
+  it('clears what the last user of a pooled entity left behind', () => {
+    const w = world();
+    const b = spawnBullet(w, 10, 10, 0, -8, '#fff', false);
+    b.homing = 0.05;
+    b.pierce = true;
+    const e = spawnEnemyFrom(w, 100, -50);
+    e.telegraph = 12;
+    e.burstLeft = 2;
+    e.stage = 2;
+    releaseAll(w.bullets, w.pools.bullets);
+    releaseAll(w.enemies, w.pools.enemies);
+
+    const again = spawnBullet(w, 0, 0, 0, 0, '#fff', true);
+    expect(again.homing).toBeUndefined();
+    expect(again.pierce).toBeUndefined();
+    expect(spawnEnemyFrom(w, 300, -50)).toMatchObject({ x: 300, px: 300, telegraph: 0, burstLeft: 0, stage: 0 });
+  });
+
+  it('refuses particles past the budget and counts the drops', () => {
+    const w = world(2);
+    expect(spawnParticle(w, 0, 0, 0, 0, '#fff', 2)).not.toBeNull();
+    expect(spawnParticle(w, 0, 0, 0, 0, '#fff', 2)).not.toBeNull();
+    expect(spawnParticle(w, 0, 0, 0, 0, '#fff', 2)).toBeNull();
+    expect(poolUsage(w).find(u => u.name === 'particles')).toMatchObject({ live: 2, free: 0, peak: 2, dropped: 1 });
+  });
+
+  it('grows past the preallocated size rather than refusing bullets', () => {
+    const w = world();
+    const capacity = w.pools.bullets.capacity;
+    for (let i = 0; i <= capacity; i++) spawnBullet(w, 0, 0, 0, 0, '#fff', true);
+    expect(w.bullets).toHaveLength(capacity + 1);
+    expect(w.pools.bullets.peak).toBe(capacity + 1);
+  });
+});
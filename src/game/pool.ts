@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Bullet, Enemy, Particle, PowerUp, PowerUpType, World } from './types';
+
+// --- Entity Pools ---
+// `world.bullets`, `world.enemies`, ... stay plain arrays of live entities so every reader
+// can keep iterating them. Dead entities are swept out in place and parked on a free list,
+// and new ones are taken from it, so steady-state play allocates (almost) nothing.
+// Pools are plain data like the rest of the world, so keyframes can still clone it.
+
+export interface EntityPool<T> {
+  free: T[];
+  /** Preallocated size. For particles this is also a hard budget. */
+  capacity: number;
+  /** Most live entities seen at once. */
+  peak: number;
+  /** Spawns refused because a budgeted pool was empty. */
+  dropped: number;
+}
+
+export interface EntityPools {
+  bullets: EntityPool<Bullet>;
+  enemies: EntityPool<Enemy>;
+  particles: EntityPool<Particle>;
+  powerUps: EntityPool<PowerUp>;
+}
+
+export const DEFAULT_PARTICLE_BUDGET = 800;
+const BULLET_CAPACITY = 512;
+const ENEMY_CAPACITY = 64;
+const POWER_UP_CAPACITY = 32;
+
+const blankBullet = (): Bullet => ({ x: 0, y: 0, px: 0, py: 0, vx: 0, vy: 0, power: 1, damageType: 'kinetic', color: '', isEnemy: false });
+const blankParticle = (): Particle => ({ x: 0, y: 0, px: 0, py: 0, vx: 0, vy: 0, life: 0, color: '', size: 0, glow: false });
+const blankEnemy = (): Enemy => ({
+  x: 0, y: 0, px: 0, py: 0, id: 0, width: 0, height: 0, hp: 0, maxHp: 0, speed: 0, type: 'basic', color: '',
+  scoreValue: 0, lastShot: 0, behaviour: 'straight', age: 0, stage: 0, anchorX: 0, anchorY: 0, vx: 0, vy: 0,
+  telegraph: 0, burstLeft: 0, burstTimer: 0, lastHitBy: 0,
+});
+const blankPowerUp = (): PowerUp => ({ x: 0, y: 0, px: 0, py: 0, type: 'triple', size: 0 });
+
+const createPool = <T>(capacity: number, make: () => T): EntityPool<T> => ({
+  free: Array.from({ length: capacity }, make),
+  capacity,
+  peak: 0,
+  dropped: 0,
+});
+
+export const createPools = (particleBudget = DEFAULT_PARTICLE_BUDGET): EntityPools => ({
+  bullets: createPool(BULLET_CAPACITY, blankBullet),
+  enemies: createPool(ENEMY_CAPACITY, blankEnemy),
+  particles: createPool(particleBudget, blankParticle),
+  powerUps: createPool(POWER_UP_CAPACITY, blankPowerUp),
+});
+
+/**
+ * Removes the entities `keep` rejects, in place and in order, returning them to `pool`.
+ * Safe against skipping: each entity is visited exactly once.
+ */
+export const sweep = <T>(items: T[], pool: EntityPool<T>, keep: (item: T) => boolean) => {
+  let kept = 0;
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    if (keep(item)) items[kept++] = item;
+    else pool.free.push(item);
+  }
+  items.length = kept;
+};
+
+/** Returns every entity in `items` to `pool`. */
+export const releaseAll = <T>(items: T[], pool: EntityPool<T>) => sweep(items, pool, () => false);
+
+const track = <T>(items: T[], pool: EntityPool<T>) => {
+  pool.peak = Math.max(pool.peak, items.length);
+};
+
+export const spawnBullet = (world: World, x: number, y: number, vx: number, vy: number, color: string, isEnemy: boolean) => {
+  const b = world.pools.bullets.free.pop() ?? blankBullet();
+  b.x = b.px = x;
+  b.y = b.py = y;
+  b.vx = vx;
+  b.vy = vy;
+  b.power = 1;
+  b.damageType = 'kinetic';
+  b.color = color;
+  b.isEnemy = isEnemy;
+  b.kind = undefined;
+  b.pierce = undefined;
+  b.hits = undefined;
+  b.homing = undefined;
+  b.life = undefined;
+  b.fuse = undefined;
+  b.blast = undefined;
+  world.bullets.push(b);
+  track(world.bullets, world.pools.bullets);
+  return b;
+};
+
+/** Takes a particle from the budget, or returns null once it is spent. */
+export const spawnParticle = (world: World, x: number, y: number, vx: number, vy: number, color: string, size: number) => {
+  const pool = world.pools.particles;
+  const p = pool.free.pop();
+  if (!p) {
+    pool.dropped += 1;
+    return null;
+  }
+  p.x = p.px = x;
+  p.y = p.py = y;
+  p.vx = vx;
+  p.vy = vy;
+  p.life = 1;
+  p.color = color;
+  p.size = size;
+  p.glow = true;
+  world.particles.push(p);
+  track(world.particles, pool);
+  return p;
+};
+
+/**
+ * Takes an enemy from the pool at (x, y) with its movement and firing state cleared;
+ * the caller fills in its id, type and stats.
+ */
+export const spawnEnemyFrom = (world: World, x: number, y: number) => {
+  const e = world.pools.enemies.free.pop() ?? blankEnemy();
+  e.x = e.px = x;
+  e.y = e.py = y;
+  e.age = 0;
+  e.stage = 0;
+  e.anchorX = 0;
+  e.anchorY = 0;
+  e.vx = 0;
+  e.vy = 0;
+  e.telegraph = 0;
+  e.burstLeft = 0;
+  e.burstTimer = 0;
+  e.lastHitBy = 0;
+  world.enemies.push(e);
+  track(world.enemies, world.pools.enemies);
+  return e;
+};
+
+export const spawnPowerUp = (world: World, x: number, y: number, type: PowerUpType, size: number) => {
+  const p = world.pools.powerUps.free.pop() ?? blankPowerUp();
+  p.x = p.px = x;
+  p.y = p.py = y;
+  p.type = type;
+  p.size = size;
+  world.powerUps.push(p);
+  track(world.powerUps, world.pools.powerUps);
+  return p;
+};
+
+/** Particles still available from the budget. */
+export const particlesFree = (world: World) => world.pools.particles.free.length;
+
+export interface PoolUsage {
+  name: string;
+  live: number;
+  free: number;
+  capacity: number;
+  peak: number;
+  dropped: number;
+}
+
+/** A snapshot of pool usage for tuning the budget (debug overlay, simulate script). */
+export const poolUsage = (world: World): PoolUsage[] =>
+  (['bullets', 'enemies', 'particles', 'powerUps'] as const).map(name => ({
+    name,
+    live: world[name].length,
+    free: world.pools[name].free.length,
+    capacity: world.pools[name].capacity,
+    peak: world.pools[name].peak,
+    dropped: world.pools[name].dropped,
+  }));
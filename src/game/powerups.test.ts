@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { spawnBullet } from './pool';
+import {
+  collectPowerUp,
+  consumeCharge,
+  detonateBomb,
+  grantEffect,
+  pickPowerUp,
+  POWER_UP_TYPES,
+  POWER_UPS,
+  updateEffects,
+} from './powerups';
+import { baseSpeed } from './shop';
+import { createWorld } from './simulation';
+import type { GameEvent, PowerUpType } from './types';
+
+const setup = () => {
+  const world = createWorld({ width: 800, height: 600, difficulty: 'NORMAL', seed: 1 });
+  return { world, player: world.players[0] };
+};
+
+const remaining = (player: { effects: { type: PowerUpType; remaining: number }[] }, type: PowerUpType) =>
+  player.effects.find(e => e.type === type)?.remaining;
+
+describe('pickPowerUp', () => {
+  it('covers every type across the roll range', () => {
+    expect(pickPowerUp(0)).toBe(POWER_UP_TYPES[0]);
+    expect(pickPowerUp(0.999999)).toBe(POWER_UP_TYPES[POWER_UP_TYPES.length - 1]);
+  });
+
+  it('drops extra lives less often in endless runs', () => {
+    const count = (mode: 'campaign' | 'endless') =>
+      Array.from({ length: 1000 }, (_, i) => pickPowerUp(i / 1000, mode)).filter(t => t === 'life').length;
+    expect(count('endless')).toBeLessThan(count('campaign'));
+  });
+});
+
+describe('grantEffect', () => {
+  it('adds to an "extend" effect, up to its cap', () => {
+    const { world, player } = setup();
+    grantEffect(world, player, 'triple', []);
+    grantEffect(world, player, 'triple', []);
+    grantEffect(world, player, 'triple', []);
+    expect(remaining(player, 'triple')).toBe(POWER_UPS.triple.max);
+    expect(player.effects).toHaveLength(1);
+  });
+
+  it('restarts a "refresh" effect', () => {
+    const { world, player } = setup();
+    grantEffect(world, player, 'magnet', []);
+    for (let i = 0; i < 100; i++) updateEffects(world, player);
+    grantEffect(world, player, 'magnet', []);
+    expect(remaining(player, 'magnet')).toBe(POWER_UPS.magnet.ticks);
+  });
+
+  it('runs an instant power-up without tracking an effect', () => {
+    const { world, player } = setup();
+    player.health = player.maxHealth - 1;
+    grantEffect(world, player, 'life', []);
+    grantEffect(world, player, 'life', []);
+    expect(player.health).toBe(player.maxHealth);
+    expect(player.effects).toEqual([]);
+  });
+});
+
+describe('updateEffects', () => {
+  it('undoes a timed effect when it runs out', () => {
+    const { world, player } = setup();
+    grantEffect(world, player, 'speed', []);
+    expect(player.speed).toBeGreaterThan(baseSpeed(world, player));
+    for (let i = 0; i < POWER_UPS.speed.ticks; i++) updateEffects(world, player);
+    expect(player.effects).toEqual([]);
+    expect(player.speed).toBe(baseSpeed(world, player));
+  });
+
+  it('leaves charge-based effects alone', () => {
+    const { world, player } = setup();
+    grantEffect(world, player, 'shield', []);
+    for (let i = 0; i < 1000; i++) updateEffects(world, player);
+    expect(remaining(player, 'shield')).toBe(1);
+  });
+});
+
+describe('consumeCharge', () => {
+  it('spends charges and removes the effect with the last one', () => {
+    const { world, player } = setup();
+    expect(consumeCharge(world, player, 'shield')).toBe(false);
+    grantEffect(world, player, 'shield', []);
+    expect(consumeCharge(world, player, 'shield')).toBe(true);
+    expect(player.effects).toEqual([]);
+  });
+});
+
+describe('collectPowerUp', () => {
+  it('reports the pickup for the pilot who made it', () => {
+    const { world, player } = setup();
+    const events: GameEvent[] = [];
+    collectPowerUp(world, player, 'rapid', events);
+    expect(events).toEqual([{ type: 'powerUpCollected', powerUp: 'rapid', player: 0 }]);
+    expect(remaining(player, 'rapid')).toBe(POWER_UPS.rapid.ticks);
+  });
+});
+
+describe('detonateBomb', () => {
+  it('does nothing without a stocked bomb', () => {
+    const { world, player } = setup();
+    spawnBullet(world, 100, 100, 0, 3, '#fff', true);
+    const events: GameEvent[] = [];
+    detonateBomb(world, player, events);
+    expect(events).toEqual([]);
+    expect(world.bullets).toHaveLength(1);
+  });
+
+  it('clears enemy bullets but not the pilots\' own', () => {
+    const { world, player } = setup();
+    grantEffect(world, player, 'bomb', []);
+    spawnBullet(world, 100, 100, 0, 3, '#fff', true);
+    spawnBullet(world, 100, 400, 0, -8, '#fff', false);
+    const events: GameEvent[] = [];
+    detonateBomb(world, player, events);
+    expect(events).toEqual([{ type: 'bombDetonated', player: 0 }]);
+    expect(world.bullets.map(b => b.isEnemy)).toEqual([false]);
+    expect(remaining(player, 'bomb')).toBeUndefined();
+  });
+});
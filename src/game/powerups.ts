@@ -0,0 +1,203 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { COLORS, MAX_WEAPON_LEVEL, TICK_RATE } from './constants';
+import { sweep } from './pool';
+import { baseCooldown, baseSpeed, effectAmount } from './shop';
+import type { GameEvent, GameMode, Player, PowerUpType, SecondaryId, World } from './types';
+
+// --- Power-Up Registry ---
+// Everything about a pickup lives in its entry here: how it looks, how long it lasts,
+// what happens when it is picked up again, and what it does on apply and expiry.
+// Effects that last are tracked in the collecting pilot's `effects`; instant ones only run `apply`.
+
+export type StackRule =
+  /** Picking it up again restarts the timer or charges. */
+  | 'refresh'
+  /** Picking it up again adds to what is left, up to `max`. */
+  | 'extend';
+
+/** Names are in the i18n catalogs, under the power-up's type. */
+export interface PowerUpDefinition {
+  color: string;
+  /** Image path; drawn as a coloured orb with `glyph` when missing or not loaded. */
+  sprite?: string;
+  /** One or two characters shown on the vector fallback and the HUD ring. */
+  glyph: string;
+  /** Relative drop weight. */
+  weight: number;
+  /** Drop weight in endless runs, where health is never restored between levels; defaults to `weight`. */
+  endlessWeight?: number;
+  /** Lasting effects count down either ticks or charges (consumed by the effect's user). Instant if neither. */
+  ticks?: number;
+  charges?: number;
+  stacking: StackRule;
+  /** Cap for "extend" stacking, in the same unit as the duration. */
+  max?: number;
+  apply?: (world: World, player: Player, events: GameEvent[]) => void;
+  expire?: (world: World, player: Player) => void;
+}
+
+/** Secondary weapon pickups arm the pilot with that secondary, replacing any other. */
+const arm = (secondary: SecondaryId) => (_: World, player: Player) => {
+  player.secondary = secondary;
+  player.secondaryCooldown = 0;
+};
+
+export const POWER_UPS: Record<PowerUpType, PowerUpDefinition> = {
+  triple: {
+    color: COLORS.TRIPLE, sprite: '/assets/powerup_triple.png', glyph: 'III',
+    weight: 20, charges: 50, stacking: 'extend', max: 100,
+  },
+  shield: {
+    color: COLORS.SHIELD, sprite: '/assets/powerup_shield.png', glyph: 'S',
+    weight: 20, charges: 1, stacking: 'refresh',
+  },
+  life: {
+    color: COLORS.LIFE, glyph: '+',
+    weight: 6, endlessWeight: 1, stacking: 'refresh',
+    apply: (_, player) => { player.health = Math.min(player.maxHealth, player.health + 1); },
+  },
+  speed: {
+    color: COLORS.SPEED, glyph: '>>',
+    weight: 12, ticks: 10 * TICK_RATE, stacking: 'refresh',
+    apply: (world, player) => { player.speed = baseSpeed(world, player) * 1.5; },
+    expire: (world, player) => { player.speed = baseSpeed(world, player); },
+  },
+  rapid: {
+    color: COLORS.RAPID, glyph: 'R',
+    weight: 12, ticks: 8 * TICK_RATE, stacking: 'extend', max: 16 * TICK_RATE,
+    apply: (world, player) => { player.fireCooldown = baseCooldown(world, player) / 2; },
+    expire: (world, player) => { player.fireCooldown = baseCooldown(world, player); },
+  },
+  pierce: {
+    color: COLORS.PIERCE, glyph: 'P',
+    weight: 10, ticks: 8 * TICK_RATE, stacking: 'extend', max: 16 * TICK_RATE,
+  },
+  bomb: {
+    color: COLORS.BOMB, glyph: 'B',
+    // Stocked rather than set off on pickup; the bomb action spends a charge (see detonateBomb).
+    weight: 5, charges: 1, stacking: 'extend', max: 3,
+  },
+  magnet: {
+    color: COLORS.MAGNET, glyph: 'M',
+    weight: 8, ticks: 15 * TICK_RATE, stacking: 'refresh',
+  },
+  score: {
+    color: COLORS.SCORE, glyph: 'x2',
+    weight: 7, ticks: 12 * TICK_RATE, stacking: 'refresh',
+    apply: (_, player) => { player.scoreMultiplier = 2; },
+    expire: (_, player) => { player.scoreMultiplier = 1; },
+  },
+  weapon: {
+    color: COLORS.WEAPON, glyph: 'W+',
+    weight: 12, stacking: 'refresh',
+    apply: (_, player) => { player.weaponLevel = Math.min(MAX_WEAPON_LEVEL, player.weaponLevel + 1); },
+  },
+  missiles: {
+    color: COLORS.MISSILES, glyph: 'Mi',
+    weight: 4, stacking: 'refresh', apply: arm('missiles'),
+  },
+  laser: {
+    color: COLORS.LASER, glyph: 'La',
+    weight: 4, stacking: 'refresh', apply: arm('laser'),
+  },
+  cluster: {
+    color: COLORS.CLUSTER, glyph: 'Cl',
+    weight: 4, stacking: 'refresh', apply: arm('cluster'),
+  },
+};
+
+export const POWER_UP_TYPES = Object.keys(POWER_UPS) as PowerUpType[];
+
+/** Distance at which the magnet starts pulling pickups in. */
+export const MAGNET_RANGE = 250;
+
+export const hasEffect = (player: Player, type: PowerUpType) => player.effects.some(e => e.type === type);
+
+const dropWeight = (type: PowerUpType, mode: GameMode) =>
+  mode === 'endless' ? POWER_UPS[type].endlessWeight ?? POWER_UPS[type].weight : POWER_UPS[type].weight;
+
+/** Picks a drop type by weight. `roll` is a uniform number in [0, 1). */
+export const pickPowerUp = (roll: number, mode: GameMode = 'campaign'): PowerUpType => {
+  const total = POWER_UP_TYPES.reduce((sum, type) => sum + dropWeight(type, mode), 0);
+  let r = roll * total;
+  for (const type of POWER_UP_TYPES) {
+    r -= dropWeight(type, mode);
+    if (r < 0) return type;
+  }
+  return POWER_UP_TYPES[POWER_UP_TYPES.length - 1];
+};
+
+export const collectPowerUp = (world: World, player: Player, type: PowerUpType, events: GameEvent[]) => {
+  events.push({ type: 'powerUpCollected', powerUp: type, player: player.slot });
+  grantEffect(world, player, type, events);
+};
+
+/** Gives a pilot a power-up's effect as if picked up, without it counting as a pickup (ship specials use this). */
+export const grantEffect = (world: World, player: Player, type: PowerUpType, events: GameEvent[]) => {
+  const def = POWER_UPS[type];
+  const amount = effectAmount(world, type, def.ticks, def.charges);
+
+  if (amount === undefined) {
+    def.apply?.(world, player, events);
+    return;
+  }
+
+  const active = player.effects.find(e => e.type === type);
+  if (!active) {
+    player.effects.push({ type, remaining: amount, total: amount });
+  } else if (def.stacking === 'extend') {
+    active.remaining = Math.min(def.max ?? Infinity, active.remaining + amount);
+    active.total = Math.max(active.total, active.remaining);
+  } else {
+    active.remaining = amount;
+    active.total = amount;
+  }
+  def.apply?.(world, player, events);
+};
+
+const removeEffect = (world: World, player: Player, type: PowerUpType) => {
+  player.effects = player.effects.filter(e => e.type !== type);
+  POWER_UPS[type].expire?.(world, player);
+};
+
+/** Uses up one charge of an effect. Returns false if the pilot doesn't have it. */
+export const consumeCharge = (world: World, player: Player, type: PowerUpType) => {
+  const active = player.effects.find(e => e.type === type);
+  if (!active) return false;
+  active.remaining -= 1;
+  if (active.remaining <= 0) removeEffect(world, player, type);
+  return true;
+};
+
+/** Ends every effect a pilot has, e.g. when they go down. */
+export const clearEffects = (world: World, player: Player) => {
+  player.effects.forEach(active => removeEffect(world, player, active.type));
+};
+
+/** Spends one of the pilot's stocked bombs, if any: clears every enemy and enemy bullet on screen. */
+export const detonateBomb = (world: World, player: Player, events: GameEvent[]) => {
+  if (!consumeCharge(world, player, 'bomb')) return;
+  // Enemies die through the normal kill sweep, so score and drops still apply.
+  world.enemies.forEach(e => {
+    e.hp = 0;
+    e.telegraph = 0;
+    e.burstLeft = 0;
+    e.lastHitBy = player.slot;
+  });
+  sweep(world.bullets, world.pools.bullets, b => !b.isEnemy);
+  world.shake = 25;
+  events.push({ type: 'bombDetonated', player: player.slot });
+};
+
+/** Counts down a pilot's timed effects by one tick and expires the ones that ran out. */
+export const updateEffects = (world: World, player: Player) => {
+  player.effects.forEach(active => {
+    if (POWER_UPS[active.type].ticks === undefined) return;
+    active.remaining -= 1;
+    if (active.remaining <= 0) removeEffect(world, player, active.type);
+  });
+};
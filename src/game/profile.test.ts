@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createProfile, parseProfile, PROFILE_VERSION, recordStep } from './profile';
+import { DEFAULT_SHIP } from './ships';
+import { SHOP } from './shop';
+import { createWorld } from './simulation';
+import type { GameEvent } from './types';
+
+/** A profile as version 1 of the game saved it. */
+const VERSION_1 = {
+  version: 1,
+  achievements: { firstBlood: { unlockedAt: '2025-01-01T00:00:00.000Z' } },
+  bestScores: { EASY: 1200, NORMAL: 800, HARD: 0 },
+  highestLevel: 3,
+  totals: { runs: 4, kills: { basic: 30, fast: 5, heavy: 1 }, shotsFired: 900, powerUps: { triple: 2 }, playTime: 60000 },
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+describe('parseProfile', () => {
+  it('round-trips the current version', () => {
+    const profile = createProfile();
+    profile.totals.kills.fast = 12;
+    profile.progress.sharpshooter = 40;
+    expect(parseProfile(JSON.parse(JSON.stringify(profile)))).toEqual(profile);
+  });
+
+  it('migrates a version 1 save all the way up, keeping what it had', () => {
+    const profile = parseProfile(structuredClone(VERSION_1));
+    expect(profile.version).toBe(PROFILE_VERSION);
+    expect(profile.achievements).toEqual(VERSION_1.achievements);
+    expect(profile.bestScores).toEqual(VERSION_1.bestScores);
+    expect(profile.highestLevel).toBe(3);
+    expect(profile.totals.kills).toEqual(VERSION_1.totals.kills);
+    expect(profile.totals.runs).toBe(4);
+    // What later versions added starts from scratch.
+    expect(profile.progress).toEqual({});
+    expect(profile.endless).toEqual({ time: 0, score: 0 });
+    expect(profile.totals.stardust).toBe(0);
+    expect(profile.ship).toBe(DEFAULT_SHIP);
+  });
+
+  it('migrates from every older version', () => {
+    for (let version = 1; version < PROFILE_VERSION; version++) {
+      expect(parseProfile({ ...structuredClone(VERSION_1), version }).version).toBe(PROFILE_VERSION);
+    }
+  });
+
+  it('drops junk values rather than failing', () => {
+    const profile = parseProfile({ ...createProfile(), bestScores: { EASY: -5, NORMAL: 'lots', HARD: 300 }, progress: { a: -1, b: 2 } });
+    expect(profile.bestScores).toEqual({ EASY: 0, NORMAL: 0, HARD: 300 });
+    expect(profile.progress).toEqual({ b: 2 });
+  });
+
+  it('refuses saves from a newer game and unknown versions', () => {
+    expect(() => parseProfile({ version: PROFILE_VERSION + 1 })).toThrow(/newer version/);
+    expect(() => parseProfile({ version: 'one' })).toThrow(/Unknown profile version/);
+    expect(() => parseProfile([])).toThrow(/not a JSON object/);
+  });
+});
+
+describe('recordStep', () => {
+  const coop = () => createWorld({ width: 800, height: 600, difficulty: 'NORMAL', seed: 1, players: 2 });
+  const events: GameEvent[] = [
+    { type: 'enemyKilled', enemy: 'basic', player: 0 },
+    { type: 'enemyKilled', enemy: 'heavy', player: 1 },
+    { type: 'shot', player: 1, weapon: 'single' },
+    { type: 'powerUpCollected', powerUp: 'shield', player: 1 },
+    { type: 'bossDefeated', boss: 'sentinel', flawless: false, player: 1 },
+  ];
+
+  it('adds up a run and keeps the best score for its difficulty', () => {
+    const world = createWorld({ width: 800, height: 600, difficulty: 'HARD', seed: 1 });
+    const profile = createProfile();
+    world.score = 700;
+    world.level = 2;
+    recordStep(profile, world, [{ type: 'enemyKilled', enemy: 'fast', player: 0 }, { type: 'shot', player: 0, weapon: 'single' }], 0);
+    world.score = 400;
+    recordStep(profile, world, [], 0);
+    expect(profile.totals.kills).toEqual({ basic: 0, fast: 1, heavy: 0 });
+    expect(profile.totals.shotsFired).toBe(1);
+    expect(profile.totals.stardust).toBe(SHOP.stardust.fast);
+    expect(profile.bestScores).toEqual({ EASY: 0, NORMAL: 0, HARD: 700 });
+    expect(profile.highestLevel).toBe(2);
+  });
+
+  it("credits a co-op pilot's profile with their own kills and pickups only", () => {
+    const first = createProfile();
+    recordStep(first, coop(), events, 0);
+    expect(first.totals.kills).toEqual({ basic: 1, fast: 0, heavy: 0 });
+    expect(first.totals.stardust).toBe(SHOP.stardust.basic);
+    expect(first.totals.shotsFired).toBe(0);
+
+    const second = createProfile();
+    recordStep(second, coop(), events, 1);
+    expect(second.totals.kills).toEqual({ basic: 0, fast: 0, heavy: 1 });
+    expect(second.totals.stardust).toBe(SHOP.stardust.heavy + SHOP.stardust.boss);
+    expect(second.totals.shotsFired).toBe(1);
+    expect(second.totals.powerUps.shield).toBe(1);
+  });
+
+  it('keeps personal bests to solo runs', () => {
+    const world = coop();
+    world.score = 5000;
+    const profile = createProfile();
+    recordStep(profile, world, [], 0);
+    expect(profile.bestScores.NORMAL).toBe(0);
+    expect(profile.highestLevel).toBe(1);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TICK_MS } from './constants';
+import { POWER_UP_TYPES } from './powerups';
+import { DEFAULT_SHIP, isShipId } from './ships';
+import { SHOP } from './shop';
+import type { Difficulty, EnemyType, GameEvent, PowerUpType, ShipId, World } from './types';
+
+// --- Player Profile ---
+// Everything that outlives a run: achievement unlocks, best scores and lifetime totals.
+// The front end keeps one profile, updates it as the simulation reports events and saves
+// it between runs. Saved profiles carry a version; older ones are upgraded through
+// MIGRATIONS on load, so a new field never means wiping someone's progress.
+
+export const PROFILE_VERSION = 5;
+
+const DIFFICULTIES: Difficulty[] = ['EASY', 'NORMAL', 'HARD'];
+const ENEMY_TYPES: EnemyType[] = ['basic', 'fast', 'heavy'];
+
+export interface AchievementRecord {
+  unlockedAt: string;
+}
+
+export interface LifetimeTotals {
+  /** Runs started, replays excluded. */
+  runs: number;
+  kills: Record<EnemyType, number>;
+  shotsFired: number;
+  powerUps: Record<PowerUpType, number>;
+  /** Milliseconds of simulated play; pauses and menus don't count. */
+  playTime: number;
+  /** Stardust earned over all runs, spent or not; unlocks shop upgrades (see shop.ts). */
+  stardust: number;
+}
+
+/** Personal bests of endless runs, which have no levels or difficulty to rank by. */
+export interface EndlessBests {
+  /** Longest survival, in milliseconds of simulated play. */
+  time: number;
+  score: number;
+}
+
+export interface Profile {
+  version: typeof PROFILE_VERSION;
+  /** Keyed by achievement id; only unlocked achievements have an entry. */
+  achievements: Record<string, AchievementRecord>;
+  /** Best progress towards each locked achievement with a goal, by id (see achievements.ts). */
+  progress: Record<string, number>;
+  /** Campaign runs only. */
+  bestScores: Record<Difficulty, number>;
+  highestLevel: number;
+  endless: EndlessBests;
+  totals: LifetimeTotals;
+  /** The ship last picked in the hangar. */
+  ship: ShipId;
+  updatedAt: string;
+}
+
+const countsFor = <K extends string>(keys: K[]) =>
+  Object.fromEntries(keys.map(k => [k, 0])) as Record<K, number>;
+
+export const createProfile = (): Profile => ({
+  version: PROFILE_VERSION,
+  achievements: {},
+  progress: {},
+  bestScores: countsFor(DIFFICULTIES),
+  highestLevel: 0,
+  endless: { time: 0, score: 0 },
+  totals: {
+    runs: 0,
+    kills: countsFor(ENEMY_TYPES),
+    shotsFired: 0,
+    powerUps: countsFor(POWER_UP_TYPES),
+    playTime: 0,
+    stardust: 0,
+  },
+  ship: DEFAULT_SHIP,
+  updatedAt: new Date().toISOString(),
+});
+
+// --- Recording ---
+
+export const recordRunStart = (profile: Profile) => {
+  profile.totals.runs += 1;
+};
+
+/**
+ * A pilot's own events out of a step: those they caused or that happened to them, plus the
+ * ones that belong to the whole team (a level cleared, a boss appearing).
+ */
+export const pilotEvents = (events: GameEvent[], slot: number) =>
+  events.filter(event => !('player' in event) || event.player === slot);
+
+/** Folds one simulated step into the lifetime totals and records of the pilot at `slot`. */
+export const recordStep = (profile: Profile, world: World, events: GameEvent[], slot: number) => {
+  const { totals } = profile;
+  totals.playTime += TICK_MS;
+  pilotEvents(events, slot).forEach(event => {
+    switch (event.type) {
+      case 'shot':
+        totals.shotsFired += 1;
+        break;
+      case 'enemyKilled':
+        totals.kills[event.enemy] += 1;
+        totals.stardust += SHOP.stardust[event.enemy];
+        break;
+      case 'bossDefeated':
+        totals.stardust += SHOP.stardust.boss;
+        break;
+      case 'powerUpCollected':
+        totals.powerUps[event.powerUp] += 1;
+        break;
+    }
+  });
+  // Co-op scores are a team's, so only solo runs count as personal bests.
+  const solo = world.players.length === 1;
+  if (world.mode === 'endless') {
+    if (solo) {
+      profile.endless.time = Math.max(profile.endless.time, world.time);
+      profile.endless.score = Math.max(profile.endless.score, world.score);
+    }
+    return;
+  }
+  if (solo) profile.bestScores[world.difficulty] = Math.max(profile.bestScores[world.difficulty], world.score);
+  profile.highestLevel = Math.max(profile.highestLevel, world.level);
+};
+
+/** Marks an achievement unlocked now. Returns false if it already was. */
+export const recordAchievement = (profile: Profile, id: string) => {
+  if (profile.achievements[id]) return false;
+  profile.achievements[id] = { unlockedAt: new Date().toISOString() };
+  return true;
+};
+
+// --- Loading ---
+
+/**
+ * Upgrades a profile saved at version `n` to `n + 1`. Add an entry whenever PROFILE_VERSION
+ * is bumped; fields a migration doesn't touch are filled in with defaults afterwards anyway.
+ */
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  // v2 added achievement progress; lifetime goals catch up from the totals on the next step.
+  1: data => ({ ...data, progress: {} }),
+  // v3 added endless bests, which start from zero.
+  2: data => ({ ...data, endless: { time: 0, score: 0 } }),
+  // v4 added lifetime stardust, which starts from zero.
+  3: data => ({ ...data, totals: isObject(data.totals) ? { ...data.totals, stardust: 0 } : data.totals }),
+  // v5 added the hangar's ship, which starts as the one everybody flew before.
+  4: data => ({ ...data, ship: DEFAULT_SHIP }),
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/** Copies the numeric entries of `source` over `defaults`, ignoring unknown keys and junk. */
+const mergeCounts = <T extends Record<string, number>>(defaults: T, source: unknown): T => {
+  if (!isObject(source)) return defaults;
+  (Object.keys(defaults) as (keyof T)[]).forEach(key => {
+    const value = source[key as string];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) defaults[key] = value as T[keyof T];
+  });
+  return defaults;
+};
+
+/**
+ * Validates untrusted JSON (local storage or an imported file) as a profile, migrating
+ * older versions. Throws with a readable message.
+ */
+export const parseProfile = (data: unknown): Profile => {
+  if (!isObject(data)) throw new Error('Profile is not a JSON object');
+  let version = data.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Unknown profile version: ${String(version)}`);
+  }
+  if (version > PROFILE_VERSION) throw new Error(`Profile was saved by a newer version of the game (v${version})`);
+
+  let raw = data;
+  while (version < PROFILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from profile version ${version}`);
+    raw = migrate(raw);
+    version += 1;
+  }
+
+  const profile = createProfile();
+  if (isObject(raw.achievements)) {
+    Object.entries(raw.achievements).forEach(([id, record]) => {
+      if (isObject(record) && typeof record.unlockedAt === 'string') profile.achievements[id] = { unlockedAt: record.unlockedAt };
+    });
+  }
+  if (isObject(raw.progress)) {
+    Object.entries(raw.progress).forEach(([id, value]) => {
+      if (typeof value === 'number' && Number.isFinite(value) && value > 0) profile.progress[id] = value;
+    });
+  }
+  mergeCounts(profile.bestScores, raw.bestScores);
+  if (typeof raw.highestLevel === 'number' && raw.highestLevel >= 0) profile.highestLevel = raw.highestLevel;
+  profile.endless = mergeCounts({ ...profile.endless }, raw.endless);
+  if (isObject(raw.totals)) {
+    const { totals } = profile;
+    const { kills, powerUps, ...counters } = raw.totals;
+    mergeCounts(totals.kills, kills);
+    mergeCounts(totals.powerUps, powerUps);
+    const merged = mergeCounts({ runs: totals.runs, shotsFired: totals.shotsFired, playTime: totals.playTime, stardust: totals.stardust }, counters);
+    Object.assign(totals, merged);
+  }
+  if (isShipId(raw.ship)) profile.ship = raw.ship;
+  if (typeof raw.updatedAt === 'string') profile.updatedAt = raw.updatedAt;
+  return profile;
+};
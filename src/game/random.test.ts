@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createRng, nextRandom } from './random';
+
+const draw = (seed: number, n: number) => {
+  const rng = createRng(seed);
+  return Array.from({ length: n }, () => nextRandom(rng));
+};
+
+describe('seeded random', () => {
+  it('repeats the same sequence for the same seed', () => {
+    expect(draw(42, 100)).toEqual(draw(42, 100));
+  });
+
+  it('gives different seeds different sequences', () => {
+    expect(draw(1, 10)).not.toEqual(draw(2, 10));
+  });
+
+  it('stays within [0, 1)', () => {
+    draw(7, 10_000).forEach(n => {
+      expect(n).toBeGreaterThanOrEqual(0);
+      expect(n).toBeLessThan(1);
+    });
+  });
+
+  it('carries on from a copied state exactly as the original would', () => {
+    const rng = createRng(9);
+    draw(9, 50).forEach(() => nextRandom(rng));
+    const copy = structuredClone(rng);
+    expect(nextRandom(copy)).toBe(nextRandom(rng));
+  });
+});
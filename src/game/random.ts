@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Seeded Random ---
+// mulberry32. The state is a plain object on the world so snapshots can be cloned
+// and replays reproduce every spawn, drop and particle exactly.
+
+export interface Rng {
+  state: number;
+}
+
+export const createRng = (seed: number): Rng => ({ state: seed >>> 0 });
+
+/** Returns a float in [0, 1) and advances the generator. */
+export const nextRandom = (rng: Rng) => {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/** A fresh seed for a new run. This is the only place gameplay touches Math.random. */
+export const randomSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
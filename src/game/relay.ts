@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { isShipId } from './ships';
+import { UPGRADE_IDS } from './shop';
+import type { Difficulty, GameMode, ShipId, UpgradeId } from './types';
+
+// --- Relay Protocol ---
+// Online co-op pairs two browsers in a room through the relay (server/rooms.ts). The relay
+// only hands out join codes, seats the two peers and forwards their messages; the game
+// itself runs in lockstep on both clients (lockstep.ts). Shared by the relay and the game
+// so both sides agree on what goes over the socket. Messages are JSON text frames.
+
+/** Where the relay accepts WebSocket connections, on the leaderboard server or the standalone relay. */
+export const RELAY_PATH = '/relay';
+/** Letters and digits that can't be mistaken for one another when read out. */
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const ROOM_CODE_LENGTH = 4;
+/** How long a room keeps a dropped peer's seat before closing. */
+export const REJOIN_GRACE_MS = 30_000;
+/** Largest message either side will accept. */
+export const MAX_MESSAGE_BYTES = 64 * 1024;
+
+const DIFFICULTIES: Difficulty[] = ['EASY', 'NORMAL', 'HARD'];
+const MODES: GameMode[] = ['campaign', 'endless'];
+
+/** Why the relay refused a request. */
+export type RoomError = 'notFound' | 'full' | 'expired' | 'malformed';
+
+/**
+ * Sent between the two clients through the relay, which passes it on unread. `run` is the
+ * seed of the run a message belongs to, so messages from an earlier run still in flight
+ * when the next one starts are dropped.
+ */
+export type PeerMessage =
+  /** The host starts a run; both clients build the same world from it. `ships` is by slot. */
+  | { type: 'start'; seed: number; difficulty: Difficulty; mode: GameMode; ships: ShipId[]; width: number; height: number }
+  /** The guest tells the host which ship they picked, for the next start. */
+  | { type: 'ship'; ship: ShipId }
+  /** The sender's inputs from tick `from` on, run-length encoded as in replays. */
+  | { type: 'inputs'; run: number; from: number; inputs: number[] }
+  /** Asks for the receiver's inputs from tick `from` on, after messages may have been lost. */
+  | { type: 'resend'; run: number; from: number }
+  | { type: 'hash'; run: number; tick: number; hash: number }
+  | { type: 'pause'; paused: boolean }
+  /** The host buys an upgrade while `level` is cleared; the guest buys the same. */
+  | { type: 'buy'; run: number; level: number; upgrade: UpgradeId }
+  /** Moves both pilots on to `level` once the current one is cleared. */
+  | { type: 'nextLevel'; run: number; level: number }
+  /** The guest asks the host for another run after a game over. */
+  | { type: 'retry' };
+
+/** Sent by a client to the relay. */
+export type ClientMessage =
+  | { type: 'create' }
+  | { type: 'join'; code: string }
+  /** Takes back a seat after a dropped connection, proven by the token the seat was given. */
+  | { type: 'rejoin'; code: string; token: string }
+  | { type: 'leave' }
+  | { type: 'peer'; data: PeerMessage };
+
+/** Sent by the relay to a client. */
+export type RelayMessage =
+  /** The client has a seat; `peer` is whether the other one is taken and connected. */
+  | { type: 'room'; code: string; slot: number; token: string; peer: boolean }
+  | { type: 'peerJoined' }
+  /** The other peer's connection dropped; their seat is kept for REJOIN_GRACE_MS. */
+  | { type: 'peerLost' }
+  | { type: 'peerReturned' }
+  /** The other peer left or never came back; the room is closed. */
+  | { type: 'peerLeft' }
+  | { type: 'peer'; data: PeerMessage }
+  | { type: 'error'; error: RoomError };
+
+/** A fresh join code, drawn from `random` (Math.random or a crypto source). */
+export const createRoomCode = (random: () => number = Math.random) =>
+  Array.from({ length: ROOM_CODE_LENGTH }, () => CODE_ALPHABET[Math.floor(random() * CODE_ALPHABET.length)]).join('');
+
+/** A typed code as the relay knows it: upper case, without spaces or dashes. */
+export const normalizeRoomCode = (code: string) => code.toUpperCase().replace(/[\s-]/g, '');
+
+export const isRoomCode = (code: string) =>
+  code.length === ROOM_CODE_LENGTH && [...code].every(c => CODE_ALPHABET.includes(c));
+
+// --- Parsing ---
+// Both ends treat what arrives as untrusted and throw with a readable message.
+
+const isInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/** The `run` every message but start, ship, pause and retry carries. */
+const parseRun = (data: Record<string, unknown>) => {
+  if (!isInteger(data.run)) throw new Error(`${String(data.type)} is missing its run`);
+  return data.run;
+};
+
+export const parsePeerMessage = (data: unknown): PeerMessage => {
+  if (!isRecord(data)) throw new Error('Peer message is not an object');
+  switch (data.type) {
+    case 'start':
+      if (!isInteger(data.seed)) throw new Error('Start is missing its seed');
+      if (!DIFFICULTIES.includes(data.difficulty as Difficulty)) throw new Error(`Unknown difficulty: ${String(data.difficulty)}`);
+      if (!MODES.includes(data.mode as GameMode)) throw new Error(`Unknown mode: ${String(data.mode)}`);
+      if (!Array.isArray(data.ships) || !data.ships.every(isShipId)) throw new Error('Start is missing its ships');
+      if (!isInteger(data.width) || !isInteger(data.height) || data.width <= 0 || data.height <= 0) throw new Error('Start is missing its screen size');
+      return { type: 'start', seed: data.seed, difficulty: data.difficulty as Difficulty, mode: data.mode as GameMode, ships: data.ships, width: data.width, height: data.height };
+    case 'ship':
+      if (!isShipId(data.ship)) throw new Error(`Unknown ship: ${String(data.ship)}`);
+      return { type: 'ship', ship: data.ship };
+    case 'inputs':
+      if (!isInteger(data.from) || data.from < 0) throw new Error('Inputs are missing their tick');
+      if (!Array.isArray(data.inputs) || !data.inputs.every(n => typeof n === 'number')) throw new Error('Inputs are malformed');
+      return { type: 'inputs', run: parseRun(data), from: data.from, inputs: data.inputs };
+    case 'resend':
+      if (!isInteger(data.from) || data.from < 0) throw new Error('Resend is missing its tick');
+      return { type: 'resend', run: parseRun(data), from: data.from };
+    case 'hash':
+      if (!isInteger(data.tick) || !isInteger(data.hash)) throw new Error('Hash is malformed');
+      return { type: 'hash', run: parseRun(data), tick: data.tick, hash: data.hash };
+    case 'pause':
+      if (typeof data.paused !== 'boolean') throw new Error('Pause is malformed');
+      return { type: 'pause', paused: data.paused };
+    case 'buy':
+      if (!isInteger(data.level) || !UPGRADE_IDS.includes(data.upgrade as UpgradeId)) throw new Error('Buy is malformed');
+      return { type: 'buy', run: parseRun(data), level: data.level, upgrade: data.upgrade as UpgradeId };
+    case 'nextLevel':
+      if (!isInteger(data.level) || data.level < 2) throw new Error('Next level is malformed');
+      return { type: 'nextLevel', run: parseRun(data), level: data.level };
+    case 'retry':
+      return { type: 'retry' };
+    default:
+      throw new Error(`Unknown peer message: ${String(data.type)}`);
+  }
+};
+
+/** Used by the relay. Peer data is only checked to be an object; the other client parses it. */
+export const parseClientMessage = (data: unknown): ClientMessage => {
+  if (!isRecord(data)) throw new Error('Message is not an object');
+  switch (data.type) {
+    case 'create':
+    case 'leave':
+      return { type: data.type };
+    case 'join':
+      if (typeof data.code !== 'string') throw new Error('Join is missing its code');
+      return { type: 'join', code: normalizeRoomCode(data.code) };
+    case 'rejoin':
+      if (typeof data.code !== 'string' || typeof data.token !== 'string') throw new Error('Rejoin is missing its code or token');
+      return { type: 'rejoin', code: normalizeRoomCode(data.code), token: data.token };
+    case 'peer':
+      if (!isRecord(data.data)) throw new Error('Peer data is not an object');
+      return { type: 'peer', data: data.data as PeerMessage };
+    default:
+      throw new Error(`Unknown message: ${String(data.type)}`);
+  }
+};
+
+/** Used by the game, on what the relay sends. */
+export const parseRelayMessage = (data: unknown): RelayMessage => {
+  if (!isRecord(data)) throw new Error('Relay message is not an object');
+  switch (data.type) {
+    case 'room':
+      if (typeof data.code !== 'string' || !isInteger(data.slot) || typeof data.token !== 'string') throw new Error('Room is malformed');
+      return { type: 'room', code: data.code, slot: data.slot, token: data.token, peer: data.peer === true };
+    case 'peerJoined':
+    case 'peerLost':
+    case 'peerReturned':
+    case 'peerLeft':
+      return { type: data.type };
+    case 'peer':
+      return { type: 'peer', data: parsePeerMessage(data.data) };
+    case 'error':
+      return { type: 'error', error: data.error as RoomError };
+    default:
+      throw new Error(`Unknown relay message: ${String(data.type)}`);
+  }
+};
@@ -0,0 +1,195 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { hashWorld } from './lockstep';
+import {
+  countTicks,
+  createPlayback,
+  createRecorder,
+  decodeStream,
+  encodeStream,
+  finishRecording,
+  isPlaybackFinished,
+  parseReplay,
+  recordInput,
+  recordPurchase,
+  REPLAY_VERSION,
+  seekPlayback,
+  stepPlayback,
+  type Replay,
+} from './replay';
+import { buyUpgrade } from './shop';
+import { createWorld, NO_INPUT, startNextLevel, step } from './simulation';
+import type { Difficulty, PlayerInput, ShipId, World } from './types';
+
+const input = (fields: Partial<PlayerInput>): PlayerInput => ({ ...NO_INPUT, ...fields });
+
+interface RunOptions {
+  players?: number;
+  difficulty?: Difficulty;
+  ships?: ShipId[];
+  maxTicks?: number;
+}
+
+/** Plays a run the way the game does, recording it; buys speed whenever a level is cleared. */
+const playRun = (inputAt: (tick: number, slot: number) => PlayerInput, { players = 1, difficulty = 'NORMAL', ships, maxTicks = 4000 }: RunOptions = {}) => {
+  const world = createWorld({ width: 800, height: 600, difficulty, seed: 1234, players, ships });
+  const recorder = createRecorder(world);
+  while (world.tick < maxTicks && world.status !== 'GAMEOVER') {
+    if (world.status === 'LEVEL_COMPLETE') {
+      if (buyUpgrade(world, 'moveSpeed')) recordPurchase(recorder, world, 'moveSpeed');
+      startNextLevel(world);
+    }
+    const frame = world.players.map(p => inputAt(world.tick, p.slot));
+    recordInput(recorder, frame);
+    step(world, frame);
+  }
+  return { world, replay: finishRecording(recorder, world) };
+};
+
+/** Sweeps side to side firing, with a charge shot and a special now and then. */
+const busyPilot = (tick: number, slot: number) => input({
+  left: (tick + slot * 60) % 180 < 90,
+  right: (tick + slot * 60) % 180 >= 90,
+  fire: tick % 200 < 150,
+  charge: tick % 200 >= 150,
+  special: tick % 600 === 300,
+  bomb: tick % 900 === 450,
+});
+
+const replayToEnd = (replay: Replay) => {
+  const playback = createPlayback(replay, false);
+  while (!isPlaybackFinished(playback)) stepPlayback(playback);
+  return playback.world;
+};
+
+const sameOutcome = (live: World, replayed: World) => {
+  expect(replayed.tick).toBe(live.tick);
+  expect(replayed.score).toBe(live.score);
+  expect(replayed.level).toBe(live.level);
+  expect(replayed.status).toBe(live.status);
+  expect(hashWorld(replayed)).toBe(hashWorld(live));
+};
+
+describe('input streams', () => {
+  it('round-trips keys, buttons, the pointer and the stick', () => {
+    const frames = [
+      input({ left: true, fire: true }),
+      input({ right: true, charge: true }),
+      input({ pointer: { x: 120, y: 340 } }),
+      input({ move: { x: -100, y: 35 }, special: true }),
+      input({ bomb: true, up: true, down: true }),
+      NO_INPUT,
+    ];
+    expect(decodeStream(encodeStream(frames))).toEqual(frames);
+  });
+
+  it('stores identical consecutive ticks as one run', () => {
+    const held = input({ fire: true, pointer: { x: 1, y: 2 } });
+    const encoded = encodeStream(Array.from({ length: 500 }, () => held));
+    expect(encoded).toHaveLength(4);
+    expect(countTicks(encoded)).toBe(500);
+  });
+
+  it('counts ticks without decoding, and flags a broken run length', () => {
+    expect(countTicks(encodeStream([NO_INPUT, input({ fire: true }), input({ fire: true })]))).toBe(3);
+    expect(countTicks([0, 0])).toBeNaN();
+    expect(countTicks([1.5, 0])).toBeNaN();
+  });
+});
+
+describe('parseReplay', () => {
+  const { replay } = playRun(busyPilot, { maxTicks: 600 });
+  const json = () => JSON.parse(JSON.stringify(replay));
+
+  it('accepts a recorded replay after a trip through JSON', () => {
+    expect(parseReplay(json())).toEqual(replay);
+  });
+
+  it('rejects other versions', () => {
+    expect(() => parseReplay({ ...json(), version: REPLAY_VERSION - 1 })).toThrow(/version/);
+  });
+
+  it('rejects inputs that disagree with the tick count', () => {
+    expect(() => parseReplay({ ...json(), ticks: replay.ticks + 1 })).toThrow(/tick count/);
+  });
+
+  it('rejects a pilot count that does not match the ships and inputs', () => {
+    expect(() => parseReplay({ ...json(), players: 2 })).toThrow(/ships/);
+    expect(() => parseReplay({ ...json(), players: 0 })).toThrow(/pilot count/);
+  });
+
+  it('rejects purchases of unknown upgrades', () => {
+    expect(() => parseReplay({ ...json(), purchases: [{ tick: 1, upgrade: 'laserEyes' }] })).toThrow(/purchases/);
+  });
+
+  it('rejects resizes that are not real screen sizes within the run', () => {
+    const resized = (resize: unknown) => () => parseReplay({ ...json(), resizes: [resize] });
+    expect(resized({ tick: 10, width: 640, height: 480 })).not.toThrow();
+    expect(resized(null)).toThrow(/resizes/);
+    expect(resized({ tick: 10, width: '640', height: 480 })).toThrow(/resizes/);
+    expect(resized({ tick: 10, width: 640, height: 0 })).toThrow(/resizes/);
+    expect(resized({ tick: replay.ticks + 1, width: 640, height: 480 })).toThrow(/resizes/);
+  });
+
+  it('rejects more resizes or purchases than a run could make', () => {
+    const resizes = Array.from({ length: 10_001 }, () => ({ tick: 1, width: 640, height: 480 }));
+    expect(() => parseReplay({ ...json(), resizes })).toThrow(/resizes/);
+    const purchases = Array.from({ length: 1000 }, () => ({ tick: 1, upgrade: 'damage' }));
+    expect(() => parseReplay({ ...json(), purchases })).toThrow(/purchases/);
+  });
+});
+
+describe('playback', () => {
+  it('ends exactly where the recorded run did', () => {
+    const { world, replay } = playRun(busyPilot);
+    sameOutcome(world, replayToEnd(parseReplay(JSON.parse(JSON.stringify(replay)))));
+  });
+
+  it('replays a run through a level change and a purchase', () => {
+    // The sturdiest ship sweeping slowly on EASY clears the first level on this seed.
+    const sweep = (tick: number) => input({ fire: true, left: tick % 120 < 60, right: tick % 120 >= 60, bomb: tick % 300 === 0 });
+    const { world, replay } = playRun(sweep, { difficulty: 'EASY', ships: ['bulwark'], maxTicks: 6000 });
+    expect(world.level).toBeGreaterThan(1);
+    expect(replay.purchases).not.toHaveLength(0);
+    sameOutcome(world, replayToEnd(replay));
+  });
+
+  it('replays co-op runs, with each pilot on their own stream', () => {
+    const { world, replay } = playRun(busyPilot, { players: 2 });
+    expect(replay.inputs).toHaveLength(2);
+    sameOutcome(world, replayToEnd(replay));
+  });
+
+  it('replays pointer and stick input', () => {
+    const { world, replay } = playRun(tick => input({
+      fire: true,
+      pointer: tick % 3 === 0 ? { x: 400 + Math.round(200 * Math.sin(tick / 40)), y: 520 } : null,
+      move: tick % 500 < 100 ? { x: 60, y: -20 } : null,
+    }));
+    sameOutcome(world, replayToEnd(replay));
+  });
+
+  it('resizes the world on the recorded tick', () => {
+    const { replay } = playRun(busyPilot, { maxTicks: 300 });
+    const playback = createPlayback({ ...replay, resizes: [{ tick: 100, width: 640, height: 480 }] }, false);
+    while (playback.world.tick < 100) stepPlayback(playback);
+    expect(playback.world.width).toBe(800);
+    stepPlayback(playback);
+    expect(playback.world).toMatchObject({ width: 640, height: 480 });
+  });
+
+  it('seeks backwards and forwards to the same state as playing straight through', () => {
+    const { replay } = playRun(busyPilot, { maxTicks: 1500 });
+    const straight = createPlayback(replay);
+    while (straight.world.tick < 1000) stepPlayback(straight);
+    const scrubbed = createPlayback(replay);
+    seekPlayback(scrubbed, 1400);
+    seekPlayback(scrubbed, 1000);
+    expect(scrubbed.world.tick).toBe(1000);
+    expect(hashWorld(scrubbed.world)).toBe(hashWorld(straight.world));
+  });
+});
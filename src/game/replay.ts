@@ -0,0 +1,353 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MAX_PLAYERS } from './constants';
+import { isShipId } from './ships';
+import { buyUpgrade, SHOP, UPGRADE_IDS } from './shop';
+import { createWorld, resizeWorld, startNextLevel, step } from './simulation';
+import type { Difficulty, GameEvent, GameMode, PlayerInput, ShipId, UpgradeId, World } from './types';
+
+// --- Replays ---
+// A run is fully described by its seed, starting size, pilot count and the input fed to
+// every pilot on every tick. Each pilot's inputs are stored run-length encoded as a flat
+// number array:
+//   count, bits[, pointerX, pointerY][, moveX, moveY]
+// where `bits` is a mask of INPUT_BITS; pointer coordinates follow only when POINTER is set
+// and stick deflection only when MOVE is set.
+// Version 2 stocks bombs instead of detonating them on pickup, so version 1 runs no longer replay.
+// Version 3 keeps one input array per pilot for co-op; version 2 runs are solo runs and load as such.
+// Version 4 records the mode; earlier runs are all campaign runs.
+// Version 5 records upgrades bought between levels; earlier runs had no shop.
+// Version 6 records each pilot's ship and adds the special bit; earlier runs flew the default ship.
+// Version 7 adds weapon pickups to the drops and the charge bit, so earlier runs no longer replay.
+
+export const REPLAY_VERSION = 7;
+
+const INPUT_BITS = {
+  LEFT: 1,
+  RIGHT: 2,
+  UP: 4,
+  DOWN: 8,
+  FIRE: 16,
+  POINTER: 32,
+  BOMB: 64,
+  MOVE: 128,
+  SPECIAL: 256,
+  CHARGE: 512,
+};
+
+/** Ticks between cached snapshots used for scrubbing. */
+const KEYFRAME_INTERVAL = 300;
+
+/** More resizes than any real run records; a window dragged around for a while stays far below it. */
+const MAX_RESIZES = 10_000;
+
+/** Every level of every upgrade; a run can never buy more. */
+const MAX_PURCHASES = SHOP.upgrades.reduce((sum, u) => sum + u.prices.length, 0);
+
+export interface ReplayResize {
+  tick: number;
+  width: number;
+  height: number;
+}
+
+/** An upgrade bought while the level that ended on `tick` was complete. */
+export interface ReplayPurchase {
+  tick: number;
+  upgrade: UpgradeId;
+}
+
+export interface Replay {
+  version: typeof REPLAY_VERSION;
+  seed: number;
+  difficulty: Difficulty;
+  mode: GameMode;
+  width: number;
+  height: number;
+  /** Pilots in the run; `inputs` and `ships` have one entry for each. */
+  players: number;
+  ships: ShipId[];
+  ticks: number;
+  inputs: number[][];
+  resizes: ReplayResize[];
+  purchases: ReplayPurchase[];
+  score: number;
+  level: number;
+  recordedAt: string;
+}
+
+const encodeBits = (input: PlayerInput) =>
+  (input.left ? INPUT_BITS.LEFT : 0) |
+  (input.right ? INPUT_BITS.RIGHT : 0) |
+  (input.up ? INPUT_BITS.UP : 0) |
+  (input.down ? INPUT_BITS.DOWN : 0) |
+  (input.fire ? INPUT_BITS.FIRE : 0) |
+  (input.bomb ? INPUT_BITS.BOMB : 0) |
+  (input.special ? INPUT_BITS.SPECIAL : 0) |
+  (input.charge ? INPUT_BITS.CHARGE : 0) |
+  (input.pointer ? INPUT_BITS.POINTER : 0) |
+  (input.move ? INPUT_BITS.MOVE : 0);
+
+const decodeBits = (bits: number, pointer: PlayerInput['pointer'], move: PlayerInput['move']): PlayerInput => ({
+  left: (bits & INPUT_BITS.LEFT) !== 0,
+  right: (bits & INPUT_BITS.RIGHT) !== 0,
+  up: (bits & INPUT_BITS.UP) !== 0,
+  down: (bits & INPUT_BITS.DOWN) !== 0,
+  fire: (bits & INPUT_BITS.FIRE) !== 0,
+  bomb: (bits & INPUT_BITS.BOMB) !== 0,
+  special: (bits & INPUT_BITS.SPECIAL) !== 0,
+  charge: (bits & INPUT_BITS.CHARGE) !== 0,
+  pointer,
+  move,
+});
+
+/** Numbers one run takes up in `inputs`, given its bits. */
+const runSize = (bits: number) =>
+  2 + (bits & INPUT_BITS.POINTER ? 2 : 0) + (bits & INPUT_BITS.MOVE ? 2 : 0);
+
+// --- Recording ---
+
+export interface ReplayRecorder {
+  replay: Replay;
+  /** Per pilot, the index in their stream of the last run, so identical consecutive ticks extend it. */
+  lastRun: number[];
+}
+
+export const createRecorder = (world: World): ReplayRecorder => ({
+  replay: {
+    version: REPLAY_VERSION,
+    seed: world.seed,
+    difficulty: world.difficulty,
+    mode: world.mode,
+    width: world.width,
+    height: world.height,
+    players: world.players.length,
+    ships: world.players.map(p => p.ship),
+    ticks: 0,
+    inputs: world.players.map(() => []),
+    resizes: [],
+    purchases: [],
+    score: 0,
+    level: 1,
+    recordedAt: new Date().toISOString(),
+  },
+  lastRun: world.players.map(() => -1),
+});
+
+/**
+ * Appends one tick's input to a stream, extending the run at `last` when it is identical.
+ * Returns the index of the stream's last run.
+ */
+const appendInput = (inputs: number[], last: number, input: PlayerInput) => {
+  const bits = encodeBits(input);
+  const extra: number[] = [];
+  if (input.pointer) extra.push(input.pointer.x, input.pointer.y);
+  if (input.move) extra.push(input.move.x, input.move.y);
+  const sameAsLast = last >= 0 && inputs[last + 1] === bits && extra.every((n, i) => inputs[last + 2 + i] === n);
+
+  if (sameAsLast) {
+    inputs[last] += 1;
+    return last;
+  }
+  inputs.push(1, bits, ...extra);
+  return inputs.length - 2 - extra.length;
+};
+
+/** Records the inputs about to be fed to the next tick, one per pilot. */
+export const recordInput = (recorder: ReplayRecorder, frame: PlayerInput[]) => {
+  recorder.replay.inputs.forEach((inputs, slot) => {
+    recorder.lastRun[slot] = appendInput(inputs, recorder.lastRun[slot], frame[slot]);
+  });
+  recorder.replay.ticks += 1;
+};
+
+export const recordResize = (recorder: ReplayRecorder, world: World) => {
+  recorder.replay.resizes.push({ tick: world.tick, width: world.width, height: world.height });
+};
+
+export const recordPurchase = (recorder: ReplayRecorder, world: World, upgrade: UpgradeId) => {
+  recorder.replay.purchases.push({ tick: world.tick, upgrade });
+};
+
+/** Stamps the final result onto the replay and returns it. */
+export const finishRecording = (recorder: ReplayRecorder, world: World): Replay => {
+  recorder.replay.score = world.score;
+  recorder.replay.level = world.level;
+  return recorder.replay;
+};
+
+/** One pilot's inputs over consecutive ticks, in the stream format above (online co-op sends them this way). */
+export const encodeStream = (frames: PlayerInput[]) => {
+  const inputs: number[] = [];
+  let last = -1;
+  frames.forEach(input => {
+    last = appendInput(inputs, last, input);
+  });
+  return inputs;
+};
+
+export const decodeStream = (inputs: number[]): PlayerInput[] => {
+  const frames: PlayerInput[] = [];
+  let i = 0;
+  while (i < inputs.length) {
+    const count = inputs[i];
+    const bits = inputs[i + 1];
+    i += 2;
+    let pointer: PlayerInput['pointer'] = null;
+    let move: PlayerInput['move'] = null;
+    if (bits & INPUT_BITS.POINTER) {
+      pointer = { x: inputs[i], y: inputs[i + 1] };
+      i += 2;
+    }
+    if (bits & INPUT_BITS.MOVE) {
+      move = { x: inputs[i], y: inputs[i + 1] };
+      i += 2;
+    }
+    for (let n = 0; n < count; n++) frames.push(decodeBits(bits, pointer, move));
+  }
+  return frames;
+};
+
+/** Every tick's inputs, one per pilot. */
+export const decodeInputs = (replay: Replay): PlayerInput[][] => {
+  const streams = replay.inputs.map(decodeStream);
+  return Array.from({ length: replay.ticks }, (_, tick) => streams.map(stream => stream[tick]));
+};
+
+/** Number of ticks an input stream covers, without expanding it; NaN if a run length is invalid. */
+export const countTicks = (inputs: number[]) => {
+  let ticks = 0;
+  for (let i = 0; i < inputs.length; i += runSize(inputs[i + 1])) {
+    if (!Number.isInteger(inputs[i]) || inputs[i] < 1) return NaN;
+    ticks += inputs[i];
+  }
+  return ticks;
+};
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(n => typeof n === 'number');
+
+/** Resizes and purchases can only happen between the first tick and the last. */
+const isTickOf = (tick: unknown, ticks: number) =>
+  Number.isInteger(tick) && (tick as number) >= 0 && (tick as number) <= ticks;
+
+const isSize = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isResize = (value: unknown, ticks: number) => {
+  const r = value as Partial<ReplayResize> | null;
+  return !!r && typeof r === 'object' && isTickOf(r.tick, ticks) && isSize(r.width) && isSize(r.height);
+};
+
+const isPurchase = (value: unknown, ticks: number) => {
+  const p = value as Partial<ReplayPurchase> | null;
+  return !!p && typeof p === 'object' && isTickOf(p.tick, ticks) && UPGRADE_IDS.includes(p.upgrade as UpgradeId);
+};
+
+/** Validates untrusted JSON (a loaded file) as a replay. Throws with a readable message. */
+export const parseReplay = (data: unknown): Replay => {
+  if (!data || typeof data !== 'object') throw new Error('Replay file is not a JSON object');
+  const r = data as Partial<Replay>;
+  if (r.version !== REPLAY_VERSION) throw new Error(`Unsupported replay version: ${String(r.version)}`);
+  if (typeof r.seed !== 'number') throw new Error('Replay is missing its seed');
+  if (r.difficulty !== 'EASY' && r.difficulty !== 'NORMAL' && r.difficulty !== 'HARD') {
+    throw new Error(`Unknown difficulty: ${String(r.difficulty)}`);
+  }
+  if (r.mode !== 'campaign' && r.mode !== 'endless') throw new Error(`Unknown mode: ${String(r.mode)}`);
+  if (!isSize(r.width) || !isSize(r.height)) throw new Error('Replay is missing its screen size');
+  if (typeof r.players !== 'number' || !Number.isInteger(r.players) || r.players < 1 || r.players > MAX_PLAYERS) {
+    throw new Error(`Unsupported pilot count: ${String(r.players)}`);
+  }
+  if (!Array.isArray(r.ships) || r.ships.length !== r.players || !r.ships.every(isShipId)) throw new Error('Replay ships are malformed');
+  if (!Array.isArray(r.inputs) || r.inputs.length !== r.players || !r.inputs.every(isNumberArray)) throw new Error('Replay inputs are malformed');
+  if (!Number.isInteger(r.ticks) || r.ticks < 0) throw new Error('Replay tick count is malformed');
+  if (!Array.isArray(r.resizes) || r.resizes.length > MAX_RESIZES || !r.resizes.every(x => isResize(x, r.ticks))) {
+    throw new Error('Replay resizes are malformed');
+  }
+  if (!Array.isArray(r.purchases) || r.purchases.length > MAX_PURCHASES || !r.purchases.every(x => isPurchase(x, r.ticks))) {
+    throw new Error('Replay purchases are malformed');
+  }
+
+  const replay = r as Replay;
+  // Counted rather than decoded: a forged run length could otherwise expand into a huge array.
+  if (replay.inputs.some(inputs => countTicks(inputs) !== replay.ticks)) throw new Error('Replay tick count does not match its inputs');
+  return replay;
+};
+
+// --- Playback ---
+
+export interface Playback {
+  replay: Replay;
+  /** Each tick's inputs, one per pilot. */
+  frames: PlayerInput[][];
+  world: World;
+  /** Snapshots keyed by tick, filled in as playback passes them. */
+  keyframes: Map<number, World>;
+  /** Whether to take snapshots at all; playback that never seeks (verification) skips them. */
+  scrubbable: boolean;
+  /** The replay's resizes and purchases grouped by tick, so each step looks up only its own. */
+  resizes: Map<number, ReplayResize[]>;
+  purchases: Map<number, ReplayPurchase[]>;
+}
+
+/** Groups entries by their tick, keeping their order within a tick. */
+const byTick = <T extends { tick: number }>(entries: T[]) => {
+  const index = new Map<number, T[]>();
+  entries.forEach(entry => {
+    const group = index.get(entry.tick);
+    if (group) group.push(entry);
+    else index.set(entry.tick, [entry]);
+  });
+  return index;
+};
+
+const initialWorld = (replay: Replay) =>
+  createWorld({ width: replay.width, height: replay.height, difficulty: replay.difficulty, mode: replay.mode, seed: replay.seed, players: replay.players, ships: replay.ships });
+
+export const createPlayback = (replay: Replay, scrubbable = true): Playback => {
+  const world = initialWorld(replay);
+  return {
+    replay,
+    frames: decodeInputs(replay),
+    world,
+    keyframes: new Map([[0, structuredClone(world)]]),
+    scrubbable,
+    resizes: byTick(replay.resizes),
+    purchases: byTick(replay.purchases),
+  };
+};
+
+export const isPlaybackFinished = (playback: Playback) =>
+  playback.world.tick >= playback.frames.length || playback.world.status === 'GAMEOVER';
+
+/** Simulates one recorded tick, shopping and moving on to the next level the way the player did. */
+export const stepPlayback = (playback: Playback): GameEvent[] => {
+  if (isPlaybackFinished(playback)) return [];
+  const { world, frames } = playback;
+
+  playback.resizes.get(world.tick)?.forEach(r => resizeWorld(world, r.width, r.height));
+  if (world.status === 'LEVEL_COMPLETE') {
+    playback.purchases.get(world.tick)?.forEach(p => buyUpgrade(world, p.upgrade));
+    startNextLevel(world);
+  }
+
+  const events = step(world, frames[world.tick]);
+  if (playback.scrubbable && world.tick % KEYFRAME_INTERVAL === 0 && !playback.keyframes.has(world.tick)) {
+    playback.keyframes.set(world.tick, structuredClone(world));
+  }
+  return events;
+};
+
+/** Jumps to `tick` by re-simulating from the nearest earlier snapshot. */
+export const seekPlayback = (playback: Playback, tick: number) => {
+  const target = Math.max(0, Math.min(tick, playback.frames.length));
+  let from = 0;
+  playback.keyframes.forEach((_, t) => {
+    if (t <= target && t > from) from = t;
+  });
+  playback.world = structuredClone(playback.keyframes.get(from)!);
+  while (playback.world.tick < target && !isPlaybackFinished(playback)) {
+    stepPlayback(playback);
+  }
+};
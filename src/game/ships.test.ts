@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createProfile } from './profile';
+import { DEFAULT_SHIP, isShipId, isShipUnlocked, SHIP_IDS, SHIPS } from './ships';
+import { createWorld } from './simulation';
+
+describe('isShipUnlocked', () => {
+  it('always offers the default ship', () => {
+    expect(isShipUnlocked(createProfile(), DEFAULT_SHIP)).toBe(true);
+    expect(SHIP_IDS.filter(id => isShipUnlocked(createProfile(), id))).toEqual([DEFAULT_SHIP]);
+  });
+
+  it('unlocks ships by achievement', () => {
+    const profile = createProfile();
+    profile.achievements.survivor = { unlockedAt: '2025-01-01T00:00:00.000Z' };
+    expect(isShipUnlocked(profile, 'interceptor')).toBe(true);
+  });
+
+  it('unlocks ships by the best score on any difficulty or in endless runs', () => {
+    const profile = createProfile();
+    profile.bestScores.EASY = 9999;
+    expect(isShipUnlocked(profile, 'bulwark')).toBe(false);
+    profile.endless.score = 10000;
+    expect(isShipUnlocked(profile, 'bulwark')).toBe(true);
+  });
+});
+
+describe('ships in a run', () => {
+  it('fly with their own stats', () => {
+    const world = createWorld({ width: 800, height: 600, difficulty: 'NORMAL', seed: 1, players: 2, ships: ['bulwark', 'interceptor'] });
+    expect(world.players.map(p => p.ship)).toEqual(['bulwark', 'interceptor']);
+    expect(world.players.map(p => p.maxHealth)).toEqual([SHIPS.bulwark.maxHealth, SHIPS.interceptor.maxHealth]);
+    expect(world.players.map(p => p.speed)).toEqual([SHIPS.bulwark.speed, SHIPS.interceptor.speed]);
+  });
+
+  it('default to the starter ship', () => {
+    const world = createWorld({ width: 800, height: 600, difficulty: 'NORMAL', seed: 1 });
+    expect(world.players[0].ship).toBe(DEFAULT_SHIP);
+  });
+
+  it('are told apart from other strings', () => {
+    expect(isShipId('phantom')).toBe(true);
+    expect(isShipId('toString')).toBe(false);
+  });
+});
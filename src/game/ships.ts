@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Hitbox } from './collision';
+import type { Profile } from './profile';
+import type { AbilityId, ShipId, WeaponPattern } from './types';
+
+// --- Ship Registry ---
+// Everything that sets one ship apart lives in its entry here: size and hitbox, handling,
+// the primary weapon (see weapons.ts), the special and how the ship is unlocked. Pilots pick
+// a ship in the hangar before launch; the choice is part of the run (replays, leaderboard
+// entries). Upgrades from the shop build on a ship's stats rather than replacing them.
+
+export type ShipUnlock =
+  | { type: 'default' }
+  /** Unlocked with an achievement, by id. */
+  | { type: 'achievement'; id: string }
+  /** Unlocked once any personal best reaches `score`. */
+  | { type: 'score'; score: number };
+
+/** Names and descriptions are in the i18n catalogs, under the ship's id. */
+export interface ShipDefinition {
+  /** Size the ship is drawn at. */
+  width: number;
+  height: number;
+  /** What enemy fire has to touch; much smaller than the ship. */
+  hitbox: Hitbox;
+  /** Keyboard movement per tick. */
+  speed: number;
+  /** Milliseconds between shots. */
+  fireCooldown: number;
+  maxHealth: number;
+  weapon: WeaponPattern;
+  ability: AbilityId;
+  /** Image path; drawn from `outline` when missing or not loaded. */
+  sprite?: string;
+  /** Corners of the vector fallback around the ship's centre, nose up. */
+  outline: [number, number][];
+  unlock: ShipUnlock;
+}
+
+/** Ids are saved in profiles, replays and leaderboard entries; never rename one. */
+export const SHIPS: Record<ShipId, ShipDefinition> = {
+  pioneer: {
+    width: 60, height: 60, hitbox: { shape: 'circle', radius: 16 },
+    speed: 6, fireCooldown: 150, maxHealth: 3,
+    weapon: 'single', ability: 'overdrive',
+    sprite: '/assets/player.png',
+    outline: [[0, -25], [-20, 15], [0, 5], [20, 15]],
+    unlock: { type: 'default' },
+  },
+  interceptor: {
+    width: 50, height: 56, hitbox: { shape: 'circle', radius: 12 },
+    speed: 8, fireCooldown: 130, maxHealth: 2,
+    weapon: 'twin', ability: 'phase',
+    outline: [[0, -28], [-8, -6], [-22, 18], [-6, 10], [0, 16], [6, 10], [22, 18], [8, -6]],
+    unlock: { type: 'achievement', id: 'survivor' },
+  },
+  bulwark: {
+    width: 76, height: 70, hitbox: { shape: 'circle', radius: 22 },
+    speed: 4.5, fireCooldown: 220, maxHealth: 5,
+    weapon: 'spread', ability: 'barrier',
+    outline: [[0, -26], [-16, -16], [-30, 10], [-18, 24], [18, 24], [30, 10], [16, -16]],
+    unlock: { type: 'score', score: 10000 },
+  },
+  phantom: {
+    width: 56, height: 62, hitbox: { shape: 'circle', radius: 14 },
+    speed: 6.5, fireCooldown: 200, maxHealth: 3,
+    weapon: 'needle', ability: 'nova',
+    outline: [[0, -30], [-6, -4], [-24, 4], [-8, 12], [0, 28], [8, 12], [24, 4], [6, -4]],
+    unlock: { type: 'achievement', id: 'boss_slayer' },
+  },
+};
+
+export const SHIP_IDS = Object.keys(SHIPS) as ShipId[];
+
+export const DEFAULT_SHIP: ShipId = 'pioneer';
+
+export const isShipId = (value: unknown): value is ShipId => SHIP_IDS.includes(value as ShipId);
+
+/** The best score the unlock milestones count: any difficulty's or endless. */
+const bestScore = (profile: Profile) => Math.max(profile.endless.score, ...Object.values(profile.bestScores));
+
+export const isShipUnlocked = (profile: Profile, id: ShipId) => {
+  const unlock = SHIPS[id].unlock;
+  switch (unlock.type) {
+    case 'default':
+      return true;
+    case 'achievement':
+      return !!profile.achievements[unlock.id];
+    case 'score':
+      return bestScore(profile) >= unlock.score;
+  }
+};
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import shopJson from '../data/shop.json';
+import { createWorld } from './simulation';
+import { buyUpgrade, isUnlocked, nextPrice, ShopValidationError, UPGRADES, validateShop } from './shop';
+
+const shop = () => structuredClone(shopJson) as unknown as { version: number; stardust: Record<string, unknown>; upgrades: Record<string, unknown>[] };
+
+/** The issues validating `data` reports; none if it passes. */
+const issuesOf = (data: unknown) => {
+  try {
+    validateShop(data);
+    return [];
+  } catch (err) {
+    if (!(err instanceof ShopValidationError)) throw err;
+    return err.issues;
+  }
+};
+
+describe('validateShop', () => {
+  it('accepts the bundled shop', () => {
+    expect(issuesOf(shop())).toEqual([]);
+  });
+
+  it('refuses other shop versions before looking further', () => {
+    expect(issuesOf({ ...shop(), version: 2 })).toEqual(['version: expected 1, got 2']);
+  });
+
+  it('reports bad prices, bonuses and rewards, each with its path', () => {
+    const data = shop();
+    data.stardust.boss = -5;
+    data.upgrades[0].prices = [100, 50.5, 200];
+    data.upgrades[1].bonuses = [0.2, 0.1, 0.3, 0.4];
+    const issues = issuesOf(data);
+    expect(issues).toEqual([
+      expect.stringMatching(/^stardust\.boss:/),
+      expect.stringMatching(/^upgrades\[0\]\.prices:/),
+      expect.stringMatching(/^upgrades\[1\]\.bonuses: expected rising/),
+    ]);
+  });
+
+  it('needs one bonus per price', () => {
+    const data = shop();
+    data.upgrades[0].bonuses = [1];
+    expect(issuesOf(data)).toEqual([expect.stringMatching(/^upgrades\[0\]\.bonuses: expected one bonus per price/)]);
+  });
+
+  it('needs exactly one entry for every upgrade', () => {
+    const data = shop();
+    data.upgrades.push(structuredClone(data.upgrades[0]));
+    data.upgrades.splice(1, 1);
+    expect(issuesOf(data)).toEqual([
+      `upgrades: expected exactly one entry for "${data.upgrades[0].id}", got 2`,
+      expect.stringMatching(/^upgrades: expected exactly one entry for "\w+", got 0$/),
+    ]);
+  });
+});
+
+describe('buying upgrades', () => {
+  const clearedLevel = (stardust: number) => {
+    const world = createWorld({ width: 800, height: 600, difficulty: 'NORMAL', seed: 1 });
+    world.status = 'LEVEL_COMPLETE';
+    world.stardust = stardust;
+    return world;
+  };
+
+  it('charges each level its price until the upgrade is maxed out', () => {
+    const prices = UPGRADES.moveSpeed.prices;
+    const world = clearedLevel(prices.reduce((sum, p) => sum + p, 0));
+    prices.forEach(price => {
+      expect(nextPrice(world, 'moveSpeed')).toBe(price);
+      expect(buyUpgrade(world, 'moveSpeed')).toBe(true);
+    });
+    expect(world.stardust).toBe(0);
+    expect(nextPrice(world, 'moveSpeed')).toBeNull();
+    expect(buyUpgrade(world, 'moveSpeed')).toBe(false);
+  });
+
+  it('changes nothing when the team cannot afford it or the level is still on', () => {
+    const poor = clearedLevel(UPGRADES.damage.prices[0] - 1);
+    expect(buyUpgrade(poor, 'damage')).toBe(false);
+    expect(poor.upgrades.damage).toBe(0);
+    const playing = clearedLevel(10_000);
+    playing.status = 'PLAYING';
+    expect(buyUpgrade(playing, 'damage')).toBe(false);
+    expect(playing.stardust).toBe(10_000);
+  });
+
+  it('unlocks upgrades by lifetime stardust', () => {
+    const unlockAt = UPGRADES.powerUpDuration.unlockAt ?? 0;
+    expect(isUnlocked('powerUpDuration', unlockAt - 1)).toBe(false);
+    expect(isUnlocked('powerUpDuration', unlockAt)).toBe(true);
+    expect(isUnlocked('moveSpeed', 0)).toBe(true);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import shopJson from '../data/shop.json';
+import { SHIPS } from './ships';
+import type { EnemyType, Player, PowerUpType, UpgradeId, World } from './types';
+
+// --- Upgrade Shop ---
+// Kills earn the team stardust, which buys upgrades between levels. What each upgrade does
+// is code (the bonus readers below); how much it costs and how much it gives per level is
+// data (src/data/shop.json), so balancing never touches code. Upgrades last for the run.
+// Some are locked until the player has earned enough stardust over all their runs; that
+// lifetime total lives in the profile, and unlocks are never lost.
+
+export const SHOP_VERSION = 1;
+
+/** Names and descriptions are in the i18n catalogs, under the upgrade's id. */
+export const UPGRADE_IDS: UpgradeId[] = ['maxHealth', 'fireRate', 'moveSpeed', 'damage', 'shieldCapacity', 'powerUpDuration'];
+
+export interface UpgradeDefinition {
+  id: UpgradeId;
+  /** Price of each level in turn; the upgrade maxes out after the last. */
+  prices: number[];
+  /** Total bonus at each level, one per price. */
+  bonuses: number[];
+  /** Lifetime stardust needed before the shop offers it; 0 when always available. */
+  unlockAt?: number;
+}
+
+export interface Shop {
+  version: typeof SHOP_VERSION;
+  /** Stardust each kill earns, per enemy type and for a boss. */
+  stardust: Record<EnemyType | 'boss', number>;
+  upgrades: UpgradeDefinition[];
+}
+
+export class ShopValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid shop data:\n  ${issues.join('\n  ')}`);
+    this.name = 'ShopValidationError';
+  }
+}
+
+// --- Validation ---
+
+const describe = (value: unknown) => JSON.stringify(value) ?? String(value);
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isCount = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const validateUpgrade = (upgrade: unknown, path: string, issues: string[]) => {
+  if (!isObject(upgrade)) {
+    issues.push(`${path}: expected an object, got ${describe(upgrade)}`);
+    return;
+  }
+  if (!UPGRADE_IDS.includes(upgrade.id as UpgradeId)) issues.push(`${path}.id: expected one of ${UPGRADE_IDS.join(', ')}, got ${describe(upgrade.id)}`);
+  const { prices, bonuses } = upgrade;
+  if (!Array.isArray(prices) || prices.length === 0 || !prices.every(isCount)) {
+    issues.push(`${path}.prices: expected a non-empty array of whole prices, got ${describe(prices)}`);
+  }
+  if (!Array.isArray(bonuses) || !bonuses.every((b, i) => typeof b === 'number' && b > (i > 0 ? bonuses[i - 1] : 0))) {
+    issues.push(`${path}.bonuses: expected rising bonuses above 0, got ${describe(bonuses)}`);
+  } else if (Array.isArray(prices) && bonuses.length !== prices.length) {
+    issues.push(`${path}.bonuses: expected one bonus per price (${prices.length}), got ${bonuses.length}`);
+  }
+  if (upgrade.unlockAt !== undefined && !isCount(upgrade.unlockAt)) issues.push(`${path}.unlockAt: expected whole stardust >= 0, got ${describe(upgrade.unlockAt)}`);
+};
+
+/** Checks untrusted JSON against the shop format. Throws a ShopValidationError listing every problem. */
+export const validateShop = (data: unknown): Shop => {
+  const issues: string[] = [];
+  if (!isObject(data)) throw new ShopValidationError([`root: expected an object, got ${describe(data)}`]);
+  if (data.version !== SHOP_VERSION) throw new ShopValidationError([`version: expected ${SHOP_VERSION}, got ${describe(data.version)}`]);
+
+  const stardust = data.stardust;
+  if (!isObject(stardust)) {
+    issues.push('stardust: expected an object of rewards per enemy type and "boss"');
+  } else {
+    (['basic', 'fast', 'heavy', 'boss'] as const).forEach(kind => {
+      if (!isCount(stardust[kind])) issues.push(`stardust.${kind}: expected whole stardust >= 0, got ${describe(stardust[kind])}`);
+    });
+  }
+
+  if (!Array.isArray(data.upgrades)) {
+    issues.push('upgrades: expected an array');
+  } else {
+    data.upgrades.forEach((upgrade, i) => validateUpgrade(upgrade, `upgrades[${i}]`, issues));
+    UPGRADE_IDS.forEach(id => {
+      const count = (data.upgrades as unknown[]).filter(u => isObject(u) && u.id === id).length;
+      if (count !== 1) issues.push(`upgrades: expected exactly one entry for "${id}", got ${count}`);
+    });
+  }
+  if (issues.length > 0) throw new ShopValidationError(issues);
+  return data as unknown as Shop;
+};
+
+export const SHOP = validateShop(shopJson);
+
+export const UPGRADES = Object.fromEntries(SHOP.upgrades.map(u => [u.id, u])) as Record<UpgradeId, UpgradeDefinition>;
+
+export const noUpgrades = () => Object.fromEntries(UPGRADE_IDS.map(id => [id, 0])) as Record<UpgradeId, number>;
+
+// --- Bonuses ---
+// What a bonus means depends on the upgrade: extra hearts, a fraction off the time between
+// shots, a fraction more speed, extra power per shot, extra hits per shield, or a fraction
+// more time on timed power-ups.
+
+export const upgradeBonus = (world: World, id: UpgradeId) => {
+  const level = world.upgrades[id];
+  return level > 0 ? UPGRADES[id].bonuses[level - 1] : 0;
+};
+
+// Stats build on the pilot's ship.
+export const maxHealthFor = (world: World, player: Player) => SHIPS[player.ship].maxHealth + upgradeBonus(world, 'maxHealth');
+export const baseSpeed = (world: World, player: Player) => SHIPS[player.ship].speed * (1 + upgradeBonus(world, 'moveSpeed'));
+export const baseCooldown = (world: World, player: Player) => SHIPS[player.ship].fireCooldown * (1 - upgradeBonus(world, 'fireRate'));
+export const shotPower = (world: World) => 1 + upgradeBonus(world, 'damage');
+
+/** How long a new power-up effect lasts: its ticks or charges, with the upgrades that stretch them. */
+export const effectAmount = (world: World, type: PowerUpType, ticks: number | undefined, charges: number | undefined) => {
+  if (ticks !== undefined) return Math.round(ticks * (1 + upgradeBonus(world, 'powerUpDuration')));
+  if (charges !== undefined && type === 'shield') return charges + upgradeBonus(world, 'shieldCapacity');
+  return charges;
+};
+
+/**
+ * Brings a pilot's stats in line with the run's upgrades. The speed and rapid power-ups
+ * build on the same base stats while they last.
+ */
+export const applyUpgrades = (world: World, player: Player) => {
+  const boosted = (type: PowerUpType) => player.effects.some(e => e.type === type);
+  player.maxHealth = maxHealthFor(world, player);
+  player.speed = baseSpeed(world, player) * (boosted('speed') ? 1.5 : 1);
+  player.fireCooldown = baseCooldown(world, player) / (boosted('rapid') ? 2 : 1);
+};
+
+// --- Buying ---
+
+/** Price of an upgrade's next level, or null once it is maxed out. */
+export const nextPrice = (world: World, id: UpgradeId) => UPGRADES[id].prices[world.upgrades[id]] ?? null;
+
+/** Whether the shop offers an upgrade to a player with `lifetimeStardust` earned over all runs. */
+export const isUnlocked = (id: UpgradeId, lifetimeStardust: number) => lifetimeStardust >= (UPGRADES[id].unlockAt ?? 0);
+
+/**
+ * Buys the next level of an upgrade with the team's stardust, between levels only.
+ * Returns false, changing nothing, when it is maxed out or can't be afforded.
+ */
+export const buyUpgrade = (world: World, id: UpgradeId) => {
+  const price = nextPrice(world, id);
+  if (world.status !== 'LEVEL_COMPLETE' || price === null || world.stardust < price) return false;
+  world.stardust -= price;
+  world.upgrades[id] += 1;
+  // Health is topped up to the new maximum when the next level starts.
+  world.players.forEach(player => applyUpgrades(world, player));
+  return true;
+};
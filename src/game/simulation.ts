@@ -0,0 +1,489 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { COLORS, ESCAPE_PENALTY, INVUL_TICKS, REVIVE_RANGE, REVIVE_RATE, TICK_MS, TICK_RATE } from './constants';
+import { triggerAbility } from './abilities';
+import { DEFAULT_BEHAVIOUR, hasLeftScreen, initBehaviour, moveEnemy } from './behaviours';
+import { spawnBoss, updateBoss } from './bosses';
+import { bulletHitbox, createGrid, HITBOXES, queryGrid } from './collision';
+import { endlessThreat, MILESTONE_MINUTES, MILESTONE_TICKS, type Threat } from './endless';
+import { ENEMY_TYPES, getLevelDefinition, LEVEL_PACK, scheduleWaves, type LevelDefinition } from './levels';
+import { steerBullet, updateEnemyFire } from './patterns';
+import { createPools, releaseAll, spawnEnemyFrom, spawnPowerUp, sweep } from './pool';
+import { collectPowerUp, detonateBomb, hasEffect, MAGNET_RANGE, pickPowerUp, updateEffects } from './powerups';
+import { createRng, randomSeed } from './random';
+import { DEFAULT_SHIP, SHIPS } from './ships';
+import { noUpgrades, SHOP } from './shop';
+import type { Bullet, Difficulty, EnemyType, GameEvent, GameMode, Movable, Player, PlayerInput, PowerUp, ShipId, World } from './types';
+import { burnBeam, burstCluster, firePrimary, resistance, updateCharge, updateSecondary } from './weapons';
+import { createExplosion, diffModFor, hitPlayer, random, randomRange, spawnAt } from './world';
+
+// --- Simulation Core ---
+// Pure game logic: no DOM, no React. The front end feeds `step` one input per pilot per tick
+// of TICK_MS simulated time (see clock.ts) and renders whatever the world looks like afterwards.
+// All timers (cooldowns, invulnerability, particle decay, the level clock) count ticks or
+// `world.time`, never wall-clock time, so gameplay is identical at any refresh rate.
+
+export interface WorldOptions {
+  width: number;
+  height: number;
+  difficulty: Difficulty;
+  /** Defaults to the campaign. Endless runs ignore the difficulty and follow the threat curve. */
+  mode?: GameMode;
+  seed?: number;
+  /** Cap on live particles; explosions shrink once it is reached. Cosmetic only. */
+  particleBudget?: number;
+  /** Pilots sharing the screen, 1 to MAX_PLAYERS. */
+  players?: number;
+  /** Each pilot's ship, by slot; missing ones fly the DEFAULT_SHIP. */
+  ships?: ShipId[];
+}
+
+export const NO_INPUT: PlayerInput = { left: false, right: false, up: false, down: false, fire: false, bomb: false, special: false, charge: false, pointer: null, move: null };
+
+/** Pilots start spread evenly along the bottom of the screen. */
+const createPlayer = (slot: number, count: number, width: number, height: number, ship: ShipId): Player => {
+  const def = SHIPS[ship];
+  return {
+    ...spawnAt(width * (slot + 1) / (count + 1), height - 80),
+    slot,
+    ship,
+    w: def.width,
+    h: def.height,
+    invul: 0,
+    speed: def.speed,
+    fireCooldown: def.fireCooldown,
+    effects: [],
+    health: def.maxHealth,
+    maxHealth: def.maxHealth,
+    score: 0,
+    scoreMultiplier: 1,
+    lastShot: -def.fireCooldown,
+    kills: 0,
+    downs: 0,
+    respawn: 0,
+    abilityCooldown: 0,
+    weaponLevel: 1,
+    secondary: null,
+    secondaryCooldown: 0,
+    charge: 0,
+    beamY: null,
+  };
+};
+
+export const createWorld = ({ width, height, difficulty, mode = 'campaign', seed = randomSeed(), particleBudget, players = 1, ships = [] }: WorldOptions): World => {
+  const world: World = {
+    width,
+    height,
+    difficulty: mode === 'endless' ? 'NORMAL' : difficulty,
+    mode,
+    status: 'PLAYING',
+    level: 1,
+    score: 0,
+    stardust: 0,
+    upgrades: noUpgrades(),
+    timeLeft: 0,
+    tick: 0,
+    time: 0,
+    players: Array.from({ length: players }, (_, slot) => createPlayer(slot, players, width, height, ships[slot] ?? DEFAULT_SHIP)),
+    bullets: [],
+    enemies: [],
+    particles: [],
+    powerUps: [],
+    shake: 0,
+    nextEnemyId: 1,
+    seed,
+    rng: createRng(seed),
+    fxRng: createRng(seed ^ 0x5bd1e995),
+    pools: createPools(particleBudget),
+    levelDef: getLevelDefinition(1),
+    levelTime: 0,
+    spawnQueue: [],
+    boss: null,
+    bossDefeated: false,
+  };
+  beginLevel(world);
+  return world;
+};
+
+/**
+ * Loads the definition for `world.level` and schedules its waves. An endless run only
+ * takes its first scenery from it; the threat curve does the spawning.
+ */
+const beginLevel = (world: World) => {
+  const def = getLevelDefinition(world.level);
+  world.levelDef = def;
+  world.levelTime = 0;
+  world.boss = null;
+  world.bossDefeated = false;
+  if (world.mode === 'endless') {
+    world.timeLeft = 0;
+    world.spawnQueue = [];
+    return;
+  }
+  world.timeLeft = def.clear.type === 'timer' ? def.clear.duration : 0;
+  world.spawnQueue = scheduleWaves(def, () => random(world));
+};
+
+/** Advances to the next level, restoring every pilot's health (downed ones too) and the timer. */
+export const startNextLevel = (world: World) => {
+  world.level += 1;
+  world.players.forEach(player => {
+    player.health = player.maxHealth;
+    player.respawn = 0;
+  });
+  world.status = 'PLAYING';
+  releaseAll(world.enemies, world.pools.enemies);
+  releaseAll(world.bullets, world.pools.bullets);
+  releaseAll(world.powerUps, world.pools.powerUps);
+  beginLevel(world);
+};
+
+export const resizeWorld = (world: World, width: number, height: number) => {
+  world.width = width;
+  world.height = height;
+};
+
+/** Remembers where everything was before this tick so the renderer can interpolate. */
+const snapshotPositions = (world: World) => {
+  const snapshot = (m: Movable) => {
+    m.px = m.x;
+    m.py = m.y;
+  };
+  world.players.forEach(snapshot);
+  if (world.boss) snapshot(world.boss);
+  world.bullets.forEach(snapshot);
+  world.enemies.forEach(snapshot);
+  world.powerUps.forEach(snapshot);
+  world.particles.forEach(snapshot);
+};
+
+/** Spawn margin from the screen edges, per enemy type. */
+const EDGE_MARGIN: Record<EnemyType, number> = { basic: 40, fast: 40, heavy: 50 };
+
+/** Endless runs toughen every enemy type along the threat curve; campaign hit points are fixed. */
+const toughen = (hp: number, threat: Threat | null) => threat ? Math.round(hp * threat.hp) : hp;
+
+const spawnEnemy = (world: World, type: EnemyType, x: number, y = -50, behaviour = DEFAULT_BEHAVIOUR[type]) => {
+  const { level, difficulty, width, time: now } = world;
+  const threat = world.mode === 'endless' ? endlessThreat(now) : null;
+  const diffMod = diffModFor(difficulty);
+  const speedMod = diffMod * (threat?.speed ?? 1);
+  const margin = EDGE_MARGIN[type];
+  const e = spawnEnemyFrom(world, Math.max(margin, Math.min(width - margin, x)), y);
+  e.id = world.nextEnemyId++;
+  e.type = type;
+  e.behaviour = behaviour;
+  e.lastShot = now;
+
+  switch (type) {
+    case 'fast':
+      e.width = e.height = 60;
+      e.hp = e.maxHp = toughen(1, threat);
+      e.speed = (4 + level * 0.5) * speedMod;
+      e.color = COLORS.FAST;
+      e.scoreValue = 150;
+      break;
+    case 'heavy':
+      e.width = e.height = 80;
+      e.hp = e.maxHp = toughen(Math.ceil(3 * diffMod), threat);
+      e.speed = (1.5 + level * 0.1) * speedMod;
+      e.color = COLORS.HEAVY;
+      e.scoreValue = 500;
+      break;
+    default:
+      e.width = e.height = 60;
+      e.hp = e.maxHp = toughen(1, threat);
+      e.speed = (2 + level * 0.2) * speedMod;
+      e.color = COLORS.BASIC;
+      e.scoreValue = 100;
+  }
+  initBehaviour(e, world);
+};
+
+/** Picks an enemy type from relative weights. */
+const pickWeighted = (world: World, mix: LevelDefinition['ambient']['mix']): EnemyType => {
+  const entries = ENEMY_TYPES.map(type => [type, mix[type] ?? 0] as const).filter(([, weight]) => weight > 0);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = random(world) * total;
+  for (const [type, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) return type;
+  }
+  return entries[entries.length - 1]?.[0] ?? 'basic';
+};
+
+const spawnAmbient = (world: World) => {
+  const { ambient } = world.levelDef;
+  // Levels past the end of the pack keep getting busier, as the original "level 3+" rule did.
+  const extraLevels = Math.max(0, world.level - LEVEL_PACK.levels.length);
+  const spawnRate = (ambient.rate + extraLevels * 0.002) * (world.difficulty === 'EASY' ? 0.5 : world.difficulty === 'HARD' ? 2 : 1);
+  if (random(world) < spawnRate) {
+    const type = pickWeighted(world, ambient.mix);
+    const margin = EDGE_MARGIN[type];
+    spawnEnemy(world, type, randomRange(world, margin, world.width - margin));
+  }
+};
+
+/** Endless runs spawn from the threat curve alone, with no difficulty multiplier on top. */
+const spawnEndless = (world: World) => {
+  const threat = endlessThreat(world.time);
+  if (random(world) < threat.rate) {
+    const type = pickWeighted(world, threat.mix);
+    const margin = EDGE_MARGIN[type];
+    spawnEnemy(world, type, randomRange(world, margin, world.width - margin));
+  }
+};
+
+/**
+ * Every MILESTONE_TICKS of an endless run: announces the milestone and moves on to the
+ * next level's scenery, cycling through the pack.
+ */
+const updateMilestones = (world: World, events: GameEvent[]) => {
+  if (world.tick % MILESTONE_TICKS !== 0) return;
+  const milestones = world.tick / MILESTONE_TICKS;
+  world.levelDef = LEVEL_PACK.levels[milestones % LEVEL_PACK.levels.length];
+  events.push({ type: 'milestone', minutes: milestones * MILESTONE_MINUTES });
+};
+
+const spawnScheduled = (world: World) => {
+  while (world.spawnQueue.length > 0 && world.spawnQueue[0].at <= world.levelTime) {
+    const spawn = world.spawnQueue.shift()!;
+    spawnEnemy(world, spawn.enemy, spawn.x * world.width + spawn.dx, -50 - spawn.dy, spawn.behaviour);
+  }
+};
+
+/** Moves one flying pilot, runs down their effects and special, and fires, charges, bombs or uses the special as their input says. */
+const updatePilot = (world: World, player: Player, input: PlayerInput, events: GameEvent[]) => {
+  const { width, height, time: now } = world;
+  if (input.pointer) {
+    player.x = input.pointer.x;
+    player.y = input.pointer.y;
+  }
+  if (input.left) player.x -= player.speed;
+  if (input.right) player.x += player.speed;
+  if (input.up) player.y -= player.speed;
+  if (input.down) player.y += player.speed;
+  if (input.move) {
+    player.x += player.speed * input.move.x / 100;
+    player.y += player.speed * input.move.y / 100;
+  }
+
+  player.x = Math.max(player.w/2, Math.min(width - player.w/2, player.x));
+  player.y = Math.max(player.h/2, Math.min(height - player.h/2, player.y));
+
+  updateEffects(world, player);
+  if (player.abilityCooldown > 0) player.abilityCooldown--;
+  if (input.bomb) detonateBomb(world, player, events);
+  if (input.special) triggerAbility(world, player, events);
+
+  // Charging holds the primary back; the secondary keeps firing.
+  updateCharge(world, player, input.charge, events);
+  if (input.fire && !input.charge && now - player.lastShot > player.fireCooldown) {
+    firePrimary(world, player, events);
+    player.lastShot = now;
+  }
+  updateSecondary(world, player, input.fire, events);
+};
+
+/**
+ * Counts down downed pilots' respawn timers; it runs faster while a teammate hovers over
+ * the wreck. Pilots come back where they fell with one health and a spell of invulnerability.
+ */
+const updateRespawns = (world: World, events: GameEvent[]) => {
+  world.players.forEach(player => {
+    if (player.respawn <= 0) return;
+    const helped = world.players.some(p => p.health > 0 && Math.hypot(p.x - player.x, p.y - player.y) < REVIVE_RANGE);
+    player.respawn = Math.max(0, player.respawn - (helped ? REVIVE_RATE : 1));
+    if (player.respawn === 0) {
+      player.health = 1;
+      player.invul = INVUL_TICKS;
+      events.push({ type: 'playerRevived', player: player.slot });
+    }
+  });
+};
+
+/**
+ * Advances the world by one tick, driving each pilot with the input at their slot (pilots
+ * without one sit still). Returns the events raised during the tick.
+ * Does nothing once the world has left the PLAYING status.
+ */
+export const step = (world: World, inputs: PlayerInput[]): GameEvent[] => {
+  const events: GameEvent[] = [];
+  if (world.status !== 'PLAYING') return events;
+
+  world.tick += 1;
+  world.time += TICK_MS;
+  snapshotPositions(world);
+  const { width, height, level } = world;
+  const flying = world.players.filter(p => p.health > 0);
+
+  flying.forEach(player => updatePilot(world, player, inputs[player.slot] ?? NO_INPUT, events));
+
+  world.bullets.forEach(b => {
+    steerBullet(b, world);
+    b.x += b.vx;
+    b.y += b.vy;
+    if (b.fuse) b.fuse -= 1;
+  });
+  sweep(world.bullets, world.pools.bullets, b => b.y > -50 && b.y < height + 50 && b.x > -50 && b.x < width + 50);
+
+  world.levelTime += 1 / TICK_RATE;
+  const clear = world.levelDef.clear;
+  if (world.mode === 'endless') spawnEndless(world);
+  else if (!world.boss && (clear.type === 'timer' ? world.timeLeft > 0 : world.spawnQueue.length > 0)) spawnAmbient(world);
+  spawnScheduled(world);
+
+  sweep(world.enemies, world.pools.enemies, e => {
+    moveEnemy(e, world);
+    if (hasLeftScreen(e, world)) return false;
+    updateEnemyFire(e, world);
+    return true;
+  });
+
+  // A pickup in reach of several magnets goes to the first pilot's.
+  const magnets = flying.filter(player => hasEffect(player, 'magnet'));
+  world.powerUps.forEach(p => {
+    const puller = magnets.find(player => {
+      const dist = Math.hypot(player.x - p.x, player.y - p.y);
+      return dist > 0 && dist < MAGNET_RANGE;
+    });
+    if (puller) {
+      const dist = Math.hypot(puller.x - p.x, puller.y - p.y);
+      p.x += ((puller.x - p.x) / dist) * 6;
+      p.y += ((puller.y - p.y) / dist) * 6;
+    } else {
+      p.y += 2;
+    }
+  });
+
+  // --- Collisions ---
+  // Hits only mark things as spent or dead; the lists are swept afterwards, so no entity is skipped.
+  const spent = new Set<Bullet>();
+  const enemyGrid = createGrid(world.enemies, e => HITBOXES.enemies[e.type]);
+  world.bullets.forEach(b => {
+    if (b.isEnemy) return;
+    // Cluster bombs burst when their fuse runs out or on the first enemy they touch.
+    if (b.fuse === 0) {
+      burstCluster(world, b, events);
+      spent.add(b);
+      return;
+    }
+    for (const e of queryGrid(enemyGrid, b.x, b.y, bulletHitbox(b))) {
+      if (e.hp <= 0 || b.hits?.includes(e.id)) continue;
+      if (b.blast) {
+        burstCluster(world, b, events);
+        spent.add(b);
+        break;
+      }
+      e.hp -= b.power * resistance(e.type, b.damageType);
+      e.lastHitBy = b.owner ?? 0;
+      createExplosion(world, events, b.x, b.y, e.color, 5);
+      if (!b.hits) {
+        spent.add(b);
+        break;
+      }
+      b.hits.push(e.id);
+    }
+  });
+  // Laser beams stop at the nearest enemy above the pilot; ones that reach the boss burn it in updateBoss.
+  flying.forEach(player => burnBeam(world, player));
+
+  // Pilots are checked in slot order; a bullet, rammed enemy or pickup only counts for the first one.
+  const enemyBullets = createGrid(world.bullets.filter(b => b.isEnemy), bulletHitbox);
+  const pickups = createGrid(world.powerUps, () => HITBOXES.powerUp);
+  const collected = new Set<PowerUp>();
+  flying.forEach(player => {
+    if (player.invul <= 0) {
+      const bullet = queryGrid(enemyBullets, player.x, player.y, SHIPS[player.ship].hitbox).find(b => !spent.has(b));
+      if (bullet) {
+        hitPlayer(world, player, events);
+        spent.add(bullet);
+      }
+    }
+    if (player.invul <= 0) {
+      const rammed = queryGrid(enemyGrid, player.x, player.y, SHIPS[player.ship].hitbox).find(e => e.hp > 0);
+      if (rammed) {
+        hitPlayer(world, player, events);
+        rammed.hp = 0;
+        rammed.lastHitBy = player.slot;
+      }
+    }
+    if (player.health <= 0) return;
+    queryGrid(pickups, player.x, player.y, SHIPS[player.ship].hitbox).forEach(p => {
+      if (collected.has(p)) return;
+      collected.add(p);
+      collectPowerUp(world, player, p.type, events);
+    });
+  });
+
+  sweep(world.bullets, world.pools.bullets, b => !spent.has(b));
+  sweep(world.powerUps, world.pools.powerUps, p => !collected.has(p) && p.y < height + 50);
+  sweep(world.enemies, world.pools.enemies, e => {
+    if (e.y > height + 50) {
+      world.score = Math.max(0, world.score - ESCAPE_PENALTY);
+      events.push({ type: 'enemyEscaped' });
+      return false;
+    }
+
+    if (e.hp <= 0) {
+      const killer = world.players[e.lastHitBy] ?? world.players[0];
+      const points = e.scoreValue * killer.scoreMultiplier;
+      world.score += points;
+      killer.score += points;
+      killer.kills += 1;
+      world.stardust += SHOP.stardust[e.type];
+      events.push({ type: 'enemyKilled', enemy: e.type, player: killer.slot });
+      createExplosion(world, events, e.x, e.y, e.color, e.type === 'heavy' ? 50 : 25, e.type === 'heavy');
+
+      if (random(world) < 0.1) {
+        spawnPowerUp(world, e.x, e.y, pickPowerUp(random(world), world.mode), 20);
+      }
+      return false;
+    }
+    return true;
+  });
+
+  sweep(world.particles, world.pools.particles, p => {
+    p.x += p.vx;
+    p.y += p.vy;
+    p.life -= 0.02;
+    return p.life > 0;
+  });
+
+  world.players.forEach(player => {
+    if (player.invul > 0) player.invul--;
+  });
+  updateRespawns(world, events);
+  if (world.shake > 0) world.shake *= 0.9;
+
+  updateBoss(world, events);
+
+  if (world.mode === 'endless') {
+    updateMilestones(world, events);
+    return events;
+  }
+
+  // Clear condition: survive the timer or clear the waves, then beat the boss if there is one.
+  let stageDone = false;
+  if (clear.type === 'timer') {
+    world.timeLeft -= 1 / TICK_RATE;
+    if (world.timeLeft <= 0) {
+      world.timeLeft = 0;
+      stageDone = true;
+    }
+  } else {
+    stageDone = world.spawnQueue.length === 0 && world.enemies.length === 0;
+  }
+  const bossId = world.levelDef.boss;
+  if (stageDone && bossId && !world.bossDefeated && !world.boss) spawnBoss(world, bossId, events);
+  const cleared = stageDone && (!bossId || world.bossDefeated);
+  if (cleared && world.status === 'PLAYING') {
+    world.status = 'LEVEL_COMPLETE';
+    events.push({ type: 'levelComplete', level });
+  }
+
+  return events;
+};
@@ -0,0 +1,290 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Core Game Types ---
+// Everything in src/game is framework-free so the simulation can run in Node.
+
+import type { MovementBehaviour } from './behaviours';
+import type { LevelDefinition, ScheduledSpawn } from './levels';
+import type { EntityPools } from './pool';
+import type { Rng } from './random';
+
+export type GameState = 'START' | 'PLAYING' | 'PAUSED' | 'GAMEOVER' | 'LEVEL_COMPLETE' | 'REPLAY';
+export type Difficulty = 'EASY' | 'NORMAL' | 'HARD';
+/** Campaign runs go level by level; endless runs are one stretch that keeps getting harder (endless.ts). */
+export type GameMode = 'campaign' | 'endless';
+
+/** Subset of GameState the simulation itself can be in. */
+export type WorldStatus = 'PLAYING' | 'GAMEOVER' | 'LEVEL_COMPLETE';
+
+/** Anything that moves. `px`/`py` hold the position at the start of the last tick, for render interpolation. */
+export interface Movable {
+  x: number;
+  y: number;
+  px: number;
+  py: number;
+}
+
+export interface Particle extends Movable {
+  vx: number;
+  vy: number;
+  life: number;
+  color: string;
+  size: number;
+  glow: boolean;
+}
+
+/** Kinds of damage; each enemy type (and bosses) resists some more than others (weapons.ts). */
+export type DamageType = 'kinetic' | 'energy' | 'explosive';
+
+/** Player projectiles other than plain shots. */
+export type ShotKind = 'charge' | 'missile' | 'cluster';
+
+export interface Bullet extends Movable {
+  vx: number;
+  vy: number;
+  power: number;
+  damageType: DamageType;
+  color: string;
+  /** Player shots only; plain shots have none. */
+  kind?: ShotKind;
+  isEnemy?: boolean;
+  /** Slot of the pilot who fired a player shot; kills it makes are credited to them. */
+  owner?: number;
+  /** Piercing shots pass through enemies, hitting each one once. */
+  pierce?: boolean;
+  /** Ids of the enemies a piercing shot has already hit. */
+  hits?: number[];
+  /** Homing missiles: radians per tick the bullet may turn towards the player. */
+  homing?: number;
+  /** Ticks of guidance left for a homing missile. */
+  life?: number;
+  /** Cluster bombs: ticks until it bursts on its own, and the radius of the burst. */
+  fuse?: number;
+  blast?: number;
+}
+
+export type EnemyType = 'basic' | 'fast' | 'heavy';
+
+export interface Enemy extends Movable {
+  id: number;
+  width: number;
+  height: number;
+  hp: number;
+  maxHp: number;
+  speed: number;
+  type: EnemyType;
+  color: string;
+  scoreValue: number;
+  lastShot: number;
+  behaviour: MovementBehaviour;
+  /** Ticks in the current behaviour stage. */
+  age: number;
+  /** Behaviour state machine position. */
+  stage: number;
+  /** Point the behaviour moves around. */
+  anchorX: number;
+  anchorY: number;
+  /** Velocity for behaviours that fly in a straight line once committed (e.g. dives). */
+  vx: number;
+  vy: number;
+  /** Ticks left winding up the next volley; the renderer draws its warning meanwhile. */
+  telegraph: number;
+  /** Shots left in the current burst, and ticks until the next one. */
+  burstLeft: number;
+  burstTimer: number;
+  /** Slot of the pilot who last damaged it, who gets the points if it dies. */
+  lastHitBy: number;
+}
+
+export interface Boss extends Movable {
+  /** Key into BOSSES. */
+  id: string;
+  width: number;
+  height: number;
+  hp: number;
+  maxHp: number;
+  /** Index into the definition's phases. */
+  phase: number;
+  /** Ticks since the boss appeared. */
+  age: number;
+  /** Still flying in; invulnerable and not attacking. */
+  entering: boolean;
+  /** Simulation time each of the current phase's attacks last fired. */
+  lastAttack: number[];
+  /** Ticks of white flash left after taking a hit. */
+  hitFlash: number;
+  /** Ticks of death sequence left; 0 while alive. */
+  dying: number;
+  /** Whether any pilot lost health at any point during the fight. */
+  playerHit: boolean;
+}
+
+export type PowerUpType =
+  | 'triple' | 'shield' | 'life' | 'speed' | 'rapid' | 'pierce' | 'bomb' | 'magnet' | 'score'
+  | 'weapon' | 'missiles' | 'laser' | 'cluster';
+
+/** A dropped pickup. Its look comes from the power-up registry (powerups.ts). */
+export interface PowerUp extends Movable {
+  type: PowerUpType;
+  size: number;
+}
+
+/** Ships in the hangar; their stats, weapons and looks are in the ship registry (ships.ts). */
+export type ShipId = 'pioneer' | 'interceptor' | 'bulwark' | 'phantom';
+
+/** Primary weapons, levelled up by pickups (weapons.ts). */
+export type WeaponPattern = 'single' | 'twin' | 'spread' | 'needle';
+
+/** Secondary weapons, fired alongside the primary once picked up (weapons.ts). */
+export type SecondaryId = 'missiles' | 'laser' | 'cluster';
+
+/** What fired a shot, so each weapon can sound different. */
+export type ShotSource = WeaponPattern | SecondaryId | 'charge';
+
+/** Specials a ship can trigger, each with its own cooldown (abilities.ts). */
+export type AbilityId = 'overdrive' | 'phase' | 'barrier' | 'nova';
+
+/** Upgrades bought in the shop between levels; their prices and bonuses are data (shop.ts). */
+export type UpgradeId = 'maxHealth' | 'fireRate' | 'moveSpeed' | 'damage' | 'shieldCapacity' | 'powerUpDuration';
+
+/** A lasting power-up effect; `remaining` counts ticks or charges depending on the power-up. */
+export interface ActiveEffect {
+  type: PowerUpType;
+  remaining: number;
+  /** What `remaining` started from, for the HUD countdown ring. */
+  total: number;
+}
+
+export interface Player extends Movable {
+  /** Index in `world.players`, and of the input that drives this pilot each step. */
+  slot: number;
+  ship: ShipId;
+  w: number;
+  h: number;
+  invul: number;
+  /** Keyboard movement per tick. */
+  speed: number;
+  /** Milliseconds between shots. */
+  fireCooldown: number;
+  effects: ActiveEffect[];
+  /** 0 while the pilot is down. */
+  health: number;
+  /** The ship's health plus the max health upgrade. */
+  maxHealth: number;
+  /** Points this pilot earned; `world.score` is the run's total. */
+  score: number;
+  /** Applied to this pilot's score awards; raised by the score power-up. */
+  scoreMultiplier: number;
+  lastShot: number;
+  kills: number;
+  /** Times this pilot went down. */
+  downs: number;
+  /** Ticks until a downed co-op pilot flies again; 0 while flying. */
+  respawn: number;
+  /** Ticks until the ship's special can be used again; 0 when it is ready. */
+  abilityCooldown: number;
+  /** Primary weapon level, 1 to MAX_WEAPON_LEVEL; pickups raise it and hits lower it. */
+  weaponLevel: number;
+  /** Secondary weapon picked up, kept until the pilot goes down. */
+  secondary: SecondaryId | null;
+  /** Ticks until the secondary fires again. */
+  secondaryCooldown: number;
+  /** Ticks the charge shot has been held for. */
+  charge: number;
+  /** Where the laser beam ends this tick (the underside of what it burns, else 0), or null while it is off. */
+  beamY: number | null;
+}
+
+/** One pilot's input for a single simulation step. */
+export interface PlayerInput {
+  left: boolean;
+  right: boolean;
+  up: boolean;
+  down: boolean;
+  fire: boolean;
+  /** Detonates a stocked bomb. Set for the one step after the button is pressed, not while held. */
+  bomb: boolean;
+  /** Triggers the ship's special, pressed like the bomb. */
+  special: boolean;
+  /** Charges the charge shot while held; it fires on release. */
+  charge: boolean;
+  /** Absolute ship position from mouse/touch, if the pointer moved this step. */
+  pointer: { x: number; y: number } | null;
+  /**
+   * Analog stick deflection per axis in whole hundredths (-100 to 100), or null when the
+   * stick is centred. Added on top of the digital directions.
+   */
+  move: { x: number; y: number } | null;
+}
+
+/**
+ * Things that happened during a step, for the front end to react to (sound, HUD, achievements).
+ * `player` is the slot of the pilot an event is about.
+ */
+export type GameEvent =
+  | { type: 'shot'; player: number; weapon: ShotSource }
+  | { type: 'explosion'; heavy: boolean }
+  | { type: 'enemyKilled'; enemy: EnemyType; player: number }
+  | { type: 'enemyEscaped' }
+  | { type: 'playerHit'; player: number }
+  | { type: 'shieldBlocked'; player: number }
+  | { type: 'playerDown'; player: number }
+  | { type: 'playerRevived'; player: number }
+  | { type: 'powerUpCollected'; powerUp: PowerUpType; player: number }
+  | { type: 'bombDetonated'; player: number }
+  | { type: 'abilityUsed'; ability: AbilityId; player: number }
+  | { type: 'bossSpawned'; boss: string }
+  | { type: 'bossPhase'; boss: string; phase: number }
+  | { type: 'bossDefeated'; boss: string; flawless: boolean; player: number }
+  | { type: 'levelComplete'; level: number }
+  /** Endless runs only: another MILESTONE_MINUTES survived, `minutes` in total. */
+  | { type: 'milestone'; minutes: number }
+  | { type: 'gameOver' };
+
+export interface World {
+  width: number;
+  height: number;
+  difficulty: Difficulty;
+  mode: GameMode;
+  status: WorldStatus;
+  level: number;
+  /** The run's score: every pilot's awards, less escape penalties. */
+  score: number;
+  /** Stardust the team has earned this run and not yet spent in the shop. */
+  stardust: number;
+  /** Level of each upgrade bought this run, shared by every pilot. */
+  upgrades: Record<UpgradeId, number>;
+  /** Seconds remaining on timer levels; unused on levels cleared by waves. */
+  timeLeft: number;
+  /** Number of steps simulated since the run started. */
+  tick: number;
+  /** Simulation clock in milliseconds. */
+  time: number;
+  /** One pilot, or two sharing the screen in co-op. */
+  players: Player[];
+  bullets: Bullet[];
+  enemies: Enemy[];
+  particles: Particle[];
+  powerUps: PowerUp[];
+  shake: number;
+  /** Id for the next enemy spawned. */
+  nextEnemyId: number;
+  seed: number;
+  /** All gameplay randomness is drawn from here, never from Math.random. */
+  rng: Rng;
+  /** Separate stream for cosmetic effects (particles), seeded from `seed`. */
+  fxRng: Rng;
+  /** Free lists and usage counters for the entity arrays above. */
+  pools: EntityPools;
+  levelDef: LevelDefinition;
+  /** Seconds since the current level started. */
+  levelTime: number;
+  /** Wave members still to enter this level, soonest first. */
+  spawnQueue: ScheduledSpawn[];
+  boss: Boss | null;
+  /** Whether this level's boss has been beaten. */
+  bossDefeated: boolean;
+}
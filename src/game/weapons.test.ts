@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { spawnBullet } from './pool';
+import { grantEffect } from './powerups';
+import { createWorld } from './simulation';
+import type { Enemy, EnemyType, GameEvent, ShipId } from './types';
+import {
+  beamDamage,
+  burnBeam,
+  burstCluster,
+  firePrimary,
+  FULL_CHARGE,
+  MIN_CHARGE,
+  resistance,
+  SECONDARIES,
+  TRIPLE_SHOTS,
+  updateCharge,
+  updateSecondary,
+  WEAPONS,
+} from './weapons';
+
+const pilotIn = (ship: ShipId = 'pioneer') => {
+  const world = createWorld({ width: 800, height: 600, difficulty: 'NORMAL', seed: 1, ships: [ship] });
+  return { world, player: world.players[0] };
+};
+
+/** An enemy parked at (x, y), out of the way of everything but the test. */
+const park = (world: ReturnType<typeof pilotIn>['world'], type: EnemyType, x: number, y: number): Enemy => {
+  const e: Enemy = {
+    x, y, px: x, py: y, id: world.enemies.length + 1, width: 60, height: 60, hp: 10, maxHp: 10, speed: 0, type, color: '',
+    scoreValue: 100, lastShot: 0, behaviour: 'straight', age: 0, stage: 0, anchorX: x, anchorY: y, vx: 0, vy: 0,
+    telegraph: 0, burstLeft: 0, burstTimer: 0, lastHitBy: 0,
+  };
+  world.enemies.push(e);
+  return e;
+};
+
+describe('firePrimary', () => {
+  it('fires a bigger volley at each weapon level', () => {
+    const { world, player } = pilotIn();
+    const sizes = WEAPONS.single.levels.map((_, i) => {
+      world.bullets.length = 0;
+      player.weaponLevel = i + 1;
+      firePrimary(world, player, []);
+      return world.bullets.length;
+    });
+    expect(sizes).toEqual(WEAPONS.single.levels.map(level => level.length));
+    expect(sizes[sizes.length - 1]).toBeGreaterThan(sizes[0]);
+  });
+
+  it("fires the ship's own weapon, credited to the pilot", () => {
+    const { world, player } = pilotIn('phantom');
+    const events: GameEvent[] = [];
+    firePrimary(world, player, events);
+    expect(events).toEqual([{ type: 'shot', player: 0, weapon: 'needle' }]);
+    expect(world.bullets.every(b => b.pierce && b.damageType === 'energy' && b.owner === 0)).toBe(true);
+  });
+
+  it('adds the triple shots while the power-up has charges', () => {
+    const { world, player } = pilotIn();
+    grantEffect(world, player, 'triple', []);
+    firePrimary(world, player, []);
+    expect(world.bullets).toHaveLength(WEAPONS.single.levels[0].length + TRIPLE_SHOTS.length);
+  });
+});
+
+describe('charge shot', () => {
+  it('fires nothing when let go too early', () => {
+    const { world, player } = pilotIn();
+    for (let i = 1; i < MIN_CHARGE; i++) updateCharge(world, player, true, []);
+    updateCharge(world, player, false, []);
+    expect(world.bullets).toHaveLength(0);
+    expect(player.charge).toBe(0);
+  });
+
+  it('hits harder the longer it is held, up to full', () => {
+    const release = (ticks: number) => {
+      const { world, player } = pilotIn();
+      for (let i = 0; i < ticks; i++) updateCharge(world, player, true, []);
+      const events: GameEvent[] = [];
+      updateCharge(world, player, false, events);
+      expect(events).toEqual([{ type: 'shot', player: 0, weapon: 'charge' }]);
+      return world.bullets[0];
+    };
+    const weak = release(MIN_CHARGE);
+    const full = release(FULL_CHARGE);
+    expect(full.power).toBeGreaterThan(weak.power);
+    expect(release(FULL_CHARGE * 3).power).toBe(full.power);
+    expect(full).toMatchObject({ kind: 'charge', pierce: true });
+  });
+});
+
+describe('secondaries', () => {
+  it('fires volleys on their cooldown while fire is held', () => {
+    const { world, player } = pilotIn();
+    player.secondary = 'missiles';
+    const events: GameEvent[] = [];
+    for (let i = 0; i <= SECONDARIES.missiles.cooldown; i++) updateSecondary(world, player, true, events);
+    expect(events.filter(e => e.type === 'shot')).toHaveLength(2);
+    expect(world.bullets.every(b => b.homing && b.damageType === 'explosive')).toBe(true);
+  });
+
+  it('burns the nearest enemy above the pilot and stops the beam there', () => {
+    const { world, player } = pilotIn();
+    player.secondary = 'laser';
+    const far = park(world, 'basic', player.x, 100);
+    const near = park(world, 'heavy', player.x, 300);
+    park(world, 'basic', player.x + 200, 300);
+    updateSecondary(world, player, true, []);
+    burnBeam(world, player);
+    expect(player.beamY).toBe(near.y);
+    expect(near.hp).toBe(10 - beamDamage(world) * resistance('heavy', 'energy'));
+    expect(far.hp).toBe(10);
+
+    updateSecondary(world, player, false, []);
+    expect(player.beamY).toBeNull();
+  });
+
+  it('bursts cluster bombs over everything in the blast', () => {
+    const { world } = pilotIn();
+    const inside = park(world, 'heavy', 400, 200);
+    const outside = park(world, 'basic', 600, 200);
+    const b = spawnBullet(world, 420, 200, 0, 0, '#fff', false);
+    b.power = 2;
+    b.damageType = 'explosive';
+    b.blast = 70;
+    b.owner = 0;
+    burstCluster(world, b, []);
+    expect(inside.hp).toBe(10 - 2 * resistance('heavy', 'explosive'));
+    expect(outside.hp).toBe(10);
+  });
+});
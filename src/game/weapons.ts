@@ -0,0 +1,245 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { HITBOXES, overlaps, type Hitbox } from './collision';
+import { COLORS, TICK_RATE } from './constants';
+import { spawnBullet } from './pool';
+import { consumeCharge, hasEffect } from './powerups';
+import { SHIPS } from './ships';
+import { shotPower } from './shop';
+import type { Bullet, DamageType, Enemy, EnemyType, GameEvent, Player, SecondaryId, WeaponPattern, World } from './types';
+import { createExplosion } from './world';
+
+// --- Weapons ---
+// A pilot fires their ship's primary weapon, whose volley grows with its level (pickups
+// raise it up to MAX_WEAPON_LEVEL, losing health lowers it), plus the secondary they picked
+// up, on its own cooldown. Holding the charge action holds the primary back and builds a
+// charge shot that fires on release. Every weapon deals one type of damage and each target
+// takes more or less of each type (RESISTANCES), so armoured heavies reward the right weapon.
+
+/** One shot of a volley: where it leaves relative to the nose, and its sideways speed. */
+export interface WeaponShot {
+  dx: number;
+  vx: number;
+}
+
+/** Names are in the i18n catalogs, under the weapon's id. */
+export interface WeaponDefinition {
+  /** The volley at each weapon level, from level 1 up. */
+  levels: WeaponShot[][];
+  /** Upward speed per tick. */
+  speed: number;
+  /** Shots pass through enemies, as with the pierce power-up. */
+  pierce?: boolean;
+  damageType: DamageType;
+}
+
+const volley = (...shots: [number, number][]): WeaponShot[] => shots.map(([dx, vx]) => ({ dx, vx }));
+
+export const WEAPONS: Record<WeaponPattern, WeaponDefinition> = {
+  single: {
+    speed: 10, damageType: 'kinetic',
+    levels: [
+      volley([0, 0]),
+      volley([-6, 0], [6, 0]),
+      volley([0, 0], [-10, -1], [10, 1]),
+      volley([-6, 0], [6, 0], [-14, -1.2], [14, 1.2]),
+      volley([0, 0], [-8, -0.8], [8, 0.8], [-16, -1.8], [16, 1.8]),
+    ],
+  },
+  twin: {
+    speed: 11, damageType: 'kinetic',
+    levels: [
+      volley([-12, 0], [12, 0]),
+      volley([-12, 0], [0, 0], [12, 0]),
+      volley([-18, 0], [-6, 0], [6, 0], [18, 0]),
+      volley([-12, 0], [0, 0], [12, 0], [-20, -1], [20, 1]),
+      volley([-18, 0], [-6, 0], [6, 0], [18, 0], [-24, -1.2], [24, 1.2]),
+    ],
+  },
+  spread: {
+    speed: 9, damageType: 'kinetic',
+    levels: [
+      volley([0, 0], [-8, -1.2], [8, 1.2]),
+      volley([0, 0], [-8, -1], [8, 1], [-12, -2], [12, 2]),
+      volley([-4, 0], [4, 0], [-8, -1], [8, 1], [-12, -2], [12, 2]),
+      volley([0, 0], [-6, -0.7], [6, 0.7], [-10, -1.4], [10, 1.4], [-14, -2.1], [14, 2.1]),
+      volley([0, 0], [-6, -0.6], [6, 0.6], [-10, -1.2], [10, 1.2], [-14, -1.8], [14, 1.8], [-18, -2.4], [18, 2.4]),
+    ],
+  },
+  needle: {
+    speed: 14, pierce: true, damageType: 'energy',
+    levels: [
+      volley([0, 0]),
+      volley([-6, 0], [6, 0]),
+      volley([0, 0], [-12, 0], [12, 0]),
+      volley([-6, 0], [6, 0], [-18, 0], [18, 0]),
+      volley([0, 0], [-12, 0], [12, 0], [-24, 0], [24, 0]),
+    ],
+  },
+};
+
+/** The triple power-up adds these to any weapon's volley. */
+export const TRIPLE_SHOTS: WeaponShot[] = volley([0, -2], [0, 2]);
+
+/** Damage multiplier per target and damage type: heavies shrug off kinetic rounds but crack under explosives. */
+export const RESISTANCES: Record<EnemyType | 'boss', Record<DamageType, number>> = {
+  basic: { kinetic: 1, energy: 1, explosive: 1 },
+  fast: { kinetic: 1, energy: 1.25, explosive: 0.75 },
+  heavy: { kinetic: 0.75, energy: 1, explosive: 2 },
+  boss: { kinetic: 1, energy: 1, explosive: 1.25 },
+};
+
+export const resistance = (target: EnemyType | 'boss', type: DamageType) => RESISTANCES[target][type];
+
+/** Where a pilot's shots leave from. */
+const noseY = (player: Player) => player.y - player.h / 2 - 10;
+
+/** Spawns one of a pilot's projectiles; `damage` is before the damage upgrade. */
+const spawnShot = (world: World, player: Player, x: number, vx: number, vy: number, color: string, damageType: DamageType, damage: number) => {
+  const b = spawnBullet(world, x, noseY(player), vx, vy, color, false);
+  b.owner = player.slot;
+  b.power = damage * shotPower(world);
+  b.damageType = damageType;
+  return b;
+};
+
+/** Fires one volley of the pilot's primary weapon at its current level. */
+export const firePrimary = (world: World, player: Player, events: GameEvent[]) => {
+  const pattern = SHIPS[player.ship].weapon;
+  const weapon = WEAPONS[pattern];
+  events.push({ type: 'shot', player: player.slot, weapon: pattern });
+  const pierce = weapon.pierce || hasEffect(player, 'pierce');
+  const color = pierce ? COLORS.PIERCE : COLORS.BULLET;
+  const shots = weapon.levels[player.weaponLevel - 1];
+  (consumeCharge(world, player, 'triple') ? [...shots, ...TRIPLE_SHOTS] : shots).forEach(({ dx, vx }) => {
+    const b = spawnShot(world, player, player.x + dx, vx, -weapon.speed, color, weapon.damageType, 1);
+    if (pierce) {
+      b.pierce = true;
+      b.hits = [];
+    }
+  });
+};
+
+// --- Secondary Weapons ---
+
+/** Names are in the i18n catalogs, under the secondary's id. */
+export interface SecondaryDefinition {
+  color: string;
+  damageType: DamageType;
+  /** Per missile or bomb, or per tick of the laser, before the damage upgrade. */
+  damage: number;
+  /** Ticks between volleys while fire is held. */
+  cooldown: number;
+  /** Burns every tick while fire is held rather than firing volleys; `cooldown` only paces its sound. */
+  beam?: boolean;
+  fire?: (world: World, player: Player) => void;
+}
+
+/** Radians per tick a player missile may turn, and ticks it keeps steering. */
+const MISSILE_TURN = 0.09;
+const MISSILE_TICKS = 90;
+/** Ticks before a cluster bomb bursts on its own, and the radius of the burst. */
+const CLUSTER_FUSE = 45;
+const CLUSTER_BLAST = 70;
+/** Width of the laser beam. */
+export const LASER_WIDTH = 14;
+
+export const SECONDARIES: Record<SecondaryId, SecondaryDefinition> = {
+  /** A pair of homing missiles that chase the nearest enemy. */
+  missiles: {
+    color: COLORS.MISSILES, damageType: 'explosive', damage: 2, cooldown: 45,
+    fire: (world, player) => [-1, 1].forEach(side => {
+      const b = spawnShot(world, player, player.x + side * 14, side * 2.5, -6, COLORS.MISSILES, 'explosive', SECONDARIES.missiles.damage);
+      b.kind = 'missile';
+      b.homing = MISSILE_TURN;
+      b.life = MISSILE_TICKS;
+    }),
+  },
+  /** A beam straight up that burns the first thing in its way. */
+  laser: {
+    color: COLORS.LASER, damageType: 'energy', damage: 0.1, cooldown: 12, beam: true,
+  },
+  /** Three slow bombs that burst on contact or when their fuse runs out, hurting everything nearby. */
+  cluster: {
+    color: COLORS.CLUSTER, damageType: 'explosive', damage: 1.5, cooldown: 70,
+    fire: (world, player) => [-1.5, 0, 1.5].forEach(vx => {
+      const b = spawnShot(world, player, player.x, vx, -5, COLORS.CLUSTER, 'explosive', SECONDARIES.cluster.damage);
+      b.kind = 'cluster';
+      b.fuse = CLUSTER_FUSE;
+      b.blast = CLUSTER_BLAST;
+    }),
+  },
+};
+
+export const SECONDARY_IDS = Object.keys(SECONDARIES) as SecondaryId[];
+
+/** Runs a pilot's secondary for one tick: switches the beam on or off and fires volleys while `firing`. */
+export const updateSecondary = (world: World, player: Player, firing: boolean, events: GameEvent[]) => {
+  player.beamY = null;
+  if (player.secondaryCooldown > 0) player.secondaryCooldown--;
+  if (!player.secondary || !firing) return;
+  const def = SECONDARIES[player.secondary];
+  if (def.beam) player.beamY = 0;
+  if (player.secondaryCooldown > 0) return;
+  def.fire?.(world, player);
+  events.push({ type: 'shot', player: player.slot, weapon: player.secondary });
+  player.secondaryCooldown = def.cooldown;
+};
+
+/** The column a pilot's beam covers, centred halfway between them and the top of the screen. */
+export const beamHitbox = (player: Player): Hitbox => ({ shape: 'aabb', width: LASER_WIDTH, height: player.y });
+
+export const beamDamage = (world: World) => SECONDARIES.laser.damage * shotPower(world);
+
+/** Burns the nearest enemy above a pilot whose beam is on, and stops the beam there. */
+export const burnBeam = (world: World, player: Player) => {
+  if (player.beamY === null) return;
+  const column = beamHitbox(player);
+  let target: Enemy | null = null;
+  for (const e of world.enemies) {
+    if (e.hp <= 0 || e.y >= player.y || (target && e.y <= target.y)) continue;
+    if (overlaps(player.x, player.y / 2, column, e.x, e.y, HITBOXES.enemies[e.type])) target = e;
+  }
+  if (!target) return;
+  target.hp -= beamDamage(world) * resistance(target.type, 'energy');
+  target.lastHitBy = player.slot;
+  player.beamY = target.y;
+};
+
+/** Bursts a cluster bomb, hurting every enemy within its blast. */
+export const burstCluster = (world: World, b: Bullet, events: GameEvent[]) => {
+  world.enemies.forEach(e => {
+    if (e.hp <= 0 || Math.hypot(e.x - b.x, e.y - b.y) > (b.blast ?? 0)) return;
+    e.hp -= b.power * resistance(e.type, b.damageType);
+    e.lastHitBy = b.owner ?? 0;
+  });
+  createExplosion(world, events, b.x, b.y, b.color, 20);
+};
+
+// --- Charge Shot ---
+
+/** Ticks the charge must be held before releasing it fires anything, and until it is full. */
+export const MIN_CHARGE = 0.4 * TICK_RATE;
+export const FULL_CHARGE = 1.5 * TICK_RATE;
+/** Damage of a barely charged and a fully charged shot, before the damage upgrade. */
+const CHARGE_DAMAGE = { min: 3, max: 10 };
+
+/** Builds the charge while `held`, and fires it once let go. */
+export const updateCharge = (world: World, player: Player, held: boolean, events: GameEvent[]) => {
+  if (held) {
+    player.charge = Math.min(FULL_CHARGE, player.charge + 1);
+    return;
+  }
+  const charge = player.charge;
+  player.charge = 0;
+  if (charge < MIN_CHARGE) return;
+  const fraction = (charge - MIN_CHARGE) / (FULL_CHARGE - MIN_CHARGE);
+  const b = spawnShot(world, player, player.x, 0, -12, COLORS.PLAYER, 'energy', CHARGE_DAMAGE.min + (CHARGE_DAMAGE.max - CHARGE_DAMAGE.min) * fraction);
+  b.kind = 'charge';
+  b.pierce = true;
+  b.hits = [];
+  events.push({ type: 'shot', player: player.slot, weapon: 'charge' });
+};
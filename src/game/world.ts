@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { INVUL_TICKS, RESPAWN_TICKS } from './constants';
+import { particlesFree, spawnParticle } from './pool';
+import { clearEffects, consumeCharge } from './powerups';
+import { nextRandom } from './random';
+import type { Difficulty, GameEvent, Movable, Player, World } from './types';
+
+// --- Shared World Helpers ---
+// Small building blocks used by the simulation and by the subsystems it drives (bosses, ...).
+
+/** Position fields for a freshly spawned entity, which has no previous position to interpolate from. */
+export const spawnAt = (x: number, y: number): Movable => ({ x, y, px: x, py: y });
+
+export const random = (world: World) => nextRandom(world.rng);
+export const randomRange = (world: World, min: number, max: number) => random(world) * (max - min) + min;
+
+export const diffModFor = (difficulty: Difficulty) => difficulty === 'EASY' ? 0.7 : difficulty === 'HARD' ? 1.5 : 1;
+
+/** Randomness for cosmetic effects only, so the particle budget can never change gameplay. */
+const fxRandom = (world: World) => nextRandom(world.fxRng);
+
+export const createExplosion = (world: World, events: GameEvent[], x: number, y: number, color: string, count = 30, isHeavy = false) => {
+  world.shake = isHeavy ? 15 : 8;
+  events.push({ type: 'explosion', heavy: isHeavy });
+
+  // Explosions shrink to what is left of the particle budget instead of allocating more.
+  const sparks = Math.min(count, particlesFree(world) - 1);
+  world.pools.particles.dropped += count - Math.max(0, sparks);
+  spawnParticle(world, x, y, 0, 0, '#ffffff', isHeavy ? 40 : 20);
+
+  for (let i = 0; i < sparks; i++) {
+    const angle = fxRandom(world) * Math.PI * 2;
+    const speed = fxRandom(world) * (isHeavy ? 12 : 8) + 2;
+    spawnParticle(world, x, y, Math.cos(angle) * speed, Math.sin(angle) * speed, color, fxRandom(world) * (isHeavy ? 6 : 4) + 2);
+  }
+};
+
+/** The pilot an enemy at (x, y) goes after: the nearest one still flying. */
+export const targetPlayer = (world: World, x: number, y: number): Player => {
+  let target = world.players[0];
+  let nearest = Infinity;
+  world.players.forEach(player => {
+    if (player.health <= 0) return;
+    const dist = Math.hypot(player.x - x, player.y - y);
+    if (dist < nearest) {
+      nearest = dist;
+      target = player;
+    }
+  });
+  return target;
+};
+
+/** What a pilot's missiles at (x, y) go after: the nearest live enemy, or the boss. Null when there is nothing. */
+export const targetEnemy = (world: World, x: number, y: number): Movable | null => {
+  const boss = world.boss;
+  let target: Movable | null = boss && !boss.entering && boss.dying <= 0 ? boss : null;
+  let nearest = target ? Math.hypot(target.x - x, target.y - y) : Infinity;
+  world.enemies.forEach(e => {
+    if (e.hp <= 0) return;
+    const dist = Math.hypot(e.x - x, e.y - y);
+    if (dist < nearest) {
+      nearest = dist;
+      target = e;
+    }
+  });
+  return target;
+};
+
+/**
+ * Applies a hit to a pilot: their shield absorbs it, otherwise health is lost along with a
+ * weapon level. A pilot out of health goes down; the run is over once every pilot is down
+ * at the same time.
+ */
+export const hitPlayer = (world: World, player: Player, events: GameEvent[]) => {
+  if (consumeCharge(world, player, 'shield')) {
+    events.push({ type: 'shieldBlocked', player: player.slot });
+  } else {
+    player.health -= 1;
+    player.weaponLevel = Math.max(1, player.weaponLevel - 1);
+    if (world.boss) world.boss.playerHit = true;
+    events.push({ type: 'playerHit', player: player.slot });
+    if (player.health <= 0) downPlayer(world, player, events);
+  }
+  player.invul = INVUL_TICKS;
+};
+
+const downPlayer = (world: World, player: Player, events: GameEvent[]) => {
+  player.health = 0;
+  player.downs += 1;
+  clearEffects(world, player);
+  // Wrecks come back with the basic weapon.
+  player.weaponLevel = 1;
+  player.secondary = null;
+  player.charge = 0;
+  player.beamY = null;
+  events.push({ type: 'playerDown', player: player.slot });
+  if (world.players.every(p => p.health <= 0)) {
+    if (world.status === 'PLAYING') {
+      world.status = 'GAMEOVER';
+      events.push({ type: 'gameOver' });
+    }
+  } else {
+    player.respawn = RESPAWN_TICKS;
+  }
+};
@@ -0,0 +1,373 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Catalog } from '../i18n';
+
+// --- en ---
+
+export const en: Catalog = {
+  // --- Common ---
+  'common.back': 'Back',
+  'common.resetDefaults': 'Reset to defaults',
+  'common.mainMenu': 'Main menu',
+  'common.noRecords': 'No records yet',
+  'common.unbound': 'Unbound',
+  'common.hidden': '???',
+  'common.move': 'Move',
+
+  // --- Game Data ---
+  'difficulty.EASY': 'Easy',
+  'difficulty.NORMAL': 'Normal',
+  'difficulty.HARD': 'Hard',
+  'difficulty.EASY.hint': 'Fewer, slower enemies',
+  'difficulty.NORMAL.hint': 'The standard challenge',
+  'difficulty.HARD.hint': 'Relentless bullets and speed',
+  'mode.endless': 'Endless',
+  'mode.endless.hint': 'No levels, no breaks, harder the longer you last',
+  'enemy.basic': 'Basic fighters',
+  'enemy.fast': 'Fast fighters',
+  'enemy.heavy': 'Heavy fighters',
+  'powerUp.triple': 'Triple Shot',
+  'powerUp.shield': 'Shield',
+  'powerUp.life': 'Extra Life',
+  'powerUp.speed': 'Speed Boost',
+  'powerUp.rapid': 'Rapid Fire',
+  'powerUp.pierce': 'Piercing Shots',
+  'powerUp.bomb': 'Bomb',
+  'powerUp.magnet': 'Magnet',
+  'powerUp.score': 'Score x2',
+  'powerUp.weapon': 'Weapon Up',
+  'powerUp.missiles': 'Homing Missiles',
+  'powerUp.laser': 'Beam Laser',
+  'powerUp.cluster': 'Cluster Bombs',
+  'upgrade.maxHealth': 'Hull Plating',
+  'upgrade.maxHealth.hint': 'More maximum health',
+  'upgrade.fireRate': 'Autoloader',
+  'upgrade.fireRate.hint': 'Less time between shots',
+  'upgrade.moveSpeed': 'Thrusters',
+  'upgrade.moveSpeed.hint': 'Faster movement',
+  'upgrade.damage': 'Heavy Rounds',
+  'upgrade.damage.hint': 'Shots hit harder',
+  'upgrade.shieldCapacity': 'Shield Capacitor',
+  'upgrade.shieldCapacity.hint': 'Shields absorb more hits',
+  'upgrade.powerUpDuration': 'Power Cells',
+  'upgrade.powerUpDuration.hint': 'Power-ups last longer',
+  'ship.pioneer': 'Pioneer',
+  'ship.pioneer.hint': 'The all-rounder you started with',
+  'ship.interceptor': 'Interceptor',
+  'ship.interceptor.hint': 'Small and fast, but thinly armoured',
+  'ship.bulwark': 'Bulwark',
+  'ship.bulwark.hint': 'Slow and heavy, with thick armour',
+  'ship.phantom': 'Phantom',
+  'ship.phantom.hint': 'Piercing shots cut through whole lines',
+  'weapon.single': 'Single cannon',
+  'weapon.twin': 'Twin cannons',
+  'weapon.spread': 'Spread cannon',
+  'weapon.needle': 'Needle gun',
+  'ability.overdrive': 'Overdrive',
+  'ability.overdrive.hint': 'Rapid fire for a while',
+  'ability.phase': 'Phase',
+  'ability.phase.hint': 'A moment of invulnerability',
+  'ability.barrier': 'Barrier',
+  'ability.barrier.hint': 'Raises a shield',
+  'ability.nova': 'Nova',
+  'ability.nova.hint': 'Wipes out enemy fire around you',
+  'boss.sentinel': 'Sentinel',
+  'boss.warden': 'Warden',
+  'boss.dreadnought': 'Dreadnought',
+  'tier.bronze': 'Bronze',
+  'tier.silver': 'Silver',
+  'tier.gold': 'Gold',
+  'action.up': 'Up',
+  'action.down': 'Down',
+  'action.left': 'Left',
+  'action.right': 'Right',
+  'action.fire': 'Fire',
+  'action.charge': 'Charge Shot',
+  'action.bomb': 'Bomb',
+  'action.special': 'Special',
+  'action.pause': 'Pause',
+  'action.mute': 'Mute',
+  'palette.default': 'Default',
+  'palette.deuteranopia': 'Deuteranopia',
+  'palette.protanopia': 'Protanopia',
+  'palette.tritanopia': 'Tritanopia',
+
+  // --- Achievements ---
+  'achievement.first_blood.title': 'First Blood',
+  'achievement.first_blood.description': 'Destroy your first enemy',
+  'achievement.power_hungry.title': 'Power Hungry',
+  'achievement.power_hungry.description': 'Pick up a Triple Shot',
+  'achievement.shield_master.title': 'Iron Wall',
+  'achievement.shield_master.description': 'Block a hit with a shield',
+  'achievement.shield_hoarder.title': 'Shield Hoarder',
+  'achievement.shield_hoarder.description': { one: 'Pick up {count} shield in one run', other: 'Pick up {count} shields in one run' },
+  'achievement.demolition.title': 'Demolition',
+  'achievement.demolition.description': 'Detonate a bomb',
+  'achievement.hunter.title': 'Hunter',
+  'achievement.hunter.description': { one: 'Destroy {count} enemy in total', other: 'Destroy {count} enemies in total' },
+  'achievement.survivor.title': 'Survivor',
+  'achievement.survivor.description': 'Reach level 3',
+  'achievement.ace_pilot.title': 'Ace Pilot',
+  'achievement.ace_pilot.description': 'Score over {count}',
+  'achievement.boss_slayer.title': 'Dragon Slayer',
+  'achievement.boss_slayer.description': 'Defeat a boss',
+  'achievement.collector.title': 'Collector',
+  'achievement.collector.description': { one: 'Pick up {count} power-up in one run', other: 'Pick up {count} power-ups in one run' },
+  'achievement.rampage.title': 'Rampage',
+  'achievement.rampage.description': { one: 'Destroy {count} enemy in one level', other: 'Destroy {count} enemies in one level' },
+  'achievement.wind_chaser.title': 'Wind Chaser',
+  'achievement.wind_chaser.description': { one: 'Destroy {count} fast fighter in total', other: 'Destroy {count} fast fighters in total' },
+  'achievement.trigger_happy.title': 'Trigger Happy',
+  'achievement.trigger_happy.description': { one: 'Fire {count} shot in total', other: 'Fire {count} shots in total' },
+  'achievement.close_call.title': 'Close Call',
+  'achievement.close_call.description': 'Clear a level with 1 life left',
+  'achievement.flawless_boss.title': 'Flawless',
+  'achievement.flawless_boss.description': 'Defeat a boss without taking a hit',
+  'achievement.untouchable.title': 'Untouchable',
+  'achievement.untouchable.description': 'Clear a level on Hard without taking a hit',
+  'achievement.armor_breaker.title': 'Armor Breaker',
+  'achievement.armor_breaker.description': { one: 'Destroy {count} heavy fighter in total', other: 'Destroy {count} heavy fighters in total' },
+  'achievement.exterminator.title': 'Exterminator',
+  'achievement.exterminator.description': { one: 'Destroy {count} enemy in total', other: 'Destroy {count} enemies in total' },
+  'achievement.star_legend.title': 'Star Legend',
+  'achievement.star_legend.description': 'Score over {count}',
+  'achievement.deep_space.title': 'Deep Space',
+  'achievement.deep_space.description': 'Reach level {count}',
+  'achievement.veteran.title': 'Veteran',
+  'achievement.veteran.description': 'Play for 1 hour in total',
+  'achievement.pacifist.title': 'Pacifist',
+  'achievement.pacifist.description': 'Clear a level without firing a shot',
+  'achievement.long_haul.title': 'Long Haul',
+  'achievement.long_haul.description': 'Reach your first milestone in endless mode',
+  'achievement.marathon.title': 'Marathon',
+  'achievement.marathon.description': 'Last 10 minutes in endless mode',
+  'achievement.iron_hull.title': 'Iron Hull',
+  'achievement.iron_hull.description': 'Last 6 minutes in endless mode without taking a hit',
+  'achievement.eternal.title': 'Eternal',
+  'achievement.eternal.description': 'Last 20 minutes in endless mode',
+  'achievements.hiddenDescription': 'Hidden achievement',
+  'achievements.unlockedCount': '{count} / {total}',
+
+  // --- Sidebar ---
+  'sidebar.tagline': 'Boundless stars · Fierce battles',
+  'sidebar.guide': 'How to Play',
+  'sidebar.move': '{keys} / mouse',
+  'sidebar.fire': '{key} / left click',
+  'sidebar.bomb': '{key} / right click',
+  'sidebar.special': '{key} / middle click',
+  'sidebar.charge': '{key} (hold)',
+  'sidebar.gamepad': 'Gamepad',
+  'sidebar.gamepadKeys': 'Left stick / D-pad',
+  'sidebar.touch': 'Touch',
+  'sidebar.touchKeys': 'Drag to move, auto-fire',
+  'sidebar.powerUps': 'Power-Ups',
+  'sidebar.tripleHint': 'Widens your spread of fire',
+  'sidebar.shieldHint': 'Absorbs one fatal hit',
+  'sidebar.weaponHint': 'Raises your weapon a level, up to 5; each hit costs one',
+  'sidebar.achievements': 'Achievements',
+
+  // --- HUD ---
+  'hud.score': 'Score',
+  'hud.level': 'Level',
+  'hud.time': 'Time',
+  'hud.seconds': '{seconds}s',
+  'hud.mute': 'Mute ({key})',
+  'hud.unmute': 'Unmute ({key})',
+  'hud.enemyEscaped': 'Enemy Escaped! -{penalty}',
+  'hud.warning': 'WARNING',
+  'hud.bossIncoming': 'Boss incoming',
+  'hud.achievementUnlocked': 'Achievement unlocked · {tier}',
+  'hud.moreUnlocks': ' (+{count} more)',
+  'hud.pilot': 'P{number}',
+  'hud.respawning': 'Back in {seconds}s',
+  'hud.reviveHint': 'Fly over the wreck to revive faster',
+  'hud.survived': 'Survived',
+  'hud.milestone': 'MILESTONE',
+  'hud.minutesSurvived': { one: '{count} minute survived', other: '{count} minutes survived' },
+  'hud.stardust': 'Stardust',
+  'hud.specialReady': 'READY',
+  'hud.weaponLevel': 'Lv {level}',
+  'hud.charging': 'CHARGE',
+
+  // --- Start Screen ---
+  'start.chooseDifficulty': 'Choose your difficulty',
+  'start.solo': 'Solo',
+  'start.coop': 'Co-op',
+  'start.coopHint': 'P2: {keys} to move · {fire} to fire · {bomb} to bomb · {special} for the special, or a second gamepad',
+  'start.online': 'Online Co-op',
+  'start.desktopControls': 'Desktop Controls',
+  'start.move': '{keys} / mouse',
+  'start.fire': '{key} / left click',
+  'start.bomb': '{key} / right click',
+  'start.special': '{key} / middle click',
+  'start.charge': '{key} (hold)',
+  'start.mobileControls': 'Mobile Controls',
+  'start.mobileMove': 'Drag on the screen to move',
+  'start.mobileFire': 'Your ship fires automatically',
+  'start.mobilePause': 'Tap the top right to pause',
+  'start.watchLastReplay': 'Watch last run',
+  'start.loadReplay': 'Load replay file',
+  'start.invalidReplay': 'Invalid replay file: {error}',
+  'start.importConfirm': 'The imported save will replace your current achievements and records. Continue?',
+  'start.hangar': 'Hangar',
+
+  // --- Hangar ---
+  'hangar.title': 'Hangar',
+  'hangar.pilot': 'P{number} ship',
+  'hangar.speed': 'Speed',
+  'hangar.fireRate': 'Fire rate',
+  'hangar.health': 'Health',
+  'hangar.hitbox': 'Hitbox',
+  'hangar.weapon': 'Weapon',
+  'hangar.ability': 'Special',
+  'hangar.cooldown': '{seconds}s cooldown',
+  'hangar.selected': 'Selected',
+  'hangar.unlockAchievement': 'Unlocks with the "{title}" achievement',
+  'hangar.unlockScore': 'Unlocks after scoring {score} in any mode',
+
+  // --- Level Complete ---
+  'levelComplete.title': 'LEVEL CLEAR',
+  'levelComplete.subtitle': 'Sector secured',
+  'levelComplete.prompt': 'Ready for the next stage?',
+  'levelComplete.next': 'Next level',
+  'levelComplete.waitingHost': 'Waiting for the host to move on…',
+
+  // --- Shop ---
+  'shop.title': 'Upgrades',
+  'shop.stardust': 'Stardust',
+  'shop.level': 'Lv {level}/{max}',
+  'shop.buy': 'Buy',
+  'shop.maxed': 'MAX',
+  'shop.locked': 'Unlocks after earning {stardust} stardust in total',
+  'shop.hostOnly': 'The host spends the team\'s stardust',
+
+  // --- Pause ---
+  'paused.title': 'Paused',
+  'paused.resume': 'Resume',
+  'paused.controls': 'Controls',
+  'paused.settings': 'Settings',
+  'paused.quit': 'Quit',
+  'paused.pausedBy': 'Paused by P{number}',
+
+  // --- Game Over ---
+  'gameOver.title': 'MISSION FAILED',
+  'gameOver.subtitle': 'Your ship was destroyed',
+  'gameOver.subtitleCoop': 'Every ship was destroyed',
+  'gameOver.finalScore': 'Final score',
+  'gameOver.highestLevel': 'Level reached',
+  'gameOver.achievements': 'Achievements',
+  'gameOver.noAchievements': 'No achievements yet',
+  'gameOver.pilots': 'Pilot results',
+  'gameOver.kills': 'Kills',
+  'gameOver.downs': 'Downed',
+  'gameOver.coopUnranked': 'Co-op runs are not ranked on the leaderboard',
+  'gameOver.endlessUnranked': 'Endless runs are not ranked on the leaderboard',
+  'gameOver.timeSurvived': 'Time survived',
+  'gameOver.endlessBest': 'Endless best (time · score)',
+  'gameOver.waitingHost': 'Waiting for the host to start another run…',
+  'gameOver.leaderboard': 'Leaderboard',
+  'gameOver.retry': 'Try again',
+  'gameOver.watchReplay': 'Watch replay',
+  'gameOver.saveReplay': 'Save replay',
+
+  // --- Stats ---
+  'stats.title': 'Career',
+  'stats.bestScores': 'Best Scores',
+  'stats.highestLevel': 'Highest level',
+  'stats.endlessTime': 'Longest endless run',
+  'stats.endlessScore': 'Best endless score',
+  'stats.lifetime': 'Lifetime',
+  'stats.runs': 'Runs',
+  'stats.playTime': 'Play time',
+  'stats.stardust': 'Stardust earned',
+  'stats.shotsFired': 'Shots fired',
+  'stats.enemiesDestroyed': 'Enemies destroyed',
+  'stats.kills': 'Kills',
+  'stats.powerUps': 'Power-Ups',
+  'stats.achievements': 'Achievements',
+  'stats.locked': 'Locked',
+  'stats.export': 'Export save',
+  'stats.import': 'Import save',
+  'stats.invalidProfile': 'Invalid save file: {error}',
+
+  // --- Leaderboard ---
+  'leaderboard.daily': 'Today',
+  'leaderboard.weekly': 'This week',
+  'leaderboard.all': 'All time',
+  'leaderboard.allShips': 'All ships',
+  'leaderboard.namePlaceholder': 'Enter your pilot name',
+  'leaderboard.submit': 'Submit',
+  'leaderboard.submitted': 'Submitted',
+  'leaderboard.savedLocally': 'Saved locally',
+  'leaderboard.boardRank': '{difficulty} rank',
+  'leaderboard.rejected': 'The server could not verify this run, so it is not on the online board: {reason}',
+  'leaderboard.offline': 'Leaderboard server unreachable; showing local records',
+  'leaderboard.playerRank': { one: "{name}'s best: #{rank} of {count} pilot", other: "{name}'s best: #{rank} of {count} pilots" },
+
+  // --- Online ---
+  'online.title': 'Online Co-op',
+  'online.create': 'Create Room',
+  'online.join': 'Join',
+  'online.codePlaceholder': 'Room code',
+  'online.connecting': 'Connecting to the relay…',
+  'online.roomCode': 'Room Code',
+  'online.shareCode': 'Share this code with your partner and wait for them to join',
+  'online.peerConnected': 'Partner connected · you are P{number}',
+  'online.waitingHost': 'Waiting for the host to pick a difficulty…',
+  'online.reconnecting': 'Connection lost, reconnecting…',
+  'online.peerLost': 'Partner\'s connection dropped, waiting for them to return…',
+  'online.waitingPeer': 'Waiting for partner…',
+  'online.peerLeft': 'Your partner left the room',
+  'online.disconnected': 'Lost the connection to the relay',
+  'online.unreachable': 'Could not reach the relay',
+  'online.desync': 'The two games fell out of sync at tick {tick}; the run was stopped',
+  'online.leave': 'Leave Room',
+  'online.hint': 'Each of you plays on your own keyboard, gamepad or mouse, with your solo controls.',
+  'online.error.notFound': 'No room with that code',
+  'online.error.full': 'That room is full',
+  'online.error.expired': 'The room has closed',
+  'online.error.malformed': 'The relay refused the request',
+
+  // --- Replay ---
+  'replay.label': 'Replay',
+
+  // --- Controls ---
+  'controls.title': 'Controls',
+  'controls.keyboard': 'Keyboard',
+  'controls.keyboard2': 'P2 Keyboard',
+  'controls.gamepad': 'Gamepad',
+  'controls.pressKey': 'Press a key…',
+  'controls.pressButton': 'Press a button…',
+  'controls.clear': 'Clear',
+  'controls.hint': 'Keys are matched by their physical position, whatever the input method, keyboard layout or Caps Lock. Left click fires, right click drops a bomb and middle click triggers your special; on touch screens, tap with two fingers to bomb.',
+  'controls.coopHint': "In co-op, P2's keys win over the same keys bound for P1. P2 can also use a second gamepad.",
+  'controls.noGamepad': 'No gamepad found. Connect one and press any button.',
+  'controls.deadzone': 'Stick deadzone',
+  'controls.rumble': 'Gamepad rumble',
+
+  // --- Settings ---
+  'settings.title': 'Settings',
+  'settings.audio': 'Audio',
+  'settings.volume.master': 'Master',
+  'settings.volume.music': 'Music',
+  'settings.volume.sfx': 'Effects',
+  'settings.muted': 'Mute',
+  'settings.mutedHint': 'In game, the mute key or the speaker button also toggles this',
+  'settings.comfort': 'Comfort',
+  'settings.shake': 'Screen shake',
+  'settings.reducedMotion': 'Reduce motion',
+  'settings.reducedMotionHint': 'Turns off screen shake, engine flicker and interface animations',
+  'settings.reducedFlash': 'Reduce flashing',
+  'settings.reducedFlashHint': 'No blinking while invulnerable, no white flashes from explosions or boss hits',
+  'settings.accessibility': 'Accessibility',
+  'settings.palette': 'Colour vision palette',
+  'settings.highContrast': 'High-contrast bullets',
+  'settings.highContrastHint': 'Outlines every bullet; your own shots become short bars',
+  'settings.showHitbox': 'Show hitbox',
+  'settings.showHitboxHint': "Marks your ship's actual hit area",
+  'settings.language': 'Language',
+  'settings.languageAuto': 'Same as browser',
+};
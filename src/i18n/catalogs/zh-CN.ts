@@ -0,0 +1,375 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Message } from '../i18n';
+
+// --- zh-CN ---
+// The reference catalog: its keys are the message keys every other catalog must cover.
+// Display titles such as "MISSION FAILED" stay in English here by design.
+
+export const zhCN = {
+  // --- Common ---
+  'common.back': '返回',
+  'common.resetDefaults': '恢复默认',
+  'common.mainMenu': '返回主菜单',
+  'common.noRecords': '暂无记录',
+  'common.unbound': '未绑定',
+  'common.hidden': '???',
+  'common.move': '移动',
+
+  // --- Game Data ---
+  'difficulty.EASY': '简单',
+  'difficulty.NORMAL': '普通',
+  'difficulty.HARD': '困难',
+  'difficulty.EASY.hint': '敌机较少，速度慢',
+  'difficulty.NORMAL.hint': '标准挑战',
+  'difficulty.HARD.hint': '疯狂的弹幕与速度',
+  'mode.endless': '无尽模式',
+  'mode.endless.hint': '没有关卡，没有喘息，坚持得越久越难',
+  'enemy.basic': '普通敌机',
+  'enemy.fast': '高速敌机',
+  'enemy.heavy': '重型敌机',
+  'powerUp.triple': '三向子弹',
+  'powerUp.shield': '能量护盾',
+  'powerUp.life': '额外生命',
+  'powerUp.speed': '加速推进',
+  'powerUp.rapid': '急速射击',
+  'powerUp.pierce': '穿透弹',
+  'powerUp.bomb': '炸弹',
+  'powerUp.magnet': '磁力吸附',
+  'powerUp.score': '双倍得分',
+  'powerUp.weapon': '武器升级',
+  'powerUp.missiles': '追踪导弹',
+  'powerUp.laser': '光束激光',
+  'powerUp.cluster': '集束炸弹',
+  'upgrade.maxHealth': '船体装甲',
+  'upgrade.maxHealth.hint': '提高生命上限',
+  'upgrade.fireRate': '自动装填',
+  'upgrade.fireRate.hint': '缩短射击间隔',
+  'upgrade.moveSpeed': '推进器',
+  'upgrade.moveSpeed.hint': '提高移动速度',
+  'upgrade.damage': '重型弹药',
+  'upgrade.damage.hint': '子弹伤害更高',
+  'upgrade.shieldCapacity': '护盾电容',
+  'upgrade.shieldCapacity.hint': '护盾可抵挡更多攻击',
+  'upgrade.powerUpDuration': '能量电池',
+  'upgrade.powerUpDuration.hint': '道具持续时间更长',
+  'ship.pioneer': '先锋号',
+  'ship.pioneer.hint': '均衡全能，最早的伙伴',
+  'ship.interceptor': '截击者',
+  'ship.interceptor.hint': '又小又快，但装甲单薄',
+  'ship.bulwark': '壁垒号',
+  'ship.bulwark.hint': '笨重缓慢，装甲厚实',
+  'ship.phantom': '幻影号',
+  'ship.phantom.hint': '穿透弹贯穿整列敌机',
+  'weapon.single': '单发炮',
+  'weapon.twin': '双联炮',
+  'weapon.spread': '散射炮',
+  'weapon.needle': '穿甲针',
+  'ability.overdrive': '超载',
+  'ability.overdrive.hint': '一段时间内急速射击',
+  'ability.phase': '相位',
+  'ability.phase.hint': '短暂无敌',
+  'ability.barrier': '屏障',
+  'ability.barrier.hint': '展开一层护盾',
+  'ability.nova': '新星',
+  'ability.nova.hint': '清除周围的敌方子弹',
+  'boss.sentinel': '哨兵',
+  'boss.warden': '典狱长',
+  'boss.dreadnought': '无畏舰',
+  'tier.bronze': '铜',
+  'tier.silver': '银',
+  'tier.gold': '金',
+  'action.up': '上移',
+  'action.down': '下移',
+  'action.left': '左移',
+  'action.right': '右移',
+  'action.fire': '射击',
+  'action.charge': '蓄力射击',
+  'action.bomb': '炸弹',
+  'action.special': '特殊技能',
+  'action.pause': '暂停',
+  'action.mute': '静音',
+  'palette.default': '默认',
+  'palette.deuteranopia': '绿色弱',
+  'palette.protanopia': '红色弱',
+  'palette.tritanopia': '蓝色弱',
+
+  // --- Achievements ---
+  'achievement.first_blood.title': '第一滴血',
+  'achievement.first_blood.description': '击毁第一架敌机',
+  'achievement.power_hungry.title': '火力全开',
+  'achievement.power_hungry.description': '拾取三向子弹道具',
+  'achievement.shield_master.title': '铜墙铁壁',
+  'achievement.shield_master.description': '使用能量护盾抵挡攻击',
+  'achievement.shield_hoarder.title': '护盾收藏家',
+  'achievement.shield_hoarder.description': '单局内拾取{count}个能量护盾',
+  'achievement.demolition.title': '清场专家',
+  'achievement.demolition.description': '引爆一枚炸弹',
+  'achievement.hunter.title': '猎手',
+  'achievement.hunter.description': '累计击毁{count}架敌机',
+  'achievement.survivor.title': '生存者',
+  'achievement.survivor.description': '达到第3关',
+  'achievement.ace_pilot.title': '王牌飞行员',
+  'achievement.ace_pilot.description': '分数超过{count}',
+  'achievement.boss_slayer.title': '屠龙者',
+  'achievement.boss_slayer.description': '击败一名关底首领',
+  'achievement.collector.title': '道具大师',
+  'achievement.collector.description': '单局内拾取{count}个道具',
+  'achievement.rampage.title': '横扫千军',
+  'achievement.rampage.description': '单关内击毁{count}架敌机',
+  'achievement.wind_chaser.title': '追风者',
+  'achievement.wind_chaser.description': '累计击毁{count}架高速敌机',
+  'achievement.trigger_happy.title': '扳机狂人',
+  'achievement.trigger_happy.description': '累计发射{count}发子弹',
+  'achievement.close_call.title': '绝处逢生',
+  'achievement.close_call.description': '仅剩1点生命时通过一关',
+  'achievement.flawless_boss.title': '毫发无伤',
+  'achievement.flawless_boss.description': '无伤击败一名关底首领',
+  'achievement.untouchable.title': '无懈可击',
+  'achievement.untouchable.description': '在困难难度下无伤通过一关',
+  'achievement.armor_breaker.title': '破甲专家',
+  'achievement.armor_breaker.description': '累计击毁{count}架重型敌机',
+  'achievement.exterminator.title': '歼灭者',
+  'achievement.exterminator.description': '累计击毁{count}架敌机',
+  'achievement.star_legend.title': '星际传奇',
+  'achievement.star_legend.description': '分数超过{count}',
+  'achievement.deep_space.title': '深空远征',
+  'achievement.deep_space.description': '到达第{count}关',
+  'achievement.veteran.title': '老兵',
+  'achievement.veteran.description': '累计游戏1小时',
+  'achievement.pacifist.title': '和平主义者',
+  'achievement.pacifist.description': '不发一弹通过一关',
+  'achievement.long_haul.title': '长途跋涉',
+  'achievement.long_haul.description': '在无尽模式中到达第一个里程碑',
+  'achievement.marathon.title': '马拉松',
+  'achievement.marathon.description': '在无尽模式中坚持10分钟',
+  'achievement.iron_hull.title': '钢铁船体',
+  'achievement.iron_hull.description': '在无尽模式中无伤坚持6分钟',
+  'achievement.eternal.title': '永恒',
+  'achievement.eternal.description': '在无尽模式中坚持20分钟',
+  'achievements.hiddenDescription': '隐藏成就',
+  'achievements.unlockedCount': '{count} / {total}',
+
+  // --- Sidebar ---
+  'sidebar.tagline': '浩瀚星空 · 极致战斗',
+  'sidebar.guide': '操作指南',
+  'sidebar.move': '{keys} / 鼠标移动',
+  'sidebar.fire': '{key} / 鼠标左键',
+  'sidebar.bomb': '{key} / 鼠标右键',
+  'sidebar.special': '{key} / 鼠标中键',
+  'sidebar.charge': '按住 {key}',
+  'sidebar.gamepad': '手柄',
+  'sidebar.gamepadKeys': '左摇杆 / 十字键',
+  'sidebar.touch': '触屏',
+  'sidebar.touchKeys': '滑动移动+自动射击',
+  'sidebar.powerUps': '道具说明',
+  'sidebar.tripleHint': '大幅增强火力范围',
+  'sidebar.shieldHint': '抵挡一次致命伤害',
+  'sidebar.weaponHint': '主武器升一级，最高 5 级；每次受伤降一级',
+  'sidebar.achievements': '成就系统',
+
+  // --- HUD ---
+  'hud.score': 'Score',
+  'hud.level': 'Level',
+  'hud.time': 'Time',
+  'hud.seconds': '{seconds}s',
+  'hud.mute': '静音 ({key})',
+  'hud.unmute': '取消静音 ({key})',
+  'hud.enemyEscaped': '敌机逃脱！-{penalty}',
+  'hud.warning': 'WARNING',
+  'hud.bossIncoming': '首领来袭',
+  'hud.achievementUnlocked': '成就解锁 · {tier}',
+  'hud.moreUnlocks': ' (+{count})',
+  'hud.pilot': 'P{number}',
+  'hud.respawning': '{seconds}秒后重返战场',
+  'hud.reviveHint': '队友靠近残骸可加速复活',
+  'hud.survived': 'Survived',
+  'hud.milestone': 'MILESTONE',
+  'hud.minutesSurvived': '已坚持{count}分钟',
+  'hud.stardust': 'Stardust',
+  'hud.specialReady': 'READY',
+  'hud.weaponLevel': 'Lv {level}',
+  'hud.charging': 'CHARGE',
+
+  // --- Start Screen ---
+  'start.chooseDifficulty': '选择难度等级',
+  'start.solo': '单人',
+  'start.coop': '双人合作',
+  'start.coopHint': 'P2：{keys} 移动 · {fire} 射击 · {bomb} 炸弹 · {special} 特殊技能，或使用第二个手柄',
+  'start.online': '在线合作',
+  'start.desktopControls': 'Desktop Controls',
+  'start.move': '{keys} / 鼠标',
+  'start.fire': '{key} / 左键',
+  'start.bomb': '{key} / 右键',
+  'start.special': '{key} / 中键',
+  'start.charge': '按住 {key}',
+  'start.mobileControls': 'Mobile Controls',
+  'start.mobileMove': '滑动屏幕控制移动',
+  'start.mobileFire': '战机将自动进行射击',
+  'start.mobilePause': '点击右上角可暂停游戏',
+  'start.watchLastReplay': '观看上一局回放',
+  'start.loadReplay': '载入回放文件',
+  'start.invalidReplay': '回放文件无效：{error}',
+  'start.importConfirm': '导入的存档将覆盖当前的成就与记录，确定继续吗？',
+  'start.hangar': '机库',
+
+  // --- Hangar ---
+  'hangar.title': '机库',
+  'hangar.pilot': '{number}号机',
+  'hangar.speed': '速度',
+  'hangar.fireRate': '射速',
+  'hangar.health': '生命',
+  'hangar.hitbox': '判定',
+  'hangar.weapon': '主武器',
+  'hangar.ability': '特殊技能',
+  'hangar.cooldown': '冷却{seconds}秒',
+  'hangar.selected': '已选择',
+  'hangar.unlockAchievement': '达成成就「{title}」后解锁',
+  'hangar.unlockScore': '任意模式得分达到{score}后解锁',
+
+  // --- Level Complete ---
+  'levelComplete.title': 'LEVEL CLEAR',
+  'levelComplete.subtitle': '关卡已完成',
+  'levelComplete.prompt': '准备好进入下一阶段了吗？',
+  'levelComplete.next': '进入下一关',
+  'levelComplete.waitingHost': '等待房主进入下一关…',
+
+  // --- Shop ---
+  'shop.title': '升级',
+  'shop.stardust': '星尘',
+  'shop.level': 'Lv {level}/{max}',
+  'shop.buy': '购买',
+  'shop.maxed': '已满级',
+  'shop.locked': '累计获得{stardust}星尘后解锁',
+  'shop.hostOnly': '由房主使用队伍的星尘',
+
+  // --- Pause ---
+  'paused.title': '游戏暂停',
+  'paused.resume': '继续',
+  'paused.controls': '按键',
+  'paused.settings': '设置',
+  'paused.quit': '退出',
+  'paused.pausedBy': '由 P{number} 暂停',
+
+  // --- Game Over ---
+  'gameOver.title': 'MISSION FAILED',
+  'gameOver.subtitle': '战机已被摧毁',
+  'gameOver.subtitleCoop': '所有战机均已被摧毁',
+  'gameOver.finalScore': '最终得分',
+  'gameOver.highestLevel': '最高关卡',
+  'gameOver.achievements': '解锁成就',
+  'gameOver.noAchievements': '暂无成就',
+  'gameOver.pilots': '飞行员战绩',
+  'gameOver.kills': '击毁',
+  'gameOver.downs': '被击落',
+  'gameOver.coopUnranked': '合作模式的成绩不计入排行榜',
+  'gameOver.endlessUnranked': '无尽模式的成绩不计入排行榜',
+  'gameOver.timeSurvived': '坚持时间',
+  'gameOver.endlessBest': '无尽模式最佳（时间 · 得分）',
+  'gameOver.waitingHost': '等待房主开始下一局…',
+  'gameOver.leaderboard': '排行榜',
+  'gameOver.retry': '再次尝试',
+  'gameOver.watchReplay': '观看回放',
+  'gameOver.saveReplay': '保存回放',
+
+  // --- Stats ---
+  'stats.title': '生涯数据',
+  'stats.bestScores': 'Best Scores',
+  'stats.highestLevel': '最高关卡',
+  'stats.endlessTime': '无尽模式最长时间',
+  'stats.endlessScore': '无尽模式最高分',
+  'stats.lifetime': 'Lifetime',
+  'stats.runs': '出击次数',
+  'stats.playTime': '游戏时长',
+  'stats.stardust': '累计星尘',
+  'stats.shotsFired': '发射子弹',
+  'stats.enemiesDestroyed': '击毁敌机',
+  'stats.kills': 'Kills',
+  'stats.powerUps': 'Power-Ups',
+  'stats.achievements': 'Achievements',
+  'stats.locked': '未解锁',
+  'stats.export': '导出存档',
+  'stats.import': '导入存档',
+  'stats.invalidProfile': '存档文件无效：{error}',
+
+  // --- Leaderboard ---
+  'leaderboard.daily': '今日',
+  'leaderboard.weekly': '本周',
+  'leaderboard.all': '总榜',
+  'leaderboard.allShips': '全部机体',
+  'leaderboard.namePlaceholder': '输入飞行员代号',
+  'leaderboard.submit': '提交',
+  'leaderboard.submitted': '已提交',
+  'leaderboard.savedLocally': '已保存至本地',
+  'leaderboard.boardRank': '{difficulty}排名',
+  'leaderboard.rejected': '成绩未通过服务器校验，未计入在线排行榜：{reason}',
+  'leaderboard.offline': '无法连接排行榜服务器，显示本地记录',
+  'leaderboard.playerRank': '{name} 最佳排名 #{rank} / {count}',
+
+  // --- Online ---
+  'online.title': '在线合作',
+  'online.create': '创建房间',
+  'online.join': '加入',
+  'online.codePlaceholder': '房间码',
+  'online.connecting': '正在连接中继服务器…',
+  'online.roomCode': 'Room Code',
+  'online.shareCode': '把房间码告诉队友，等待对方加入',
+  'online.peerConnected': '队友已就位 · 你是 P{number}',
+  'online.waitingHost': '等待房主选择难度…',
+  'online.reconnecting': '连接中断，正在重连…',
+  'online.peerLost': '队友连接中断，等待其重连…',
+  'online.waitingPeer': '等待队友…',
+  'online.peerLeft': '队友已离开房间',
+  'online.disconnected': '与中继服务器的连接已断开',
+  'online.unreachable': '无法连接中继服务器',
+  'online.desync': '双方游戏状态不一致（第{tick}帧），本局已终止',
+  'online.leave': '离开房间',
+  'online.hint': '双方各用自己的键盘、手柄或鼠标操作，沿用单人模式的按键设置。',
+  'online.error.notFound': '找不到该房间',
+  'online.error.full': '房间已满',
+  'online.error.expired': '房间已关闭',
+  'online.error.malformed': '中继服务器拒绝了请求',
+
+  // --- Replay ---
+  'replay.label': 'Replay',
+
+  // --- Controls ---
+  'controls.title': '按键设置',
+  'controls.keyboard': 'Keyboard',
+  'controls.keyboard2': 'P2 Keyboard',
+  'controls.gamepad': 'Gamepad',
+  'controls.pressKey': '按下按键…',
+  'controls.pressButton': '按下按钮…',
+  'controls.clear': '清除',
+  'controls.hint': '按键按物理位置识别，不受输入法、键盘布局或大写锁定影响。鼠标左键射击、右键炸弹、中键特殊技能；触屏双指点击释放炸弹。',
+  'controls.coopHint': '双人合作时，P2 的按键优先于 P1 绑定的相同按键；P2 也可以使用第二个手柄。',
+  'controls.noGamepad': '未检测到手柄，连接后按任意键激活',
+  'controls.deadzone': '摇杆死区',
+  'controls.rumble': '手柄震动',
+
+  // --- Settings ---
+  'settings.title': '游戏设置',
+  'settings.audio': 'Audio',
+  'settings.volume.master': '总音量',
+  'settings.volume.music': '音乐',
+  'settings.volume.sfx': '音效',
+  'settings.muted': '静音',
+  'settings.mutedHint': '游戏中也可用静音键或右上角按钮切换',
+  'settings.comfort': 'Comfort',
+  'settings.shake': '屏幕震动',
+  'settings.reducedMotion': '减少动态效果',
+  'settings.reducedMotionHint': '关闭屏幕震动、引擎闪烁与界面动画',
+  'settings.reducedFlash': '减少闪烁',
+  'settings.reducedFlashHint': '无敌时不再闪烁，爆炸与首领受击不再闪白',
+  'settings.accessibility': 'Accessibility',
+  'settings.palette': '色觉配色',
+  'settings.highContrast': '高对比度弹幕',
+  'settings.highContrastHint': '所有子弹加上黑白描边，己方子弹改为短条形',
+  'settings.showHitbox': '显示判定点',
+  'settings.showHitboxHint': '标出战机真正的受击范围',
+  'settings.language': 'Language',
+  'settings.languageAuto': '跟随浏览器',
+} satisfies Record<string, Message>;
@@ -0,0 +1,12 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createContext, useContext } from 'react';
+import { createI18n, detectLocale, type I18n } from './i18n';
+
+/** Provided by App from the language in the settings. */
+export const I18nContext = createContext<I18n>(createI18n(detectLocale()));
+
+export const useI18n = (): I18n => useContext(I18nContext);
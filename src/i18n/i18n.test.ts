@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { ACHIEVEMENT_IDS } from '../game/achievements';
+import { BOSS_IDS } from '../game/bosses';
+import { SHIP_IDS } from '../game/ships';
+import {
+  achievementDescription,
+  achievementTitle,
+  bossName,
+  detectLocale,
+  LOCALE_IDS,
+  LOCALES,
+  shipName,
+  translate,
+  type Message,
+  type MessageKey,
+} from './i18n';
+
+/** The `{name}` placeholders a message uses, across all its plural forms. */
+const placeholders = (message: Message) =>
+  [...new Set((typeof message === 'string' ? [message] : Object.values(message)).flatMap(m => m.match(/\{\w+\}/g) ?? []))].sort();
+
+describe('detectLocale', () => {
+  it('picks the first preferred language with a catalog, by primary language', () => {
+    expect(detectLocale(['fr-FR', 'zh-TW', 'en-US'])).toBe('zh-CN');
+    expect(detectLocale(['en-GB'])).toBe('en');
+  });
+
+  it('falls back to English', () => {
+    expect(detectLocale(['fr-FR', 'de'])).toBe('en');
+    expect(detectLocale([])).toBe('en');
+  });
+});
+
+describe('translate', () => {
+  it('fills in placeholders, formatting numbers for the locale', () => {
+    expect(translate('en', 'achievement.ace_pilot.description', { count: 5000 })).toBe('Score over 5,000');
+  });
+
+  it('picks the plural form for the count', () => {
+    expect(translate('en', 'achievement.hunter.description', { count: 1 })).toBe('Destroy 1 enemy in total');
+    expect(translate('en', 'achievement.hunter.description', { count: 100 })).toBe('Destroy 100 enemies in total');
+  });
+
+  it('shows unknown keys as themselves', () => {
+    expect(translate('en', 'no.such.key' as MessageKey)).toBe('no.such.key');
+  });
+});
+
+describe('catalogs', () => {
+  const keys = Object.keys(LOCALES['zh-CN'].catalog) as MessageKey[];
+
+  it('translate every key with the same placeholders', () => {
+    LOCALE_IDS.forEach(locale => {
+      const { catalog } = LOCALES[locale];
+      expect(Object.keys(catalog).sort()).toEqual([...keys].sort());
+      keys.forEach(key => expect([locale, key, placeholders(catalog[key])]).toEqual([locale, key, placeholders(LOCALES['zh-CN'].catalog[key])]));
+    });
+  });
+
+  it('name every achievement, boss and ship', () => {
+    const needed = [
+      ...ACHIEVEMENT_IDS.flatMap(id => [achievementTitle(id), achievementDescription(id)]),
+      ...BOSS_IDS.map(bossName),
+      ...SHIP_IDS.map(shipName),
+    ];
+    needed.forEach(key => expect(keys).toContain(key));
+  });
+});
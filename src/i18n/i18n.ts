@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { en } from './catalogs/en';
+import { zhCN } from './catalogs/zh-CN';
+
+// --- Localisation ---
+// Every piece of UI text is looked up by key in the catalog for the current locale.
+// The zh-CN catalog defines the keys; other catalogs must translate all of them.
+// Messages may contain `{name}` placeholders, filled from the params passed to `t`
+// (numbers are formatted for the locale). A message can also be a set of plural forms,
+// chosen by the `count` param under the locale's plural rules.
+
+export type Locale = 'zh-CN' | 'en';
+
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+export type Message = string | (Partial<Record<PluralCategory, string>> & { other: string });
+
+export type MessageKey = keyof typeof zhCN;
+
+export type Catalog = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+/** Language names are shown in their own language, so players can find theirs. */
+export const LOCALES: Record<Locale, { label: string; catalog: Catalog }> = {
+  'zh-CN': { label: '简体中文', catalog: zhCN },
+  en: { label: 'English', catalog: en },
+};
+
+export const LOCALE_IDS = Object.keys(LOCALES) as Locale[];
+
+/** Used for browser languages with no catalog of their own. */
+export const FALLBACK_LOCALE: Locale = 'en';
+
+/** The first of the browser's preferred languages we have a catalog for, by primary language. */
+export const detectLocale = (languages: readonly string[] = navigator.languages ?? [navigator.language]): Locale => {
+  for (const language of languages) {
+    const primary = language.toLowerCase().split('-')[0];
+    const match = LOCALE_IDS.find(id => id.toLowerCase().split('-')[0] === primary);
+    if (match) return match;
+  }
+  return FALLBACK_LOCALE;
+};
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+const pluralCategory = (locale: Locale, count: number) => {
+  let rules = pluralRules.get(locale);
+  if (!rules) pluralRules.set(locale, rules = new Intl.PluralRules(locale));
+  return rules.select(count) as PluralCategory;
+};
+
+const interpolate = (locale: Locale, template: string, params: MessageParams = {}) =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? value.toLocaleString(locale) : value;
+  });
+
+/** Looks up and fills in a message. Unknown keys come back as the key itself, so they show up in the UI. */
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams) => {
+  const message: Message | undefined = LOCALES[locale].catalog[key];
+  if (message === undefined) return key;
+  if (typeof message === 'string') return interpolate(locale, message, params);
+  const count = Number(params?.count ?? 0);
+  return interpolate(locale, message[pluralCategory(locale, count)] ?? message.other, params);
+};
+
+export interface I18n {
+  locale: Locale;
+  t: Translate;
+}
+
+export const createI18n = (locale: Locale): I18n => ({
+  locale,
+  t: (key, params) => translate(locale, key, params),
+});
+
+// --- Data Keys ---
+// Registries in src/game name things by id; their text lives in the catalogs under these keys.
+
+export const achievementTitle = (id: string) => `achievement.${id}.title` as MessageKey;
+export const achievementDescription = (id: string) => `achievement.${id}.description` as MessageKey;
+export const bossName = (id: string) => `boss.${id}` as MessageKey;
+export const shipName = (id: string) => `ship.${id}` as MessageKey;
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { actionFor, createDefaultBindings, MAX_BINDINGS, parseBindings, pilotBindings, rebind, unbind } from './bindings';
+
+describe('rebind', () => {
+  it('takes the key off whatever it drove before', () => {
+    const bindings = rebind(createDefaultBindings(), 'keys', 'fire', 0, 'KeyW');
+    expect(bindings.keys.fire[0]).toBe('KeyW');
+    expect(bindings.keys.up).toEqual(['ArrowUp']);
+    expect(actionFor(bindings, 'keys', 'KeyW')).toBe('fire');
+  });
+
+  it('replaces the slot, or appends when the slot is past the end', () => {
+    const defaults = createDefaultBindings();
+    expect(rebind(defaults, 'keys', 'mute', 1, 'KeyX').keys.mute).toEqual(['KeyM', 'KeyX']);
+    expect(rebind(defaults, 'keys', 'fire', 1, 'KeyX').keys.fire).toEqual(['Space', 'KeyX']);
+    expect(rebind(defaults, 'buttons', 'fire', 5, 11).buttons.fire).toHaveLength(MAX_BINDINGS);
+  });
+
+  it('leaves the bindings it was given untouched', () => {
+    const defaults = createDefaultBindings();
+    rebind(defaults, 'buttons', 'bomb', 0, 0);
+    unbind(defaults, 'keys', 'fire', 0);
+    expect(defaults).toEqual(createDefaultBindings());
+  });
+
+  it('unbinds one slot', () => {
+    expect(unbind(createDefaultBindings(), 'keys', 'fire', 0).keys.fire).toEqual(['KeyJ']);
+  });
+});
+
+describe('parseBindings', () => {
+  it('round-trips saved bindings', () => {
+    const bindings = rebind(createDefaultBindings(), 'keys', 'fire', 0, 'KeyQ');
+    bindings.deadzone = 0.35;
+    bindings.rumble = false;
+    expect(parseBindings(JSON.parse(JSON.stringify(bindings)))).toEqual(bindings);
+  });
+
+  it('keeps valid entries and falls back to the defaults for the rest', () => {
+    const bindings = parseBindings({
+      keys: { fire: ['KeyF', 42, 'KeyG', 'KeyH'], bomb: 'KeyB' },
+      buttons: { fire: [3, -1, 1.5], special: null },
+      deadzone: 0.9,
+      rumble: 'yes',
+    });
+    const defaults = createDefaultBindings();
+    expect(bindings.keys.fire).toEqual(['KeyF', 'KeyG']);
+    expect(bindings.keys.bomb).toEqual(defaults.keys.bomb);
+    expect(bindings.buttons.fire).toEqual([3]);
+    expect(bindings.buttons.special).toEqual(defaults.buttons.special);
+    expect(bindings.deadzone).toBe(defaults.deadzone);
+    expect(bindings.rumble).toBe(defaults.rumble);
+  });
+
+  it('gives saves from before co-op the default second-pilot keys', () => {
+    expect(parseBindings({ keys: {}, buttons: {} }).keys2).toEqual(createDefaultBindings().keys2);
+  });
+
+  it('throws on data that is not bindings at all', () => {
+    expect(() => parseBindings(null)).toThrow(/not a JSON object/);
+    expect(() => parseBindings({ keys: [], buttons: {} })).toThrow(/not a JSON object/);
+  });
+});
+
+describe('pilotBindings', () => {
+  it('lets a solo pilot use both key sets', () => {
+    const bindings = createDefaultBindings();
+    expect(pilotBindings(bindings, 0, 1)).toBe(bindings);
+  });
+
+  it('splits the keyboard between co-op pilots', () => {
+    const bindings = createDefaultBindings();
+    expect(pilotBindings(bindings, 0, 2).keys.up).toEqual(['KeyW']);
+    expect(pilotBindings(bindings, 1, 2).keys.up).toEqual(['ArrowUp']);
+  });
+});
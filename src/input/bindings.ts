@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Input Bindings ---
+// Keys are bound by `KeyboardEvent.code` (the physical key), so WASD stays where it is on
+// AZERTY/Dvorak layouts and with Caps Lock on. Gamepad buttons use the indices of the
+// browser's "standard" mapping. Every action takes up to MAX_BINDINGS of each.
+// In co-op the second pilot flies with keys of their own (`keys2`) and a second gamepad,
+// which uses the same button layout as the first.
+
+export type Action = 'left' | 'right' | 'up' | 'down' | 'fire' | 'charge' | 'bomb' | 'special' | 'pause' | 'mute';
+
+/** In the order the controls screen lists them; labels are in the i18n catalogs. */
+export const ACTION_IDS: Action[] = ['up', 'down', 'left', 'right', 'fire', 'charge', 'bomb', 'special', 'pause', 'mute'];
+
+/** Actions that steer one pilot; pause and mute are shared, so the second pilot has no keys for them. */
+export const PILOT_ACTIONS: Action[] = ['up', 'down', 'left', 'right', 'fire', 'charge', 'bomb', 'special'];
+
+export const MAX_BINDINGS = 2;
+export const MAX_DEADZONE = 0.5;
+
+export type BindingDevice = 'keys' | 'keys2' | 'buttons';
+
+export interface Bindings {
+  keys: Record<Action, string[]>;
+  /** The second pilot's keys in co-op; they take priority over the same keys in `keys`. */
+  keys2: Record<Action, string[]>;
+  buttons: Record<Action, number[]>;
+  /** Fraction of the stick's travel ignored as drift, 0 to MAX_DEADZONE. */
+  deadzone: number;
+  /** Vibrate the gamepad on hits and bombs, where the browser supports it. */
+  rumble: boolean;
+}
+
+export const createDefaultBindings = (): Bindings => ({
+  keys: {
+    up: ['KeyW', 'ArrowUp'],
+    down: ['KeyS', 'ArrowDown'],
+    left: ['KeyA', 'ArrowLeft'],
+    right: ['KeyD', 'ArrowRight'],
+    fire: ['Space', 'KeyJ'],
+    charge: ['KeyC', 'KeyU'],
+    bomb: ['KeyB', 'KeyK'],
+    special: ['KeyN', 'KeyL'],
+    pause: ['KeyP', 'Escape'],
+    mute: ['KeyM'],
+  },
+  keys2: {
+    up: ['ArrowUp'],
+    down: ['ArrowDown'],
+    left: ['ArrowLeft'],
+    right: ['ArrowRight'],
+    fire: ['Enter', 'NumpadEnter'],
+    charge: ['Slash', 'Numpad1'],
+    bomb: ['ShiftRight', 'Numpad0'],
+    special: ['ControlRight', 'NumpadDecimal'],
+    pause: [],
+    mute: [],
+  },
+  buttons: {
+    up: [12],
+    down: [13],
+    left: [14],
+    right: [15],
+    fire: [0, 7],
+    charge: [3, 4],
+    bomb: [1, 6],
+    special: [2, 5],
+    pause: [9],
+    mute: [],
+  },
+  deadzone: 0.2,
+  rumble: true,
+});
+
+/** Which action a key or button triggers, if any. */
+export const actionFor = <D extends BindingDevice>(bindings: Bindings, device: D, input: Bindings[D][Action][number]) =>
+  ACTION_IDS.find(action => (bindings[device][action] as (string | number)[]).includes(input)) ?? null;
+
+/**
+ * Binds a key or button to an action's slot. The input is taken off whatever it was bound
+ * to before, so one key never drives two actions. Returns new bindings.
+ */
+export const rebind = <D extends BindingDevice>(bindings: Bindings, device: D, action: Action, slot: number, input: Bindings[D][Action][number]): Bindings => {
+  const next = structuredClone(bindings);
+  const table = next[device] as Record<Action, (string | number)[]>;
+  ACTION_IDS.forEach(a => { table[a] = table[a].filter(bound => bound !== input); });
+  const list = table[action];
+  list.splice(Math.min(slot, list.length), 1, input);
+  table[action] = list.slice(0, MAX_BINDINGS);
+  return next;
+};
+
+/** Removes the binding in an action's slot. Returns new bindings. */
+export const unbind = (bindings: Bindings, device: BindingDevice, action: Action, slot: number): Bindings => {
+  const next = structuredClone(bindings);
+  next[device][action].splice(slot, 1);
+  return next;
+};
+
+/**
+ * The bindings pilot `slot` plays with when `players` share the screen. In co-op the second
+ * pilot gets `keys2`, and those keys stop driving the first pilot, so one keyboard can hold
+ * WASD for P1 and the arrows for P2 even though solo play binds both to P1.
+ */
+export const pilotBindings = (bindings: Bindings, slot: number, players: number): Bindings => {
+  if (players === 1) return bindings;
+  if (slot > 0) return { ...bindings, keys: bindings.keys2 };
+  const taken = new Set(ACTION_IDS.flatMap(action => bindings.keys2[action]));
+  const keys = Object.fromEntries(ACTION_IDS.map(action => [action, bindings.keys[action].filter(code => !taken.has(code))]));
+  return { ...bindings, keys: keys as Record<Action, string[]> };
+};
+
+// --- Labels ---
+// Named after what is printed on the keycaps and buttons, so they need no translation.
+
+const KEY_LABELS: Record<string, string> = {
+  Space: 'Space', Escape: 'Esc', Enter: 'Enter', Backspace: 'Backspace', Tab: 'Tab',
+  ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→',
+  ShiftLeft: 'L-Shift', ShiftRight: 'R-Shift', ControlLeft: 'L-Ctrl', ControlRight: 'R-Ctrl',
+  AltLeft: 'L-Alt', AltRight: 'R-Alt', Backquote: '`', Minus: '-', Equal: '=',
+  BracketLeft: '[', BracketRight: ']', Backslash: '\\', Semicolon: ';', Quote: "'",
+  Comma: ',', Period: '.', Slash: '/',
+};
+
+/** Short name for a `KeyboardEvent.code`, as printed on a US keyboard. */
+export const keyLabel = (code: string) =>
+  KEY_LABELS[code] ?? code.replace(/^Key/, '').replace(/^Digit/, '').replace(/^Numpad/, 'Num ');
+
+/** Button names under the standard gamepad mapping (Xbox layout). */
+const BUTTON_LABELS = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'LS', 'RS', 'D↑', 'D↓', 'D←', 'D→', 'Home'];
+
+export const buttonLabel = (index: number) => BUTTON_LABELS[index] ?? `#${index}`;
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Reads saved bindings, keeping every valid entry and falling back to the defaults for
+ * the rest, so a save from an older version with fewer actions still loads.
+ * Throws with a readable message if the data isn't bindings at all.
+ */
+export const parseBindings = (data: unknown): Bindings => {
+  if (!isObject(data) || !isObject(data.keys) || !isObject(data.buttons)) throw new Error('Bindings are not a JSON object with keys and buttons');
+  const bindings = createDefaultBindings();
+  const { keys, buttons } = data;
+  // Saves from before co-op have no second pilot's keys; they keep the defaults.
+  const keys2 = isObject(data.keys2) ? data.keys2 : {};
+  const codes = (list: unknown) => Array.isArray(list) ? list.filter((c): c is string => typeof c === 'string').slice(0, MAX_BINDINGS) : null;
+  ACTION_IDS.forEach(action => {
+    bindings.keys[action] = codes(keys[action]) ?? bindings.keys[action];
+    if (PILOT_ACTIONS.includes(action)) bindings.keys2[action] = codes(keys2[action]) ?? bindings.keys2[action];
+    const b = buttons[action];
+    if (Array.isArray(b)) bindings.buttons[action] = b.filter((i): i is number => Number.isInteger(i) && i >= 0).slice(0, MAX_BINDINGS);
+  });
+  if (typeof data.deadzone === 'number' && data.deadzone >= 0 && data.deadzone <= MAX_DEADZONE) bindings.deadzone = data.deadzone;
+  if (typeof data.rumble === 'boolean') bindings.rumble = data.rumble;
+  return bindings;
+};
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { PlayerInput } from '../game/types';
+import { ACTION_IDS, actionFor, type Action, type Bindings } from './bindings';
+
+// --- Input Controller ---
+// Collects keyboard, gamepad, mouse and touch state between ticks and turns it into one
+// PlayerInput per tick. Keyboard and pointer state arrive through DOM events; gamepads
+// have no events for buttons, so they are polled once per animation frame.
+// Each co-op pilot has a controller of their own, read with their own bindings.
+// Bomb and special are edge-triggered: a press is remembered until the next tick reads it,
+// so a quick tap between two ticks still counts and holding the button spends only one bomb.
+
+export interface InputController {
+  /** `KeyboardEvent.code` values currently held. */
+  keys: Set<string>;
+  /** Buttons held on the active gamepad as of the last poll. */
+  buttons: boolean[];
+  /** Left stick after the deadzone, each axis -1 to 1. */
+  stick: { x: number; y: number };
+  /** Index of the gamepad being read, or null if none is connected. */
+  gamepad: number | null;
+  /** Held by the mouse button or a touch. */
+  pointerFire: boolean;
+  /** Where the mouse or touch last put the ship; cleared once a tick uses it. */
+  pointer: { x: number; y: number } | null;
+  /** Actions pressed since the last tick. */
+  pressed: Set<Action>;
+}
+
+export const createInputController = (): InputController => ({
+  keys: new Set(),
+  buttons: [],
+  stick: { x: 0, y: 0 },
+  gamepad: null,
+  pointerFire: false,
+  pointer: null,
+  pressed: new Set(),
+});
+
+const isHeld = (controller: InputController, bindings: Bindings, action: Action) =>
+  bindings.keys[action].some(code => controller.keys.has(code)) ||
+  bindings.buttons[action].some(index => controller.buttons[index]);
+
+/** Records a key going down. Returns the action it newly triggered, ignoring auto-repeat. */
+export const pressKey = (controller: InputController, bindings: Bindings, code: string): Action | null => {
+  if (controller.keys.has(code)) return null;
+  controller.keys.add(code);
+  const action = actionFor(bindings, 'keys', code);
+  if (action) controller.pressed.add(action);
+  return action;
+};
+
+export const releaseKey = (controller: InputController, code: string) => {
+  controller.keys.delete(code);
+};
+
+/** For mouse and touch, which have fixed controls rather than bindings. */
+export const pressAction = (controller: InputController, action: Action) => {
+  controller.pressed.add(action);
+};
+
+/** Forgets everything held, e.g. when the window loses focus and key-ups would be missed. */
+export const releaseAll = (controller: InputController) => {
+  controller.keys.clear();
+  controller.buttons = [];
+  controller.stick = { x: 0, y: 0 };
+  controller.pointerFire = false;
+};
+
+// --- Gamepads ---
+
+/** The first connected gamepad, preferring the one already in use and skipping one another pilot has. */
+const activeGamepad = (controller: InputController, taken: number | null) => {
+  const pads = (navigator.getGamepads?.() ?? []).filter(pad => pad?.index !== taken);
+  return pads.find(pad => pad?.connected && pad.index === controller.gamepad) ?? pads.find(pad => pad?.connected) ?? null;
+};
+
+/** Scales stick travel past the deadzone back to the full 0-1 range, so small pushes still move slowly. */
+export const applyDeadzone = (x: number, y: number, deadzone: number) => {
+  const magnitude = Math.hypot(x, y);
+  if (magnitude <= deadzone) return { x: 0, y: 0 };
+  const scale = Math.min(1, (magnitude - deadzone) / (1 - deadzone)) / magnitude;
+  return { x: x * scale, y: y * scale };
+};
+
+/** Indices of the buttons currently down on a gamepad. */
+export const heldButtons = (pad: Gamepad) =>
+  pad.buttons.flatMap((button, index) => (button.pressed ? [index] : []));
+
+/**
+ * Reads the active gamepad, leaving the one at index `taken` (another pilot's) alone.
+ * Returns the actions whose buttons went down since the last poll.
+ */
+export const pollGamepad = (controller: InputController, bindings: Bindings, taken: number | null = null): Action[] => {
+  const pad = activeGamepad(controller, taken);
+  if (!pad) {
+    controller.gamepad = null;
+    controller.buttons = [];
+    controller.stick = { x: 0, y: 0 };
+    return [];
+  }
+
+  const previous = controller.buttons;
+  controller.gamepad = pad.index;
+  controller.buttons = pad.buttons.map(button => button.pressed);
+  controller.stick = applyDeadzone(pad.axes[0] ?? 0, pad.axes[1] ?? 0, bindings.deadzone);
+
+  const pressed: Action[] = [];
+  controller.buttons.forEach((down, index) => {
+    if (!down || previous[index]) return;
+    const action = actionFor(bindings, 'buttons', index);
+    if (action && !pressed.includes(action)) pressed.push(action);
+  });
+  pressed.forEach(action => controller.pressed.add(action));
+  return pressed;
+};
+
+/** Vibrates the active gamepad, if it can and the player hasn't turned rumble off. */
+export const rumble = (controller: InputController, bindings: Bindings, strength: number, durationMs: number) => {
+  if (!bindings.rumble || controller.gamepad === null) return;
+  const actuator = navigator.getGamepads?.()[controller.gamepad]?.vibrationActuator;
+  actuator?.playEffect('dual-rumble', {
+    duration: durationMs,
+    strongMagnitude: strength,
+    weakMagnitude: Math.min(1, strength * 1.5),
+  }).catch(() => {
+    // Unsupported or interrupted by a newer effect; rumble is best effort.
+  });
+};
+
+// --- Per-Tick Input ---
+
+/** Builds the next tick's input and consumes one-shot presses and the pointer. */
+export const readInput = (controller: InputController, bindings: Bindings): PlayerInput => {
+  const held = Object.fromEntries(ACTION_IDS.map(action => [action, isHeld(controller, bindings, action)])) as Record<Action, boolean>;
+  // Whole hundredths, so the recorded replay reproduces the exact same movement.
+  const move = { x: Math.round(controller.stick.x * 100), y: Math.round(controller.stick.y * 100) };
+  const input: PlayerInput = {
+    left: held.left,
+    right: held.right,
+    up: held.up,
+    down: held.down,
+    fire: held.fire || controller.pointerFire,
+    charge: held.charge,
+    bomb: controller.pressed.has('bomb'),
+    special: controller.pressed.has('special'),
+    // Rounded for the same reason as the stick.
+    pointer: controller.pointer && { x: Math.round(controller.pointer.x), y: Math.round(controller.pointer.y) },
+    move: move.x || move.y ? move : null,
+  };
+  controller.pressed.clear();
+  controller.pointer = null;
+  return input;
+};
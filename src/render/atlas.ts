@@ -0,0 +1,310 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BOSSES } from '../game/bosses';
+import { POWER_UPS } from '../game/powerups';
+import { SHIPS } from '../game/ships';
+import type { EnemyType, PowerUpType, ShipId } from '../game/types';
+import { PALETTES, recolor, type ColorPalette, type ColorTable } from './palettes';
+
+// --- Glow Sprite Atlas ---
+// Glows are expensive to draw (shadowBlur), so each look is painted once into an offscreen
+// atlas and then stamped with drawImage or a WebGL quad. Sprites are painted lazily on first
+// use and keyed by everything that changes their pixels, including whether an image or the
+// vector fallback was used, so a late-loading image simply produces a new sprite.
+// Sprites are painted in the atlas's colour palette; switching palettes wipes the atlas.
+
+export interface Sprite {
+  sx: number;
+  sy: number;
+  w: number;
+  h: number;
+  /** Where the entity's position falls inside the sprite (its centre). */
+  ax: number;
+  ay: number;
+  /** Stable index used to group draws by sprite. */
+  id: number;
+}
+
+export interface GlowAtlas {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  sprites: Map<string, Sprite>;
+  shelfX: number;
+  shelfY: number;
+  shelfH: number;
+  /** Bumped whenever pixels change, so the WebGL backend knows to re-upload. */
+  version: number;
+  palette: ColorPalette;
+  colors: ColorTable;
+}
+
+/** Anything that can be drawn into the atlas: a loaded <img> or nothing (use the vector look). */
+type SpriteImage = HTMLImageElement | undefined;
+
+const ATLAS_SIZE = 1024;
+const GUTTER = 2;
+
+export const createAtlas = (): GlowAtlas => {
+  const canvas = document.createElement('canvas');
+  canvas.width = ATLAS_SIZE;
+  canvas.height = ATLAS_SIZE;
+  return {
+    canvas, ctx: canvas.getContext('2d')!, sprites: new Map(), shelfX: 0, shelfY: 0, shelfH: 0, version: 0,
+    palette: 'default', colors: PALETTES.default.colors,
+  };
+};
+
+const resetAtlas = (atlas: GlowAtlas) => {
+  atlas.ctx.clearRect(0, 0, ATLAS_SIZE, ATLAS_SIZE);
+  atlas.sprites.clear();
+  atlas.shelfX = atlas.shelfY = atlas.shelfH = 0;
+};
+
+/** Switches the colours sprites are painted in, repainting them as they are next used. */
+export const setAtlasPalette = (atlas: GlowAtlas, palette: ColorPalette) => {
+  if (atlas.palette === palette) return;
+  resetAtlas(atlas);
+  atlas.palette = palette;
+  atlas.colors = PALETTES[palette].colors;
+  atlas.version += 1;
+};
+
+/** Dark band then a white rim around the current path, so a shot stands out on any background. */
+const outline = (ctx: CanvasRenderingContext2D) => {
+  ctx.shadowBlur = 0;
+  ctx.lineWidth = 4;
+  ctx.strokeStyle = '#000000';
+  ctx.stroke();
+  ctx.lineWidth = 1.5;
+  ctx.strokeStyle = '#ffffff';
+  ctx.stroke();
+};
+
+/**
+ * Returns the sprite for `key`, painting it on first use. `paint` draws around (0, 0) within a
+ * `width` x `height` box; `pad` leaves room for the glow. A full atlas is wiped and refilled.
+ */
+const getSprite = (atlas: GlowAtlas, key: string, width: number, height: number, pad: number, paint: (ctx: CanvasRenderingContext2D) => void): Sprite => {
+  const cached = atlas.sprites.get(key);
+  if (cached) return cached;
+
+  const w = Math.ceil(width + pad * 2), h = Math.ceil(height + pad * 2);
+  if (atlas.shelfX + w > ATLAS_SIZE) {
+    atlas.shelfX = 0;
+    atlas.shelfY += atlas.shelfH + GUTTER;
+    atlas.shelfH = 0;
+  }
+  if (atlas.shelfY + h > ATLAS_SIZE) resetAtlas(atlas);
+
+  const sprite: Sprite = { sx: atlas.shelfX, sy: atlas.shelfY, w, h, ax: w / 2, ay: h / 2, id: atlas.sprites.size };
+  const ctx = atlas.ctx;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(sprite.sx, sprite.sy, w, h);
+  ctx.clip();
+  ctx.translate(sprite.sx + sprite.ax, sprite.sy + sprite.ay);
+  paint(ctx);
+  ctx.restore();
+
+  atlas.sprites.set(key, sprite);
+  atlas.shelfX += w + GUTTER;
+  atlas.shelfH = Math.max(atlas.shelfH, h);
+  atlas.version += 1;
+  return sprite;
+};
+
+const glow = (ctx: CanvasRenderingContext2D, color: string, blur: number) => {
+  ctx.shadowBlur = blur;
+  ctx.shadowColor = color;
+};
+
+// --- Sprites ---
+
+/** Radius of the round dot sprite; draw it scaled by radius / DOT_RADIUS. */
+export const DOT_RADIUS = 16;
+
+/** A round dot, glowing unless `glowing` is false; used for particles, player shots and the engine flame. */
+export const dotSprite = (atlas: GlowAtlas, color: string, glowing = true) =>
+  getSprite(atlas, `dot:${color}:${glowing}`, DOT_RADIUS * 2, DOT_RADIUS * 2, DOT_RADIUS * 2, ctx => {
+    const fill = recolor(atlas.palette, color);
+    if (glowing) glow(ctx, fill, DOT_RADIUS * 2);
+    ctx.fillStyle = fill;
+    ctx.beginPath();
+    ctx.arc(0, 0, DOT_RADIUS, 0, Math.PI * 2);
+    ctx.fill();
+  });
+
+/** Radius of the star sprite; draw it scaled by size / STAR_RADIUS. */
+export const STAR_RADIUS = 2;
+
+export const starSprite = (atlas: GlowAtlas, color: string) =>
+  getSprite(atlas, `star:${color}`, STAR_RADIUS * 2, STAR_RADIUS * 2, 1, ctx => {
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(0, 0, STAR_RADIUS, 0, Math.PI * 2);
+    ctx.fill();
+  });
+
+/** `outlined` adds the high-contrast rim. */
+export const enemyBulletSprite = (atlas: GlowAtlas, outlined = false) =>
+  getSprite(atlas, `enemyBullet:${outlined}`, 12, 20, 20, ctx => {
+    glow(ctx, atlas.colors.ENEMY_BULLET, 20);
+    ctx.fillStyle = atlas.colors.ENEMY_BULLET;
+    ctx.beginPath();
+    ctx.ellipse(0, 0, 6, 10, 0, 0, Math.PI * 2);
+    ctx.fill();
+    if (outlined) outline(ctx);
+    // White core for better visibility
+    ctx.fillStyle = '#ffffff';
+    ctx.beginPath();
+    ctx.ellipse(0, 0, 2, 5, 0, 0, Math.PI * 2);
+    ctx.fill();
+  });
+
+/**
+ * Homing missile pointing along +x: a dart with a fading trail. `armed` while it still steers.
+ * Enemy missiles are in the enemy bullet colour, the player's in their secondary's.
+ */
+export const missileSprite = (atlas: GlowAtlas, color: string, armed: boolean, outlined = false) =>
+  getSprite(atlas, `missile:${color}:${armed}:${outlined}`, 44, 12, 15, ctx => {
+    const fill = recolor(atlas.palette, color);
+    ctx.globalAlpha = 0.35;
+    ctx.fillStyle = fill;
+    ctx.fillRect(-22, -2, 14, 4);
+    ctx.globalAlpha = 1;
+    glow(ctx, fill, 15);
+    ctx.fillStyle = fill;
+    ctx.beginPath();
+    ctx.moveTo(10, 0);
+    ctx.lineTo(-8, -5);
+    ctx.lineTo(-8, 5);
+    ctx.closePath();
+    ctx.fill();
+    if (outlined) outline(ctx);
+    ctx.fillStyle = armed ? '#ffffff' : '#666';
+    ctx.fillRect(-2, -1.5, 6, 3);
+  });
+
+/** Player shot with the high-contrast rim: a short upright capsule instead of the round dot. */
+export const playerShotSprite = (atlas: GlowAtlas, color: string) =>
+  getSprite(atlas, `playerShot:${color}`, 8, 16, 4, ctx => {
+    ctx.fillStyle = recolor(atlas.palette, color);
+    ctx.beginPath();
+    ctx.roundRect(-3, -7, 6, 14, 3);
+    ctx.fill();
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = '#000000';
+    ctx.stroke();
+  });
+
+export const enemySprite = (atlas: GlowAtlas, type: EnemyType, width: number, height: number, color: string, img: SpriteImage) =>
+  getSprite(atlas, `enemy:${type}:${width}x${height}:${color}:${img ? 'img' : 'vec'}`, width, height, 15, ctx => {
+    if (img) {
+      ctx.rotate(Math.PI); // Enemies usually face down
+      ctx.drawImage(img, -width / 2, -height / 2, width, height);
+      return;
+    }
+    const fill = recolor(atlas.palette, color);
+    glow(ctx, fill, 15);
+    ctx.fillStyle = fill;
+    ctx.beginPath();
+    if (type === 'fast') {
+      ctx.moveTo(0, 15);
+      ctx.lineTo(-10, -15);
+      ctx.lineTo(10, -15);
+    } else if (type === 'heavy') {
+      ctx.rect(-width / 2, -height / 2, width, height);
+    } else {
+      ctx.moveTo(0, 20);
+      ctx.lineTo(-20, -10);
+      ctx.lineTo(20, -10);
+    }
+    ctx.closePath();
+    ctx.fill();
+  });
+
+export const playerSprite = (atlas: GlowAtlas, ship: ShipId, img: SpriteImage) => {
+  const { width, height, outline } = SHIPS[ship];
+  return getSprite(atlas, `player:${ship}:${img ? 'img' : 'vec'}`, width, height, 25, ctx => {
+    if (img) {
+      ctx.drawImage(img, -width / 2, -height / 2, width, height);
+      return;
+    }
+    glow(ctx, atlas.colors.PLAYER, 25);
+    ctx.fillStyle = atlas.colors.PLAYER;
+    ctx.beginPath();
+    outline.forEach(([x, y], i) => i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y));
+    ctx.closePath();
+    ctx.fill();
+  });
+};
+
+export const shieldSprite = (atlas: GlowAtlas) =>
+  getSprite(atlas, 'shield', 76, 76, 20, ctx => {
+    glow(ctx, atlas.colors.SHIELD, 20);
+    ctx.strokeStyle = atlas.colors.SHIELD;
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(0, 0, 35, 0, Math.PI * 2);
+    ctx.stroke();
+  });
+
+export const powerUpSprite = (atlas: GlowAtlas, type: PowerUpType, img: SpriteImage) =>
+  getSprite(atlas, `powerUp:${type}:${img ? 'img' : 'vec'}`, 30, 30, 15, ctx => {
+    if (img) {
+      ctx.drawImage(img, -15, -15, 30, 30);
+      return;
+    }
+    const def = POWER_UPS[type];
+    const color = recolor(atlas.palette, def.color);
+    glow(ctx, color, 15);
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(0, 0, 12, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.strokeStyle = '#fff';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+    ctx.shadowBlur = 0;
+    ctx.fillStyle = '#000';
+    ctx.font = 'bold 10px monospace';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(def.glyph, 0, 1);
+  });
+
+/** Boss hull, a wide arrowhead pointing down; `flash` is the all-white hit frame. */
+export const bossSprite = (atlas: GlowAtlas, id: string, flash: boolean) => {
+  const def = BOSSES[id];
+  const { width, height } = def;
+  return getSprite(atlas, `boss:${id}:${flash}`, width, height, 30, ctx => {
+    glow(ctx, def.color, 30);
+    ctx.fillStyle = flash ? '#ffffff' : def.color;
+    ctx.beginPath();
+    ctx.moveTo(-width / 2, -height / 4);
+    ctx.lineTo(-width / 4, -height / 2);
+    ctx.lineTo(width / 4, -height / 2);
+    ctx.lineTo(width / 2, -height / 4);
+    ctx.lineTo(width / 3, height / 4);
+    ctx.lineTo(0, height / 2);
+    ctx.lineTo(-width / 3, height / 4);
+    ctx.closePath();
+    ctx.fill();
+    ctx.shadowBlur = 0;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+    ctx.fill();
+  });
+};
+
+/** A boss weak point; exposed ones glow white (drawn with a pulsing alpha), covered ones are dark. */
+export const weakPointSprite = (atlas: GlowAtlas, width: number, height: number, exposed: boolean) =>
+  getSprite(atlas, `weakPoint:${width}x${height}:${exposed}`, width, height, 25, ctx => {
+    if (exposed) glow(ctx, '#ffffff', 25);
+    ctx.fillStyle = exposed ? '#ffffff' : '#333';
+    ctx.beginPath();
+    ctx.ellipse(0, 0, width / 2, height / 2, 0, 0, Math.PI * 2);
+    ctx.fill();
+  });
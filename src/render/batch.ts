@@ -0,0 +1,244 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { GlowAtlas, Sprite } from './atlas';
+
+// --- Sprite Batching ---
+// Entities are queued as atlas sprites and drawn in one go per frame. Queued sprites are
+// ordered by layer (set with `layer`) and grouped by sprite within a layer. Two backends
+// share the interface: Canvas2D stamps with drawImage; WebGL2 draws every sprite with one
+// instanced call into its own canvas, which is then composited onto the 2D canvas.
+
+export type RenderBackend = 'canvas2d' | 'webgl2';
+
+/** Maps world coordinates to canvas pixels: canvas = offset + world * scale. */
+export interface ViewTransform {
+  scale: number;
+  dx: number;
+  dy: number;
+}
+
+export interface SpriteBatch {
+  readonly backend: RenderBackend;
+  /** Sprites pushed from now on are drawn above everything pushed before. */
+  layer: (layer: number) => void;
+  /** Queues `sprite` with its anchor at world (x, y). */
+  push: (sprite: Sprite, x: number, y: number, scale?: number, alpha?: number, rotation?: number) => void;
+  /** Draws and empties the queue. `ctx` must have an identity transform. */
+  flush: (ctx: CanvasRenderingContext2D, atlas: GlowAtlas, view: ViewTransform) => void;
+}
+
+/** Queued draws as parallel arrays, reused between frames so queuing allocates nothing. */
+interface SpriteQueue {
+  count: number;
+  order: number[];
+  sprites: Sprite[];
+  layers: number[];
+  xs: number[];
+  ys: number[];
+  scales: number[];
+  alphas: number[];
+  rotations: number[];
+}
+
+const createQueue = (): SpriteQueue => ({ count: 0, order: [], sprites: [], layers: [], xs: [], ys: [], scales: [], alphas: [], rotations: [] });
+
+/** Shared queue handling for both backends; `draw` receives the queue already sorted. */
+const createBatch = (backend: RenderBackend, draw: (queue: SpriteQueue, ctx: CanvasRenderingContext2D, atlas: GlowAtlas, view: ViewTransform) => void): SpriteBatch => {
+  const queue = createQueue();
+  let currentLayer = 0;
+  return {
+    backend,
+    layer: layer => { currentLayer = layer; },
+    push: (sprite, x, y, scale = 1, alpha = 1, rotation = 0) => {
+      const i = queue.count++;
+      queue.order[i] = i;
+      queue.sprites[i] = sprite;
+      queue.layers[i] = currentLayer;
+      queue.xs[i] = x;
+      queue.ys[i] = y;
+      queue.scales[i] = scale;
+      queue.alphas[i] = alpha;
+      queue.rotations[i] = rotation;
+    },
+    flush: (ctx, atlas, view) => {
+      const { layers, sprites } = queue;
+      queue.order.length = queue.count;
+      // Stable: ties keep push order, so same-sprite overlaps still stack as queued.
+      queue.order.sort((a, b) => layers[a] - layers[b] || sprites[a].id - sprites[b].id || a - b);
+      draw(queue, ctx, atlas, view);
+      queue.count = 0;
+      currentLayer = 0;
+    },
+  };
+};
+
+// --- Canvas2D Backend ---
+
+export const createCanvasBatch = (): SpriteBatch => createBatch('canvas2d', (queue, ctx, atlas, view) => {
+  ctx.save();
+  ctx.setTransform(view.scale, 0, 0, view.scale, view.dx, view.dy);
+  for (let n = 0; n < queue.count; n++) {
+    const i = queue.order[n];
+    const s = queue.sprites[i];
+    const scale = queue.scales[i];
+    const rotation = queue.rotations[i];
+    ctx.globalAlpha = queue.alphas[i];
+    if (rotation === 0) {
+      ctx.drawImage(atlas.canvas, s.sx, s.sy, s.w, s.h, queue.xs[i] - s.ax * scale, queue.ys[i] - s.ay * scale, s.w * scale, s.h * scale);
+    } else {
+      ctx.save();
+      ctx.translate(queue.xs[i], queue.ys[i]);
+      ctx.rotate(rotation);
+      ctx.drawImage(atlas.canvas, s.sx, s.sy, s.w, s.h, -s.ax * scale, -s.ay * scale, s.w * scale, s.h * scale);
+      ctx.restore();
+    }
+  }
+  ctx.restore();
+});
+
+// --- WebGL2 Backend ---
+
+const VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec4 a_place;   // x, y, scale, rotation
+layout(location = 2) in vec4 a_source;  // sx, sy, w, h (atlas pixels)
+layout(location = 3) in vec3 a_extra;   // ax, ay, alpha
+uniform vec2 u_resolution;
+uniform vec3 u_view;                    // scale, dx, dy
+uniform float u_atlasSize;
+out vec2 v_uv;
+out float v_alpha;
+void main() {
+  vec2 local = (a_corner * a_source.zw - a_extra.xy) * a_place.z;
+  float c = cos(a_place.w), s = sin(a_place.w);
+  vec2 world = a_place.xy + vec2(local.x * c - local.y * s, local.x * s + local.y * c);
+  vec2 pixel = u_view.yz + world * u_view.x;
+  vec2 clip = pixel / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_uv = (a_source.xy + a_corner * a_source.zw) / u_atlasSize;
+  v_alpha = a_extra.z;
+}`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+uniform sampler2D u_atlas;
+in vec2 v_uv;
+in float v_alpha;
+out vec4 color;
+void main() {
+  color = texture(u_atlas, v_uv) * v_alpha;
+}`;
+
+/** Floats per queued sprite: place (4) + source (4) + extra (3). */
+const INSTANCE_FLOATS = 11;
+
+const compile = (gl: WebGL2RenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) throw new Error(gl.getShaderInfoLog(shader) ?? 'shader compile failed');
+  return shader;
+};
+
+/** Returns null when WebGL2 is unavailable or fails to set up, so the caller can fall back. */
+export const createWebGLBatch = (): SpriteBatch | null => {
+  const canvas = document.createElement('canvas');
+  const gl = canvas.getContext('webgl2', { premultipliedAlpha: true, alpha: true, antialias: false });
+  if (!gl) return null;
+
+  let program: WebGLProgram;
+  try {
+    program = gl.createProgram()!;
+    gl.attachShader(program, compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+    gl.attachShader(program, compile(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) throw new Error(gl.getProgramInfoLog(program) ?? 'link failed');
+  } catch (err) {
+    console.warn('WebGL2 renderer unavailable, using Canvas2D.', err);
+    return null;
+  }
+
+  const vao = gl.createVertexArray();
+  gl.bindVertexArray(vao);
+  const cornerBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]), gl.STATIC_DRAW);
+  gl.enableVertexAttribArray(0);
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+  const instanceBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+  const stride = INSTANCE_FLOATS * 4;
+  [[1, 4, 0], [2, 4, 16], [3, 3, 32]].forEach(([location, size, offset]) => {
+    gl.enableVertexAttribArray(location);
+    gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset);
+    gl.vertexAttribDivisor(location, 1);
+  });
+
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+
+  const uniforms = {
+    resolution: gl.getUniformLocation(program, 'u_resolution'),
+    view: gl.getUniformLocation(program, 'u_view'),
+    atlasSize: gl.getUniformLocation(program, 'u_atlasSize'),
+  };
+  let instances = new Float32Array(INSTANCE_FLOATS * 1024);
+  let uploadedVersion = -1;
+
+  return createBatch('webgl2', (queue, ctx, atlas, view) => {
+    const { width, height } = ctx.canvas;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    if (queue.count * INSTANCE_FLOATS > instances.length) {
+      instances = new Float32Array(INSTANCE_FLOATS * Math.max(queue.count, instances.length / INSTANCE_FLOATS * 2));
+    }
+    for (let n = 0; n < queue.count; n++) {
+      const i = queue.order[n];
+      const s = queue.sprites[i];
+      let o = n * INSTANCE_FLOATS;
+      instances[o++] = queue.xs[i];
+      instances[o++] = queue.ys[i];
+      instances[o++] = queue.scales[i];
+      instances[o++] = queue.rotations[i];
+      instances[o++] = s.sx;
+      instances[o++] = s.sy;
+      instances[o++] = s.w;
+      instances[o++] = s.h;
+      instances[o++] = s.ax;
+      instances[o++] = s.ay;
+      instances[o] = queue.alphas[i];
+    }
+
+    gl.viewport(0, 0, width, height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.useProgram(program);
+    gl.bindVertexArray(vao);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    if (uploadedVersion !== atlas.version) {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, atlas.canvas);
+      uploadedVersion = atlas.version;
+    }
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    gl.uniform2f(uniforms.resolution, width, height);
+    gl.uniform3f(uniforms.view, view.scale, view.dx, view.dy);
+    gl.uniform1f(uniforms.atlasSize, atlas.canvas.width);
+    gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, instances.subarray(0, queue.count * INSTANCE_FLOATS), gl.STREAM_DRAW);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, queue.count);
+
+    ctx.drawImage(canvas, 0, 0);
+  });
+};
@@ -0,0 +1,462 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BOSSES, isPartExposed } from '../game/bosses';
+import { COLORS, RESPAWN_TICKS, REVIVE_RANGE, TICK_MS } from '../game/constants';
+import type { LevelDefinition } from '../game/levels';
+import { aimAngle, enemyPattern, patternDifficulty } from '../game/patterns';
+import { hasEffect, POWER_UP_TYPES, POWER_UPS } from '../game/powerups';
+import { SHIP_IDS, SHIPS } from '../game/ships';
+import type { Enemy, EnemyType, Movable, Player, PowerUpType, ShipId, World } from '../game/types';
+import { FULL_CHARGE, LASER_WIDTH, MIN_CHARGE } from '../game/weapons';
+import { targetPlayer } from '../game/world';
+import {
+  bossSprite, createAtlas, DOT_RADIUS, dotSprite, enemyBulletSprite, enemySprite, missileSprite, playerShotSprite, playerSprite,
+  powerUpSprite, setAtlasPalette, shieldSprite, STAR_RADIUS, starSprite, weakPointSprite, type GlowAtlas,
+} from './atlas';
+import { createCanvasBatch, createWebGLBatch, type SpriteBatch, type ViewTransform } from './batch';
+import type { ColorPalette } from './palettes';
+
+// --- Asset Paths (Change these to your local PNG paths) ---
+// Ship and power-up sprites are set per entry in their registries (src/game/ships.ts, powerups.ts).
+export const ASSETS = {
+  ENEMY_BASIC: '/assets/enemy_basic.png',
+  ENEMY_FAST: '/assets/enemy_fast.png',
+  ENEMY_HEAVY: '/assets/enemy_heavy.png',
+};
+
+export type ImageKey = keyof typeof ASSETS | PowerUpType | ShipId;
+export type Images = Partial<Record<ImageKey, HTMLImageElement>>;
+
+/** Every image to preload, keyed as the renderer looks them up. */
+export const IMAGE_SOURCES: [ImageKey, string][] = [
+  ...(Object.entries(ASSETS) as [keyof typeof ASSETS, string][]),
+  ...SHIP_IDS.flatMap((ship): [ImageKey, string][] => {
+    const sprite = SHIPS[ship].sprite;
+    return sprite ? [[ship, sprite]] : [];
+  }),
+  ...POWER_UP_TYPES.flatMap((type): [ImageKey, string][] => {
+    const sprite = POWER_UPS[type].sprite;
+    return sprite ? [[type, sprite]] : [];
+  }),
+];
+
+// --- Vast Star Background ---
+// Purely cosmetic, so it lives outside the simulation and may use Math.random freely.
+
+export interface Background {
+  /** The canvas size the field was scattered over. */
+  width: number;
+  height: number;
+  palette: LevelDefinition['palette'];
+  stars: { x: number, y: number, s: number, alpha: number }[];
+  nebulae: { x: number, y: number, r: number, color: string }[];
+}
+
+const randomRange = (min: number, max: number) => Math.random() * (max - min) + min;
+
+export const createBackground = (width: number, height: number, palette: LevelDefinition['palette']): Background => ({
+  width,
+  height,
+  palette,
+  stars: Array.from({ length: 200 }, () => ({
+    x: Math.random() * width,
+    y: Math.random() * height,
+    s: Math.random() * 1.5 + 0.5,
+    alpha: Math.random()
+  })),
+  nebulae: Array.from({ length: 5 }, () => ({
+    x: Math.random() * width,
+    y: Math.random() * height,
+    r: randomRange(200, 500),
+    color: palette.nebula[Math.floor(Math.random() * palette.nebula.length)]
+  })),
+});
+
+/** Scrolls the star field by one tick; `time` is the simulation clock so pausing freezes the twinkle too. */
+export const updateBackground = (bg: Background, height: number, time: number) => {
+  bg.stars.forEach(s => {
+    s.y += s.s * 0.5;
+    if (s.y > height) s.y = 0;
+    s.alpha = 0.5 + Math.sin(time * 0.001 * s.s) * 0.5;
+  });
+};
+
+// --- Renderer ---
+// Glows come from the sprite atlas and entities are drawn through a sprite batch (WebGL2 when
+// available, Canvas2D otherwise). The nebulae are painted once per background into their own
+// layer; only the stars and entities are redrawn every frame. Vector overlays that change
+// shape every frame (telegraphs, health bars) are drawn on top with plain Canvas2D.
+
+/** Player-facing display options (see the settings screen). */
+export interface RenderOptions {
+  palette: ColorPalette;
+  /** Screen shake scale, 0 (off) to 1 (full). */
+  shake: number;
+  /** No screen shake, engine flicker or pulsing weak points. */
+  reducedMotion: boolean;
+  /** Steady instead of blinking: invulnerability, boss hit and death flashes, explosion flashes. */
+  reducedFlash: boolean;
+  /** Dark-and-white rims on every shot. */
+  highContrast: boolean;
+  /** Marks the player's actual hitbox. */
+  showHitbox: boolean;
+}
+
+export const DEFAULT_RENDER_OPTIONS: RenderOptions = {
+  palette: 'default',
+  shake: 1,
+  reducedMotion: false,
+  reducedFlash: false,
+  highContrast: false,
+  showHitbox: false,
+};
+
+export interface Renderer {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  batch: SpriteBatch;
+  atlas: GlowAtlas;
+  nebulae: { canvas: HTMLCanvasElement, bg: Background | null };
+}
+
+export const createRenderer = (canvas: HTMLCanvasElement, { webgl = true } = {}): Renderer => ({
+  canvas,
+  ctx: canvas.getContext('2d')!,
+  batch: (webgl && createWebGLBatch()) || createCanvasBatch(),
+  atlas: createAtlas(),
+  nebulae: { canvas: document.createElement('canvas'), bg: null },
+});
+
+/** Batch layers, bottom to top. Parts of one entity get their own layers so they stack correctly. */
+const LAYER = {
+  STARS: 0,
+  PARTICLES: 1,
+  POWER_UPS: 2,
+  ENEMIES: 3,
+  BOSS: 4,
+  WEAK_POINTS: 5,
+  BULLETS: 6,
+  BEAMS: 7,
+  SHIELD: 8,
+  PLAYER: 9,
+  ENGINE: 10,
+};
+
+/** Repaints the cached nebula layer only when the background or the canvas size changes. */
+const nebulaLayer = (renderer: Renderer, bg: Background) => {
+  const layer = renderer.nebulae;
+  const { width, height } = renderer.canvas;
+  if (layer.bg !== bg || layer.canvas.width !== width || layer.canvas.height !== height) {
+    layer.canvas.width = width;
+    layer.canvas.height = height;
+    const ctx = layer.canvas.getContext('2d')!;
+    ctx.clearRect(0, 0, width, height);
+    bg.nebulae.forEach(n => {
+      const grad = ctx.createRadialGradient(n.x, n.y, 0, n.x, n.y, n.r);
+      grad.addColorStop(0, n.color + '33');
+      grad.addColorStop(1, 'transparent');
+      ctx.fillStyle = grad;
+      ctx.fillRect(0, 0, width, height);
+    });
+    layer.bg = bg;
+  }
+  return layer.canvas;
+};
+
+const ENEMY_IMAGES: Record<EnemyType, keyof Images> = { basic: 'ENEMY_BASIC', fast: 'ENEMY_FAST', heavy: 'ENEMY_HEAVY' };
+
+/** Charge shots and cluster bombs are glowing orbs with a white core, this size. */
+const ORB_RADII = { charge: 12, cluster: 6 };
+
+/**
+ * Draws the world as it looked `alpha` of the way between the previous and the current tick.
+ */
+export const drawWorld = (renderer: Renderer, world: World, bg: Background, images: Images, alpha = 1, options = DEFAULT_RENDER_OPTIONS) => {
+  const { canvas, ctx, batch, atlas } = renderer;
+  setAtlasPalette(atlas, options.palette);
+  const ix = (m: Movable) => m.px + (m.x - m.px) * alpha;
+  const iy = (m: Movable) => m.py + (m.y - m.py) * alpha;
+
+  // Replays recorded on a different screen size are scaled to fit.
+  const scale = world.width > 0 && world.height > 0 ? Math.min(canvas.width / world.width, canvas.height / world.height) : 1;
+  const shake = options.reducedMotion ? 0 : world.shake * options.shake;
+  const shaking = shake > 0.5;
+  const view: ViewTransform = {
+    scale,
+    dx: shaking ? (Math.random() - 0.5) * shake : 0,
+    dy: shaking ? (Math.random() - 0.5) * shake : 0,
+  };
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.setTransform(scale, 0, 0, scale, view.dx, view.dy);
+  ctx.drawImage(nebulaLayer(renderer, bg), 0, 0);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  batch.layer(LAYER.STARS);
+  const star = starSprite(atlas, bg.palette.star);
+  bg.stars.forEach(s => batch.push(star, s.x, s.y, s.s / STAR_RADIUS, Math.min(1, s.alpha * (s.s / 1.5))));
+
+  batch.layer(LAYER.PARTICLES);
+  world.particles.forEach(p => {
+    // The white burst at the centre of every explosion is what strobes when many go off at once.
+    const dim = options.reducedFlash && p.color === '#ffffff' ? 0.25 : 1;
+    batch.push(dotSprite(atlas, p.color, p.glow), ix(p), iy(p), (p.size * p.life) / DOT_RADIUS, Math.max(0, p.life) * dim);
+  });
+
+  batch.layer(LAYER.POWER_UPS);
+  world.powerUps.forEach(p => batch.push(powerUpSprite(atlas, p.type, images[p.type]), ix(p), iy(p)));
+
+  batch.layer(LAYER.ENEMIES);
+  world.enemies.forEach(e => {
+    batch.push(enemySprite(atlas, e.type, e.width, e.height, e.color, images[ENEMY_IMAGES[e.type]]), ix(e), iy(e));
+  });
+
+  const boss = world.boss;
+  if (boss) {
+    const def = BOSSES[boss.id];
+    const x = ix(boss), y = iy(boss);
+    const fade = boss.dying <= 0 ? 1 : options.reducedFlash ? 0.6 : 0.4 + (boss.dying % 10) / 20;
+    const pulse = options.reducedMotion || options.reducedFlash ? 1 : 0.6 + Math.sin(boss.age * 0.2) * 0.4;
+    batch.layer(LAYER.BOSS);
+    batch.push(bossSprite(atlas, boss.id, boss.hitFlash > 0 && !options.reducedFlash), x, y, 1, fade);
+    batch.layer(LAYER.WEAK_POINTS);
+    def.parts.forEach(part => {
+      if (!part.weakPoint) return;
+      const exposed = isPartExposed(part, boss.phase);
+      batch.push(weakPointSprite(atlas, part.width, part.height, exposed), x + part.dx, y + part.dy, 1, fade * (exposed ? pulse : 1));
+    });
+  }
+
+  batch.layer(LAYER.BULLETS);
+  world.bullets.forEach(b => {
+    const x = ix(b), y = iy(b);
+    if (b.kind === 'charge' || b.kind === 'cluster') {
+      const radius = ORB_RADII[b.kind];
+      batch.push(dotSprite(atlas, b.color), x, y, radius / DOT_RADIUS);
+      batch.push(dotSprite(atlas, '#ffffff', false), x, y, radius / 2 / DOT_RADIUS);
+      return;
+    }
+    if (b.homing) batch.push(missileSprite(atlas, b.color, !!b.life, options.highContrast), x, y, 1, 1, Math.atan2(b.vy, b.vx));
+    else if (b.isEnemy) batch.push(enemyBulletSprite(atlas, options.highContrast), x, y);
+    else if (options.highContrast) batch.push(playerShotSprite(atlas, b.color), x, y);
+    else batch.push(dotSprite(atlas, b.color), x, y, 3 / DOT_RADIUS);
+  });
+
+  batch.layer(LAYER.BEAMS);
+  world.players.forEach(player => {
+    if (player.beamY !== null && player.health > 0) pushBeamGlow(batch, atlas, ix(player), iy(player) - player.h / 2, player.beamY);
+  });
+
+  // Invulnerability blinks the ship, or holds it half-transparent with reduced flashing.
+  // A downed co-op pilot stays on screen as a faint, engine-less wreck until they respawn.
+  world.players.forEach(player => {
+    const down = player.health <= 0;
+    const playerAlpha = down ? 0.25 : options.reducedFlash ? (player.invul > 0 ? 0.5 : 1) : player.invul % 10 < 5 ? 1 : 0;
+    if (playerAlpha <= 0) return;
+    const x = ix(player), y = iy(player);
+    if (hasEffect(player, 'shield')) {
+      batch.layer(LAYER.SHIELD);
+      batch.push(shieldSprite(atlas), x, y, 1, playerAlpha);
+    }
+    batch.layer(LAYER.PLAYER);
+    const image = images[player.ship];
+    batch.push(playerSprite(atlas, player.ship, image), x, y, 1, playerAlpha);
+    if (!image && !down) {
+      const flame = options.reducedMotion ? 7.5 : 5 + Math.random() * 5;
+      batch.layer(LAYER.ENGINE);
+      batch.push(dotSprite(atlas, '#ffffff'), x, y + 10, flame / DOT_RADIUS, playerAlpha);
+    }
+    // The charge shot gathers at the nose, brightening once it is ready to fire.
+    if (player.charge > 0 && !down) {
+      batch.layer(LAYER.ENGINE);
+      const radius = 4 + 10 * player.charge / FULL_CHARGE;
+      batch.push(dotSprite(atlas, COLORS.PLAYER), x, y - player.h / 2 - 10, radius / DOT_RADIUS, player.charge >= MIN_CHARGE ? 1 : 0.5);
+    }
+  });
+
+  batch.flush(ctx, atlas, view);
+
+  ctx.setTransform(scale, 0, 0, scale, view.dx, view.dy);
+  world.players.forEach(player => {
+    if (player.beamY !== null && player.health > 0) drawBeam(ctx, ix(player), iy(player) - player.h / 2, player.beamY, atlas.colors.LASER, options.reducedMotion);
+  });
+  world.enemies.forEach(e => {
+    const x = ix(e), y = iy(e);
+    if (e.type === 'heavy') {
+      ctx.fillStyle = '#333';
+      ctx.fillRect(x - 20, y - 45, 40, 5);
+      ctx.fillStyle = '#ff00ff';
+      ctx.fillRect(x - 20, y - 45, (e.hp / e.maxHp) * 40, 5);
+    }
+    if (e.telegraph > 0) drawTelegraph(ctx, world, e, x, y, atlas.colors.ENEMY_BULLET);
+  });
+  if (world.players.length > 1) world.players.forEach(player => drawPilotTag(ctx, player, ix(player), iy(player), atlas.colors.PLAYER));
+  if (options.showHitbox && world.status === 'PLAYING') {
+    world.players.forEach(player => {
+      if (player.health > 0) drawHitbox(ctx, player, ix(player), iy(player));
+    });
+  }
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+};
+
+/** The glow around a laser beam: glowing dots stamped up the beam's length, under the band drawn by drawBeam. */
+const pushBeamGlow = (batch: SpriteBatch, atlas: GlowAtlas, x: number, fromY: number, toY: number) => {
+  if (toY >= fromY) return;
+  const glow = dotSprite(atlas, COLORS.LASER);
+  const scale = LASER_WIDTH / 2 / DOT_RADIUS;
+  for (let y = fromY; y > toY; y -= LASER_WIDTH) batch.push(glow, x, y, scale, 0.6);
+  batch.push(glow, x, toY, scale * 1.5, 0.6);
+};
+
+/** A laser beam from a pilot's nose up to where it stops: a band with a white core that shimmers. */
+const drawBeam = (ctx: CanvasRenderingContext2D, x: number, fromY: number, toY: number, color: string, steady: boolean) => {
+  if (toY >= fromY) return;
+  const width = LASER_WIDTH * (steady ? 0.8 : 0.7 + Math.random() * 0.3);
+  ctx.save();
+  ctx.fillStyle = color;
+  ctx.fillRect(x - width / 2, toY, width, fromY - toY);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(x - width / 6, toY, width / 3, fromY - toY);
+  ctx.beginPath();
+  ctx.arc(x, toY, width * 0.75, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+};
+
+/** Co-op only: which pilot a ship is, and for a wreck, a ring filling up until it respawns. */
+const drawPilotTag = (ctx: CanvasRenderingContext2D, player: Player, x: number, y: number, color: string) => {
+  ctx.save();
+  ctx.font = 'bold 12px monospace';
+  ctx.textAlign = 'center';
+  ctx.fillStyle = color;
+  ctx.fillText(`P${player.slot + 1}`, x, y + player.h / 2 + 14);
+  if (player.respawn > 0) {
+    const progress = 1 - player.respawn / RESPAWN_TICKS;
+    ctx.beginPath();
+    ctx.arc(x, y, REVIVE_RANGE / 2, 0, Math.PI * 2);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+    ctx.lineWidth = 4;
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(x, y, REVIVE_RANGE / 2, -Math.PI / 2, -Math.PI / 2 + progress * Math.PI * 2);
+    ctx.strokeStyle = color;
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+/** The player's real hitbox, much smaller than the ship, with a solid core that reads at a glance. */
+const drawHitbox = (ctx: CanvasRenderingContext2D, player: Player, x: number, y: number) => {
+  const box = SHIPS[player.ship].hitbox;
+  ctx.save();
+  ctx.beginPath();
+  if (box.shape === 'circle') ctx.arc(x, y, box.radius, 0, Math.PI * 2);
+  else ctx.rect(x - box.width / 2, y - box.height / 2, box.width, box.height);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
+  ctx.fill();
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = '#000000';
+  ctx.stroke();
+  ctx.lineWidth = 1.5;
+  ctx.strokeStyle = '#ffffff';
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.arc(x, y, 4, 0, Math.PI * 2);
+  ctx.fillStyle = '#ffffff';
+  ctx.fill();
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = '#000000';
+  ctx.stroke();
+  ctx.restore();
+};
+
+// --- Attack Telegraphs ---
+// Warnings drawn while an enemy winds up a volley; each pattern gets its own shape,
+// and all of them brighten as the shot gets closer.
+
+const drawTelegraph = (ctx: CanvasRenderingContext2D, world: World, e: Enemy, x: number, y: number, color: string) => {
+  const pattern = enemyPattern(e.type, patternDifficulty(world));
+  if (!pattern) return;
+  const total = Math.max(1, Math.round(pattern.telegraph / TICK_MS));
+  const progress = 1 - e.telegraph / total;
+  const originY = y + e.height / 2;
+  const reach = 60 + progress * 140;
+
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.globalAlpha = 0.25 + progress * 0.55;
+  ctx.lineWidth = 2;
+
+  switch (pattern.kind) {
+    case 'single':
+      ctx.setLineDash([6, 6]);
+      ctx.beginPath();
+      ctx.moveTo(x, originY);
+      ctx.lineTo(x, originY + reach);
+      ctx.stroke();
+      break;
+
+    case 'aimed':
+    case 'lead':
+    case 'burst': {
+      const angle = aimAngle(world, e.x, e.y + e.height / 2, pattern.speed, pattern.kind === 'lead');
+      ctx.setLineDash(pattern.kind === 'burst' ? [2, 4] : [8, 4]);
+      ctx.beginPath();
+      ctx.moveTo(x, originY);
+      ctx.lineTo(x + Math.cos(angle) * reach, originY + Math.sin(angle) * reach);
+      ctx.stroke();
+      if (pattern.kind === 'lead') {
+        // Mark the predicted intercept point
+        const tx = x + Math.cos(angle) * reach, ty = originY + Math.sin(angle) * reach;
+        ctx.setLineDash([]);
+        ctx.beginPath();
+        ctx.arc(tx, ty, 8, 0, Math.PI * 2);
+        ctx.moveTo(tx - 12, ty);
+        ctx.lineTo(tx + 12, ty);
+        ctx.moveTo(tx, ty - 12);
+        ctx.lineTo(tx, ty + 12);
+        ctx.stroke();
+      }
+      break;
+    }
+
+    case 'spread':
+      ctx.globalAlpha = 0.1 + progress * 0.25;
+      ctx.beginPath();
+      ctx.moveTo(x, originY);
+      ctx.arc(x, originY, reach, Math.PI / 2 - pattern.arc / 2, Math.PI / 2 + pattern.arc / 2);
+      ctx.closePath();
+      ctx.fill();
+      break;
+
+    case 'ring':
+      // A ring collapsing onto the enemy
+      ctx.beginPath();
+      ctx.arc(x, y, e.width / 2 + (1 - progress) * 60, 0, Math.PI * 2);
+      ctx.stroke();
+      break;
+
+    case 'homing': {
+      // Lock-on brackets closing in on the pilot the missiles will chase
+      const { x: px, y: py } = targetPlayer(world, e.x, e.y);
+      const r = 20 + (1 - progress) * 30;
+      ctx.translate(px, py);
+      ctx.rotate(progress * Math.PI / 2);
+      for (let i = 0; i < 4; i++) {
+        ctx.rotate(Math.PI / 2);
+        ctx.beginPath();
+        ctx.moveTo(r, r - 8);
+        ctx.lineTo(r, r);
+        ctx.lineTo(r - 8, r);
+        ctx.stroke();
+      }
+      break;
+    }
+  }
+  ctx.restore();
+};
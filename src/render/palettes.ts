@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { COLORS } from '../game/constants';
+
+// --- Colour Palettes ---
+// The simulation stamps COLORS values onto entities, so palettes are applied at draw time:
+// the renderer maps each default colour to its replacement. Every palette keeps enemy shots
+// (warm, with a white core) far apart from the player's (white or cool) for its kind of
+// colour blindness. Colours outside COLORS (bosses, level backgrounds) are left alone.
+
+export type ColorPalette = 'default' | 'deuteranopia' | 'protanopia' | 'tritanopia';
+
+export type ColorTable = Record<keyof typeof COLORS, string>;
+
+/** Labels are in the i18n catalogs, under the palette's id. */
+export const PALETTES: Record<ColorPalette, { colors: ColorTable }> = {
+  default: { colors: COLORS },
+  deuteranopia: {
+    colors: {
+      ...COLORS,
+      PLAYER: '#56b4e9',
+      BASIC: '#e69f00',
+      FAST: '#f0e442',
+      HEAVY: '#cc79a7',
+      TRIPLE: '#56b4e9',
+      SHIELD: '#0072b2',
+      SPEED: '#009e73',
+      ENEMY_BULLET: '#ff8c00',
+    },
+  },
+  protanopia: {
+    colors: {
+      ...COLORS,
+      PLAYER: '#56b4e9',
+      BASIC: '#f0e442',
+      FAST: '#e69f00',
+      HEAVY: '#cc79a7',
+      TRIPLE: '#56b4e9',
+      SHIELD: '#0072b2',
+      LIFE: '#e69f00',
+      SPEED: '#009e73',
+      // Reds read as dark to protanopes; a bright amber stays visible on the black sky.
+      ENEMY_BULLET: '#ffb000',
+    },
+  },
+  tritanopia: {
+    colors: {
+      ...COLORS,
+      PLAYER: '#00e5e5',
+      BASIC: '#ff3e3e',
+      FAST: '#ff8fb1',
+      HEAVY: '#d81b60',
+      TRIPLE: '#00e5e5',
+      SHIELD: '#00a3a3',
+      SCORE: '#ff8fb1',
+      ENEMY_BULLET: '#ff2a2a',
+    },
+  },
+};
+
+export const PALETTE_IDS = Object.keys(PALETTES) as ColorPalette[];
+
+const REMAPS = new Map(PALETTE_IDS.map(id => {
+  const { colors } = PALETTES[id];
+  const map = new Map((Object.keys(COLORS) as (keyof typeof COLORS)[]).map(key => [COLORS[key], colors[key]]));
+  return [id, map];
+}));
+
+/** The palette's replacement for a colour from COLORS; other colours pass through unchanged. */
+export const recolor = (palette: ColorPalette, color: string) => REMAPS.get(palette)?.get(color) ?? color;
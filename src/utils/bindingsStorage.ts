@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createDefaultBindings, parseBindings, type Bindings } from '../input/bindings';
+
+// --- Bindings Storage ---
+// Saved whenever the controls screen changes something. Unreadable or missing bindings
+// fall back to the defaults; there's nothing worth keeping from a broken save.
+
+const BINDINGS_KEY = 'tina-star-pioneer:bindings';
+
+export const loadBindings = (): Bindings => {
+  try {
+    const raw = localStorage.getItem(BINDINGS_KEY);
+    return raw ? parseBindings(JSON.parse(raw)) : createDefaultBindings();
+  } catch (err) {
+    console.warn('Saved controls could not be read; using the defaults.', err);
+    return createDefaultBindings();
+  }
+};
+
+export const saveBindings = (bindings: Bindings) => {
+  try {
+    localStorage.setItem(BINDINGS_KEY, JSON.stringify(bindings));
+  } catch (err) {
+    console.warn('Failed to save controls.', err);
+  }
+};
@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- File Helpers ---
+
+/** Offers `data` to the user as a downloadable JSON file. */
+export const downloadJson = (filename: string, data: unknown) => {
+  const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/** Reads a user-selected file as JSON. Rejects if the file is not valid JSON. */
+export const readJsonFile = async (file: File): Promise<unknown> => JSON.parse(await file.text());
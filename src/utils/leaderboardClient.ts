@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  claimedRecord,
+  compareEntries,
+  windowStart,
+  type LeaderboardPage,
+  type PlayerRank,
+  type ScoreEntry,
+  type ScoreQuery,
+  type ScoreRecord,
+  type ScoreSubmission,
+} from '../game/leaderboard';
+import type { Replay } from '../game/replay';
+import { DEFAULT_SHIP } from '../game/ships';
+
+// --- Leaderboard Client ---
+// Talks to the leaderboard server (server/index.ts) and falls back to a board kept in
+// localStorage when it can't be reached, e.g. on a static host or offline. Every submitted
+// score is also kept locally, so the fallback board shows the player's own history.
+
+export type BoardSource = 'server' | 'local';
+
+const LOCAL_SCORES_KEY = 'tina-star-pioneer:local-scores';
+const PILOT_NAME_KEY = 'tina-star-pioneer:pilot-name';
+/** The lowest entries beyond this are dropped from the local board. */
+const LOCAL_LIMIT = 200;
+const REQUEST_TIMEOUT_MS = 4000;
+/** Submitting waits for the server to replay the whole run first. */
+const SUBMIT_TIMEOUT_MS = 30_000;
+
+type BoardFilter = Pick<ScoreQuery, 'difficulty' | 'level' | 'ship' | 'window'>;
+
+/** The server answered, but refused the request. */
+class ServerError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'ServerError';
+  }
+}
+
+const request = async <T>(url: string, init?: RequestInit, timeoutMs = REQUEST_TIMEOUT_MS): Promise<T> => {
+  const res = await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new ServerError(res.status, body?.error ?? `${res.status} ${res.statusText}`);
+  }
+  return res.json() as Promise<T>;
+};
+
+const searchParams = (filter: BoardFilter, extra: Record<string, string | number> = {}) => {
+  const params = new URLSearchParams({ difficulty: filter.difficulty, window: filter.window });
+  if (filter.level !== undefined) params.set('level', String(filter.level));
+  if (filter.ship !== undefined) params.set('ship', filter.ship);
+  Object.entries(extra).forEach(([key, value]) => params.set(key, String(value)));
+  return params;
+};
+
+// --- Local Board ---
+
+const readLocal = (): ScoreEntry[] => {
+  try {
+    const data = JSON.parse(localStorage.getItem(LOCAL_SCORES_KEY) ?? '[]');
+    return Array.isArray(data) ? data : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeLocal = (entries: ScoreEntry[]) => {
+  try {
+    localStorage.setItem(LOCAL_SCORES_KEY, JSON.stringify(entries.sort(compareEntries).slice(0, LOCAL_LIMIT)));
+  } catch (err) {
+    console.warn('Failed to save local scores.', err);
+  }
+};
+
+/** Local entries on a board, in board order. Entries saved before ships flew the default one. */
+const localBoard = (filter: BoardFilter) => {
+  const since = windowStart(filter.window)?.toISOString();
+  return readLocal()
+    .map(e => ({ ...e, ship: e.ship ?? DEFAULT_SHIP }))
+    .filter(e => e.difficulty === filter.difficulty && (filter.level === undefined || e.level === filter.level) &&
+      (filter.ship === undefined || e.ship === filter.ship) && (!since || e.createdAt >= since))
+    .sort(compareEntries);
+};
+
+const submitLocal = (record: ScoreRecord): ScoreEntry => {
+  const entries = readLocal();
+  const entry: ScoreEntry = {
+    ...record,
+    id: entries.reduce((max, e) => Math.max(max, e.id), 0) + 1,
+    rank: 0,
+    createdAt: new Date().toISOString(),
+  };
+  writeLocal([...entries, entry]);
+  entry.rank = localBoard({ difficulty: entry.difficulty, window: 'all' }).findIndex(e => e.id === entry.id) + 1;
+  return entry;
+};
+
+const listLocal = (query: ScoreQuery): LeaderboardPage => {
+  const board = localBoard(query);
+  return {
+    entries: board.slice(query.offset, query.offset + query.limit).map((e, i) => ({ ...e, rank: query.offset + i + 1 })),
+    total: board.length,
+  };
+};
+
+const rankLocal = (name: string, filter: BoardFilter): PlayerRank | null => {
+  const board = localBoard(filter);
+  const key = name.toLowerCase();
+  const index = board.findIndex(e => e.name.toLowerCase() === key);
+  return index === -1 ? null : { name: board[index].name, score: board[index].score, rank: index + 1, total: board.length };
+};
+
+// --- API ---
+
+export interface SubmitResult {
+  source: BoardSource;
+  entry: ScoreEntry;
+  /** Why the server refused the run (it failed verification); the score is then local only. */
+  rejected?: string;
+}
+
+/**
+ * Submits a finished run (its replay, for the server to verify) under `name`, falling back
+ * to the local board. Either way the score is kept locally.
+ */
+export const submitScore = async (name: string, replay: Replay): Promise<SubmitResult> => {
+  const submission: ScoreSubmission = { name, replay };
+  const local = submitLocal(claimedRecord(submission));
+  try {
+    const entry = await request<ScoreEntry>('/api/scores', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(submission),
+    }, SUBMIT_TIMEOUT_MS);
+    return { source: 'server', entry };
+  } catch (err) {
+    if (err instanceof ServerError && err.status === 422) return { source: 'local', entry: local, rejected: err.message };
+    console.warn('Leaderboard server unreachable; score saved locally only.', err);
+    return { source: 'local', entry: local };
+  }
+};
+
+export const fetchScores = async (query: ScoreQuery): Promise<{ source: BoardSource; page: LeaderboardPage }> => {
+  try {
+    const page = await request<LeaderboardPage>(`/api/scores?${searchParams(query, { limit: query.limit, offset: query.offset })}`);
+    return { source: 'server', page };
+  } catch {
+    return { source: 'local', page: listLocal(query) };
+  }
+};
+
+/** A player's best placing on a board, from the same source the board was read from. */
+export const fetchRank = async (name: string, filter: BoardFilter, source: BoardSource): Promise<PlayerRank | null> => {
+  if (source === 'local') return rankLocal(name, filter);
+  try {
+    return await request<PlayerRank>(`/api/scores/rank?${searchParams(filter, { name })}`);
+  } catch {
+    return null;
+  }
+};
+
+export const loadPilotName = () => {
+  try {
+    return localStorage.getItem(PILOT_NAME_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const savePilotName = (name: string) => {
+  try {
+    localStorage.setItem(PILOT_NAME_KEY, name);
+  } catch {
+    // Only a convenience; the name is entered again next time.
+  }
+};
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createProfile, parseProfile, type Profile } from '../game/profile';
+
+// --- Profile Storage ---
+// The profile is small and saved at checkpoints (run end, level clear, unlocks), so
+// synchronous localStorage is enough. Storage may be unavailable (private mode, disabled
+// cookies); the game then keeps the profile in memory for the session.
+
+const PROFILE_KEY = 'tina-star-pioneer:profile';
+/** An unreadable save is moved here instead of being overwritten. */
+const BROKEN_PROFILE_KEY = `${PROFILE_KEY}:unreadable`;
+
+export const loadProfile = (): Profile => {
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(PROFILE_KEY);
+  } catch (err) {
+    console.warn('Local storage unavailable; progress will not be saved.', err);
+    return createProfile();
+  }
+  if (!raw) return createProfile();
+
+  try {
+    return parseProfile(JSON.parse(raw));
+  } catch (err) {
+    console.warn(`Saved profile could not be read; starting fresh and keeping the old copy under "${BROKEN_PROFILE_KEY}".`, err);
+    try {
+      localStorage.setItem(BROKEN_PROFILE_KEY, raw);
+    } catch {
+      // Nothing more we can do; the fresh profile will replace it on the next save.
+    }
+    return createProfile();
+  }
+};
+
+export const saveProfile = (profile: Profile) => {
+  profile.updatedAt = new Date().toISOString();
+  try {
+    localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+  } catch (err) {
+    console.warn('Failed to save profile.', err);
+  }
+};
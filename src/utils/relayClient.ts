@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  parseRelayMessage,
+  REJOIN_GRACE_MS,
+  RELAY_PATH,
+  type ClientMessage,
+  type PeerMessage,
+  type RelayMessage,
+} from '../game/relay';
+
+// --- Relay Client ---
+// The game's connection to the co-op relay (server/rooms.ts), on the same host the page came
+// from (Vite proxies it in development). Once seated in a room, a dropped connection is
+// retried with growing delays and the seat reclaimed with its token, for as long as the
+// relay holds it. Peer messages sent while disconnected are dropped; the lockstep layer
+// asks for what it missed once the link is back.
+
+export type RelayStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface RelayHandlers {
+  onMessage: (message: RelayMessage) => void;
+  onStatus: (status: RelayStatus) => void;
+}
+
+export interface RelayConnection {
+  socket: WebSocket | null;
+  status: RelayStatus;
+  /** Our seat, once the relay has given one; reclaimed with its token after a drop. */
+  room: { code: string; slot: number; token: string } | null;
+  /** Reconnection attempts since the link was last open. */
+  attempts: number;
+  /** When the current outage began, to stop retrying once the relay has given the seat up. */
+  lostAt: number | null;
+  retry: ReturnType<typeof setTimeout> | null;
+  handlers: RelayHandlers;
+}
+
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 5000;
+
+const relayUrl = () => `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}${RELAY_PATH}`;
+
+const setStatus = (connection: RelayConnection, status: RelayStatus) => {
+  if (connection.status === status) return;
+  connection.status = status;
+  connection.handlers.onStatus(status);
+};
+
+const sendRaw = (connection: RelayConnection, message: ClientMessage) => {
+  const socket = connection.socket;
+  if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const connect = (connection: RelayConnection, first: ClientMessage) => {
+  const socket = new WebSocket(relayUrl());
+  connection.socket = socket;
+
+  socket.onopen = () => sendRaw(connection, first);
+  socket.onmessage = e => {
+    let message: RelayMessage;
+    try {
+      message = parseRelayMessage(JSON.parse(String(e.data)));
+    } catch (err) {
+      console.warn('Ignoring malformed relay message.', err);
+      return;
+    }
+    if (message.type === 'room') {
+      connection.room = { code: message.code, slot: message.slot, token: message.token };
+      connection.attempts = 0;
+      connection.lostAt = null;
+      setStatus(connection, 'open');
+    }
+    // A seat that can't be reclaimed or had nowhere to go ends the connection.
+    if (message.type === 'error' && connection.status !== 'open') closeRelay(connection);
+    if (message.type === 'peerLeft') connection.room = null;
+    connection.handlers.onMessage(message);
+  };
+  socket.onclose = () => {
+    if (connection.socket !== socket || connection.status === 'closed') return;
+    connection.socket = null;
+    const room = connection.room;
+    connection.lostAt ??= Date.now();
+    if (!room || Date.now() - connection.lostAt > REJOIN_GRACE_MS) {
+      setStatus(connection, 'closed');
+      return;
+    }
+    setStatus(connection, 'reconnecting');
+    const delay = Math.min(RETRY_BASE_MS * 2 ** connection.attempts, RETRY_MAX_MS);
+    connection.attempts += 1;
+    connection.retry = setTimeout(() => connect(connection, { type: 'rejoin', code: room.code, token: room.token }), delay);
+  };
+};
+
+/** Connects to the relay and sends `first` (create or join a room) once connected. */
+export const openRelay = (first: ClientMessage, handlers: RelayHandlers): RelayConnection => {
+  const connection: RelayConnection = { socket: null, status: 'connecting', room: null, attempts: 0, lostAt: null, retry: null, handlers };
+  connect(connection, first);
+  return connection;
+};
+
+export const sendToPeer = (connection: RelayConnection, data: PeerMessage) => sendRaw(connection, { type: 'peer', data });
+
+/** Leaves the room, if in one, and closes the connection for good. */
+export const closeRelay = (connection: RelayConnection) => {
+  if (connection.retry) clearTimeout(connection.retry);
+  sendRaw(connection, { type: 'leave' });
+  setStatus(connection, 'closed');
+  connection.socket?.close();
+  connection.socket = null;
+};
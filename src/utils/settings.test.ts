@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createDefaultSettings, parseSettings } from './settings';
+
+describe('parseSettings', () => {
+  // The defaults read the reduced-motion preference from the browser.
+  beforeAll(() => vi.stubGlobal('window', { matchMedia: () => ({ matches: false }) }));
+  afterAll(() => vi.unstubAllGlobals());
+
+  it('follows the browser language until the player picks one', () => {
+    expect(createDefaultSettings().language).toBeNull();
+    expect(parseSettings({}).language).toBeNull();
+    expect(parseSettings({ language: 'en' }).language).toBe('en');
+  });
+
+  it('ignores languages without a catalog', () => {
+    expect(parseSettings({ language: 'fr' }).language).toBeNull();
+  });
+
+  it('keeps valid fields and falls back to the defaults for the rest', () => {
+    const settings = parseSettings({ volume: { music: 0.25, sfx: 3 }, shake: -1, muted: true, reducedFlash: 'yes' });
+    const defaults = createDefaultSettings();
+    expect(settings.volume).toEqual({ ...defaults.volume, music: 0.25 });
+    expect(settings.shake).toBe(defaults.shake);
+    expect(settings.muted).toBe(true);
+    expect(settings.reducedFlash).toBe(defaults.reducedFlash);
+  });
+
+  it('throws on data that is not settings at all', () => {
+    expect(() => parseSettings(null)).toThrow(/not a JSON object/);
+    expect(() => parseSettings([])).toThrow(/not a JSON object/);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DEFAULT_VOLUMES, type Bus } from '../audio/SoundManager';
+import { LOCALE_IDS, type Locale } from '../i18n/i18n';
+import { DEFAULT_RENDER_OPTIONS, type RenderOptions } from '../render/draw';
+import { PALETTE_IDS, type ColorPalette } from '../render/palettes';
+
+// --- Settings ---
+// Comfort and accessibility options from the settings screen. Display options are passed
+// straight to the renderer; volumes go to the sound manager. The language follows the
+// browser's until the player picks one, and only a picked one is saved.
+
+export interface Settings extends RenderOptions {
+  /** Bus levels, 0 to 1. */
+  volume: Record<Bus, number>;
+  muted: boolean;
+  /** The player's pick, or null to follow the browser's, detected whenever it is needed. */
+  language: Locale | null;
+}
+
+const BUSES: Bus[] = ['master', 'music', 'sfx'];
+
+/** Follows the system's reduced-motion preference until the player chooses. */
+const prefersReducedMotion = () => window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+
+export const createDefaultSettings = (): Settings => ({
+  ...DEFAULT_RENDER_OPTIONS,
+  reducedMotion: prefersReducedMotion(),
+  volume: { ...DEFAULT_VOLUMES },
+  muted: false,
+  language: null,
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFraction = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value <= 1;
+
+/**
+ * Reads saved settings, keeping every valid field and using the defaults for the rest,
+ * so options added later simply start at their default. Throws if the data isn't an object.
+ */
+export const parseSettings = (data: unknown): Settings => {
+  if (!isObject(data)) throw new Error('Settings are not a JSON object');
+  const settings = createDefaultSettings();
+  if (isObject(data.volume)) {
+    const volume = data.volume;
+    BUSES.forEach(bus => {
+      if (isFraction(volume[bus])) settings.volume[bus] = volume[bus];
+    });
+  }
+  if (isFraction(data.shake)) settings.shake = data.shake;
+  if (PALETTE_IDS.includes(data.palette as ColorPalette)) settings.palette = data.palette as ColorPalette;
+  if (LOCALE_IDS.includes(data.language as Locale)) settings.language = data.language as Locale;
+  (['muted', 'reducedMotion', 'reducedFlash', 'highContrast', 'showHitbox'] as const).forEach(key => {
+    if (typeof data[key] === 'boolean') settings[key] = data[key];
+  });
+  return settings;
+};
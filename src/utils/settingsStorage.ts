@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createDefaultSettings, parseSettings, type Settings } from './settings';
+
+// --- Settings Storage ---
+// Saved on every change from the settings screen or the mute toggle. Like the bindings,
+// an unreadable save just falls back to the defaults.
+
+const SETTINGS_KEY = 'tina-star-pioneer:settings';
+
+export const loadSettings = (): Settings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? parseSettings(JSON.parse(raw)) : createDefaultSettings();
+  } catch (err) {
+    console.warn('Saved settings could not be read; using the defaults.', err);
+    return createDefaultSettings();
+  }
+};
+
+export const saveSettings = (settings: Settings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn('Failed to save settings.', err);
+  }
+};
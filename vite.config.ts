@@ -19,6 +19,11 @@ export default defineConfig(({mode}) => {
       // HMR is disabled in AI Studio via DISABLE_HMR env var.
       // Do not modifyâfile watching is disabled to prevent flickering during agent edits.
       hmr: process.env.DISABLE_HMR !== 'true',
+      // The leaderboard API and the co-op relay run separately (npm run server, npm run relay).
+      proxy: {
+        '/api': `http://localhost:${env.PORT || 3001}`,
+        '/relay': { target: `ws://localhost:${env.RELAY_PORT || 3002}`, ws: true },
+      },
     },
   };
 });